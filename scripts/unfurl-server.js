@@ -0,0 +1,275 @@
+#!/usr/bin/env node
+/**
+ * Local link unfurler for development
+ *
+ * Serves `GET /unfurl?url=<page URL>` with the page's OpenGraph title,
+ * description and image as JSON, for use with `HttpLinkUnfurler`:
+ *
+ *   new HttpLinkUnfurler('http://localhost:8787/unfurl')
+ *
+ * Requires Node 18+ (global fetch). Only http(s) pages on hosts resolving
+ * to public addresses are fetched, but fetch resolves each host again, so a
+ * DNS rebinding host can still reach a private address. Do not expose it to
+ * the internet; use a hardened unfurl service in production.
+ *
+ * Environment: UNFURL_PORT (default 8787), UNFURL_ALLOW_ORIGIN (default *)
+ */
+const dns = require('dns').promises;
+const http = require('http');
+
+const PORT = Number(process.env.UNFURL_PORT) || 8787;
+const ALLOW_ORIGIN = process.env.UNFURL_ALLOW_ORIGIN || '*';
+const FETCH_TIMEOUT_MS = 5000;
+const MAX_HTML_BYTES = 512 * 1024;
+const MAX_REDIRECTS = 5;
+const CACHE_TTL_MS = 60 * 60 * 1000;
+
+// url -> { expiresAt, preview }
+const cache = new Map();
+
+function isPublicIPv4(a, b) {
+  return !(
+    a === 0 ||
+    a === 10 ||
+    a === 127 ||
+    (a === 100 && b >= 64 && b <= 127) ||
+    (a === 169 && b === 254) ||
+    (a === 172 && b >= 16 && b <= 31) ||
+    (a === 192 && b === 168)
+  );
+}
+
+/**
+ * Reject loopback and private network hosts written as names or IP literals
+ */
+function isPublicHost(hostname) {
+  const host = hostname.replace(/^\[|\]$/g, '').toLowerCase();
+  if (host === 'localhost' || host.endsWith('.localhost')) return false;
+  if (host.endsWith('.local') || host.endsWith('.internal')) return false;
+
+  const ipv4 = host.match(/^(\d+)\.(\d+)\.(\d+)\.(\d+)$/);
+  if (ipv4) return isPublicIPv4(Number(ipv4[1]), Number(ipv4[2]));
+
+  // IPv4-mapped IPv6, dotted (::ffff:127.0.0.1) or hex (::ffff:7f00:1)
+  const mapped = host.match(/^::ffff:(.+)$/);
+  if (mapped) {
+    const hex = mapped[1].match(/^([0-9a-f]{1,4}):[0-9a-f]{1,4}$/);
+    if (hex) {
+      const high = parseInt(hex[1], 16);
+      return isPublicIPv4(high >> 8, high & 0xff);
+    }
+    return isPublicHost(mapped[1]);
+  }
+
+  // IPv6 literals: unspecified, loopback, unique local and link-local
+  if (host.includes(':')) {
+    return !(
+      host === '::' ||
+      host === '::1' ||
+      /^(fc|fd|fe8|fe9|fea|feb)/.test(host)
+    );
+  }
+
+  return true;
+}
+
+/**
+ * Reject hosts that are private or resolve to a private address
+ */
+async function checkHost(hostname) {
+  if (!isPublicHost(hostname)) {
+    throw new Error(`${hostname} is a private address`);
+  }
+
+  const host = hostname.replace(/^\[|\]$/g, '');
+  const addresses = await dns.lookup(host, { all: true });
+  if (addresses.some(({ address }) => !isPublicHost(address))) {
+    throw new Error(`${hostname} resolves to a private address`);
+  }
+}
+
+function decodeEntities(text) {
+  return text
+    .replace(/&#x([0-9a-f]+);/gi, (_, hex) =>
+      String.fromCodePoint(parseInt(hex, 16))
+    )
+    .replace(/&#(\d+);/g, (_, dec) => String.fromCodePoint(Number(dec)))
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;|&apos;/g, "'")
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&amp;/g, '&');
+}
+
+/**
+ * Read OpenGraph, Twitter card and plain HTML metadata from a page
+ */
+function parseMetadata(html, pageUrl) {
+  const meta = {};
+  for (const [tag] of html.matchAll(/<meta\s[^>]*>/gi)) {
+    const attributes = {};
+    for (const [, name, , value] of tag.matchAll(
+      /([a-z:-]+)\s*=\s*(["'])(.*?)\2/gi
+    )) {
+      attributes[name.toLowerCase()] = decodeEntities(value);
+    }
+
+    const key = (attributes.property || attributes.name || '').toLowerCase();
+    if (key && attributes.content && !(key in meta)) {
+      meta[key] = attributes.content;
+    }
+  }
+
+  const titleTag = html.match(/<title[^>]*>([^<]*)<\/title>/i);
+  const image = meta['og:image'] || meta['twitter:image'];
+
+  let imageUrl;
+  if (image) {
+    try {
+      imageUrl = new URL(image, pageUrl).href;
+    } catch {
+      imageUrl = undefined;
+    }
+  }
+
+  return {
+    title:
+      meta['og:title'] ||
+      meta['twitter:title'] ||
+      (titleTag && decodeEntities(titleTag[1]).trim()) ||
+      undefined,
+    description:
+      meta['og:description'] ||
+      meta['twitter:description'] ||
+      meta.description ||
+      undefined,
+    image: imageUrl,
+  };
+}
+
+/**
+ * Read at most MAX_HTML_BYTES of the response body
+ */
+async function readHead(response) {
+  const reader = response.body.getReader();
+  const chunks = [];
+  let size = 0;
+
+  while (size < MAX_HTML_BYTES) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    chunks.push(value);
+    size += value.length;
+  }
+  reader.cancel().catch(() => {});
+
+  return Buffer.concat(chunks).toString('utf8');
+}
+
+/**
+ * Fetch a page, following redirects only to public http(s) hosts
+ *
+ * Redirects are followed by hand so each hop's host is resolved and
+ * checked before it is requested, rather than after fetch has already
+ * followed it.
+ *
+ * @returns The final response and its URL
+ */
+async function fetchPage(url) {
+  const signal = AbortSignal.timeout(FETCH_TIMEOUT_MS);
+  let current = new URL(url);
+
+  for (let hops = 0; ; hops++) {
+    await checkHost(current.hostname);
+    const response = await fetch(current.href, {
+      redirect: 'manual',
+      signal,
+      headers: {
+        Accept: 'text/html,application/xhtml+xml',
+        'User-Agent': 'human-agent-chat-unfurler/1.0',
+      },
+    });
+
+    const location = response.headers.get('location');
+    if (response.status < 300 || response.status >= 400 || !location) {
+      return { response, url: current.href };
+    }
+    response.body?.cancel().catch(() => {});
+
+    if (hops >= MAX_REDIRECTS) throw new Error('Too many redirects');
+    current = new URL(location, current);
+    if (!['http:', 'https:'].includes(current.protocol)) {
+      throw new Error('Redirected to a non-http(s) URL');
+    }
+  }
+}
+
+async function unfurl(url) {
+  const cached = cache.get(url);
+  if (cached && cached.expiresAt > Date.now()) return cached.preview;
+
+  const { response, url: pageUrl } = await fetchPage(url);
+
+  let preview = null;
+  const contentType = response.headers.get('content-type') || '';
+  if (response.ok && contentType.includes('html')) {
+    const metadata = parseMetadata(await readHead(response), pageUrl);
+    if (metadata.title || metadata.description || metadata.image) {
+      preview = metadata;
+    }
+  } else {
+    response.body?.cancel().catch(() => {});
+  }
+
+  cache.set(url, { expiresAt: Date.now() + CACHE_TTL_MS, preview });
+  return preview;
+}
+
+function send(res, status, body) {
+  res.writeHead(status, {
+    'Content-Type': 'application/json',
+    'Access-Control-Allow-Origin': ALLOW_ORIGIN,
+  });
+  res.end(JSON.stringify(body));
+}
+
+const server = http.createServer(async (req, res) => {
+  const requestUrl = new URL(req.url, `http://localhost:${PORT}`);
+
+  if (req.method === 'OPTIONS') {
+    res.writeHead(204, {
+      'Access-Control-Allow-Origin': ALLOW_ORIGIN,
+      'Access-Control-Allow-Headers': 'Accept',
+    });
+    return res.end();
+  }
+  if (req.method !== 'GET' || requestUrl.pathname !== '/unfurl') {
+    return send(res, 404, { error: 'Not found' });
+  }
+
+  let target;
+  try {
+    target = new URL(requestUrl.searchParams.get('url') || '');
+  } catch {
+    return send(res, 400, { error: 'Missing or invalid url parameter' });
+  }
+  if (!['http:', 'https:'].includes(target.protocol)) {
+    return send(res, 400, { error: 'Only http(s) URLs can be unfurled' });
+  }
+  if (!isPublicHost(target.hostname)) {
+    return send(res, 400, { error: 'Private addresses cannot be unfurled' });
+  }
+
+  try {
+    const preview = await unfurl(target.href);
+    if (!preview) return send(res, 404, { error: 'No preview available' });
+    send(res, 200, { url: target.href, ...preview });
+  } catch (error) {
+    console.warn(`Could not unfurl ${target.href}:`, error.message);
+    send(res, 502, { error: 'Could not fetch the page' });
+  }
+});
+
+server.listen(PORT, () => {
+  console.log(`🔗 Link unfurler listening on http://localhost:${PORT}/unfurl`);
+});
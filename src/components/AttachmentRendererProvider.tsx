@@ -0,0 +1,84 @@
+import React, { createContext, useContext, useMemo } from 'react';
+import { AttachmentRenderer, MessageAttachment } from '../types';
+
+/**
+ * Custom attachment renderers available to messages
+ */
+export interface AttachmentRenderers {
+  /** Keyed by attachment type, e.g. "vimeo" or "document" */
+  byType: Record<string, AttachmentRenderer>;
+  /** Keyed by MIME type ("text/csv") or MIME type family ("image/*") */
+  byMimeType: Record<string, AttachmentRenderer>;
+}
+
+const AttachmentRendererContext = createContext<AttachmentRenderers>({
+  byType: {},
+  byMimeType: {},
+});
+
+interface AttachmentRendererProviderProps {
+  /** Renderers by attachment type; built-in types can be overridden too */
+  renderers?: Record<string, AttachmentRenderer>;
+  /** Renderers by MIME type, e.g. `{ 'text/csv': renderCsvPreview }` */
+  mimeTypeRenderers?: Record<string, AttachmentRenderer>;
+  children: React.ReactNode;
+}
+
+/**
+ * Provides custom attachment renderers to every message below it
+ *
+ * Providers can be nested; inner renderers take precedence over outer ones
+ * for the same key.
+ */
+const AttachmentRendererProvider: React.FC<AttachmentRendererProviderProps> = ({
+  renderers,
+  mimeTypeRenderers,
+  children,
+}) => {
+  const parent = useContext(AttachmentRendererContext);
+
+  const value = useMemo(
+    () => ({
+      byType: { ...parent.byType, ...renderers },
+      byMimeType: { ...parent.byMimeType, ...mimeTypeRenderers },
+    }),
+    [parent, renderers, mimeTypeRenderers]
+  );
+
+  return (
+    <AttachmentRendererContext.Provider value={value}>
+      {children}
+    </AttachmentRendererContext.Provider>
+  );
+};
+
+/**
+ * Renderers from the nearest AttachmentRendererProvider
+ */
+export const useAttachmentRenderers = (): AttachmentRenderers =>
+  useContext(AttachmentRendererContext);
+
+/**
+ * Pick the renderer for an attachment: its exact MIME type first, then the
+ * MIME type family ("image/*"), then its attachment type
+ *
+ * @returns The renderer, or undefined to use the built-in rendering
+ */
+export function findAttachmentRenderer(
+  renderers: AttachmentRenderers,
+  attachment: MessageAttachment
+): AttachmentRenderer | undefined {
+  // Drop parameters such as "; charset=utf-8"
+  const mimeType = attachment.mimeType?.split(';')[0].trim().toLowerCase();
+
+  if (mimeType) {
+    const family = `${mimeType.split('/')[0]}/*`;
+    const byMimeType =
+      renderers.byMimeType[mimeType] || renderers.byMimeType[family];
+    if (byMimeType) return byMimeType;
+  }
+
+  return renderers.byType[attachment.type];
+}
+
+export default AttachmentRendererProvider;
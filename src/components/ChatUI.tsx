@@ -1,42 +1,114 @@
-import React, { useState, useEffect, useRef, useCallback } from 'react';
-import {
-  collection,
-  query,
-  orderBy,
-  limit,
-  onSnapshot,
-  addDoc,
-  serverTimestamp,
-  Unsubscribe,
-} from 'firebase/firestore';
-import { Send, Paperclip, Smile } from 'lucide-react';
-import { getDb } from '../lib/firebase';
+import React, {
+  useState,
+  useEffect,
+  useLayoutEffect,
+  useMemo,
+  useRef,
+  useCallback,
+} from 'react';
+import { QueryDocumentSnapshot, Unsubscribe } from 'firebase/firestore';
+import { Send, Paperclip, Smile, Users } from 'lucide-react';
 import { AccessControl } from '../utils/access-control';
+import { Reactions } from '../utils/reactions';
+import { Messages } from '../utils/messages';
+import { Typing } from '../utils/typing';
+import {
+  Presence,
+  PRESENCE_HEARTBEAT_MS,
+  getPresenceState,
+} from '../utils/presence';
+import {
+  ReadReceipts,
+  findFirstUnreadMessageId,
+  groupReadReceiptsByMessage,
+} from '../utils/read-receipts';
+import { Outbox, OutboxEntry } from '../utils/outbox';
+import { FirestoreUserDirectory } from '../utils/user-directory';
+import { needsUnfurl } from '../utils/link-unfurl';
+import { DataRequestResult, parseDataRequest } from '../utils/data-request';
+import { FormRequests, getFormRequestTitle } from '../utils/form-requests';
+import { collectGalleryImages } from '../utils/media-helpers';
 import {
   Message,
+  MessageAttachment,
   User,
   AccessLevel,
-  extractMentions,
+  ActivityStatus,
+  PresenceRecord,
+  PresenceState,
+  ReadReceipt,
+  DeliveryStatus,
+  UserDirectory,
+  LinkUnfurler,
+  MessageMention,
   isAIAgent,
   isSystemUser,
 } from '../types';
 import {
   createMessageWithProcessing,
-  containsAgentMentions,
+  encodeMentions,
+  parseMentions,
+  getThreadAgentId,
+  mergeMessages,
+  applyMessageChanges,
+  isFirstOfDay,
+  isGroupedWithPrevious,
 } from '../utils/message-helpers';
 import MessageItem from './MessageItem';
+import DateSeparator from './DateSeparator';
+import ThreadPanel from './ThreadPanel';
+import VirtualMessageList from './VirtualMessageList';
+import EditHistoryModal from './EditHistoryModal';
+import UndoToast from './UndoToast';
+import TypingIndicator from './TypingIndicator';
+import MemberListPanel from './MemberListPanel';
+import PresenceDot from './PresenceDot';
 import FormModal from './FormModal';
+import Lightbox from './Lightbox';
 import MediaUploadModal from './MediaUploadModal';
 
+/**
+ * Typing indicator timing: refresh the status while typing and clear it
+ * once the user has been idle for a moment
+ */
+const TYPING_REFRESH_MS = 4000;
+const TYPING_IDLE_MS = 5000;
+
+/**
+ * Pause in typing before the user directory is searched for mentions
+ */
+const MENTION_SEARCH_DEBOUNCE_MS = 150;
+
 interface ChatUIProps {
   firebasePath: string;
   currentUser: User;
+  /** Number of messages per page (live window and each older page) */
   maxMessages?: number;
   enableReactions?: boolean;
   enableReplies?: boolean;
   enableMultiModal?: boolean;
   enableForms?: boolean;
+  /** Form requests sent from this chat stop accepting responses after this */
+  formExpiresAfterMs?: number;
+  /** Hide responses to forms sent from here from other members, in the UI only */
+  privateFormResponses?: boolean;
+  /** Play YouTube links inline; otherwise thumbnails open YouTube */
+  enableVideoEmbeds?: boolean;
   agentIds?: string[];
+  purgeDeletedAfterMs?: number;
+  /** Render only the visible rows once more messages than this are loaded */
+  virtualizeAfter?: number;
+  /** Track online presence and show it on avatars and the member list */
+  enablePresence?: boolean;
+  /** Track read positions, show "Seen by" avatars and an unread divider */
+  enableReadReceipts?: boolean;
+  /**
+   * Who can be mentioned; defaults to the chat members and `agentIds`
+   * with profiles from the `users` collection
+   */
+  userDirectory?: UserDirectory;
+  /** Fetches previews for shared links; links stay plain cards without it */
+  linkUnfurler?: LinkUnfurler;
   onNewMessage?: (message: Message) => void;
   onError?: (error: Error) => void;
 }
@@ -49,7 +121,16 @@ const ChatUI: React.FC<ChatUIProps> = ({
   enableReplies = true,
   enableMultiModal = true,
   enableForms = true,
+  formExpiresAfterMs,
+  privateFormResponses = false,
+  enableVideoEmbeds = true,
   agentIds = [],
+  purgeDeletedAfterMs,
+  virtualizeAfter = 200,
+  enablePresence = true,
+  enableReadReceipts = true,
+  userDirectory: customUserDirectory,
+  linkUnfurler,
   onNewMessage,
   onError,
 }) => {
@@ -59,16 +140,60 @@ const ChatUI: React.FC<ChatUIProps> = ({
   const [isLoading, setIsLoading] = useState(true);
   const [hasAccess, setHasAccess] = useState<boolean | null>(null);
   const [accessLevel, setAccessLevel] = useState<AccessLevel | null>(null);
-  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [outboxEntries, setOutboxEntries] = useState<OutboxEntry[]>(() =>
+    Outbox.getEntries(firebasePath)
+  );
+
+  // History pagination state
+  const [hasOlderMessages, setHasOlderMessages] = useState(false);
+  const [isLoadingOlder, setIsLoadingOlder] = useState(false);
 
   // Modal states
   const [showFormModal, setShowFormModal] = useState(false);
   const [showMediaModal, setShowMediaModal] = useState(false);
-  const [formSchema, setFormSchema] = useState<any>(null);
+  const [lightboxImageKey, setLightboxImageKey] = useState<string | null>(null);
+  // The message whose data request is being answered, with its schema
+  const [formRequest, setFormRequest] = useState<{
+    message: Message;
+    result: DataRequestResult;
+  } | null>(null);
+
+  // Thread panel state
+  const [activeThreadId, setActiveThreadId] = useState<string | null>(null);
+
+  // Edit history state (admins only)
+  const [historyMessage, setHistoryMessage] = useState<Message | null>(null);
+
+  // Undo state for the most recent deletion
+  const [undoMessageId, setUndoMessageId] = useState<string | null>(null);
+
+  // Typing indicators and agent status of other participants
+  const [activityStatuses, setActivityStatuses] = useState<ActivityStatus[]>(
+    []
+  );
+
+  // Presence of chat members
+  const [presenceRecords, setPresenceRecords] = useState<PresenceRecord[]>([]);
+  const [memberIds, setMemberIds] = useState<string[]>([]);
+  const [showMembers, setShowMembers] = useState(false);
+  const [presenceNow, setPresenceNow] = useState(() => Date.now());
+
+  // Read receipts; the divider is placed from the read position when the
+  // chat was opened (both undefined until loaded)
+  const [readReceipts, setReadReceipts] = useState<ReadReceipt[]>([]);
+  const [lastReadAtOnOpen, setLastReadAtOnOpen] = useState<
+    string | null | undefined
+  >(undefined);
+  const [firstUnreadMessageId, setFirstUnreadMessageId] = useState<
+    string | null | undefined
+  >(undefined);
 
   // Emoji picker state
   const [showEmojiPicker, setShowEmojiPicker] = useState(false);
 
+  // Users picked from the mention autocomplete for the current draft
+  const [pickedMentions, setPickedMentions] = useState<MessageMention[]>([]);
+
   // Mention autocomplete state
   const [mentionState, setMentionState] = useState({
     isActive: false,
@@ -79,10 +204,48 @@ const ChatUI: React.FC<ChatUIProps> = ({
 
   // References
   const messagesEndRef = useRef<HTMLDivElement>(null);
+  const messagesContainerRef = useRef<HTMLDivElement>(null);
+  const oldestCursorRef = useRef<QueryDocumentSnapshot | null>(null);
+  const scrollRestoreRef = useRef<{ height: number; top: number } | null>(null);
+  const isNearBottomRef = useRef(true);
   const inputRef = useRef<HTMLTextAreaElement>(null);
   const unsubscribeRef = useRef<Unsubscribe | null>(null);
   const emojiPickerRef = useRef<HTMLDivElement>(null);
-  const db = getDb();
+  const lastTypingPublishRef = useRef(0);
+  const lastMarkedReadRef = useRef<string | null>(null);
+  const typingIdleTimeoutRef = useRef<ReturnType<typeof setTimeout>>();
+  const mentionSearchTimeoutRef = useRef<ReturnType<typeof setTimeout>>();
+  const mentionSearchIdRef = useRef(0);
+  // Links already sent to the unfurler, as "messageId|url"
+  const unfurlAttemptsRef = useRef(new Set<string>());
+
+  // Depend on the user's fields so a new currentUser object per render
+  // does not clear the typing status or restart searches
+  const {
+    id: currentUserId,
+    displayName: currentUserName,
+    isAgent: currentUserIsAgent,
+  } = currentUser;
+
+  // The user as passed to message actions, stable across renders so
+  // memoized rows keep their callbacks
+  const actor = useMemo<User>(
+    () => ({ id: currentUserId, displayName: currentUserName }),
+    [currentUserId, currentUserName]
+  );
+
+  // Agent IDs keyed by value, since the default array is new on every render
+  const agentIdsKey = agentIds.join(',');
+  const stableAgentIds = useMemo(
+    () => agentIdsKey.split(',').filter(Boolean),
+    [agentIdsKey]
+  );
+  const userDirectory = useMemo(
+    () =>
+      customUserDirectory ||
+      new FirestoreUserDirectory(firebasePath, stableAgentIds),
+    [customUserDirectory, firebasePath, stableAgentIds]
+  );
 
   // Emoji list for picker
   const REACTION_EMOJIS = [
@@ -103,38 +266,6 @@ const ChatUI: React.FC<ChatUIProps> = ({
     { emoji: '🔥', name: 'fire' },
   ];
 
-  // Demo users for mention autocomplete
-  const demoUsers: User[] = [
-    {
-      id: 'user1',
-      displayName: 'Alice Developer',
-      email: 'alice@example.com',
-      role: 'user',
-      isAgent: false,
-    },
-    {
-      id: 'user2',
-      displayName: 'Bob Manager',
-      email: 'bob@example.com',
-      role: 'admin',
-      isAgent: false,
-    },
-    {
-      id: 'carol_manager',
-      displayName: 'Carol Manager',
-      email: 'carol@example.com',
-      role: 'admin',
-      isAgent: false,
-    },
-    {
-      id: 'ai_assistant',
-      displayName: 'AI Assistant',
-      email: 'ai@example.com',
-      role: 'agent',
-      isAgent: true,
-    },
-  ];
-
   /**
    * Insert emoji at cursor position
    */
@@ -172,52 +303,66 @@ const ChatUI: React.FC<ChatUIProps> = ({
 
   /**
    * Handle mention autocomplete
+   *
+   * The directory is searched once typing pauses; results of outdated
+   * searches are ignored.
    */
-  const handleMentionAutocomplete = useCallback((value: string, cursorPos: number) => {
-    console.log('💬 Mention autocomplete triggered:', { value, cursorPos });
-    
-    // Find @ symbol before cursor
-    let atPos = -1;
-    for (let i = cursorPos - 1; i >= 0; i--) {
-      if (value[i] === '@') {
-        atPos = i;
-        break;
-      } else if (value[i] === ' ' || value[i] === '\n') {
-        break;
+  const handleMentionAutocomplete = useCallback(
+    (value: string, cursorPos: number) => {
+      // Find @ symbol before cursor
+      let atPos = -1;
+      for (let i = cursorPos - 1; i >= 0; i--) {
+        if (value[i] === '@') {
+          atPos = i;
+          break;
+        } else if (value[i] === ' ' || value[i] === '\n') {
+          break;
+        }
       }
-    }
 
-    console.log('💬 @ symbol found at position:', atPos);
+      clearTimeout(mentionSearchTimeoutRef.current);
+      const searchId = ++mentionSearchIdRef.current;
 
-    if (atPos >= 0) {
-      const query = value.slice(atPos + 1, cursorPos).toLowerCase();
-      console.log('💬 Query after @:', query);
-      
-      const users = demoUsers.filter(user => 
-        user.id !== currentUser.id && 
-        ((user.displayName?.toLowerCase().includes(query)) || 
-         user.id.toLowerCase().includes(query))
-      );
+      if (atPos < 0) {
+        setMentionState((prev) => ({ ...prev, isActive: false }));
+        return;
+      }
 
-      console.log('💬 Filtered users:', users.map(u => u.displayName));
+      const query = value.slice(atPos + 1, cursorPos);
+      mentionSearchTimeoutRef.current = setTimeout(async () => {
+        try {
+          const users = (await userDirectory.search(query)).filter(
+            (user) => user.id !== currentUserId
+          );
+          if (searchId !== mentionSearchIdRef.current) return;
+
+          if (users.length > 0) {
+            setMentionState({
+              isActive: true,
+              startPos: atPos,
+              selectedIndex: 0,
+              filteredUsers: users,
+            });
+          } else {
+            setMentionState((prev) => ({ ...prev, isActive: false }));
+          }
+        } catch (error) {
+          console.error('❌ Error searching users:', error);
+        }
+      }, MENTION_SEARCH_DEBOUNCE_MS);
+    },
+    [userDirectory, currentUserId]
+  );
 
-      if (users.length > 0) {
-        console.log('💬 Setting mention state to active with', users.length, 'users');
-        setMentionState({
-          isActive: true,
-          startPos: atPos,
-          selectedIndex: 0,
-          filteredUsers: users,
-        });
-      } else {
-        console.log('💬 No users found, deactivating mentions');
-        setMentionState(prev => ({ ...prev, isActive: false }));
-      }
-    } else {
-      console.log('💬 No @ symbol found, deactivating mentions');
-      setMentionState(prev => ({ ...prev, isActive: false }));
-    }
-  }, [currentUser.id]);
+  // Drop a pending mention search on unmount
+  useEffect(() => {
+    const searchIdRef = mentionSearchIdRef;
+    const timeoutRef = mentionSearchTimeoutRef;
+    return () => {
+      clearTimeout(timeoutRef.current);
+      searchIdRef.current += 1;
+    };
+  }, []);
 
   /**
    * Select mention from autocomplete
@@ -239,6 +384,10 @@ const ChatUI: React.FC<ChatUIProps> = ({
     const newText = beforeMention + `@${userName} ` + afterMention;
 
     setInputValue(newText);
+    setPickedMentions((prev) => [
+      ...prev.filter((mention) => mention.id !== user.id),
+      { id: user.id, label: userName },
+    ]);
     setMentionState(prev => ({ ...prev, isActive: false }));
 
     // Move cursor after mention
@@ -291,7 +440,7 @@ const ChatUI: React.FC<ChatUIProps> = ({
   }, [firebasePath, currentUser.id, onError]);
 
   /**
-   * Set up real-time message listener
+   * Set up real-time listener on the newest page of messages
    */
   const setupMessageListener = useCallback(() => {
     if (!hasAccess) return;
@@ -302,49 +451,59 @@ const ChatUI: React.FC<ChatUIProps> = ({
         `${firebasePath}/messages`
       );
 
-      const messagesRef = collection(db, `${firebasePath}/messages`);
-      const messagesQuery = query(
-        messagesRef,
-        orderBy('createdAt', 'asc'),
-        limit(maxMessages)
-      );
+      setMessages([]);
+      oldestCursorRef.current = null;
+      isNearBottomRef.current = true;
 
-      const unsubscribe = onSnapshot(
-        messagesQuery,
-        (snapshot) => {
+      const unsubscribe = Messages.subscribeToLatest(
+        firebasePath,
+        maxMessages,
+        (update) => {
           console.log(
             '📬 Received message update:',
-            snapshot.docs.length,
-            'messages'
+            update.changes.length,
+            'changes'
           );
 
-          const newMessages: Message[] = [];
-          snapshot.forEach((doc) => {
-            const data = doc.data();
-            newMessages.push({
-              id: doc.id,
-              ...data,
-              createdAt:
-                data.createdAt?.toDate?.()?.toISOString() || data.createdAt,
-              updatedAt:
-                data.updatedAt?.toDate?.()?.toISOString() || data.updatedAt,
-            } as Message);
-          });
-
-          setMessages(newMessages);
+          // Messages pushed out of the live window stay loaded; deleted
+          // ones are dropped
+          const { changes } = update;
+
+          setMessages((prev) => applyMessageChanges(prev, changes));
           setIsLoading(false);
 
+          // The first snapshot sets the starting point for older pages
+          if (!oldestCursorRef.current) {
+            oldestCursorRef.current = update.cursor;
+            setHasOlderMessages(update.hasMore);
+
+            // Thread replies take up part of the window; fill it up
+            const missing = maxMessages - update.messageCount;
+            if (update.cursor && update.hasMore && missing > 0) {
+              setIsLoadingOlder(true);
+              Messages.loadOlder(firebasePath, update.cursor, missing)
+                .then((page) => {
+                  oldestCursorRef.current = page.cursor || update.cursor;
+                  setHasOlderMessages(page.hasMore);
+                  setMessages((prev) => mergeMessages(prev, page.messages));
+                })
+                .catch((error) => onError?.(error as Error))
+                .finally(() => setIsLoadingOlder(false));
+            }
+          }
+
           // Notify parent component of new messages
-          if (newMessages.length > 0) {
-            const latestMessage = newMessages[newMessages.length - 1];
-            onNewMessage?.(latestMessage);
+          const added = changes.filter((change) => change.type === 'added');
+          if (added.length > 0) {
+            onNewMessage?.(added[added.length - 1].message);
           }
 
-          // Auto-scroll to bottom
-          setTimeout(scrollToBottom, 100);
+          // Auto-scroll to bottom unless the user is reading history
+          if (isNearBottomRef.current) {
+            setTimeout(scrollToBottom, 100);
+          }
         },
         (error) => {
-          console.error('❌ Message listener error:', error);
           setIsLoading(false);
           onError?.(error);
         }
@@ -358,7 +517,6 @@ const ChatUI: React.FC<ChatUIProps> = ({
       onError?.(error as Error);
     }
   }, [
-    db,
     firebasePath,
     maxMessages,
     hasAccess,
@@ -368,23 +526,162 @@ const ChatUI: React.FC<ChatUIProps> = ({
   ]);
 
   /**
-   * Send a text message
+   * Load the page of messages before the oldest loaded one
+   */
+  const loadOlderMessages = useCallback(async () => {
+    const cursor = oldestCursorRef.current;
+    if (!cursor || isLoadingOlder || !hasOlderMessages) return;
+
+    setIsLoadingOlder(true);
+
+    // Remember the scroll position so it can be restored after prepending
+    const container = messagesContainerRef.current;
+    if (container) {
+      scrollRestoreRef.current = {
+        height: container.scrollHeight,
+        top: container.scrollTop,
+      };
+    }
+
+    try {
+      const page = await Messages.loadOlder(firebasePath, cursor, maxMessages);
+
+      oldestCursorRef.current = page.cursor || cursor;
+      setHasOlderMessages(page.hasMore);
+      setMessages((prev) => mergeMessages(prev, page.messages));
+    } catch (error) {
+      scrollRestoreRef.current = null;
+      onError?.(error as Error);
+    } finally {
+      setIsLoadingOlder(false);
+    }
+  }, [firebasePath, maxMessages, isLoadingOlder, hasOlderMessages, onError]);
+
+  /**
+   * Mark the newest message as read while the user is looking at it
+   */
+  const markLatestRead = useCallback(() => {
+    const latest = messages[messages.length - 1];
+    if (
+      !enableReadReceipts ||
+      !latest?.id ||
+      // Wait until the divider position has been captured
+      lastReadAtOnOpen === undefined ||
+      latest.id === lastMarkedReadRef.current ||
+      document.visibilityState === 'hidden' ||
+      !isNearBottomRef.current
+    ) {
+      return;
+    }
+
+    lastMarkedReadRef.current = latest.id;
+    ReadReceipts.markRead(
+      firebasePath,
+      { id: currentUser.id, displayName: currentUser.displayName },
+      latest
+    ).catch(() => {
+      // Retry with the next message or scroll
+      lastMarkedReadRef.current = null;
+    });
+  }, [
+    messages,
+    enableReadReceipts,
+    lastReadAtOnOpen,
+    firebasePath,
+    currentUser.id,
+    currentUser.displayName,
+  ]);
+
+  /**
+   * Track the scroll position and load older messages near the top
+   */
+  const handleMessagesScroll = (e: React.UIEvent<HTMLDivElement>) => {
+    const container = e.currentTarget;
+    isNearBottomRef.current =
+      container.scrollHeight - container.scrollTop - container.clientHeight <
+      100;
+
+    if (isNearBottomRef.current) {
+      markLatestRead();
+    }
+
+    if (container.scrollTop < 100) {
+      loadOlderMessages();
+    }
+  };
+
+  // Keep the viewport anchored after older messages are prepended
+  useLayoutEffect(() => {
+    const container = messagesContainerRef.current;
+    const restore = scrollRestoreRef.current;
+    if (!container || !restore) return;
+
+    container.scrollTop = container.scrollHeight - restore.height + restore.top;
+    scrollRestoreRef.current = null;
+  }, [messages]);
+
+  /**
+   * Clear the current user's typing status if it was published
+   */
+  const stopTyping = useCallback(() => {
+    clearTimeout(typingIdleTimeoutRef.current);
+    if (!lastTypingPublishRef.current) return;
+
+    lastTypingPublishRef.current = 0;
+    Typing.setTyping(firebasePath, { id: currentUserId }, false).catch(() => {
+      // Stale statuses expire on their own
+    });
+  }, [firebasePath, currentUserId]);
+
+  /**
+   * Publish that the current user is typing (throttled) and schedule
+   * clearing it once they go idle
+   */
+  const notifyTyping = useCallback(() => {
+    const now = Date.now();
+    if (now - lastTypingPublishRef.current > TYPING_REFRESH_MS) {
+      lastTypingPublishRef.current = now;
+      Typing.setTyping(
+        firebasePath,
+        { id: currentUserId, displayName: currentUserName },
+        true
+      ).catch(() => {
+        // Typing indicators are best effort
+      });
+    }
+
+    clearTimeout(typingIdleTimeoutRef.current);
+    typingIdleTimeoutRef.current = setTimeout(stopTyping, TYPING_IDLE_MS);
+  }, [firebasePath, currentUserId, currentUserName, stopTyping]);
+
+  /**
+   * Send a text message, or a reply when a thread root is given
+   *
+   * Messages go through the outbox, so they appear immediately and are
+   * delivered (or retried) in the background.
+   *
+   * @returns Whether the message was queued
    */
   const sendMessage = async (
     content: string,
-    attachments?: any[],
-    dataRequest?: any
-  ) => {
-    if (!content.trim() && !attachments?.length && !dataRequest) return;
-    if (!accessLevel || accessLevel === AccessLevel.READ) return;
-
-    setIsSubmitting(true);
+    attachments?: MessageAttachment[],
+    dataRequest?: Message['dataRequest'],
+    threadRoot?: Message
+  ): Promise<boolean> => {
+    if (!content.trim() && !attachments?.length && !dataRequest) return false;
+    if (!accessLevel || accessLevel === AccessLevel.READ) return false;
 
     try {
       console.log('📤 Sending message:', { content, attachments, dataRequest });
 
-      // Extract mentions from content
-      const mentions = extractMentions(content);
+      // Route to the users behind the mention tokens
+      const mentions = parseMentions(content).map((mention) => mention.id);
+
+      // Replies in a thread started by an agent are routed back to it
+      const threadAgentId = getThreadAgentId(threadRoot, agentIds);
+      const recipientIds = threadAgentId
+        ? Array.from(new Set([...mentions, threadAgentId]))
+        : mentions;
 
       // Create message object with auto-processing
       const messageData = createMessageWithProcessing({
@@ -392,13 +689,17 @@ const ChatUI: React.FC<ChatUIProps> = ({
         senderId: currentUser.id,
         senderName: currentUser.displayName,
         senderRole: currentUser.role,
-        recipientIds: mentions,
+        recipientIds,
         fromAiAgent: isAIAgent(currentUser),
         toAiAgent:
-          containsAgentMentions(content, agentIds) ||
+          Boolean(threadAgentId) ||
           mentions.some((mention) => agentIds.includes(mention)),
         attachments,
         dataRequest,
+        formExpiresAt: formExpiresAfterMs
+          ? new Date(Date.now() + formExpiresAfterMs).toISOString()
+          : undefined,
+        formPrivate: privateFormResponses,
         metadata: {
           event: 'message_sent',
         },
@@ -409,34 +710,56 @@ const ChatUI: React.FC<ChatUIProps> = ({
       // eslint-disable-next-line @typescript-eslint/no-unused-vars
       const { id: _id, ...messageToSend } = messageData;
 
-      // Send to Firestore
-      const messagesRef = collection(db, `${firebasePath}/messages`);
-      await addDoc(messagesRef, {
-        ...messageToSend,
-        createdAt: serverTimestamp(),
-        updatedAt: serverTimestamp(),
-      });
+      // Queue for delivery; the message shows as pending right away and
+      // thread replies also update the root summary once delivered
+      Outbox.enqueue(firebasePath, messageToSend, threadRoot?.id);
 
-      // Clear input
-      setInputValue('');
+      if (!threadRoot) {
+        // Clear input
+        setInputValue('');
+        stopTyping();
+        setTimeout(scrollToBottom, 100);
+      }
 
-      console.log('✅ Message sent successfully');
+      console.log('✅ Message queued');
+      return true;
     } catch (error) {
       console.error('❌ Error sending message:', error);
       onError?.(error as Error);
-    } finally {
-      setIsSubmitting(false);
+      return false;
     }
   };
 
+  /**
+   * Retry delivering a message that failed to send
+   */
+  const handleRetry = useCallback(
+    (messageId: string) => {
+      Outbox.retry(firebasePath, messageId);
+    },
+    [firebasePath]
+  );
+
+  /**
+   * Drop a message that failed to send
+   */
+  const handleDiscard = useCallback(
+    (messageId: string) => {
+      Outbox.discard(firebasePath, messageId);
+    },
+    [firebasePath]
+  );
+
   /**
    * Handle form submission
    */
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
-    if (!inputValue.trim() || isSubmitting) return;
+    if (!inputValue.trim()) return;
 
-    await sendMessage(inputValue);
+    // Picked mentions are stored as tokens carrying the user ID
+    const sent = await sendMessage(encodeMentions(inputValue, pickedMentions));
+    if (sent) setPickedMentions([]);
   };
 
   /**
@@ -494,29 +817,151 @@ const ChatUI: React.FC<ChatUIProps> = ({
     const cursorPos = e.target.selectionStart || 0;
     console.log('⌨️ Cursor position:', cursorPos);
     handleMentionAutocomplete(value, cursorPos);
+
+    if (value.trim()) {
+      notifyTyping();
+    } else {
+      stopTyping();
+    }
   };
 
+  /**
+   * Toggle the current user's reaction on a message
+   */
+  const handleReaction = useCallback(
+    async (messageId: string, emoji: string) => {
+      try {
+        await Reactions.toggleReaction(firebasePath, messageId, actor, emoji);
+      } catch (error) {
+        console.error('❌ Error toggling reaction:', error);
+        onError?.(error as Error);
+      }
+    },
+    [firebasePath, actor, onError]
+  );
+
+  /**
+   * Edit one of the current user's messages
+   *
+   * @returns Whether the edit was saved
+   */
+  const handleEdit = useCallback(
+    async (messageId: string, content: string): Promise<boolean> => {
+      try {
+        const mentions = parseMentions(content).map((mention) => mention.id);
+        await Messages.editMessage(firebasePath, messageId, content, actor, {
+          recipientIds: mentions,
+          toAiAgent: mentions.some((mention) =>
+            stableAgentIds.includes(mention)
+          ),
+        });
+        return true;
+      } catch (error) {
+        console.error('❌ Error editing message:', error);
+        onError?.(error as Error);
+        return false;
+      }
+    },
+    [firebasePath, actor, stableAgentIds, onError]
+  );
+
+  /**
+   * Open the edit history of a message (admins only)
+   */
+  const handleViewHistory = useCallback((message: Message) => {
+    setHistoryMessage(message);
+  }, []);
+
+  /**
+   * Soft delete a message (own messages, or any message for admins)
+   */
+  const handleDelete = useCallback(
+    async (messageId: string) => {
+      try {
+        await Messages.deleteMessage(firebasePath, messageId, actor);
+        setUndoMessageId(messageId);
+      } catch (error) {
+        console.error('❌ Error deleting message:', error);
+        onError?.(error as Error);
+      }
+    },
+    [firebasePath, actor, onError]
+  );
+
+  /**
+   * Undo the most recent deletion
+   */
+  const handleUndoDelete = useCallback(async () => {
+    if (!undoMessageId) return;
+
+    setUndoMessageId(null);
+    try {
+      await Messages.restoreMessage(firebasePath, undoMessageId, actor);
+    } catch (error) {
+      console.error('❌ Error restoring message:', error);
+      onError?.(error as Error);
+    }
+  }, [firebasePath, undoMessageId, actor, onError]);
+
+  const dismissUndo = useCallback(() => setUndoMessageId(null), []);
+
+  /**
+   * Open the thread panel for a root message
+   */
+  const handleReply = useCallback((messageId: string) => {
+    setActiveThreadId(messageId);
+    setShowMembers(false);
+  }, []);
+
+  /**
+   * Toggle the member list (replaces an open thread panel)
+   */
+  const toggleMembers = useCallback(() => {
+    setShowMembers((show) => !show);
+    setActiveThreadId(null);
+  }, []);
+
   /**
    * Handle data request (form) click
+   *
+   * The request is Zod code written by an agent or a JSON Schema object;
+   * code is parsed with the Zod DSL parser rather than evaluated.
    */
-  const handleDataRequest = (schema: any) => {
-    setFormSchema(schema);
+  const handleDataRequest = useCallback((message: Message) => {
+    setFormRequest({ message, result: parseDataRequest(message.dataRequest) });
     setShowFormModal(true);
-  };
+  }, []);
 
   /**
    * Handle form submission from modal
+   *
+   * The response is recorded on the form request and sent to the
+   * requester; errors (e.g. an expired request) are shown in the modal.
    */
-  const handleFormSubmit = async (formData: any) => {
-    await sendMessage('Form response submitted', undefined, formData);
-    setShowFormModal(false);
-    setFormSchema(null);
+  const handleFormSubmit = async (formData: Record<string, unknown>) => {
+    if (!formRequest?.message.id) return;
+
+    await FormRequests.submitResponse(
+      firebasePath,
+      formRequest.message.id,
+      currentUser,
+      formData
+    );
   };
 
+  /**
+   * Scroll to a loaded message, e.g. the request a form response answers
+   */
+  const handleShowMessage = useCallback((messageId: string) => {
+    messagesContainerRef.current
+      ?.querySelector(`[data-message-id=${JSON.stringify(messageId)}]`)
+      ?.scrollIntoView({ behavior: 'smooth', block: 'center' });
+  }, []);
+
   /**
    * Handle media upload
    */
-  const handleMediaUpload = async (attachments: any[]) => {
+  const handleMediaUpload = async (attachments: MessageAttachment[]) => {
     await sendMessage('Media uploaded', attachments);
     setShowMediaModal(false);
   };
@@ -540,6 +985,254 @@ const ChatUI: React.FC<ChatUIProps> = ({
     };
   }, [hasAccess, setupMessageListener]);
 
+  // Subscribe to typing indicators and agent status
+  useEffect(() => {
+    if (hasAccess !== true) return;
+
+    const unsubscribe = Typing.subscribe(
+      firebasePath,
+      currentUser.id,
+      setActivityStatuses,
+      onError
+    );
+    return () => unsubscribe();
+  }, [hasAccess, firebasePath, currentUser.id, onError]);
+
+  // Clear our typing status when leaving the chat
+  useEffect(() => stopTyping, [stopTyping]);
+
+  // Publish our presence and follow everyone else's
+  useEffect(() => {
+    if (hasAccess !== true || !enablePresence) return;
+
+    const stopTracking = Presence.track(firebasePath, {
+      id: currentUserId,
+      displayName: currentUserName,
+      isAgent: currentUserIsAgent,
+    });
+    const unsubscribe = Presence.subscribe(
+      firebasePath,
+      setPresenceRecords,
+      onError
+    );
+    // Re-evaluate heartbeat expiry even when no document changes
+    const interval = setInterval(
+      () => setPresenceNow(Date.now()),
+      PRESENCE_HEARTBEAT_MS
+    );
+
+    return () => {
+      stopTracking();
+      unsubscribe();
+      clearInterval(interval);
+    };
+  }, [
+    hasAccess,
+    enablePresence,
+    firebasePath,
+    currentUserId,
+    currentUserName,
+    currentUserIsAgent,
+    onError,
+  ]);
+
+  // Capture the read position for the unread divider and follow everyone's
+  useEffect(() => {
+    setLastReadAtOnOpen(undefined);
+    setFirstUnreadMessageId(undefined);
+    lastMarkedReadRef.current = null;
+    if (hasAccess !== true || !enableReadReceipts) return;
+
+    let cancelled = false;
+    ReadReceipts.getReadReceipt(firebasePath, currentUser.id)
+      .then((receipt) => {
+        if (!cancelled) setLastReadAtOnOpen(receipt?.lastReadAt || null);
+      })
+      .catch(() => {
+        if (!cancelled) setLastReadAtOnOpen(null);
+      });
+
+    const unsubscribe = ReadReceipts.subscribe(
+      firebasePath,
+      setReadReceipts,
+      onError
+    );
+
+    return () => {
+      cancelled = true;
+      unsubscribe();
+    };
+  }, [hasAccess, enableReadReceipts, firebasePath, currentUser.id, onError]);
+
+  // Mark new messages as read, and catch up when the tab becomes visible
+  useEffect(() => {
+    markLatestRead();
+    document.addEventListener('visibilitychange', markLatestRead);
+    return () =>
+      document.removeEventListener('visibilitychange', markLatestRead);
+  }, [markLatestRead]);
+
+  const seenByMessage = useMemo(
+    () =>
+      enableReadReceipts
+        ? groupReadReceiptsByMessage(messages, readReceipts, [currentUser.id])
+        : {},
+    [enableReadReceipts, messages, readReceipts, currentUser.id]
+  );
+
+  // Place the unread divider once, against the messages present on open,
+  // so messages arriving while the chat is open do not move it
+  useEffect(() => {
+    if (
+      firstUnreadMessageId !== undefined ||
+      lastReadAtOnOpen === undefined ||
+      isLoading
+    ) {
+      return;
+    }
+
+    setFirstUnreadMessageId(
+      findFirstUnreadMessageId(messages, lastReadAtOnOpen, currentUser.id)
+    );
+  }, [
+    firstUnreadMessageId,
+    lastReadAtOnOpen,
+    isLoading,
+    messages,
+    currentUser.id,
+  ]);
+
+  // Follow the outbox and deliver messages queued while offline
+  useEffect(() => {
+    setOutboxEntries(Outbox.getEntries(firebasePath));
+    if (hasAccess !== true) return;
+
+    const unsubscribe = Outbox.subscribe((path) => {
+      if (path === firebasePath) {
+        setOutboxEntries(Outbox.getEntries(firebasePath));
+      }
+    });
+    const stopWatching = Outbox.watchConnectivity(firebasePath);
+    Outbox.flush(firebasePath);
+
+    return () => {
+      unsubscribe();
+      stopWatching();
+    };
+  }, [hasAccess, firebasePath]);
+
+  // Unfurl new links once and cache the previews on their messages
+  useEffect(() => {
+    if (!linkUnfurler || !accessLevel || accessLevel === AccessLevel.READ) {
+      return;
+    }
+
+    messages.forEach(({ id: messageId, deleted, attachments }) => {
+      if (deleted || !messageId) return;
+
+      attachments?.filter(needsUnfurl).forEach(({ url }) => {
+        const key = `${messageId}|${url}`;
+        if (unfurlAttemptsRef.current.has(key)) return;
+        unfurlAttemptsRef.current.add(key);
+
+        linkUnfurler
+          .unfurl(url)
+          .then((preview) =>
+            Messages.saveLinkPreview(firebasePath, messageId, url, preview)
+          )
+          .catch((error) => console.warn('⚠️ Link preview failed:', error));
+      });
+    });
+  }, [linkUnfurler, accessLevel, messages, firebasePath]);
+
+  // Unconfirmed messages are shown until their server copy arrives; thread
+  // replies are shown in their thread
+  const { displayMessages, deliveryStatuses, pendingReplies } = useMemo(() => {
+    const statuses: Record<string, DeliveryStatus> = {};
+    const optimistic: Message[] = [];
+    const replies: Record<string, Message[]> = {};
+
+    outboxEntries.forEach((entry) => {
+      statuses[entry.id] = entry.status;
+      const message: Message = {
+        ...entry.message,
+        id: entry.id,
+        createdAt: entry.queuedAt,
+        updatedAt: entry.queuedAt,
+      };
+      const { threadRootId } = entry;
+      if (threadRootId) {
+        replies[threadRootId] = [...(replies[threadRootId] || []), message];
+      } else {
+        optimistic.push(message);
+      }
+    });
+
+    return {
+      displayMessages:
+        optimistic.length > 0 ? mergeMessages(optimistic, messages) : messages,
+      deliveryStatuses: statuses,
+      pendingReplies: replies,
+    };
+  }, [outboxEntries, messages]);
+
+  // Grouping and date separators depend on the row above each message
+  const previousMessages = useMemo(() => {
+    const previous: Record<string, Message | undefined> = {};
+    displayMessages.forEach((message, index) => {
+      if (message.id) previous[message.id] = displayMessages[index - 1];
+    });
+    return previous;
+  }, [displayMessages]);
+
+  // Loaded messages asking for data, to label the responses they receive
+  const formRequestMessages = useMemo(() => {
+    const requests: Record<string, Message> = {};
+    displayMessages.forEach((message) => {
+      if (message.id && message.dataRequest) requests[message.id] = message;
+    });
+    return requests;
+  }, [displayMessages]);
+
+  // Every image in the loaded conversation, for lightbox navigation
+  const galleryImages = useMemo(
+    () => collectGalleryImages(displayMessages),
+    [displayMessages]
+  );
+
+  const closeLightbox = useCallback(() => setLightboxImageKey(null), []);
+
+  // Load members with explicit access when the member list is opened
+  useEffect(() => {
+    if (!showMembers) return;
+
+    AccessControl.getMembers(firebasePath).then((members) =>
+      setMemberIds(members.map((member) => member.userId))
+    );
+  }, [showMembers, firebasePath]);
+
+  const presenceByUser = useMemo(() => {
+    const states: Record<string, PresenceState> = {};
+    presenceRecords.forEach((record) => {
+      states[record.userId] = getPresenceState(record, presenceNow);
+    });
+    return states;
+  }, [presenceRecords, presenceNow]);
+
+  // Purge messages deleted longer ago than the retention window (admins only)
+  useEffect(() => {
+    if (accessLevel !== AccessLevel.ADMIN || !purgeDeletedAfterMs) return;
+
+    Messages.purgeDeletedMessages(
+      firebasePath,
+      currentUser.id,
+      purgeDeletedAfterMs
+    ).catch((error) => {
+      console.error('❌ Error purging deleted messages:', error);
+      onError?.(error as Error);
+    });
+  }, [accessLevel, firebasePath, currentUser.id, purgeDeletedAfterMs, onError]);
+
   // Focus input when component mounts
   useEffect(() => {
     if (accessLevel && accessLevel !== AccessLevel.READ) {
@@ -595,174 +1288,386 @@ const ChatUI: React.FC<ChatUIProps> = ({
   }
 
   const canWrite = accessLevel && accessLevel !== AccessLevel.READ;
+  const isAdmin = accessLevel === AccessLevel.ADMIN;
+  const activeThreadRoot = activeThreadId
+    ? messages.find((message) => message.id === activeThreadId)
+    : undefined;
+
+  const onlineCount = Object.values(presenceByUser).filter(
+    (state) => state === 'online'
+  ).length;
+
+  const renderMessage = (message: Message) => {
+    const isSystem = isSystemUser({ id: message.senderId } as User);
+    const deliveryStatus = message.id
+      ? deliveryStatuses[message.id]
+      : undefined;
+    // Unconfirmed messages cannot be interacted with yet
+    const isDelivered = !deliveryStatus;
+    const previous = message.id ? previousMessages[message.id] : undefined;
+    const isUnreadStart = message.id === firstUnreadMessageId;
+    // The unread divider always starts a new group
+    const isGrouped =
+      !isUnreadStart && isGroupedWithPrevious(message, previous);
 
-  return (
-    <div className="chat-container bg-dark-950 text-dark-100">
-      {/* Messages Container */}
-      <div className="messages-container flex-1 overflow-y-auto p-4 space-y-4">
-        {messages.length === 0 ? (
-          <div className="flex items-center justify-center h-full">
-            <div className="text-center">
-              <div className="text-4xl mb-4">💬</div>
-              <p className="text-dark-400">
-                No messages yet. Start the conversation!
-              </p>
-            </div>
+    return (
+      <div
+        key={message.id}
+        data-message-id={message.id}
+        className={`${isGrouped ? 'pt-1' : 'pt-4'} space-y-4`}
+      >
+        {isFirstOfDay(message, previous) && (
+          <DateSeparator timestamp={message.createdAt} />
+        )}
+        {isUnreadStart && (
+          <div
+            role="separator"
+            aria-label="Unread messages"
+            className="flex items-center space-x-2 text-xs font-medium text-red-400"
+          >
+            <div className="flex-1 border-t border-red-700" />
+            <span>Unread messages</span>
+            <div className="flex-1 border-t border-red-700" />
           </div>
-        ) : (
-          messages.map((message) => (
-            <MessageItem
-              key={message.id}
-              message={message}
-              currentUser={currentUser}
-              isAgent={isAIAgent({ id: message.senderId } as User)}
-              isSystem={isSystemUser({ id: message.senderId } as User)}
-              enableReactions={enableReactions}
-              enableReplies={enableReplies}
-              onDataRequest={handleDataRequest}
-            />
-          ))
         )}
-        <div ref={messagesEndRef} />
+        <MessageItem
+          message={message}
+          currentUser={currentUser}
+          isAgent={isAIAgent({ id: message.senderId } as User)}
+          isSystem={isSystem}
+          enableReactions={enableReactions}
+          enableReplies={enableReplies}
+          enableVideoEmbeds={enableVideoEmbeds}
+          onDataRequest={handleDataRequest}
+          formRequestMessage={
+            message.formResponse
+              ? formRequestMessages[message.formResponse.requestId]
+              : undefined
+          }
+          onShowMessage={handleShowMessage}
+          onReply={enableReplies && isDelivered ? handleReply : undefined}
+          onReaction={
+            enableReactions && canWrite && isDelivered
+              ? handleReaction
+              : undefined
+          }
+          onEdit={canWrite && isDelivered ? handleEdit : undefined}
+          onViewHistory={isAdmin ? handleViewHistory : undefined}
+          onDelete={canWrite && isDelivered ? handleDelete : undefined}
+          canModerate={isAdmin}
+          seenBy={message.id ? seenByMessage[message.id] : undefined}
+          deliveryStatus={deliveryStatus}
+          onRetry={handleRetry}
+          onDiscard={handleDiscard}
+          presence={
+            enablePresence && !isSystem
+              ? presenceByUser[message.senderId] || 'offline'
+              : undefined
+          }
+          isGrouped={isGrouped}
+          onOpenImage={setLightboxImageKey}
+        />
       </div>
+    );
+  };
 
-      {/* Input Container */}
-      {canWrite && (
-        <div className="message-input-container bg-dark-900 border-t border-dark-700 p-4">
-          <form onSubmit={handleSubmit} className="flex items-end space-x-2">
-            {/* Media Upload Button */}
-            {enableMultiModal && (
+  return (
+    <div className="chat-container relative bg-dark-950 text-dark-100">
+      <div className="flex flex-1 min-h-0">
+        <div className="flex flex-col flex-1 min-w-0">
+          {/* Presence summary */}
+          {enablePresence && (
+            <div className="flex items-center justify-end px-4 py-2 border-b border-dark-700">
               <button
                 type="button"
-                onClick={() => setShowMediaModal(true)}
-                className="btn-ghost p-2 text-dark-400 hover:text-dark-200"
-                title="Add media"
+                onClick={toggleMembers}
+                aria-pressed={showMembers}
+                className="btn-ghost flex items-center space-x-2 px-2 py-1 text-sm text-dark-300 hover:text-dark-100"
+                title="Show members"
               >
-                <Paperclip size={20} />
+                <Users size={16} />
+                <span>{onlineCount} online</span>
               </button>
+            </div>
+          )}
+
+          {/* Messages Container */}
+          <div
+            ref={messagesContainerRef}
+            onScroll={handleMessagesScroll}
+            className="messages-container flex-1 overflow-y-auto px-4 pb-4"
+          >
+            {/* History pagination */}
+            {isLoadingOlder && (
+              <div className="flex justify-center py-2">
+                <div className="spinner"></div>
+              </div>
+            )}
+            {!hasOlderMessages && displayMessages.length > 0 && (
+              <p className="text-center text-xs text-dark-500 py-2">
+                Beginning of conversation
+              </p>
             )}
 
-            {/* Message Input */}
-            <div className="flex-1 relative">
-              <div className="flex items-end bg-dark-800 border border-dark-600 rounded-lg">
-                <textarea
-                  ref={inputRef}
-                  value={inputValue}
-                  onChange={handleInputChange}
-                  onKeyDown={handleKeyDown}
-                  placeholder="Type a message... (Use @ to mention users)"
-                  className="flex-1 bg-transparent px-4 py-3 text-dark-100 placeholder-dark-400 resize-none focus:outline-none"
-                  rows={1}
-                  style={{
-                    minHeight: '44px',
-                    maxHeight: '120px',
-                    height: 'auto',
-                  }}
-                  onInput={(e) => {
-                    const target = e.target as HTMLTextAreaElement;
-                    target.style.height = 'auto';
-                    target.style.height = target.scrollHeight + 'px';
-                  }}
-                  disabled={isSubmitting}
-                />
-                
-                {/* Emoji Button */}
-                <button
-                  type="button"
-                  onClick={toggleEmojiPicker}
-                  className="p-2 text-dark-400 hover:text-dark-200 transition-colors"
-                  title="Add emoji"
-                >
-                  <Smile size={20} />
-                </button>
+            {displayMessages.length === 0 ? (
+              <div className="flex items-center justify-center h-full">
+                <div className="text-center">
+                  <div className="text-4xl mb-4">💬</div>
+                  <p className="text-dark-400">
+                    No messages yet. Start the conversation!
+                  </p>
+                </div>
               </div>
+            ) : displayMessages.length > virtualizeAfter ? (
+              <VirtualMessageList
+                messages={displayMessages}
+                renderMessage={renderMessage}
+                scrollContainerRef={messagesContainerRef}
+              />
+            ) : (
+              displayMessages.map(renderMessage)
+            )}
+            <div ref={messagesEndRef} />
+          </div>
 
-              {/* Mention Autocomplete */}
-              {mentionState.isActive && (
-                <div className="absolute bottom-full left-0 right-0 mb-2 bg-dark-800 border border-dark-600 rounded-lg shadow-xl z-50 max-h-48 overflow-y-auto">
-                  {(() => {console.log('💬 RENDERING mention autocomplete with', mentionState.filteredUsers.length, 'users'); return null;})()}
-                  {mentionState.filteredUsers.map((user, index) => {
-                    const initials = (user.displayName || user.id).split(' ').map(n => n[0]).join('').slice(0, 2);
-                    const isSelected = index === mentionState.selectedIndex;
-                    
-                    return (
-                      <div
-                        key={user.id}
-                        className={`flex items-center gap-3 p-3 cursor-pointer transition-colors ${
-                          isSelected ? 'bg-blue-600 text-white' : 'hover:bg-dark-700'
-                        }`}
-                        onClick={() => selectMention(index)}
-                      >
-                        <div className={`w-8 h-8 rounded-full flex items-center justify-center text-white text-sm font-medium ${
-                          user.isAgent ? 'bg-purple-600' : 'bg-blue-600'
-                        }`}>
-                          {initials}
-                        </div>
-                        <div>
-                          <div className="font-medium">{user.displayName || user.id}</div>
-                          {user.isAgent && (
-                            <div className="text-xs text-purple-400">AI Agent</div>
-                          )}
-                        </div>
+          <TypingIndicator statuses={activityStatuses} />
+
+          {/* Input Container */}
+          {canWrite && (
+            <div className="message-input-container bg-dark-900 border-t border-dark-700 p-4">
+              <form
+                onSubmit={handleSubmit}
+                className="flex items-end space-x-2"
+              >
+                {/* Media Upload Button */}
+                {enableMultiModal && (
+                  <button
+                    type="button"
+                    onClick={() => setShowMediaModal(true)}
+                    className="btn-ghost p-2 text-dark-400 hover:text-dark-200"
+                    title="Add media"
+                  >
+                    <Paperclip size={20} />
+                  </button>
+                )}
+
+                {/* Message Input */}
+                <div className="flex-1 relative">
+                  <div className="flex items-end bg-dark-800 border border-dark-600 rounded-lg">
+                    <textarea
+                      ref={inputRef}
+                      value={inputValue}
+                      onChange={handleInputChange}
+                      onKeyDown={handleKeyDown}
+                      placeholder="Type a message... (Use @ to mention users)"
+                      className="flex-1 bg-transparent px-4 py-3 text-dark-100 placeholder-dark-400 resize-none focus:outline-none"
+                      rows={1}
+                      style={{
+                        minHeight: '44px',
+                        maxHeight: '120px',
+                        height: 'auto',
+                      }}
+                      onInput={(e) => {
+                        const target = e.target as HTMLTextAreaElement;
+                        target.style.height = 'auto';
+                        target.style.height = target.scrollHeight + 'px';
+                      }}
+                    />
+
+                    {/* Emoji Button */}
+                    <button
+                      type="button"
+                      onClick={toggleEmojiPicker}
+                      className="p-2 text-dark-400 hover:text-dark-200 transition-colors"
+                      title="Add emoji"
+                    >
+                      <Smile size={20} />
+                    </button>
+                  </div>
+
+                  {/* Mention Autocomplete */}
+                  {mentionState.isActive && (
+                    <div className="absolute bottom-full left-0 right-0 mb-2 bg-dark-800 border border-dark-600 rounded-lg shadow-xl z-50 max-h-48 overflow-y-auto">
+                      {(() => {
+                        console.log(
+                          '💬 RENDERING mention autocomplete with',
+                          mentionState.filteredUsers.length,
+                          'users'
+                        );
+                        return null;
+                      })()}
+                      {mentionState.filteredUsers.map((user, index) => {
+                        const initials = (user.displayName || user.id)
+                          .split(' ')
+                          .map((n) => n[0])
+                          .join('')
+                          .slice(0, 2);
+                        const isSelected = index === mentionState.selectedIndex;
+
+                        return (
+                          <div
+                            key={user.id}
+                            className={`flex items-center gap-3 p-3 cursor-pointer transition-colors ${
+                              isSelected
+                                ? 'bg-blue-600 text-white'
+                                : 'hover:bg-dark-700'
+                            }`}
+                            onClick={() => selectMention(index)}
+                          >
+                            <div className="relative flex-shrink-0">
+                              <div
+                                className={`w-8 h-8 rounded-full flex items-center justify-center text-white text-sm font-medium ${
+                                  user.isAgent ? 'bg-purple-600' : 'bg-blue-600'
+                                }`}
+                              >
+                                {initials}
+                              </div>
+                              {enablePresence && (
+                                <PresenceDot
+                                  state={presenceByUser[user.id] || 'offline'}
+                                />
+                              )}
+                            </div>
+                            <div>
+                              <div className="font-medium">
+                                {user.displayName || user.id}
+                              </div>
+                              {user.isAgent && (
+                                <div className="text-xs text-purple-400">
+                                  AI Agent
+                                </div>
+                              )}
+                            </div>
+                          </div>
+                        );
+                      })}
+                    </div>
+                  )}
+
+                  {/* Emoji Picker */}
+                  {showEmojiPicker && (
+                    <div
+                      ref={emojiPickerRef}
+                      className="absolute bottom-full right-0 mb-2 bg-dark-800 border border-dark-600 rounded-lg shadow-xl p-3 z-50"
+                      style={{ minWidth: '280px' }}
+                    >
+                      {(() => {
+                        console.log('🎭 RENDERING emoji picker');
+                        return null;
+                      })()}
+                      <div className="grid grid-cols-5 gap-2">
+                        {REACTION_EMOJIS.map(({ emoji, name }) => (
+                          <button
+                            key={emoji}
+                            type="button"
+                            onClick={() => insertEmoji(emoji)}
+                            className="p-2 text-xl hover:bg-dark-700 rounded transition-colors"
+                            title={name}
+                          >
+                            {emoji}
+                          </button>
+                        ))}
                       </div>
-                    );
-                  })}
+                    </div>
+                  )}
                 </div>
-              )}
-
-              {/* Emoji Picker */}
-              {showEmojiPicker && (
-                <div
-                  ref={emojiPickerRef}
-                  className="absolute bottom-full right-0 mb-2 bg-dark-800 border border-dark-600 rounded-lg shadow-xl p-3 z-50"
-                  style={{ minWidth: '280px' }}
+
+                {/* Send Button */}
+                <button
+                  type="submit"
+                  disabled={!inputValue.trim()}
+                  className="btn-primary p-3 disabled:opacity-50 disabled:cursor-not-allowed"
+                  title="Send message"
                 >
-                  {(() => {console.log('🎭 RENDERING emoji picker'); return null;})()}
-                  <div className="grid grid-cols-5 gap-2">
-                    {REACTION_EMOJIS.map(({ emoji, name }) => (
-                      <button
-                        key={emoji}
-                        type="button"
-                        onClick={() => insertEmoji(emoji)}
-                        className="p-2 text-xl hover:bg-dark-700 rounded transition-colors"
-                        title={name}
-                      >
-                        {emoji}
-                      </button>
-                    ))}
-                  </div>
-                </div>
-              )}
+                  <Send size={20} />
+                </button>
+              </form>
             </div>
-
-            {/* Send Button */}
-            <button
-              type="submit"
-              disabled={!inputValue.trim() || isSubmitting}
-              className="btn-primary p-3 disabled:opacity-50 disabled:cursor-not-allowed"
-              title="Send message"
-            >
-              {isSubmitting ? (
-                <div className="spinner w-5 h-5"></div>
-              ) : (
-                <Send size={20} />
-              )}
-            </button>
-          </form>
+          )}
         </div>
+
+        {/* Thread Panel */}
+        {enableReplies && activeThreadRoot && (
+          <ThreadPanel
+            firebasePath={firebasePath}
+            rootMessage={activeThreadRoot}
+            currentUser={currentUser}
+            canWrite={Boolean(canWrite)}
+            enableReactions={enableReactions}
+            enableVideoEmbeds={enableVideoEmbeds}
+            onSendReply={(content) =>
+              sendMessage(content, undefined, undefined, activeThreadRoot)
+            }
+            pendingReplies={pendingReplies[activeThreadRoot.id!]}
+            deliveryStatuses={deliveryStatuses}
+            onRetry={handleRetry}
+            onDiscard={handleDiscard}
+            onClose={() => setActiveThreadId(null)}
+            onDataRequest={handleDataRequest}
+            onReaction={
+              enableReactions && canWrite ? handleReaction : undefined
+            }
+            onEdit={canWrite ? handleEdit : undefined}
+            onViewHistory={isAdmin ? handleViewHistory : undefined}
+            onDelete={canWrite ? handleDelete : undefined}
+            canModerate={isAdmin}
+            onError={onError}
+          />
+        )}
+
+        {enablePresence && showMembers && (
+          <MemberListPanel
+            presence={presenceRecords}
+            memberIds={memberIds}
+            now={presenceNow}
+            onClose={() => setShowMembers(false)}
+          />
+        )}
+      </div>
+
+      {/* Undo deletion */}
+      {undoMessageId && (
+        <UndoToast
+          key={undoMessageId}
+          message="Message deleted"
+          onUndo={handleUndoDelete}
+          onDismiss={dismissUndo}
+        />
       )}
 
       {/* Modals */}
-      {showFormModal && formSchema && (
+      {showFormModal && formRequest && (
         <FormModal
           isOpen={showFormModal}
           onClose={() => {
             setShowFormModal(false);
-            setFormSchema(null);
+            setFormRequest(null);
           }}
-          schema={formSchema}
+          schema={formRequest.result.success ? formRequest.result.schema : null}
+          schemaError={
+            formRequest.result.success ? undefined : formRequest.result.error
+          }
           onSubmit={handleFormSubmit}
           title="Provide Information"
+          description={getFormRequestTitle(formRequest.message.content)}
+        />
+      )}
+
+      {historyMessage?.id && (
+        <EditHistoryModal
+          isOpen={Boolean(historyMessage)}
+          onClose={() => setHistoryMessage(null)}
+          firebasePath={firebasePath}
+          messageId={historyMessage.id}
+          currentContent={historyMessage.content}
+        />
+      )}
+
+      {lightboxImageKey && (
+        <Lightbox
+          images={galleryImages}
+          initialKey={lightboxImageKey}
+          onClose={closeLightbox}
         />
       )}
 
@@ -0,0 +1,158 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { Check, ChevronDown, ChevronUp, Copy, Download } from 'lucide-react';
+import {
+  HighlightTokenType,
+  getCodeFileExtension,
+  highlightLines,
+} from '../utils/highlight';
+
+interface CodeBlockProps {
+  code: string;
+  lang?: string;
+  /** Blocks longer than this start collapsed */
+  collapseAfterLines?: number;
+}
+
+const TOKEN_CLASSES: Record<HighlightTokenType, string | undefined> = {
+  plain: undefined,
+  comment: 'text-dark-400 italic',
+  string: 'text-green-400',
+  number: 'text-orange-300',
+  keyword: 'text-purple-400',
+  literal: 'text-blue-300',
+  tag: 'text-red-400',
+};
+
+const COPY_FEEDBACK_MS = 2000;
+
+const CodeBlock: React.FC<CodeBlockProps> = ({
+  code,
+  lang,
+  collapseAfterLines = 25,
+}) => {
+  const [isExpanded, setIsExpanded] = useState(false);
+  const [copyState, setCopyState] = useState<'copied' | 'failed' | null>(null);
+  const copyTimeoutRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+
+  const lines = useMemo(() => highlightLines(code, lang), [code, lang]);
+  const isCollapsible = lines.length > collapseAfterLines;
+  const visibleLines =
+    isCollapsible && !isExpanded ? lines.slice(0, collapseAfterLines) : lines;
+
+  useEffect(
+    () => () => {
+      if (copyTimeoutRef.current) clearTimeout(copyTimeoutRef.current);
+    },
+    []
+  );
+
+  const handleCopy = async () => {
+    try {
+      await navigator.clipboard.writeText(code);
+      setCopyState('copied');
+    } catch (error) {
+      console.error('Error copying code:', error);
+      setCopyState('failed');
+    }
+
+    if (copyTimeoutRef.current) clearTimeout(copyTimeoutRef.current);
+    copyTimeoutRef.current = setTimeout(
+      () => setCopyState(null),
+      COPY_FEEDBACK_MS
+    );
+  };
+
+  const handleDownload = () => {
+    const url = URL.createObjectURL(new Blob([code], { type: 'text/plain' }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `snippet.${getCodeFileExtension(lang)}`;
+    // Some browsers ignore clicks on detached links, and start the download
+    // after the click returns
+    document.body.appendChild(link);
+    link.click();
+    link.remove();
+    setTimeout(() => URL.revokeObjectURL(url));
+  };
+
+  return (
+    <div className="not-prose my-3 rounded-lg border border-dark-600 bg-dark-900 overflow-hidden">
+      <div className="flex items-center justify-between px-3 py-1.5 border-b border-dark-700 text-xs text-dark-400">
+        <span className="font-mono">{lang || 'text'}</span>
+        <div className="flex items-center space-x-1">
+          <button
+            type="button"
+            onClick={handleCopy}
+            className="flex items-center space-x-1 p-1 hover:bg-dark-700 rounded hover:text-dark-200 transition-colors"
+            title="Copy code"
+          >
+            {copyState === 'copied' ? <Check size={12} /> : <Copy size={12} />}
+            <span aria-live="polite">
+              {copyState === 'copied'
+                ? 'Copied'
+                : copyState === 'failed'
+                  ? 'Copy failed'
+                  : 'Copy'}
+            </span>
+          </button>
+          <button
+            type="button"
+            onClick={handleDownload}
+            className="p-1 hover:bg-dark-700 rounded hover:text-dark-200 transition-colors"
+            aria-label="Download code"
+            title={`Download snippet.${getCodeFileExtension(lang)}`}
+          >
+            <Download size={12} />
+          </button>
+        </div>
+      </div>
+
+      <div className="flex overflow-x-auto text-sm leading-relaxed font-mono">
+        {/* Numbers live in their own column so selecting code skips them */}
+        <pre
+          aria-hidden="true"
+          className="py-3 pl-3 pr-3 text-right text-dark-500 select-none border-r border-dark-700"
+        >
+          {visibleLines.map((_, index) => index + 1).join('\n')}
+        </pre>
+        <pre className="flex-1 py-3 px-3 text-dark-100">
+          <code className={lang ? `language-${lang}` : undefined}>
+            {visibleLines.map((tokens, lineIndex) => (
+              <React.Fragment key={lineIndex}>
+                {lineIndex > 0 && '\n'}
+                {tokens.map((token, tokenIndex) =>
+                  TOKEN_CLASSES[token.type] ? (
+                    <span
+                      key={tokenIndex}
+                      className={TOKEN_CLASSES[token.type]}
+                    >
+                      {token.text}
+                    </span>
+                  ) : (
+                    token.text
+                  )
+                )}
+              </React.Fragment>
+            ))}
+          </code>
+        </pre>
+      </div>
+
+      {isCollapsible && (
+        <button
+          type="button"
+          onClick={() => setIsExpanded(!isExpanded)}
+          className="w-full flex items-center justify-center space-x-1 py-1.5 border-t border-dark-700 text-xs text-blue-400 hover:text-blue-300 hover:bg-dark-800 transition-colors"
+          aria-expanded={isExpanded}
+        >
+          {isExpanded ? <ChevronUp size={12} /> : <ChevronDown size={12} />}
+          <span>
+            {isExpanded ? 'Show less' : `Show all ${lines.length} lines`}
+          </span>
+        </button>
+      )}
+    </div>
+  );
+};
+
+export default CodeBlock;
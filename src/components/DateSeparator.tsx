@@ -0,0 +1,31 @@
+import React, { useSyncExternalStore } from 'react';
+import { Clock, formatDateSeparator } from '../utils/clock';
+
+interface DateSeparatorProps {
+  /** Creation time of the first message of the day */
+  timestamp: string;
+}
+
+/**
+ * "Today" / "Yesterday" / date line between days of a conversation
+ *
+ * Follows the shared clock so labels roll over at midnight.
+ */
+const DateSeparator: React.FC<DateSeparatorProps> = ({ timestamp }) => {
+  const now = useSyncExternalStore(Clock.subscribe, Clock.getTime);
+  const label = formatDateSeparator(timestamp, new Date(now));
+
+  return (
+    <div
+      role="separator"
+      aria-label={label}
+      className="flex items-center space-x-2 text-xs font-medium text-dark-400"
+    >
+      <div className="flex-1 border-t border-dark-700" />
+      <span>{label}</span>
+      <div className="flex-1 border-t border-dark-700" />
+    </div>
+  );
+};
+
+export default DateSeparator;
@@ -0,0 +1,109 @@
+import React, { useState, useEffect } from 'react';
+import { format } from 'date-fns';
+import { MessageRevision } from '../types';
+import { Messages } from '../utils/messages';
+import Modal from './Modal';
+
+interface EditHistoryModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  firebasePath: string;
+  messageId: string;
+  currentContent: string;
+}
+
+const EditHistoryModal: React.FC<EditHistoryModalProps> = ({
+  isOpen,
+  onClose,
+  firebasePath,
+  messageId,
+  currentContent,
+}) => {
+  const [revisions, setRevisions] = useState<MessageRevision[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!isOpen) return;
+
+    let cancelled = false;
+    setIsLoading(true);
+    setError(null);
+
+    Messages.getRevisions(firebasePath, messageId)
+      .then((result) => {
+        if (!cancelled) setRevisions(result);
+      })
+      .catch((err) => {
+        if (!cancelled) {
+          setError(
+            err instanceof Error ? err.message : 'Failed to load history'
+          );
+        }
+      })
+      .finally(() => {
+        if (!cancelled) setIsLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [isOpen, firebasePath, messageId]);
+
+  const formatEditedAt = (timestamp: string) => {
+    try {
+      return format(new Date(timestamp), 'PPpp');
+    } catch {
+      return 'Unknown time';
+    }
+  };
+
+  return (
+    <Modal isOpen={isOpen} onClose={onClose} title="Edit History" size="lg">
+      <div className="space-y-4">
+        <div className="bg-blue-900 border border-blue-700 rounded-lg p-4">
+          <p className="text-xs font-medium text-blue-300 mb-1">Current</p>
+          <p className="text-dark-100 whitespace-pre-wrap break-words">
+            {currentContent}
+          </p>
+        </div>
+
+        {error && (
+          <div className="bg-red-900 border border-red-700 rounded-lg p-4">
+            <p className="text-red-200 text-sm">{error}</p>
+          </div>
+        )}
+
+        {isLoading ? (
+          <div className="flex justify-center py-4">
+            <div className="spinner"></div>
+          </div>
+        ) : (
+          !error &&
+          (revisions.length === 0 ? (
+            <p className="text-dark-400 text-sm">No previous versions.</p>
+          ) : (
+            <ol className="space-y-3 max-h-96 overflow-y-auto">
+              {revisions.map((revision) => (
+                <li
+                  key={revision.id}
+                  className="bg-dark-800 border border-dark-600 rounded-lg p-4"
+                >
+                  <p className="text-xs text-dark-400 mb-1">
+                    Replaced by {revision.editedByName || revision.editedBy} on{' '}
+                    {formatEditedAt(revision.editedAt)}
+                  </p>
+                  <p className="text-dark-200 whitespace-pre-wrap break-words">
+                    {revision.content}
+                  </p>
+                </li>
+              ))}
+            </ol>
+          ))
+        )}
+      </div>
+    </Modal>
+  );
+};
+
+export default EditHistoryModal;
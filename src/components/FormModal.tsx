@@ -1,34 +1,111 @@
-import React, { useState } from 'react';
-// TODO: Restore ZodFormReact import when package is properly built
-// import { ZodFormReact } from 'zod-form-react';
+import React, { useId, useMemo, useState } from 'react';
+import { z } from 'zod';
+import {
+  FormErrors,
+  FormPath,
+  FormValues,
+  ObjectFormField,
+  buildFormModel,
+  formatFormErrors,
+  getInitialFormValue,
+  setFormValue,
+  toFormData,
+} from '../utils/form-model';
 import Modal from './Modal';
+import SchemaFormField from './SchemaFormField';
 
 interface FormModalProps {
   isOpen: boolean;
   onClose: () => void;
-  schema: any; // Zod schema
-  onSubmit: (data: any) => void;
+  /** Zod object schema describing the requested data */
+  schema: z.ZodTypeAny | null;
+  /** Why the request's schema could not be read, shown instead of the form */
+  schemaError?: string;
+  /** Receives the validated data; rejecting keeps the form open */
+  onSubmit: (data: Record<string, unknown>) => void | Promise<unknown>;
   title?: string;
   description?: string;
 }
 
+/**
+ * Build the form model, or explain why the schema cannot be shown
+ */
+function createForm(
+  schema: unknown,
+  schemaError?: string
+): { model: ObjectFormField; error?: undefined } | { error: string } {
+  if (schemaError) {
+    return { error: `This form could not be read. ${schemaError}` };
+  }
+  if (!(schema instanceof z.ZodType)) {
+    return { error: 'This request does not contain a form that can be shown.' };
+  }
+
+  try {
+    return { model: buildFormModel(schema) };
+  } catch (err) {
+    return {
+      error: err instanceof Error ? err.message : 'Invalid form schema',
+    };
+  }
+}
+
+/**
+ * Modal form generated from a Zod schema
+ *
+ * The data is validated against the schema before `onSubmit` is called;
+ * validation errors are shown next to their fields and re-checked as the
+ * user edits once a submission has been attempted.
+ */
 const FormModal: React.FC<FormModalProps> = ({
   isOpen,
   onClose,
-  schema: _schema,
+  schema,
+  schemaError,
   onSubmit,
   title = 'Form',
   description,
 }) => {
+  const idPrefix = useId();
+  const form = useMemo(
+    () => createForm(schema, schemaError),
+    [schema, schemaError]
+  );
+  const model = 'model' in form ? form.model : undefined;
+
+  const [values, setValues] = useState<FormValues>(() =>
+    model ? (getInitialFormValue(model) as FormValues) : {}
+  );
+  const [fieldErrors, setFieldErrors] = useState<FormErrors>({});
+  const [hasAttemptedSubmit, setHasAttemptedSubmit] = useState(false);
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [error, setError] = useState<string | null>(null);
 
-  const handleSubmit = async (data: any) => {
-    setIsSubmitting(true);
+  const validate = (nextValues: FormValues) => {
+    if (!model || !schema) return null;
+
+    const result = schema.safeParse(toFormData(model, nextValues));
+    setFieldErrors(result.success ? {} : formatFormErrors(result.error));
+    return result;
+  };
+
+  const handleChange = (path: FormPath, value: unknown) => {
+    const nextValues = setFormValue(values, path, value);
+    setValues(nextValues);
+    if (hasAttemptedSubmit) validate(nextValues);
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setHasAttemptedSubmit(true);
     setError(null);
 
+    const result = validate(values);
+    if (!result?.success) return;
+
+    setIsSubmitting(true);
     try {
-      onSubmit(data);
+      await onSubmit(result.data);
       onClose();
     } catch (err) {
       setError(err instanceof Error ? err.message : 'An error occurred');
@@ -43,6 +120,8 @@ const FormModal: React.FC<FormModalProps> = ({
     }
   };
 
+  const errorCount = Object.keys(fieldErrors).length;
+
   return (
     <Modal
       isOpen={isOpen}
@@ -54,85 +133,59 @@ const FormModal: React.FC<FormModalProps> = ({
       <div className="space-y-6">
         {description && <p className="text-dark-300">{description}</p>}
 
-        {error && (
-          <div className="bg-red-900 border border-red-700 rounded-lg p-4">
-            <p className="text-red-200 text-sm">{error}</p>
+        {(error || form.error) && (
+          <div
+            className="bg-red-900 border border-red-700 rounded-lg p-4"
+            role="alert"
+          >
+            <p className="text-red-200 text-sm">{error || form.error}</p>
           </div>
         )}
 
-        <div className="form-container">
-          {/* TODO: Restore ZodFormReact when package is properly built */}
-          {/* <ZodFormReact
-            schema={schema}
-            onSubmit={handleSubmit}
-            onCancel={handleCancel}
-            submitText={isSubmitting ? 'Submitting...' : 'Submit'}
-            cancelText="Cancel"
-            disabled={isSubmitting}
-            className={{
-              form: 'space-y-4',
-              field: 'space-y-2',
-              label: 'block text-sm font-medium text-dark-200',
-              input: 'form-input w-full',
-              textarea: 'form-input w-full',
-              select: 'form-input w-full',
-              checkbox: 'form-checkbox',
-              error: 'text-red-400 text-sm',
-              submitButton: 'btn-primary w-full',
-              cancelButton: 'btn-secondary w-full',
-              buttonContainer: 'flex space-x-3 pt-4',
-            }}
-            theme="dark"
-          /> */}
-          
-          {/* Temporary simplified form - replace when zod-form-react is built */}
-          <form 
-            className="space-y-4"
-            onSubmit={(e) => {
-              e.preventDefault();
-              const formData = new FormData(e.currentTarget);
-              const data = Object.fromEntries(formData.entries());
-              handleSubmit(data);
-            }}
-          >
-            <div className="space-y-4">
-              <p className="text-dark-300 text-sm">
-                Using simplified form (zod-form-react package needs build configuration)
-              </p>
-              
-              <div className="space-y-2">
-                <label className="block text-sm font-medium text-dark-200">
-                  Sample Input
-                </label>
-                <input
-                  type="text"
-                  name="sampleField"
-                  className="w-full px-3 py-2 bg-dark-800 border border-dark-600 rounded-lg text-dark-100 placeholder-dark-400 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
-                  placeholder="Enter some data..."
-                  required
-                />
-              </div>
-            </div>
-            
-            <div className="flex space-x-3 pt-4">
-              <button
-                type="button"
-                onClick={handleCancel}
-                disabled={isSubmitting}
-                className="flex-1 px-4 py-2 bg-dark-700 text-dark-200 rounded-lg hover:bg-dark-600 disabled:opacity-50 transition-colors"
-              >
-                Cancel
-              </button>
-              <button
-                type="submit"
-                disabled={isSubmitting}
-                className="flex-1 px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50 transition-colors"
-              >
-                {isSubmitting ? 'Submitting...' : 'Submit'}
-              </button>
-            </div>
-          </form>
-        </div>
+        <form className="space-y-4" onSubmit={handleSubmit} noValidate>
+          {model?.fields.map((field) => (
+            <SchemaFormField
+              key={field.name}
+              field={field}
+              path={[field.name]}
+              value={values[field.name]}
+              errors={fieldErrors}
+              idPrefix={idPrefix}
+              disabled={isSubmitting}
+              onChange={handleChange}
+            />
+          ))}
+
+          {fieldErrors[''] && (
+            <p className="text-red-400 text-sm" role="alert">
+              {fieldErrors['']}
+            </p>
+          )}
+          {errorCount > 0 && (
+            <p className="text-red-400 text-sm">
+              Please fix {errorCount === 1 ? '1 field' : `${errorCount} fields`}{' '}
+              before submitting.
+            </p>
+          )}
+
+          <div className="flex space-x-3 pt-4">
+            <button
+              type="button"
+              onClick={handleCancel}
+              disabled={isSubmitting}
+              className="flex-1 px-4 py-2 bg-dark-700 text-dark-200 rounded-lg hover:bg-dark-600 disabled:opacity-50 transition-colors"
+            >
+              Cancel
+            </button>
+            <button
+              type="submit"
+              disabled={isSubmitting || !model}
+              className="flex-1 px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50 transition-colors"
+            >
+              {isSubmitting ? 'Submitting...' : 'Submit'}
+            </button>
+          </div>
+        </form>
       </div>
     </Modal>
   );
@@ -0,0 +1,94 @@
+import React, { useSyncExternalStore } from 'react';
+import { formatDistanceToNow } from 'date-fns';
+import { CheckCircle, Clock as ClockIcon, FileText } from 'lucide-react';
+import { Message } from '../types';
+import { Clock, formatAbsoluteTime } from '../utils/clock';
+import {
+  formatFormRequestProgress,
+  isFormRequestExpired,
+} from '../utils/form-requests';
+
+interface FormRequestPromptProps {
+  message: Message;
+  currentUserId: string;
+  /** Opens the form; the button is hidden when omitted */
+  onRespond?: () => void;
+}
+
+const noSubscription = () => () => {};
+
+/**
+ * "Provide Information" button under a message with a data request
+ *
+ * Shows how many recipients have responded and when the request closes.
+ * The button is disabled once the viewer has responded or the request has
+ * expired, and is not shown to the requester or to users it was not sent
+ * to.
+ */
+const FormRequestPrompt: React.FC<FormRequestPromptProps> = ({
+  message,
+  currentUserId,
+  onRespond,
+}) => {
+  const summary = message.formRequest;
+
+  // Re-render on clock ticks while an expiry is pending
+  useSyncExternalStore(
+    summary?.expiresAt ? Clock.subscribe : noSubscription,
+    Clock.getTime
+  );
+
+  const isExpired = summary ? isFormRequestExpired(summary) : false;
+  const hasResponded = Boolean(summary?.responderIds.includes(currentUserId));
+  const isRequester = message.senderId === currentUserId;
+  const isRecipient =
+    !message.recipientIds?.length ||
+    message.recipientIds.includes(currentUserId);
+  const progress = summary && formatFormRequestProgress(summary);
+
+  const canSeeButton = Boolean(onRespond) && !isRequester && isRecipient;
+
+  return (
+    <div className="mt-3 space-y-1">
+      {canSeeButton && (
+        <button
+          type="button"
+          onClick={onRespond}
+          disabled={isExpired || hasResponded}
+          className="inline-flex items-center space-x-2 bg-blue-600 hover:bg-blue-700 disabled:bg-dark-700 disabled:text-dark-400 disabled:cursor-not-allowed text-white px-4 py-2 rounded-lg transition-colors"
+        >
+          {hasResponded ? <CheckCircle size={16} /> : <FileText size={16} />}
+          <span>
+            {hasResponded
+              ? 'Response submitted'
+              : isExpired
+                ? 'Form closed'
+                : 'Provide Information'}
+          </span>
+        </button>
+      )}
+
+      {(progress || summary?.expiresAt) && (
+        <p className="flex items-center space-x-2 text-xs text-dark-400">
+          {progress && <span>{progress}</span>}
+          {summary?.expiresAt && (
+            <span
+              className="inline-flex items-center space-x-1"
+              title={formatAbsoluteTime(summary.expiresAt)}
+            >
+              <ClockIcon size={12} />
+              <span>
+                {isExpired ? 'Closed' : 'Closes'}{' '}
+                {formatDistanceToNow(new Date(summary.expiresAt), {
+                  addSuffix: true,
+                })}
+              </span>
+            </span>
+          )}
+        </p>
+      )}
+    </div>
+  );
+};
+
+export default FormRequestPrompt;
@@ -0,0 +1,162 @@
+import React, { useMemo, useState } from 'react';
+import { ChevronDown, ChevronUp, FileText, Lock } from 'lucide-react';
+import { Message } from '../types';
+import { parseDataRequest } from '../utils/data-request';
+import {
+  FormDataEntry,
+  ObjectFormField,
+  buildFormModel,
+  describeFormData,
+} from '../utils/form-model';
+import {
+  canViewFormResponse,
+  getFormRequestTitle,
+  getFormResponse,
+} from '../utils/form-requests';
+
+interface FormResponseCardProps {
+  /** Message carrying the submitted data */
+  message: Message;
+  /** Message that asked for the data, when it is loaded */
+  request?: Message;
+  currentUserId: string;
+  isAdmin?: boolean;
+  /** Scrolls to the request; its title is plain text when omitted */
+  onShowRequest?: (requestId: string) => void;
+  /** Forms with more fields than this start collapsed */
+  collapseAfterFields?: number;
+}
+
+/**
+ * Form model of the request, for labelling the submitted fields
+ */
+function getRequestModel(request?: Message): ObjectFormField | null {
+  if (!request?.dataRequest) return null;
+
+  const result = parseDataRequest(request.dataRequest);
+  if (!result.success) return null;
+
+  try {
+    return buildFormModel(result.schema);
+  } catch {
+    return null;
+  }
+}
+
+const FormDataList: React.FC<{ entries: FormDataEntry[] }> = ({ entries }) => (
+  <dl className="space-y-1">
+    {entries.map((entry) =>
+      entry.entries ? (
+        <div key={entry.key}>
+          <dt className="text-dark-400">{entry.label}</dt>
+          <dd className="mt-1 pl-3 border-l border-dark-700">
+            {entry.entries.length > 0 ? (
+              <FormDataList entries={entry.entries} />
+            ) : (
+              <span className="text-dark-500">—</span>
+            )}
+          </dd>
+        </div>
+      ) : (
+        <div key={entry.key} className="flex space-x-3">
+          <dt className="w-1/3 shrink-0 text-dark-400">{entry.label}</dt>
+          <dd className="text-dark-100 break-words whitespace-pre-wrap min-w-0">
+            {entry.value}
+          </dd>
+        </div>
+      )
+    )}
+  </dl>
+);
+
+/**
+ * Read-only card showing the data submitted in response to a form
+ *
+ * Fields are labelled with the request's form when the request message is
+ * loaded. Responses to private requests show a notice instead of the data
+ * to everyone but the requester, the respondent and admins.
+ */
+const FormResponseCard: React.FC<FormResponseCardProps> = ({
+  message,
+  request,
+  currentUserId,
+  isAdmin = false,
+  onShowRequest,
+  collapseAfterFields = 5,
+}) => {
+  const [isExpanded, setIsExpanded] = useState(false);
+  const response = useMemo(() => getFormResponse(message), [message]);
+
+  const model = useMemo(() => getRequestModel(request), [request]);
+  const entries = useMemo(
+    () => (response ? describeFormData(model, response.data) : []),
+    [model, response]
+  );
+
+  if (!response) return null;
+
+  const canView = canViewFormResponse(message, currentUserId, isAdmin);
+  const isCollapsible = canView && entries.length > collapseAfterFields;
+  const visibleEntries =
+    isCollapsible && !isExpanded
+      ? entries.slice(0, collapseAfterFields)
+      : entries;
+
+  const requestId = response.requestId;
+  const title = request && getFormRequestTitle(request.content);
+
+  return (
+    <div className="mt-3 rounded-lg border border-dark-700 bg-dark-900 text-sm overflow-hidden">
+      <div className="flex items-center space-x-2 px-3 py-2 border-b border-dark-700 text-xs text-dark-400">
+        <FileText size={14} />
+        {title ? (
+          <span className="truncate">
+            Response to{' '}
+            {onShowRequest && requestId ? (
+              <button
+                type="button"
+                onClick={() => onShowRequest(requestId)}
+                className="text-blue-400 hover:text-blue-300 hover:underline"
+              >
+                {title}
+              </button>
+            ) : (
+              <span className="text-dark-200">{title}</span>
+            )}
+          </span>
+        ) : (
+          <span>Form response</span>
+        )}
+      </div>
+
+      <div className="px-3 py-2">
+        {!canView ? (
+          <p className="flex items-center space-x-2 text-dark-400">
+            <Lock size={14} />
+            <span>Only the requester and admins can see this response.</span>
+          </p>
+        ) : entries.length > 0 ? (
+          <FormDataList entries={visibleEntries} />
+        ) : (
+          <p className="text-dark-400">No data was submitted.</p>
+        )}
+      </div>
+
+      {isCollapsible && (
+        <button
+          type="button"
+          onClick={() => setIsExpanded(!isExpanded)}
+          className="w-full flex items-center justify-center space-x-1 py-1.5 border-t border-dark-700 text-xs text-blue-400 hover:text-blue-300 hover:bg-dark-800 transition-colors"
+          aria-expanded={isExpanded}
+        >
+          {isExpanded ? <ChevronUp size={12} /> : <ChevronDown size={12} />}
+          <span>
+            {isExpanded ? 'Show less' : `Show all ${entries.length} fields`}
+          </span>
+        </button>
+      )}
+    </div>
+  );
+};
+
+export default FormResponseCard;
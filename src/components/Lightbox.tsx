@@ -0,0 +1,232 @@
+import React, { useCallback, useEffect, useRef, useState } from 'react';
+import {
+  ChevronLeft,
+  ChevronRight,
+  Download,
+  RotateCcw,
+  ZoomIn,
+  ZoomOut,
+} from 'lucide-react';
+import { GalleryImage } from '../types';
+import Modal from './Modal';
+
+interface LightboxProps {
+  images: GalleryImage[];
+  /** Key of the image to open with */
+  initialKey: string;
+  onClose: () => void;
+}
+
+const MIN_ZOOM = 1;
+const MAX_ZOOM = 4;
+const ZOOM_STEP = 0.5;
+
+const clampZoom = (zoom: number) =>
+  Math.min(MAX_ZOOM, Math.max(MIN_ZOOM, zoom));
+
+/**
+ * Full-screen image viewer with gallery navigation
+ *
+ * The current image is tracked by key, so the gallery can grow or shrink
+ * with live updates while the lightbox is open. Zoom with the toolbar, the
+ * mouse wheel, a double click or +/-/0; drag to pan while zoomed; use the
+ * arrow keys to move between images.
+ */
+const Lightbox: React.FC<LightboxProps> = ({ images, initialKey, onClose }) => {
+  const [currentKey, setCurrentKey] = useState(initialKey);
+  const [zoom, setZoom] = useState(MIN_ZOOM);
+  const [offset, setOffset] = useState({ x: 0, y: 0 });
+  const [isDragging, setIsDragging] = useState(false);
+  // Pointer position relative to the image offset when the drag started
+  const dragStartRef = useRef({ x: 0, y: 0 });
+
+  const index = images.findIndex((image) => image.key === currentKey);
+  const image = images[index];
+
+  const resetView = useCallback(() => {
+    setZoom(MIN_ZOOM);
+    setOffset({ x: 0, y: 0 });
+  }, []);
+
+  const changeZoom = useCallback(
+    (delta: number) => {
+      const next = clampZoom(zoom + delta);
+      setZoom(next);
+      // Fully zoomed out images are always centred
+      if (next === MIN_ZOOM) setOffset({ x: 0, y: 0 });
+    },
+    [zoom]
+  );
+
+  const showImage = useCallback(
+    (nextIndex: number) => {
+      const next = images[nextIndex];
+      if (!next) return;
+
+      setCurrentKey(next.key);
+      resetView();
+    },
+    [images, resetView]
+  );
+
+  // The image disappeared, e.g. its message was deleted
+  useEffect(() => {
+    if (!image) onClose();
+  }, [image, onClose]);
+
+  // Keyboard navigation; Escape is handled by Modal
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'ArrowLeft') showImage(index - 1);
+      else if (e.key === 'ArrowRight') showImage(index + 1);
+      else if (e.key === '+' || e.key === '=') changeZoom(ZOOM_STEP);
+      else if (e.key === '-') changeZoom(-ZOOM_STEP);
+      else if (e.key === '0') resetView();
+    };
+
+    document.addEventListener('keydown', handleKeyDown);
+    return () => document.removeEventListener('keydown', handleKeyDown);
+  }, [index, showImage, changeZoom, resetView]);
+
+  const handlePointerDown = (e: React.PointerEvent) => {
+    if (zoom === MIN_ZOOM) return;
+
+    dragStartRef.current = {
+      x: e.clientX - offset.x,
+      y: e.clientY - offset.y,
+    };
+    setIsDragging(true);
+    e.currentTarget.setPointerCapture?.(e.pointerId);
+  };
+
+  const handlePointerMove = (e: React.PointerEvent) => {
+    if (!isDragging) return;
+
+    setOffset({
+      x: e.clientX - dragStartRef.current.x,
+      y: e.clientY - dragStartRef.current.y,
+    });
+  };
+
+  const handlePointerUp = () => setIsDragging(false);
+
+  if (!image) return null;
+
+  const toolbarButtonClasses =
+    'btn-ghost p-2 text-dark-300 hover:text-dark-100 disabled:opacity-40 disabled:cursor-not-allowed';
+
+  return (
+    <Modal
+      isOpen
+      onClose={onClose}
+      title={`Image ${index + 1} of ${images.length}`}
+      size="full"
+    >
+      <div className="flex items-center justify-between mb-4">
+        <span className="text-sm text-dark-400">
+          {image.senderName && `Shared by ${image.senderName}`}
+        </span>
+        <div className="flex items-center space-x-1">
+          <button
+            type="button"
+            onClick={() => changeZoom(-ZOOM_STEP)}
+            disabled={zoom === MIN_ZOOM}
+            className={toolbarButtonClasses}
+            aria-label="Zoom out"
+          >
+            <ZoomOut size={18} />
+          </button>
+          <span className="w-12 text-center text-sm text-dark-400">
+            {Math.round(zoom * 100)}%
+          </span>
+          <button
+            type="button"
+            onClick={() => changeZoom(ZOOM_STEP)}
+            disabled={zoom === MAX_ZOOM}
+            className={toolbarButtonClasses}
+            aria-label="Zoom in"
+          >
+            <ZoomIn size={18} />
+          </button>
+          <button
+            type="button"
+            onClick={resetView}
+            disabled={zoom === MIN_ZOOM}
+            className={toolbarButtonClasses}
+            aria-label="Reset zoom"
+          >
+            <RotateCcw size={18} />
+          </button>
+          <a
+            href={image.url}
+            download
+            target="_blank"
+            rel="noopener noreferrer"
+            className="btn-ghost p-2 text-dark-300 hover:text-dark-100"
+            aria-label="Download image"
+          >
+            <Download size={18} />
+          </a>
+        </div>
+      </div>
+
+      <div className="relative flex items-center justify-center h-[70vh] bg-dark-950 rounded-lg overflow-hidden select-none">
+        <img
+          src={image.url}
+          alt={image.title || image.description || 'Image'}
+          draggable={false}
+          className={`max-w-full max-h-full object-contain ${
+            zoom > MIN_ZOOM ? 'cursor-grab active:cursor-grabbing' : ''
+          }`}
+          style={{
+            transform: `translate(${offset.x}px, ${offset.y}px) scale(${zoom})`,
+            transition: isDragging ? 'none' : 'transform 0.15s ease-out',
+          }}
+          onWheel={(e) => changeZoom(e.deltaY < 0 ? ZOOM_STEP : -ZOOM_STEP)}
+          onDoubleClick={() =>
+            zoom === MIN_ZOOM ? changeZoom(ZOOM_STEP * 2) : resetView()
+          }
+          onPointerDown={handlePointerDown}
+          onPointerMove={handlePointerMove}
+          onPointerUp={handlePointerUp}
+          onPointerCancel={handlePointerUp}
+        />
+
+        {index > 0 && (
+          <button
+            type="button"
+            onClick={() => showImage(index - 1)}
+            className="absolute left-2 top-1/2 -translate-y-1/2 p-2 rounded-full bg-dark-900 bg-opacity-70 text-dark-200 hover:text-white"
+            aria-label="Previous image"
+          >
+            <ChevronLeft size={24} />
+          </button>
+        )}
+        {index < images.length - 1 && (
+          <button
+            type="button"
+            onClick={() => showImage(index + 1)}
+            className="absolute right-2 top-1/2 -translate-y-1/2 p-2 rounded-full bg-dark-900 bg-opacity-70 text-dark-200 hover:text-white"
+            aria-label="Next image"
+          >
+            <ChevronRight size={24} />
+          </button>
+        )}
+      </div>
+
+      {/* Caption */}
+      {(image.title || image.description) && (
+        <div className="mt-4 text-center">
+          {image.title && (
+            <p className="font-medium text-dark-100">{image.title}</p>
+          )}
+          {image.description && (
+            <p className="text-sm text-dark-400 mt-1">{image.description}</p>
+          )}
+        </div>
+      )}
+    </Modal>
+  );
+};
+
+export default Lightbox;
@@ -0,0 +1,138 @@
+import React, { useMemo } from 'react';
+import { BlockNode, InlineNode, parseMarkdown } from '../utils/markdown';
+import { sanitizeMarkdown } from '../utils/sanitize';
+import CodeBlock from './CodeBlock';
+
+interface MarkdownContentProps {
+  content: string;
+  className?: string;
+}
+
+const HEADING_TAGS = ['h1', 'h2', 'h3', 'h4', 'h5', 'h6'] as const;
+
+const renderInline = (nodes: InlineNode[]): React.ReactNode[] =>
+  nodes.map((node, index) => {
+    switch (node.type) {
+      case 'text':
+        return node.text;
+      case 'break':
+        return <br key={index} />;
+      case 'inlineCode':
+        return <code key={index}>{node.text}</code>;
+      case 'strong':
+        return <strong key={index}>{renderInline(node.children)}</strong>;
+      case 'emphasis':
+        return <em key={index}>{renderInline(node.children)}</em>;
+      case 'strikethrough':
+        return <del key={index}>{renderInline(node.children)}</del>;
+      case 'mention':
+        return (
+          <span key={index} className="mention" data-user-id={node.userId}>
+            @{node.label}
+          </span>
+        );
+      case 'link':
+        return (
+          <a
+            key={index}
+            href={node.href}
+            target="_blank"
+            rel="noopener noreferrer nofollow"
+            className="text-blue-400 hover:text-blue-300 underline"
+          >
+            {renderInline(node.children)}
+          </a>
+        );
+      default:
+        return null;
+    }
+  });
+
+const renderBlocks = (nodes: BlockNode[]): React.ReactNode[] =>
+  nodes.map((node, index) => {
+    switch (node.type) {
+      case 'paragraph':
+        return <p key={index}>{renderInline(node.children)}</p>;
+      case 'heading': {
+        const Heading = HEADING_TAGS[node.depth - 1];
+        return <Heading key={index}>{renderInline(node.children)}</Heading>;
+      }
+      case 'thematicBreak':
+        return <hr key={index} />;
+      case 'blockquote':
+        return (
+          <blockquote key={index}>{renderBlocks(node.children)}</blockquote>
+        );
+      case 'code':
+        return <CodeBlock key={index} code={node.text} lang={node.lang} />;
+      case 'list': {
+        const items = node.items.map((item, itemIndex) => (
+          <li key={itemIndex}>{renderBlocks(item)}</li>
+        ));
+        return node.ordered ? (
+          <ol key={index} start={node.start}>
+            {items}
+          </ol>
+        ) : (
+          <ul key={index}>{items}</ul>
+        );
+      }
+      case 'table':
+        return (
+          <div key={index} className="overflow-x-auto">
+            <table>
+              <thead>
+                <tr>
+                  {node.header.map((cell, cellIndex) => (
+                    <th
+                      key={cellIndex}
+                      style={{ textAlign: node.align[cellIndex] ?? undefined }}
+                    >
+                      {renderInline(cell)}
+                    </th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody>
+                {node.rows.map((row, rowIndex) => (
+                  <tr key={rowIndex}>
+                    {row.map((cell, cellIndex) => (
+                      <td
+                        key={cellIndex}
+                        style={{
+                          textAlign: node.align[cellIndex] ?? undefined,
+                        }}
+                      >
+                        {renderInline(cell)}
+                      </td>
+                    ))}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        );
+      default:
+        return null;
+    }
+  });
+
+/**
+ * Renders message Markdown as React elements
+ *
+ * Content is parsed and sanitized into an allowlisted tree, so no markup
+ * from the message ever reaches the DOM as HTML.
+ */
+const MarkdownContent: React.FC<MarkdownContentProps> = ({
+  content,
+  className = '',
+}) => {
+  const blocks = useMemo(
+    () => sanitizeMarkdown(parseMarkdown(content)),
+    [content]
+  );
+
+  return <div className={className}>{renderBlocks(blocks)}</div>;
+};
+
+export default MarkdownContent;
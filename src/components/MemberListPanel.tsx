@@ -0,0 +1,157 @@
+import React, { useMemo } from 'react';
+import { formatDistanceToNow } from 'date-fns';
+import { X } from 'lucide-react';
+import { PresenceRecord, PresenceState } from '../types';
+import { getPresenceState } from '../utils/presence';
+import PresenceDot from './PresenceDot';
+
+interface MemberListPanelProps {
+  presence: PresenceRecord[];
+  /** Members with explicit access, shown as offline until they connect */
+  memberIds?: string[];
+  /** Reference time for expiring stale heartbeats */
+  now: number;
+  onClose: () => void;
+}
+
+interface MemberEntry {
+  userId: string;
+  name: string;
+  isAgent: boolean;
+  state: PresenceState;
+  lastSeenAt?: string;
+}
+
+const SECTIONS: { state: PresenceState; title: string }[] = [
+  { state: 'online', title: 'Online' },
+  { state: 'away', title: 'Away' },
+  { state: 'offline', title: 'Offline' },
+];
+
+const MemberListPanel: React.FC<MemberListPanelProps> = ({
+  presence,
+  memberIds = [],
+  now,
+  onClose,
+}) => {
+  const members = useMemo(() => {
+    const byId = new Map<string, MemberEntry>();
+
+    memberIds.forEach((userId) =>
+      byId.set(userId, {
+        userId,
+        name: userId,
+        isAgent: false,
+        state: 'offline',
+      })
+    );
+    presence.forEach((record) =>
+      byId.set(record.userId, {
+        userId: record.userId,
+        name: record.displayName || record.userId,
+        isAgent: record.isAgent === true,
+        state: getPresenceState(record, now),
+        lastSeenAt: record.lastSeenAt,
+      })
+    );
+
+    return Array.from(byId.values()).sort((a, b) =>
+      a.name.localeCompare(b.name)
+    );
+  }, [presence, memberIds, now]);
+
+  const formatLastSeen = (timestamp?: string) => {
+    if (!timestamp) return 'Never seen';
+    try {
+      return `Last seen ${formatDistanceToNow(new Date(timestamp), {
+        addSuffix: true,
+      })}`;
+    } catch {
+      return 'Last seen a while ago';
+    }
+  };
+
+  const renderMember = (member: MemberEntry) => {
+    const initials = member.name
+      .split(' ')
+      .map((n) => n[0])
+      .join('')
+      .slice(0, 2)
+      .toUpperCase();
+
+    return (
+      <li key={member.userId} className="flex items-center gap-3 py-2">
+        <div className="relative flex-shrink-0">
+          <div
+            className={`w-8 h-8 rounded-full flex items-center justify-center text-white text-sm font-medium ${
+              member.isAgent ? 'bg-purple-600' : 'bg-blue-600'
+            }`}
+          >
+            {initials}
+          </div>
+          <PresenceDot state={member.state} />
+        </div>
+        <div className="min-w-0">
+          <div className="flex items-center space-x-2">
+            <span className="text-sm text-dark-100 truncate">
+              {member.name}
+            </span>
+            {member.isAgent && (
+              <span className="bg-purple-700 text-purple-200 text-xs px-1.5 py-0.5 rounded-full font-medium">
+                AI
+              </span>
+            )}
+          </div>
+          {member.state !== 'online' && (
+            <p className="text-xs text-dark-400">
+              {formatLastSeen(member.lastSeenAt)}
+            </p>
+          )}
+        </div>
+      </li>
+    );
+  };
+
+  return (
+    <aside
+      aria-label="Members"
+      className="w-72 flex-shrink-0 flex flex-col border-l border-dark-700 bg-dark-900"
+    >
+      {/* Header */}
+      <div className="flex items-center justify-between px-4 py-3 border-b border-dark-700">
+        <h3 className="font-semibold text-dark-100">Members</h3>
+        <button
+          type="button"
+          onClick={onClose}
+          className="btn-ghost p-2 text-dark-400 hover:text-dark-200"
+          aria-label="Close members"
+        >
+          <X size={18} />
+        </button>
+      </div>
+
+      <div className="flex-1 overflow-y-auto p-4 space-y-4">
+        {SECTIONS.map(({ state, title }) => {
+          const sectionMembers = members.filter(
+            (member) => member.state === state
+          );
+          if (sectionMembers.length === 0) return null;
+
+          return (
+            <section key={state} aria-labelledby={`members-${state}`}>
+              <h4
+                id={`members-${state}`}
+                className="text-xs font-medium uppercase text-dark-400 mb-1"
+              >
+                {title} — {sectionMembers.length}
+              </h4>
+              <ul>{sectionMembers.map(renderMember)}</ul>
+            </section>
+          );
+        })}
+      </div>
+    </aside>
+  );
+};
+
+export default MemberListPanel;
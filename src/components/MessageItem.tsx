@@ -1,13 +1,42 @@
 import React, { useState } from 'react';
-import { formatDistanceToNow } from 'date-fns';
 import {
   MessageSquare,
   MoreHorizontal,
   FileText,
   ExternalLink,
-  Play,
+  AlertCircle,
 } from 'lucide-react';
-import { Message, User, MessageAttachment, formatMentions } from '../types';
+import {
+  Message,
+  User,
+  MessageAttachment,
+  PresenceState,
+  ReadReceipt,
+  DeliveryStatus,
+} from '../types';
+import { aggregateReactions } from '../utils/reactions';
+import { decodeMentions, encodeMentions } from '../utils/message-helpers';
+import { formatAbsoluteTime, formatClockTime } from '../utils/clock';
+import { getFormResponse } from '../utils/form-requests';
+import {
+  parseYouTubeUrl,
+  restoreProcessedContent,
+} from '../utils/media-helpers';
+import PresenceDot from './PresenceDot';
+import MarkdownContent from './MarkdownContent';
+import RelativeTime from './RelativeTime';
+import YouTubeEmbed from './YouTubeEmbed';
+import FormRequestPrompt from './FormRequestPrompt';
+import FormResponseCard from './FormResponseCard';
+import {
+  findAttachmentRenderer,
+  useAttachmentRenderers,
+} from './AttachmentRendererProvider';
+
+/**
+ * Number of reader avatars shown before collapsing into "+N"
+ */
+const MAX_SEEN_BY_AVATARS = 5;
 
 interface MessageItemProps {
   message: Message;
@@ -16,9 +45,32 @@ interface MessageItemProps {
   isSystem?: boolean;
   enableReactions?: boolean;
   enableReplies?: boolean;
-  onDataRequest?: (schema: any) => void;
+  /** Play YouTube videos inline instead of opening a new tab */
+  enableVideoEmbeds?: boolean;
+  showThreadSummary?: boolean;
+  onDataRequest?: (message: Message) => void;
+  /** Message a form response answers, when it is loaded */
+  formRequestMessage?: Message;
+  /** Scrolls to another message, e.g. the request a response answers */
+  onShowMessage?: (messageId: string) => void;
   onReply?: (messageId: string) => void;
   onReaction?: (messageId: string, emoji: string) => void;
+  onEdit?: (messageId: string, content: string) => Promise<boolean>;
+  onViewHistory?: (message: Message) => void;
+  onDelete?: (messageId: string) => void;
+  canModerate?: boolean;
+  /** Presence of the sender; no dot is shown when omitted */
+  presence?: PresenceState;
+  /** Members whose newest read message is this one */
+  seenBy?: ReadReceipt[];
+  /** Set while the message waits for server confirmation */
+  deliveryStatus?: DeliveryStatus;
+  onRetry?: (messageId: string) => void;
+  onDiscard?: (messageId: string) => void;
+  /** Continues the previous message's group: no avatar or header */
+  isGrouped?: boolean;
+  /** Opens an image in the lightbox; images open in a new tab otherwise */
+  onOpenImage?: (imageKey: string) => void;
 }
 
 const MessageItem: React.FC<MessageItemProps> = ({
@@ -28,65 +80,167 @@ const MessageItem: React.FC<MessageItemProps> = ({
   isSystem = false,
   enableReactions = true,
   enableReplies = true,
+  enableVideoEmbeds = true,
+  showThreadSummary = true,
   onDataRequest,
+  formRequestMessage,
+  onShowMessage,
   onReply,
   onReaction,
+  onEdit,
+  onViewHistory,
+  onDelete,
+  canModerate = false,
+  presence,
+  seenBy,
+  deliveryStatus,
+  onRetry,
+  onDiscard,
+  isGrouped = false,
+  onOpenImage,
 }) => {
   const [showActions, setShowActions] = useState(false);
   const [showEmojiPicker, setShowEmojiPicker] = useState(false);
+  const [showMenu, setShowMenu] = useState(false);
+  const [isEditing, setIsEditing] = useState(false);
+  const [editValue, setEditValue] = useState('');
+  const [isSavingEdit, setIsSavingEdit] = useState(false);
   const [imageError, setImageError] = useState<Record<string, boolean>>({});
+  const attachmentRenderers = useAttachmentRenderers();
 
   const isCurrentUser = message.senderId === currentUser.id;
   const senderName = message.senderName || 'Unknown User';
 
-  // Format timestamp
-  const formatTime = (timestamp: string) => {
-    try {
-      const date = new Date(timestamp);
-      return formatDistanceToNow(date, { addSuffix: true });
-    } catch {
-      return 'Unknown time';
-    }
-  };
+  // Menu permissions (handlers are only provided when allowed)
+  const canEdit = isCurrentUser && Boolean(onEdit);
+  const canViewHistory = Boolean(onViewHistory && message.editedAt);
+  const canDelete = Boolean(onDelete) && (isCurrentUser || canModerate);
+  const hasMenuItems = canEdit || canViewHistory || canDelete;
 
-  // Generate avatar for sender
-  const renderAvatar = () => {
-    const initials = senderName
+  // Get initials for an avatar
+  const getInitials = (name: string) =>
+    name
       .split(' ')
       .map((n) => n[0])
       .join('')
       .substring(0, 2)
       .toUpperCase();
 
+  // Generate avatar for sender
+  const renderAvatar = () => {
+    const initials = getInitials(senderName);
+
     let bgColor = 'bg-blue-600';
     if (isSystem) bgColor = 'bg-red-600';
     else if (isAgent) bgColor = 'bg-purple-600';
     else if (isCurrentUser) bgColor = 'bg-green-600';
 
     return (
-      <div
-        className={`w-8 h-8 rounded-full ${bgColor} flex items-center justify-center text-white text-sm font-medium`}
-      >
-        {initials}
+      <div className="relative">
+        <div
+          className={`w-8 h-8 rounded-full ${bgColor} flex items-center justify-center text-white text-sm font-medium`}
+        >
+          {initials}
+        </div>
+        {presence && <PresenceDot state={presence} />}
       </div>
     );
   };
 
-  // Render message content with mentions
-  const renderContent = () => {
-    let content = message.content;
-
-    // Process mentions
-    content = formatMentions(content);
+  // Time shown in place of the avatar when hovering a grouped message
+  const renderGroupedTime = () => (
+    <time
+      dateTime={message.createdAt}
+      title={formatAbsoluteTime(message.createdAt)}
+      className="block pt-1 text-[10px] leading-4 text-right whitespace-nowrap text-dark-500 opacity-0 group-hover:opacity-100 transition-opacity"
+    >
+      {formatClockTime(message.createdAt)}
+    </time>
+  );
 
-    return (
-      <div
-        className="prose prose-sm prose-invert max-w-none break-words"
-        dangerouslySetInnerHTML={{ __html: content }}
-      />
+  // Text as the sender wrote it, with detected links and schemas put back
+  const getEditableContent = () =>
+    decodeMentions(
+      restoreProcessedContent(
+        message.content,
+        message.attachments,
+        message.dataRequest
+      )
     );
+
+  // Start inline editing
+  const startEditing = () => {
+    // Edit mentions as "@label"; they are turned back into tokens on save
+    setEditValue(getEditableContent());
+    setIsEditing(true);
+    setShowMenu(false);
+  };
+
+  // Save inline edit
+  const saveEdit = async () => {
+    if (!onEdit || !editValue.trim() || isSavingEdit) return;
+
+    if (editValue.trim() === getEditableContent().trim()) {
+      setIsEditing(false);
+      return;
+    }
+
+    const content = encodeMentions(editValue, message.mentions || []);
+    setIsSavingEdit(true);
+    const saved = await onEdit(message.id!, content);
+    setIsSavingEdit(false);
+    if (saved) setIsEditing(false);
   };
 
+  // Render inline editor
+  const renderEditor = () => (
+    <div className="space-y-2">
+      <textarea
+        value={editValue}
+        onChange={(e) => setEditValue(e.target.value)}
+        onKeyDown={(e) => {
+          if (e.key === 'Enter' && !e.shiftKey) {
+            e.preventDefault();
+            saveEdit();
+          } else if (e.key === 'Escape') {
+            setIsEditing(false);
+          }
+        }}
+        className="w-full bg-dark-800 border border-dark-600 rounded-lg px-3 py-2 text-dark-100 resize-none focus:outline-none"
+        rows={3}
+        disabled={isSavingEdit}
+        aria-label="Edit message"
+        autoFocus
+      />
+      <div className="flex justify-end space-x-2 text-sm">
+        <button
+          type="button"
+          onClick={() => setIsEditing(false)}
+          disabled={isSavingEdit}
+          className="px-3 py-1 rounded-lg bg-dark-700 text-dark-200 hover:bg-dark-600 disabled:opacity-50 transition-colors"
+        >
+          Cancel
+        </button>
+        <button
+          type="button"
+          onClick={saveEdit}
+          disabled={!editValue.trim() || isSavingEdit}
+          className="px-3 py-1 rounded-lg bg-blue-600 text-white hover:bg-blue-700 disabled:opacity-50 transition-colors"
+        >
+          {isSavingEdit ? 'Saving...' : 'Save'}
+        </button>
+      </div>
+    </div>
+  );
+
+  // Render message content as sanitized Markdown with mention chips
+  const renderContent = () => (
+    <MarkdownContent
+      content={message.content}
+      className="prose prose-sm prose-invert max-w-none break-words"
+    />
+  );
+
   // Render attachments
   const renderAttachments = () => {
     if (!message.attachments || message.attachments.length === 0) return null;
@@ -104,6 +258,12 @@ const MessageItem: React.FC<MessageItemProps> = ({
 
   // Render individual attachment
   const renderAttachment = (attachment: MessageAttachment, index: number) => {
+    const customRenderer = findAttachmentRenderer(
+      attachmentRenderers,
+      attachment
+    );
+    if (customRenderer) return customRenderer(attachment, message);
+
     switch (attachment.type) {
       case 'image':
         return renderImageAttachment(attachment, index);
@@ -119,7 +279,8 @@ const MessageItem: React.FC<MessageItemProps> = ({
       case 'link':
         return renderLinkAttachment(attachment);
       default:
-        return null;
+        // Custom type without a registered renderer: fall back to a plain link
+        return renderLinkAttachment(attachment);
     }
   };
 
@@ -149,19 +310,26 @@ const MessageItem: React.FC<MessageItemProps> = ({
 
     return (
       <div className="relative group">
-        <img
-          src={attachment.url}
-          alt={attachment.title || 'Image'}
-          className="max-w-full h-auto rounded-lg cursor-pointer hover:opacity-90 transition-opacity"
-          style={{ maxHeight: '400px' }}
-          onError={() =>
-            setImageError((prev) => ({ ...prev, [imageKey]: true }))
+        <button
+          type="button"
+          onClick={() =>
+            onOpenImage
+              ? onOpenImage(imageKey)
+              : window.open(attachment.url, '_blank')
           }
-          onClick={() => {
-            // TODO: Open lightbox
-            window.open(attachment.url, '_blank');
-          }}
-        />
+          className="block rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+          aria-label={`Open ${attachment.title || 'image'}`}
+        >
+          <img
+            src={attachment.url}
+            alt={attachment.title || 'Image'}
+            className="max-w-full h-auto rounded-lg cursor-pointer hover:opacity-90 transition-opacity"
+            style={{ maxHeight: '400px' }}
+            onError={() =>
+              setImageError((prev) => ({ ...prev, [imageKey]: true }))
+            }
+          />
+        </button>
         {attachment.title && (
           <p className="text-sm text-dark-400 mt-1">{attachment.title}</p>
         )}
@@ -188,42 +356,17 @@ const MessageItem: React.FC<MessageItemProps> = ({
 
   // Render YouTube attachment
   const renderYouTubeAttachment = (attachment: MessageAttachment) => {
-    // Extract video ID from URL
-    const videoIdMatch = attachment.url.match(
-      /(?:youtube\.com\/(?:[^/\n\s]+\/\S+\/|(?:v|e(?:mbed)?)\/|\S*?[?&]v=)|youtu\.be\/)([a-zA-Z0-9_-]{11})/
-    );
-    const videoId = videoIdMatch ? videoIdMatch[1] : null;
-
-    if (!videoId) {
+    const video = parseYouTubeUrl(attachment.url);
+    if (!video) {
       return renderLinkAttachment(attachment);
     }
 
-    const thumbnailUrl =
-      attachment.thumbnailUrl ||
-      `https://img.youtube.com/vi/${videoId}/hqdefault.jpg`;
-
     return (
-      <div
-        className="relative group cursor-pointer"
-        onClick={() => window.open(attachment.url, '_blank')}
-      >
-        <div className="relative">
-          <img
-            src={thumbnailUrl}
-            alt={attachment.title || 'YouTube Video'}
-            className="w-full h-auto rounded-lg"
-            style={{ maxHeight: '300px', objectFit: 'cover' }}
-          />
-          <div className="absolute inset-0 flex items-center justify-center bg-black bg-opacity-30 rounded-lg group-hover:bg-opacity-50 transition-colors">
-            <div className="bg-red-600 rounded-full p-3">
-              <Play className="text-white" size={24} fill="white" />
-            </div>
-          </div>
-        </div>
-        {attachment.title && (
-          <p className="text-sm text-dark-300 mt-2">{attachment.title}</p>
-        )}
-      </div>
+      <YouTubeEmbed
+        attachment={attachment}
+        video={video}
+        enableEmbed={enableVideoEmbeds}
+      />
     );
   };
 
@@ -272,31 +415,53 @@ const MessageItem: React.FC<MessageItemProps> = ({
       rel="noopener noreferrer"
       className="flex items-center space-x-3 bg-dark-800 border border-dark-600 rounded-lg p-4 hover:bg-dark-700 transition-colors"
     >
-      <ExternalLink className="text-blue-400" size={20} />
-      <div className="flex-1">
+      {attachment.thumbnailUrl ? (
+        <img
+          src={attachment.thumbnailUrl}
+          alt=""
+          className="w-20 h-20 flex-shrink-0 rounded object-cover"
+          onError={(e) => {
+            e.currentTarget.style.display = 'none';
+          }}
+        />
+      ) : (
+        <ExternalLink className="text-blue-400 flex-shrink-0" size={20} />
+      )}
+      <div className="flex-1 min-w-0">
         <p className="text-dark-200 font-medium">
           {attachment.title || 'Link'}
         </p>
+        {attachment.description && (
+          <p className="text-sm text-dark-300 line-clamp-2">
+            {attachment.description}
+          </p>
+        )}
         <p className="text-sm text-dark-400 break-all">{attachment.url}</p>
       </div>
     </a>
   );
 
-  // Render data request button
+  // Render data request button, or the data submitted in response
   const renderDataRequest = () => {
-    if (!message.dataRequest || !onDataRequest) return null;
+    if (getFormResponse(message)) {
+      return (
+        <FormResponseCard
+          message={message}
+          request={formRequestMessage}
+          currentUserId={currentUser.id}
+          isAdmin={canModerate}
+          onShowRequest={onShowMessage}
+        />
+      );
+    }
+    if (!message.dataRequest) return null;
 
     return (
-      <div className="mt-3">
-        <button
-          type="button"
-          onClick={() => onDataRequest(message.dataRequest)}
-          className="inline-flex items-center space-x-2 bg-blue-600 hover:bg-blue-700 text-white px-4 py-2 rounded-lg transition-colors"
-        >
-          <FileText size={16} />
-          <span>Provide Information</span>
-        </button>
-      </div>
+      <FormRequestPrompt
+        message={message}
+        currentUserId={currentUser.id}
+        onRespond={onDataRequest && (() => onDataRequest(message))}
+      />
     );
   };
 
@@ -315,7 +480,8 @@ const MessageItem: React.FC<MessageItemProps> = ({
 
   // Render emoji picker
   const renderEmojiPicker = () => {
-    if (!showEmojiPicker || !enableReactions || isCurrentUser) return null;
+    if (!showEmojiPicker || !enableReactions || !onReaction || isCurrentUser)
+      return null;
 
     const emojis = ['😀', '👍', '❤️', '😂', '😮', '😢', '😡'];
 
@@ -339,9 +505,202 @@ const MessageItem: React.FC<MessageItemProps> = ({
     );
   };
 
+  // Render the failed state of an unconfirmed message
+  const renderDeliveryFailure = () => {
+    if (deliveryStatus !== 'failed') return null;
+
+    return (
+      <div
+        role="alert"
+        className={`flex w-fit items-center space-x-2 mt-1 text-xs text-red-400 ${
+          isCurrentUser ? 'ml-auto' : ''
+        }`}
+      >
+        <AlertCircle size={14} />
+        <span>Failed to send</span>
+        {onRetry && (
+          <button
+            type="button"
+            onClick={() => onRetry(message.id!)}
+            className="font-medium text-blue-400 hover:underline"
+          >
+            Retry
+          </button>
+        )}
+        {onDiscard && (
+          <button
+            type="button"
+            onClick={() => onDiscard(message.id!)}
+            className="font-medium text-dark-400 hover:underline"
+          >
+            Discard
+          </button>
+        )}
+      </div>
+    );
+  };
+
+  // Render avatars of the members who have read up to this message
+  const renderSeenBy = () => {
+    if (!seenBy || seenBy.length === 0) return null;
+
+    const names = seenBy.map(
+      (receipt) => receipt.displayName || receipt.userId
+    );
+    const hidden = seenBy.length - MAX_SEEN_BY_AVATARS;
+
+    return (
+      <div
+        className={`flex w-fit items-center space-x-1 mt-1 ${
+          isCurrentUser ? 'ml-auto' : ''
+        }`}
+        title={`Seen by ${names.join(', ')}`}
+      >
+        <span className="sr-only">Seen by {names.join(', ')}</span>
+        <div className="flex -space-x-1" aria-hidden="true">
+          {seenBy.slice(0, MAX_SEEN_BY_AVATARS).map((receipt, index) => (
+            <div
+              key={receipt.userId}
+              className="w-4 h-4 rounded-full bg-dark-600 border border-dark-900 flex items-center justify-center text-white text-[8px] font-medium"
+            >
+              {getInitials(names[index])}
+            </div>
+          ))}
+        </div>
+        {hidden > 0 && (
+          <span className="text-[10px] text-dark-500" aria-hidden="true">
+            +{hidden}
+          </span>
+        )}
+      </div>
+    );
+  };
+
+  // Render thread summary (reply count and last repliers)
+  const renderThreadSummary = () => {
+    if (!enableReplies || !showThreadSummary || !message.replyCount) {
+      return null;
+    }
+
+    const replyCount = message.replyCount;
+
+    return (
+      <button
+        type="button"
+        onClick={() => onReply?.(message.id!)}
+        className={`flex w-fit items-center space-x-2 mt-1 px-2 py-1 rounded-lg text-xs text-blue-400 hover:bg-dark-800 transition-colors ${
+          isCurrentUser ? 'ml-auto' : ''
+        }`}
+        title="View thread"
+      >
+        <div className="flex -space-x-1">
+          {(message.lastRepliers || []).map((replier) => (
+            <div
+              key={replier.id}
+              className="w-5 h-5 rounded-full bg-dark-600 border border-dark-900 flex items-center justify-center text-white text-[10px] font-medium"
+              title={replier.name || replier.id}
+            >
+              {getInitials(replier.name || replier.id)}
+            </div>
+          ))}
+        </div>
+        <span className="font-medium">
+          {replyCount} {replyCount === 1 ? 'reply' : 'replies'}
+        </span>
+        {message.lastReplyAt && (
+          <span className="text-dark-500">
+            Last reply <RelativeTime timestamp={message.lastReplyAt} />
+          </span>
+        )}
+      </button>
+    );
+  };
+
+  // Render aggregated reaction chips
+  const renderReactions = () => {
+    if (!enableReactions) return null;
+
+    const summaries = aggregateReactions(message.reactions, currentUser.id);
+    if (summaries.length === 0) return null;
+
+    return (
+      <div
+        className={`flex flex-wrap gap-1 mt-1 ${isCurrentUser ? 'justify-end' : ''}`}
+      >
+        {summaries.map((summary) => (
+          <button
+            key={summary.emoji}
+            type="button"
+            onClick={() => onReaction?.(message.id!, summary.emoji)}
+            disabled={!onReaction}
+            className={`inline-flex items-center space-x-1 px-2 py-0.5 rounded-full border text-xs transition-colors disabled:cursor-default ${
+              summary.reactedByCurrentUser
+                ? 'bg-blue-900 border-blue-600 text-blue-200'
+                : 'bg-dark-800 border-dark-600 text-dark-300 hover:bg-dark-700'
+            }`}
+            title={`${summary.userNames.join(', ')} reacted with ${summary.emoji}`}
+            aria-pressed={summary.reactedByCurrentUser}
+          >
+            <span>{summary.emoji}</span>
+            <span>{summary.count}</span>
+          </button>
+        ))}
+      </div>
+    );
+  };
+
+  // Render "More options" menu
+  const renderMenu = () => {
+    if (!showMenu) return null;
+
+    return (
+      <div
+        role="menu"
+        className="absolute top-full right-0 mt-1 w-44 bg-dark-800 border border-dark-600 rounded-lg shadow-xl py-1 z-20"
+      >
+        {canEdit && (
+          <button
+            type="button"
+            role="menuitem"
+            onClick={startEditing}
+            className="w-full text-left px-3 py-1.5 text-sm text-dark-200 hover:bg-dark-700 transition-colors"
+          >
+            Edit
+          </button>
+        )}
+        {canViewHistory && (
+          <button
+            type="button"
+            role="menuitem"
+            onClick={() => {
+              onViewHistory?.(message);
+              setShowMenu(false);
+            }}
+            className="w-full text-left px-3 py-1.5 text-sm text-dark-200 hover:bg-dark-700 transition-colors"
+          >
+            View edit history
+          </button>
+        )}
+        {canDelete && (
+          <button
+            type="button"
+            role="menuitem"
+            onClick={() => {
+              onDelete?.(message.id!);
+              setShowMenu(false);
+            }}
+            className="w-full text-left px-3 py-1.5 text-sm text-red-400 hover:bg-dark-700 transition-colors"
+          >
+            {isCurrentUser ? 'Delete' : 'Delete (admin)'}
+          </button>
+        )}
+      </div>
+    );
+  };
+
   // Render message actions
   const renderActions = () => {
-    if (!showActions) return null;
+    if (!showActions || isEditing) return null;
 
     return (
       <div className="absolute top-0 right-0 -mt-2 -mr-2 bg-dark-800 border border-dark-600 rounded-lg shadow-lg p-1 flex space-x-1">
@@ -355,17 +714,45 @@ const MessageItem: React.FC<MessageItemProps> = ({
             <MessageSquare size={14} />
           </button>
         )}
-        <button
-          type="button"
-          className="p-1 hover:bg-dark-700 rounded text-dark-400 hover:text-dark-200 transition-colors"
-          title="More options"
-        >
-          <MoreHorizontal size={14} />
-        </button>
+        {hasMenuItems && (
+          <div className="relative">
+            <button
+              type="button"
+              onClick={() => setShowMenu(!showMenu)}
+              className="p-1 hover:bg-dark-700 rounded text-dark-400 hover:text-dark-200 transition-colors"
+              title="More options"
+              aria-haspopup="menu"
+              aria-expanded={showMenu}
+            >
+              <MoreHorizontal size={14} />
+            </button>
+            {renderMenu()}
+          </div>
+        )}
       </div>
     );
   };
 
+  // Deleted messages render as a tombstone without content or actions
+  if (message.deleted) {
+    const removedByAdmin =
+      message.deletedBy && message.deletedBy !== message.senderId;
+
+    return (
+      <div
+        role="region"
+        aria-label={`Deleted message from ${senderName}`}
+        className={`flex ${isCurrentUser ? 'justify-end ml-8' : 'mr-8'}`}
+      >
+        <div className="px-4 py-2 rounded-lg border border-dashed border-dark-600 text-sm italic text-dark-500">
+          {removedByAdmin
+            ? 'This message was removed by an admin'
+            : 'This message was deleted'}
+        </div>
+      </div>
+    );
+  }
+
   // Message container classes
   const messageClasses = [
     'relative group animate-message-in',
@@ -382,6 +769,7 @@ const MessageItem: React.FC<MessageItemProps> = ({
         : isCurrentUser
           ? 'bg-blue-900 border border-blue-700'
           : 'bg-dark-800 border border-dark-600',
+    deliveryStatus ? 'opacity-70' : '',
   ].join(' ');
 
   return (
@@ -398,18 +786,21 @@ const MessageItem: React.FC<MessageItemProps> = ({
       onMouseLeave={() => {
         setShowActions(false);
         setShowEmojiPicker(false);
+        setShowMenu(false);
       }}
     >
       <div className="flex items-start space-x-3">
         {/* Avatar */}
         {!isCurrentUser && (
-          <div className="flex-shrink-0">{renderAvatar()}</div>
+          <div className="flex-shrink-0 w-8">
+            {isGrouped ? renderGroupedTime() : renderAvatar()}
+          </div>
         )}
 
         {/* Message Content */}
         <div className="flex-1 min-w-0">
           {/* Header */}
-          {!isCurrentUser && (
+          {!isCurrentUser && !isGrouped && (
             <div className="flex items-center space-x-2 mb-1">
               <span
                 className={`font-medium text-sm ${
@@ -422,9 +813,18 @@ const MessageItem: React.FC<MessageItemProps> = ({
               >
                 {senderName}
               </span>
-              <span className="text-xs text-dark-500">
-                {formatTime(message.createdAt)}
-              </span>
+              <RelativeTime
+                timestamp={message.createdAt}
+                className="text-xs text-dark-500"
+              />
+              {message.editedAt && (
+                <span
+                  className="text-xs text-dark-500 italic"
+                  title={`Edited ${formatAbsoluteTime(message.editedAt)}`}
+                >
+                  (edited)
+                </span>
+              )}
               {isAgent && (
                 <span className="bg-purple-700 text-purple-200 text-xs px-1.5 py-0.5 rounded-full font-medium">
                   AI
@@ -441,7 +841,7 @@ const MessageItem: React.FC<MessageItemProps> = ({
           {/* Message Bubble */}
           <div className={bubbleClasses}>
             {/* Content */}
-            {renderContent()}
+            {isEditing ? renderEditor() : renderContent()}
 
             {/* Attachments */}
             {renderAttachments()}
@@ -449,17 +849,55 @@ const MessageItem: React.FC<MessageItemProps> = ({
             {/* Data Request */}
             {renderDataRequest()}
 
+            {/* Edited marker normally shown in the header */}
+            {!isCurrentUser && isGrouped && message.editedAt && (
+              <div
+                className="text-xs text-dark-500 italic mt-2"
+                title={`Edited ${formatAbsoluteTime(message.editedAt)}`}
+              >
+                (edited)
+              </div>
+            )}
+
             {/* Current user timestamp */}
             {isCurrentUser && (
               <div className="text-xs text-blue-300 mt-2 text-right opacity-70">
-                {formatTime(message.createdAt)}
+                {deliveryStatus === 'pending' ? (
+                  'Sending…'
+                ) : (
+                  <RelativeTime timestamp={message.createdAt} />
+                )}
+                {message.editedAt && (
+                  <span
+                    className="ml-1 italic"
+                    title={`Edited ${formatAbsoluteTime(message.editedAt)}`}
+                  >
+                    (edited)
+                  </span>
+                )}
               </div>
             )}
           </div>
+
+          {/* Delivery failure */}
+          {renderDeliveryFailure()}
+
+          {/* Thread summary */}
+          {renderThreadSummary()}
+
+          {/* Reactions */}
+          {renderReactions()}
+
+          {/* Read receipts */}
+          {renderSeenBy()}
         </div>
 
         {/* Current user avatar */}
-        {isCurrentUser && <div className="flex-shrink-0">{renderAvatar()}</div>}
+        {isCurrentUser && (
+          <div className="flex-shrink-0 w-8">
+            {!isGrouped && renderAvatar()}
+          </div>
+        )}
       </div>
 
       {/* Emoji Picker */}
@@ -471,4 +909,5 @@ const MessageItem: React.FC<MessageItemProps> = ({
   );
 };
 
-export default MessageItem;
+// Memoized so unchanged rows skip re-rendering on live updates
+export default React.memo(MessageItem);
@@ -0,0 +1,33 @@
+import React from 'react';
+import { PresenceState } from '../types';
+
+interface PresenceDotProps {
+  state: PresenceState;
+  className?: string;
+}
+
+const PRESENCE_STYLES: Record<PresenceState, { color: string; label: string }> =
+  {
+    online: { color: 'bg-green-500', label: 'Online' },
+    away: { color: 'bg-yellow-500', label: 'Away' },
+    offline: { color: 'bg-dark-500', label: 'Offline' },
+  };
+
+/**
+ * Presence badge for the bottom right corner of an avatar
+ * The avatar container must be positioned (e.g. `relative`)
+ */
+const PresenceDot: React.FC<PresenceDotProps> = ({ state, className = '' }) => {
+  const { color, label } = PRESENCE_STYLES[state];
+
+  return (
+    <span
+      role="img"
+      aria-label={label}
+      title={label}
+      className={`absolute -bottom-0.5 -right-0.5 w-3 h-3 rounded-full border-2 border-dark-900 ${color} ${className}`}
+    />
+  );
+};
+
+export default PresenceDot;
@@ -0,0 +1,42 @@
+import React, { useSyncExternalStore } from 'react';
+import { formatDistanceToNow } from 'date-fns';
+import { Clock, formatAbsoluteTime } from '../utils/clock';
+
+interface RelativeTimeProps {
+  timestamp: string;
+  className?: string;
+}
+
+/**
+ * "5 minutes ago" label that stays current
+ *
+ * Re-renders on every clock tick; the tooltip shows the absolute time in the
+ * viewer's timezone.
+ */
+const RelativeTime: React.FC<RelativeTimeProps> = ({
+  timestamp,
+  className,
+}) => {
+  // Re-render on every tick
+  useSyncExternalStore(Clock.subscribe, Clock.getTime);
+  const date = new Date(timestamp);
+
+  if (isNaN(date.getTime())) {
+    return <span className={className}>Unknown time</span>;
+  }
+
+  return (
+    <time
+      dateTime={date.toISOString()}
+      title={formatAbsoluteTime(timestamp)}
+      className={className}
+    >
+      {/* Clamp clock skew so new messages never read "in a few seconds" */}
+      {formatDistanceToNow(new Date(Math.min(date.getTime(), Date.now())), {
+        addSuffix: true,
+      })}
+    </time>
+  );
+};
+
+export default RelativeTime;
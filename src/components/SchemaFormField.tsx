@@ -0,0 +1,269 @@
+import React from 'react';
+import { Plus, Trash2 } from 'lucide-react';
+import {
+  FormErrors,
+  FormField,
+  FormPath,
+  FormValues,
+  formPathKey,
+  getInitialFormValue,
+} from '../utils/form-model';
+
+interface SchemaFormFieldProps {
+  field: FormField;
+  path: FormPath;
+  /** Input state for this field */
+  value: unknown;
+  errors: FormErrors;
+  /** Prefix for element IDs, unique per form */
+  idPrefix: string;
+  disabled?: boolean;
+  onChange: (path: FormPath, value: unknown) => void;
+}
+
+const inputClasses = (hasError: boolean) =>
+  `form-input w-full rounded-lg ${
+    hasError ? 'border-red-500 focus:border-red-500 focus:ring-red-500' : ''
+  }`;
+
+/**
+ * "*" for required fields, "(optional)" otherwise
+ */
+const RequirementMarker: React.FC<{ required: boolean }> = ({ required }) =>
+  required ? (
+    <span className="text-red-400 ml-0.5" aria-hidden="true">
+      *
+    </span>
+  ) : (
+    <span className="text-dark-500 font-normal ml-1">(optional)</span>
+  );
+
+/**
+ * Input for one field of a generated form
+ *
+ * Objects render as fieldsets and arrays as repeatable groups, recursing
+ * into their children.
+ */
+const SchemaFormField: React.FC<SchemaFormFieldProps> = ({
+  field,
+  path,
+  value,
+  errors,
+  idPrefix,
+  disabled = false,
+  onChange,
+}) => {
+  const key = formPathKey(path);
+  const id = `${idPrefix}-${key}`;
+  const error = errors[key];
+  const errorId = `${id}-error`;
+  const descriptionId = `${id}-description`;
+  const describedBy =
+    [field.description && descriptionId, error && errorId]
+      .filter(Boolean)
+      .join(' ') || undefined;
+
+  const renderDescription = () =>
+    field.description && (
+      <p id={descriptionId} className="text-xs text-dark-400">
+        {field.description}
+      </p>
+    );
+
+  const renderError = () =>
+    error && (
+      <p id={errorId} className="text-red-400 text-sm" role="alert">
+        {error}
+      </p>
+    );
+
+  if (field.kind === 'object' || field.kind === 'array') {
+    const isArray = field.kind === 'array';
+    const items = isArray && Array.isArray(value) ? value : [];
+    const canAdd =
+      isArray &&
+      (field.maxItems === undefined || items.length < field.maxItems);
+    const canRemove = isArray && items.length > (field.minItems || 0);
+
+    return (
+      <fieldset
+        className="border border-dark-600 rounded-lg p-4 space-y-4"
+        aria-describedby={describedBy}
+        aria-invalid={error ? true : undefined}
+      >
+        <legend className="px-1 text-sm font-medium text-dark-200">
+          {field.label}
+          <RequirementMarker required={field.required} />
+        </legend>
+        {renderDescription()}
+
+        {field.kind === 'object' &&
+          field.fields.map((child) => (
+            <SchemaFormField
+              key={child.name}
+              field={child}
+              path={[...path, child.name]}
+              value={(value as FormValues | undefined)?.[child.name]}
+              errors={errors}
+              idPrefix={idPrefix}
+              disabled={disabled}
+              onChange={onChange}
+            />
+          ))}
+
+        {field.kind === 'array' &&
+          items.map((item, index) => (
+            <div key={index} className="flex items-start space-x-2">
+              <div className="flex-1">
+                <SchemaFormField
+                  field={{
+                    ...field.item,
+                    name: String(index),
+                    label: `${field.label} ${index + 1}`,
+                  }}
+                  path={[...path, index]}
+                  value={item}
+                  errors={errors}
+                  idPrefix={idPrefix}
+                  disabled={disabled}
+                  onChange={onChange}
+                />
+              </div>
+              <button
+                type="button"
+                onClick={() =>
+                  onChange(
+                    path,
+                    items.filter((_, itemIndex) => itemIndex !== index)
+                  )
+                }
+                disabled={disabled || !canRemove}
+                className="btn-ghost mt-6 text-dark-400 hover:text-red-400 disabled:opacity-40 disabled:cursor-not-allowed"
+                aria-label={`Remove ${field.label} ${index + 1}`}
+              >
+                <Trash2 size={16} />
+              </button>
+            </div>
+          ))}
+
+        {field.kind === 'array' && (
+          <button
+            type="button"
+            onClick={() =>
+              onChange(path, [...items, getInitialFormValue(field.item)])
+            }
+            disabled={disabled || !canAdd}
+            className="inline-flex items-center space-x-1 text-sm text-blue-400 hover:text-blue-300 disabled:opacity-40 disabled:cursor-not-allowed"
+          >
+            <Plus size={14} />
+            <span>Add {field.label.toLowerCase()}</span>
+          </button>
+        )}
+
+        {renderError()}
+      </fieldset>
+    );
+  }
+
+  if (field.kind === 'boolean') {
+    return (
+      <div className="space-y-1">
+        <label htmlFor={id} className="flex items-center space-x-2">
+          <input
+            id={id}
+            type="checkbox"
+            checked={Boolean(value)}
+            onChange={(e) => onChange(path, e.target.checked)}
+            disabled={disabled}
+            className="rounded bg-dark-800 border-dark-600 text-blue-600 focus:ring-blue-500"
+            aria-describedby={describedBy}
+            aria-invalid={error ? true : undefined}
+          />
+          <span className="text-sm font-medium text-dark-200">
+            {field.label}
+          </span>
+        </label>
+        {renderDescription()}
+        {renderError()}
+      </div>
+    );
+  }
+
+  const inputProps = {
+    id,
+    value: String(value ?? ''),
+    disabled,
+    'aria-required': field.required,
+    className: inputClasses(Boolean(error)),
+    'aria-describedby': describedBy,
+    'aria-invalid': error ? true : undefined,
+  };
+
+  const renderInput = () => {
+    switch (field.kind) {
+      case 'enum':
+        return (
+          <select
+            {...inputProps}
+            onChange={(e) => onChange(path, e.target.value)}
+          >
+            <option value="">Select…</option>
+            {field.options.map((option) => (
+              <option key={option} value={option}>
+                {option}
+              </option>
+            ))}
+          </select>
+        );
+      case 'number':
+        return (
+          <input
+            {...inputProps}
+            type="number"
+            min={field.min}
+            max={field.max}
+            step={field.integer ? 1 : 'any'}
+            onChange={(e) => onChange(path, e.target.value)}
+          />
+        );
+      case 'date':
+        return (
+          <input
+            {...inputProps}
+            type="date"
+            onChange={(e) => onChange(path, e.target.value)}
+          />
+        );
+      default:
+        return field.multiline ? (
+          <textarea
+            {...inputProps}
+            rows={4}
+            maxLength={field.maxLength}
+            onChange={(e) => onChange(path, e.target.value)}
+          />
+        ) : (
+          <input
+            {...inputProps}
+            type={field.format || 'text'}
+            maxLength={field.maxLength}
+            onChange={(e) => onChange(path, e.target.value)}
+          />
+        );
+    }
+  };
+
+  return (
+    <div className="space-y-1">
+      <label htmlFor={id} className="block text-sm font-medium text-dark-200">
+        {field.label}
+        <RequirementMarker required={field.required} />
+      </label>
+      {renderInput()}
+      {renderDescription()}
+      {renderError()}
+    </div>
+  );
+};
+
+export default SchemaFormField;
@@ -0,0 +1,208 @@
+import React, { useState, useEffect, useMemo, useRef } from 'react';
+import { Send, X } from 'lucide-react';
+import {
+  DeliveryStatus,
+  Message,
+  User,
+  isAIAgent,
+  isSystemUser,
+} from '../types';
+import { mergeMessages } from '../utils/message-helpers';
+import { Threads } from '../utils/threads';
+import MessageItem from './MessageItem';
+
+interface ThreadPanelProps {
+  firebasePath: string;
+  rootMessage: Message;
+  currentUser: User;
+  canWrite?: boolean;
+  enableReactions?: boolean;
+  enableVideoEmbeds?: boolean;
+  onSendReply: (content: string) => Promise<boolean>;
+  /** Replies from the outbox, shown until their server copy arrives */
+  pendingReplies?: Message[];
+  deliveryStatuses?: Record<string, DeliveryStatus>;
+  onRetry?: (messageId: string) => void;
+  onDiscard?: (messageId: string) => void;
+  onClose: () => void;
+  onDataRequest?: (message: Message) => void;
+  onReaction?: (messageId: string, emoji: string) => void;
+  onEdit?: (messageId: string, content: string) => Promise<boolean>;
+  onViewHistory?: (message: Message) => void;
+  onDelete?: (messageId: string) => void;
+  canModerate?: boolean;
+  onError?: (error: Error) => void;
+}
+
+const ThreadPanel: React.FC<ThreadPanelProps> = ({
+  firebasePath,
+  rootMessage,
+  currentUser,
+  canWrite = false,
+  enableReactions = true,
+  enableVideoEmbeds = true,
+  onSendReply,
+  pendingReplies,
+  deliveryStatuses = {},
+  onRetry,
+  onDiscard,
+  onClose,
+  onDataRequest,
+  onReaction,
+  onEdit,
+  onViewHistory,
+  onDelete,
+  canModerate = false,
+  onError,
+}) => {
+  const [replies, setReplies] = useState<Message[]>([]);
+  const [replyValue, setReplyValue] = useState('');
+  const [isSending, setIsSending] = useState(false);
+
+  const repliesEndRef = useRef<HTMLDivElement>(null);
+  const rootMessageId = rootMessage.id;
+
+  // Subscribe to replies of the root message
+  useEffect(() => {
+    if (!rootMessageId) return;
+
+    const unsubscribe = Threads.subscribeToReplies(
+      firebasePath,
+      rootMessageId,
+      (threadReplies) => {
+        setReplies(threadReplies);
+        setTimeout(
+          () => repliesEndRef.current?.scrollIntoView({ behavior: 'smooth' }),
+          100
+        );
+      },
+      onError
+    );
+
+    return () => unsubscribe();
+  }, [firebasePath, rootMessageId, onError]);
+
+  const displayReplies = useMemo(
+    () =>
+      pendingReplies?.length ? mergeMessages(pendingReplies, replies) : replies,
+    [pendingReplies, replies]
+  );
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!replyValue.trim() || isSending) return;
+
+    setIsSending(true);
+    const sent = await onSendReply(replyValue);
+    if (sent) setReplyValue('');
+    setIsSending(false);
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    if (e.key === 'Enter' && !e.shiftKey) {
+      e.preventDefault();
+      handleSubmit(e as any);
+    } else if (e.key === 'Escape') {
+      onClose();
+    }
+  };
+
+  const renderMessage = (message: Message) => {
+    const deliveryStatus = message.id
+      ? deliveryStatuses[message.id]
+      : undefined;
+    // Unconfirmed replies cannot be interacted with yet
+    const isDelivered = !deliveryStatus;
+
+    return (
+      <MessageItem
+        key={message.id}
+        message={message}
+        currentUser={currentUser}
+        isAgent={isAIAgent({ id: message.senderId } as User)}
+        isSystem={isSystemUser({ id: message.senderId } as User)}
+        enableReactions={enableReactions}
+        enableReplies={false}
+        enableVideoEmbeds={enableVideoEmbeds}
+        showThreadSummary={false}
+        onDataRequest={onDataRequest}
+        onReaction={isDelivered ? onReaction : undefined}
+        onEdit={isDelivered ? onEdit : undefined}
+        onViewHistory={onViewHistory}
+        onDelete={isDelivered ? onDelete : undefined}
+        canModerate={canModerate}
+        deliveryStatus={deliveryStatus}
+        onRetry={onRetry}
+        onDiscard={onDiscard}
+      />
+    );
+  };
+
+  return (
+    <aside
+      aria-label="Thread"
+      className="w-96 flex-shrink-0 flex flex-col border-l border-dark-700 bg-dark-900"
+    >
+      {/* Header */}
+      <div className="flex items-center justify-between px-4 py-3 border-b border-dark-700">
+        <div>
+          <h3 className="font-semibold text-dark-100">Thread</h3>
+          <p className="text-xs text-dark-400">
+            {displayReplies.length}{' '}
+            {displayReplies.length === 1 ? 'reply' : 'replies'}
+          </p>
+        </div>
+        <button
+          type="button"
+          onClick={onClose}
+          className="btn-ghost p-2 text-dark-400 hover:text-dark-200"
+          aria-label="Close thread"
+        >
+          <X size={18} />
+        </button>
+      </div>
+
+      {/* Root message and replies */}
+      <div className="flex-1 overflow-y-auto p-4 space-y-4">
+        {renderMessage(rootMessage)}
+
+        <div className="flex items-center space-x-2 text-xs text-dark-500">
+          <div className="flex-1 border-t border-dark-700" />
+          <span>Replies</span>
+          <div className="flex-1 border-t border-dark-700" />
+        </div>
+
+        {displayReplies.map(renderMessage)}
+        <div ref={repliesEndRef} />
+      </div>
+
+      {/* Reply composer */}
+      {canWrite && (
+        <form
+          onSubmit={handleSubmit}
+          className="flex items-end space-x-2 p-3 border-t border-dark-700"
+        >
+          <textarea
+            value={replyValue}
+            onChange={(e) => setReplyValue(e.target.value)}
+            onKeyDown={handleKeyDown}
+            placeholder="Reply in thread..."
+            className="flex-1 bg-dark-800 border border-dark-600 rounded-lg px-3 py-2 text-dark-100 placeholder-dark-400 resize-none focus:outline-none"
+            rows={1}
+            disabled={isSending}
+          />
+          <button
+            type="submit"
+            disabled={!replyValue.trim() || isSending}
+            className="btn-primary p-2 disabled:opacity-50 disabled:cursor-not-allowed"
+            title="Send reply"
+          >
+            <Send size={18} />
+          </button>
+        </form>
+      )}
+    </aside>
+  );
+};
+
+export default ThreadPanel;
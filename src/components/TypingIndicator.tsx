@@ -0,0 +1,84 @@
+import React, { useState, useEffect } from 'react';
+import { Bot } from 'lucide-react';
+import { ActivityStatus } from '../types';
+import {
+  formatAgentActivity,
+  formatTypingIndicator,
+  isActivityStatusActive,
+} from '../utils/typing';
+
+interface TypingIndicatorProps {
+  statuses: ActivityStatus[];
+}
+
+/**
+ * Interval for dropping statuses that stopped being refreshed
+ */
+const STALE_CHECK_INTERVAL_MS = 2000;
+
+const TypingDots: React.FC<{ className: string }> = ({ className }) => (
+  <span className="flex items-center space-x-0.5" aria-hidden="true">
+    {[0, 150, 300].map((delay) => (
+      <span
+        key={delay}
+        className={`w-1 h-1 rounded-full animate-typing ${className}`}
+        style={{ animationDelay: `${delay}ms` }}
+      />
+    ))}
+  </span>
+);
+
+/**
+ * Shows who is typing and what agents are doing, above the composer
+ */
+const TypingIndicator: React.FC<TypingIndicatorProps> = ({ statuses }) => {
+  const [now, setNow] = useState(() => Date.now());
+
+  useEffect(() => {
+    if (statuses.length === 0) return;
+
+    setNow(Date.now());
+    const interval = setInterval(
+      () => setNow(Date.now()),
+      STALE_CHECK_INTERVAL_MS
+    );
+    return () => clearInterval(interval);
+  }, [statuses]);
+
+  const active = statuses.filter((status) =>
+    isActivityStatusActive(status, now)
+  );
+  const agents = active.filter((status) => status.isAgent);
+  const typingText = formatTypingIndicator(
+    active.filter((status) => !status.isAgent)
+  );
+
+  if (agents.length === 0 && !typingText) return null;
+
+  return (
+    <div
+      role="status"
+      aria-live="polite"
+      className="px-4 py-1.5 space-y-1 text-xs"
+    >
+      {agents.map((agent) => (
+        <div
+          key={agent.userId}
+          className="inline-flex items-center space-x-2 mr-2 px-2 py-1 rounded-full bg-purple-900 border border-purple-700 text-purple-300"
+        >
+          <Bot size={12} />
+          <span>{formatAgentActivity(agent)}</span>
+          <TypingDots className="bg-purple-300" />
+        </div>
+      ))}
+      {typingText && (
+        <div className="flex items-center space-x-2 text-dark-400">
+          <TypingDots className="bg-dark-400" />
+          <span>{typingText}</span>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default TypingIndicator;
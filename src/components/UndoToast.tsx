@@ -0,0 +1,50 @@
+import React, { useEffect } from 'react';
+import { X } from 'lucide-react';
+
+interface UndoToastProps {
+  message: string;
+  onUndo: () => void;
+  onDismiss: () => void;
+  duration?: number;
+}
+
+const UndoToast: React.FC<UndoToastProps> = ({
+  message,
+  onUndo,
+  onDismiss,
+  duration = 5000,
+}) => {
+  // Auto-dismiss after the undo window
+  useEffect(() => {
+    const timer = setTimeout(onDismiss, duration);
+    return () => clearTimeout(timer);
+  }, [onDismiss, duration]);
+
+  return (
+    <div className="absolute bottom-24 inset-x-0 flex justify-center pointer-events-none z-40">
+      <div
+        role="status"
+        className="pointer-events-auto flex items-center space-x-4 bg-dark-800 border border-dark-600 rounded-lg shadow-xl px-4 py-3 animate-slide-up"
+      >
+        <span className="text-sm text-dark-200">{message}</span>
+        <button
+          type="button"
+          onClick={onUndo}
+          className="text-sm font-medium text-blue-400 hover:text-blue-300 transition-colors"
+        >
+          Undo
+        </button>
+        <button
+          type="button"
+          onClick={onDismiss}
+          className="text-dark-400 hover:text-dark-200 transition-colors"
+          aria-label="Dismiss"
+        >
+          <X size={14} />
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default UndoToast;
@@ -0,0 +1,184 @@
+import React, {
+  useState,
+  useEffect,
+  useLayoutEffect,
+  useMemo,
+  useRef,
+  useCallback,
+} from 'react';
+import { Message } from '../types';
+import { computeOffsets, findVisibleRange } from '../utils/virtualization';
+
+interface VirtualMessageListProps {
+  messages: Message[];
+  renderMessage: (message: Message) => React.ReactNode;
+  /** Element that scrolls the list (the messages container) */
+  scrollContainerRef: React.RefObject<HTMLDivElement>;
+  /** Height assumed for rows that have not been measured yet */
+  estimatedRowHeight?: number;
+  /** Pixels rendered above and below the viewport */
+  overscan?: number;
+}
+
+interface MeasuredRowProps {
+  messageId: string;
+  observer: ResizeObserver | null;
+  children: React.ReactNode;
+}
+
+/**
+ * Row wrapper registering itself with the shared ResizeObserver
+ */
+const MeasuredRow: React.FC<MeasuredRowProps> = ({
+  messageId,
+  observer,
+  children,
+}) => {
+  const rowRef = useRef<HTMLDivElement>(null);
+
+  useLayoutEffect(() => {
+    const row = rowRef.current;
+    if (!row || !observer) return;
+
+    observer.observe(row);
+    return () => observer.unobserve(row);
+  }, [observer]);
+
+  return (
+    <div ref={rowRef} data-message-id={messageId}>
+      {children}
+    </div>
+  );
+};
+
+/**
+ * Windowed message list with variable row heights
+ *
+ * Only rows near the viewport are mounted; the rest is replaced by spacers
+ * sized from measured heights (or an estimate until a row has been seen).
+ * When a row above the viewport changes height, e.g. an image finishes
+ * loading, the scroll position is adjusted so the visible content stays put.
+ */
+const VirtualMessageList: React.FC<VirtualMessageListProps> = ({
+  messages,
+  renderMessage,
+  scrollContainerRef,
+  estimatedRowHeight = 96,
+  overscan = 600,
+}) => {
+  const listRef = useRef<HTMLDivElement>(null);
+  const [heights, setHeights] = useState<Record<string, number>>({});
+  const heightsRef = useRef(heights);
+  const [observer, setObserver] = useState<ResizeObserver | null>(null);
+  const [viewport, setViewport] = useState({ top: 0, height: 0 });
+
+  const offsets = useMemo(
+    () =>
+      computeOffsets(
+        messages.map(
+          (message) => heights[message.id || ''] ?? estimatedRowHeight
+        )
+      ),
+    [messages, heights, estimatedRowHeight]
+  );
+
+  const updateViewport = useCallback(() => {
+    const container = scrollContainerRef.current;
+    const list = listRef.current;
+    if (!container || !list) return;
+
+    // Position of the list inside the scrollable content
+    const listTop =
+      list.getBoundingClientRect().top -
+      container.getBoundingClientRect().top +
+      container.scrollTop;
+
+    setViewport({
+      top: container.scrollTop - listTop,
+      height: container.clientHeight,
+    });
+  }, [scrollContainerRef]);
+
+  // Track scrolling and container size
+  useEffect(() => {
+    const container = scrollContainerRef.current;
+    if (!container) return;
+
+    updateViewport();
+    container.addEventListener('scroll', updateViewport, { passive: true });
+    window.addEventListener('resize', updateViewport);
+
+    return () => {
+      container.removeEventListener('scroll', updateViewport);
+      window.removeEventListener('resize', updateViewport);
+    };
+  }, [scrollContainerRef, updateViewport]);
+
+  // Measure rendered rows and keep the viewport anchored
+  useEffect(() => {
+    if (typeof ResizeObserver === 'undefined') return;
+
+    const resizeObserver = new ResizeObserver((entries) => {
+      const container = scrollContainerRef.current;
+      const containerTop = container?.getBoundingClientRect().top ?? 0;
+      const measured: Record<string, number> = {};
+      let anchorDelta = 0;
+
+      entries.forEach((entry) => {
+        const row = entry.target as HTMLElement;
+        const messageId = row.dataset.messageId;
+        if (!messageId) return;
+
+        const height = row.offsetHeight;
+        const previous = heightsRef.current[messageId];
+        if (height === previous) return;
+
+        measured[messageId] = height;
+
+        // Rows entirely above the viewport push visible content down
+        const delta = height - (previous ?? estimatedRowHeight);
+        if (row.getBoundingClientRect().bottom - delta <= containerTop) {
+          anchorDelta += delta;
+        }
+      });
+
+      if (container && anchorDelta !== 0) {
+        container.scrollTop += anchorDelta;
+      }
+      if (Object.keys(measured).length > 0) {
+        heightsRef.current = { ...heightsRef.current, ...measured };
+        setHeights(heightsRef.current);
+      }
+    });
+
+    setObserver(resizeObserver);
+    return () => resizeObserver.disconnect();
+  }, [scrollContainerRef, estimatedRowHeight]);
+
+  const totalHeight = offsets[offsets.length - 1];
+
+  // Before the viewport is measured, render the newest rows
+  const { start, end } =
+    viewport.height > 0
+      ? findVisibleRange(offsets, viewport.top, viewport.height, overscan)
+      : findVisibleRange(offsets, totalHeight - overscan, overscan);
+
+  return (
+    // Native scroll anchoring would fight the manual adjustment above
+    <div ref={listRef} style={{ overflowAnchor: 'none' }}>
+      <div style={{ height: offsets[start] }} aria-hidden="true" />
+      {messages.slice(start, end).map((message) => (
+        <MeasuredRow
+          key={message.id}
+          messageId={message.id || ''}
+          observer={observer}
+        >
+          {renderMessage(message)}
+        </MeasuredRow>
+      ))}
+      <div style={{ height: totalHeight - offsets[end] }} aria-hidden="true" />
+    </div>
+  );
+};
+
+export default VirtualMessageList;
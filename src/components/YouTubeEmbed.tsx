@@ -0,0 +1,113 @@
+import React, { useState } from 'react';
+import { ExternalLink, ListVideo, Play } from 'lucide-react';
+import { MessageAttachment } from '../types';
+import {
+  YouTubeReference,
+  formatVideoTimestamp,
+  getYouTubeEmbedUrl,
+  getYouTubeThumbnailUrl,
+} from '../utils/media-helpers';
+
+interface YouTubeEmbedProps {
+  attachment: MessageAttachment;
+  video: YouTubeReference;
+  /** Play inline; when false the thumbnail opens YouTube in a new tab */
+  enableEmbed?: boolean;
+}
+
+/**
+ * Click-to-play YouTube player
+ *
+ * Only a thumbnail is shown until the viewer clicks it, so nothing is loaded
+ * from YouTube beforehand, and the player uses the privacy-enhanced embed
+ * domain.
+ */
+const YouTubeEmbed: React.FC<YouTubeEmbedProps> = ({
+  attachment,
+  video,
+  enableEmbed = true,
+}) => {
+  const [isPlaying, setIsPlaying] = useState(false);
+
+  const title =
+    attachment.title || (video.videoId ? 'YouTube Video' : 'YouTube Playlist');
+  const thumbnailUrl =
+    attachment.thumbnailUrl ||
+    (video.videoId ? getYouTubeThumbnailUrl(video.videoId) : undefined);
+
+  if (enableEmbed && isPlaying) {
+    return (
+      <div>
+        <div className="relative w-full aspect-video">
+          <iframe
+            src={getYouTubeEmbedUrl(video, true)}
+            title={title}
+            className="absolute inset-0 w-full h-full rounded-lg"
+            allow="accelerometer; autoplay; clipboard-write; encrypted-media; gyroscope; picture-in-picture"
+            referrerPolicy="strict-origin-when-cross-origin"
+            allowFullScreen
+          />
+        </div>
+        <div className="flex items-center justify-between mt-2">
+          <p className="text-sm text-dark-300">{title}</p>
+          <a
+            href={attachment.url}
+            target="_blank"
+            rel="noopener noreferrer"
+            className="flex items-center space-x-1 text-xs text-blue-400 hover:text-blue-300"
+          >
+            <span>Open on YouTube</span>
+            <ExternalLink size={12} />
+          </a>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div>
+      <button
+        type="button"
+        onClick={() =>
+          enableEmbed
+            ? setIsPlaying(true)
+            : window.open(attachment.url, '_blank')
+        }
+        className="relative group block w-full rounded-lg overflow-hidden focus:outline-none focus:ring-2 focus:ring-red-500"
+        aria-label={`Play ${title}`}
+      >
+        {thumbnailUrl ? (
+          <img
+            src={thumbnailUrl}
+            alt={title}
+            className="w-full h-auto rounded-lg"
+            style={{ maxHeight: '300px', objectFit: 'cover' }}
+          />
+        ) : (
+          <div className="w-full aspect-video bg-dark-800 border border-dark-600 rounded-lg" />
+        )}
+        <div className="absolute inset-0 flex items-center justify-center bg-black bg-opacity-30 rounded-lg group-hover:bg-opacity-50 transition-colors">
+          <div className="bg-red-600 rounded-full p-3">
+            <Play className="text-white" size={24} fill="white" />
+          </div>
+        </div>
+        <div className="absolute bottom-2 right-2 flex space-x-1 text-xs text-white">
+          {video.playlistId && (
+            <span className="flex items-center space-x-1 bg-black bg-opacity-70 rounded px-1.5 py-0.5">
+              <ListVideo size={12} />
+              <span>Playlist</span>
+            </span>
+          )}
+          {video.start && (
+            <span className="bg-black bg-opacity-70 rounded px-1.5 py-0.5">
+              Starts at {formatVideoTimestamp(video.start)}
+            </span>
+          )}
+        </div>
+      </button>
+      <p className="text-sm text-dark-300 mt-2">{title}</p>
+    </div>
+  );
+};
+
+export default YouTubeEmbed;
@@ -0,0 +1,62 @@
+import { render, screen } from '@testing-library/react';
+import '@testing-library/jest-dom';
+import AttachmentRendererProvider, {
+  AttachmentRenderers,
+  findAttachmentRenderer,
+  useAttachmentRenderers
+} from '../AttachmentRendererProvider';
+import { Message } from '../../types';
+
+describe('AttachmentRendererProvider', () => {
+  const renderImage = () => 'image';
+  const renderPng = () => 'png';
+  const renderDiagram = () => 'diagram';
+  const message: Message = {
+    content: 'See attached',
+    senderId: 'user1',
+    createdAt: '2024-01-01T00:00:00.000Z',
+    updatedAt: '2024-01-01T00:00:00.000Z'
+  };
+
+  const renderers: AttachmentRenderers = {
+    byType: { diagram: renderDiagram, image: renderImage },
+    byMimeType: { 'image/png': renderPng, 'image/*': renderImage }
+  };
+
+  it('should prefer exact MIME types, then MIME families, then types', () => {
+    const url = 'https://example.com/a';
+
+    expect(findAttachmentRenderer(renderers, { type: 'image', url, mimeType: 'IMAGE/PNG' })).toBe(renderPng);
+    expect(findAttachmentRenderer(renderers, { type: 'file', url, mimeType: 'image/gif' })).toBe(renderImage);
+    expect(findAttachmentRenderer(renderers, { type: 'diagram', url, mimeType: 'text/plain' })).toBe(renderDiagram);
+    expect(findAttachmentRenderer(renderers, { type: 'link', url })).toBeUndefined();
+  });
+
+  it('should let nested providers override outer renderers', () => {
+    const Probe = () => {
+      const { byType, byMimeType } = useAttachmentRenderers();
+      return <p>{Object.keys(byType).map(type => `${type}:${byType[type]({ type, url: 'https://example.com' }, message)}`).join(',')} {Object.keys(byMimeType).join(',')}</p>;
+    };
+
+    render(
+      <AttachmentRendererProvider renderers={{ csv: () => 'outer', diagram: renderDiagram }} mimeTypeRenderers={{ 'text/csv': () => 'csv' }}>
+        <AttachmentRendererProvider renderers={{ csv: () => 'inner' }}>
+          <Probe />
+        </AttachmentRendererProvider>
+      </AttachmentRendererProvider>
+    );
+
+    expect(screen.getByText('csv:inner,diagram:diagram text/csv')).toBeInTheDocument();
+  });
+
+  it('should provide no renderers by default', () => {
+    const Probe = () => {
+      const { byType, byMimeType } = useAttachmentRenderers();
+      return <p>{Object.keys(byType).length + Object.keys(byMimeType).length} renderers</p>;
+    };
+
+    render(<Probe />);
+
+    expect(screen.getByText('0 renderers')).toBeInTheDocument();
+  });
+});
@@ -0,0 +1,82 @@
+import { render, screen, fireEvent, waitFor } from '@testing-library/react';
+import '@testing-library/jest-dom';
+import CodeBlock from '../CodeBlock';
+
+describe('CodeBlock', () => {
+  it('should highlight code and number its lines', () => {
+    render(<CodeBlock code={'const a = 1;\nreturn a;'} lang="ts" />);
+
+    expect(screen.getByText('const')).toHaveClass('text-purple-400');
+    expect(screen.getByText('1')).toHaveClass('text-orange-300');
+    expect(screen.getByText(/^1\s+2$/)).toHaveAttribute('aria-hidden', 'true');
+  });
+
+  it('should copy the code to the clipboard', async () => {
+    const writeText = jest.fn().mockResolvedValue(undefined);
+    Object.assign(navigator, { clipboard: { writeText } });
+
+    render(<CodeBlock code="npm test" lang="sh" />);
+    fireEvent.click(screen.getByRole('button', { name: 'Copy' }));
+
+    expect(writeText).toHaveBeenCalledWith('npm test');
+    expect(await screen.findByRole('button', { name: 'Copied' })).toBeInTheDocument();
+  });
+
+  it('should report clipboard failures', async () => {
+    const writeText = jest.fn().mockRejectedValue(new Error('denied'));
+    Object.assign(navigator, { clipboard: { writeText } });
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+
+    render(<CodeBlock code="npm test" />);
+    fireEvent.click(screen.getByRole('button', { name: 'Copy' }));
+
+    await waitFor(() => {
+      expect(screen.getByRole('button', { name: 'Copy failed' })).toBeInTheDocument();
+    });
+  });
+
+  it('should download the code with a matching extension', () => {
+    jest.useFakeTimers();
+    const createObjectURL = jest.fn(() => 'blob:snippet');
+    const revokeObjectURL = jest.fn();
+    Object.assign(URL, { createObjectURL, revokeObjectURL });
+    const click = jest
+      .spyOn(HTMLAnchorElement.prototype, 'click')
+      .mockImplementation(function (this: HTMLAnchorElement) {
+        expect(this.download).toBe('snippet.py');
+        expect(this.href).toBe('blob:snippet');
+        expect(document.body).toContainElement(this);
+      });
+
+    render(<CodeBlock code="print(1)" lang="python" />);
+    fireEvent.click(screen.getByRole('button', { name: 'Download code' }));
+
+    expect(click).toHaveBeenCalled();
+    expect(createObjectURL).toHaveBeenCalledWith(expect.any(Blob));
+    expect(revokeObjectURL).not.toHaveBeenCalled();
+
+    jest.runAllTimers();
+    expect(revokeObjectURL).toHaveBeenCalledWith('blob:snippet');
+    jest.useRealTimers();
+  });
+
+  it('should collapse long blocks until expanded', () => {
+    const code = Array.from({ length: 40 }, (_, i) => `line ${i + 1}`).join('\n');
+    render(<CodeBlock code={code} collapseAfterLines={10} />);
+
+    expect(screen.queryByText(/line 11/)).not.toBeInTheDocument();
+
+    fireEvent.click(screen.getByRole('button', { name: 'Show all 40 lines' }));
+    expect(screen.getByText(/line 40/)).toBeInTheDocument();
+    expect(screen.getByRole('button', { name: 'Show less' })).toHaveAttribute(
+      'aria-expanded',
+      'true'
+    );
+  });
+
+  it('should not offer collapsing for short blocks', () => {
+    render(<CodeBlock code="one line" />);
+
+    expect(screen.queryByRole('button', { name: /Show all/ })).not.toBeInTheDocument();
+  });
+});
@@ -4,18 +4,20 @@ import '@testing-library/jest-dom';
 import { z } from 'zod';
 import FormModal from '../FormModal';
 
-// Note: zod-form-react is temporarily commented out in FormModal.tsx
-// These tests will work with the simplified form implementation
-
 describe('FormModal', () => {
   const mockOnClose = jest.fn();
   const mockOnSubmit = jest.fn();
-  
+
   const testSchema = z.object({
     name: z.string().min(1, 'Name is required'),
     email: z.string().email('Invalid email'),
   });
 
+  const fillValidForm = () => {
+    fireEvent.change(screen.getByLabelText(/^Name/), { target: { value: 'Ada' } });
+    fireEvent.change(screen.getByLabelText(/^Email/), { target: { value: 'ada@example.com' } });
+  };
+
   beforeEach(() => {
     jest.clearAllMocks();
   });
@@ -34,7 +36,8 @@ describe('FormModal', () => {
 
     expect(screen.getByText('Test Form')).toBeInTheDocument();
     expect(screen.getByText('Test description')).toBeInTheDocument();
-    expect(screen.getByPlaceholderText('Enter some data...')).toBeInTheDocument();
+    expect(screen.getByLabelText(/^Name/)).toHaveAttribute('type', 'text');
+    expect(screen.getByLabelText(/^Email/)).toHaveAttribute('type', 'email');
   });
 
   it('should not render when closed', () => {
@@ -47,7 +50,7 @@ describe('FormModal', () => {
       />
     );
 
-    expect(screen.queryByText(/zod-form-react package needs build/)).not.toBeInTheDocument();
+    expect(screen.queryByLabelText(/^Name/)).not.toBeInTheDocument();
   });
 
   it('should handle form submission', async () => {
@@ -60,16 +63,123 @@ describe('FormModal', () => {
       />
     );
 
-    const input = screen.getByPlaceholderText('Enter some data...');
-    const submitButton = screen.getByText('Submit');
-    
-    fireEvent.change(input, { target: { value: 'test value' } });
-    fireEvent.click(submitButton);
+    fillValidForm();
+    fireEvent.click(screen.getByText('Submit'));
 
     await waitFor(() => {
-      expect(mockOnSubmit).toHaveBeenCalledWith({ sampleField: 'test value' });
       expect(mockOnClose).toHaveBeenCalled();
     });
+    expect(mockOnSubmit).toHaveBeenCalledWith({ name: 'Ada', email: 'ada@example.com' });
+  });
+
+  it('should show validation errors per field before submitting', async () => {
+    render(
+      <FormModal
+        isOpen={true}
+        onClose={mockOnClose}
+        schema={testSchema}
+        onSubmit={mockOnSubmit}
+      />
+    );
+
+    fireEvent.change(screen.getByLabelText(/^Email/), { target: { value: 'not-an-email' } });
+    fireEvent.click(screen.getByText('Submit'));
+
+    expect(await screen.findByText('Invalid email')).toBeInTheDocument();
+    expect(screen.getByText('Required')).toBeInTheDocument();
+    expect(screen.getByLabelText(/^Email/)).toHaveAttribute('aria-invalid', 'true');
+    expect(screen.getByText('Please fix 2 fields before submitting.')).toBeInTheDocument();
+    expect(mockOnSubmit).not.toHaveBeenCalled();
+
+    // Errors clear as the fields are corrected
+    fillValidForm();
+    expect(screen.queryByText('Invalid email')).not.toBeInTheDocument();
+    expect(screen.queryByText('Required')).not.toBeInTheDocument();
+  });
+
+  it('should generate inputs for each field type', async () => {
+    const schema = z.object({
+      age: z.number().int().min(0),
+      subscribe: z.boolean(),
+      plan: z.enum(['free', 'pro']),
+      nickname: z.string().optional().describe('Shown to other members'),
+      address: z.object({
+        city: z.string()
+      }),
+      tags: z.array(z.string()).max(2)
+    });
+
+    render(
+      <FormModal
+        isOpen={true}
+        onClose={mockOnClose}
+        schema={schema}
+        onSubmit={mockOnSubmit}
+      />
+    );
+
+    expect(screen.getByLabelText(/^Age/)).toHaveAttribute('type', 'number');
+    expect(screen.getByLabelText('Subscribe')).toHaveAttribute('type', 'checkbox');
+    expect(screen.getByRole('combobox', { name: /plan/i })).toBeInTheDocument();
+    expect(screen.getByText('Shown to other members')).toBeInTheDocument();
+    expect(screen.getByLabelText(/^Nickname/)).toHaveAccessibleName('Nickname (optional)');
+    expect(screen.getByRole('group', { name: /address/i })).toBeInTheDocument();
+    expect(screen.getByLabelText(/^City/)).toBeInTheDocument();
+
+    const addTag = screen.getByRole('button', { name: 'Add tags' });
+    fireEvent.click(addTag);
+    fireEvent.click(addTag);
+    expect(screen.getByLabelText(/^Tags 2/)).toBeInTheDocument();
+    expect(addTag).toBeDisabled();
+
+    fireEvent.change(screen.getByLabelText(/^Age/), { target: { value: '42' } });
+    fireEvent.click(screen.getByLabelText('Subscribe'));
+    fireEvent.change(screen.getByRole('combobox', { name: /plan/i }), { target: { value: 'pro' } });
+    fireEvent.change(screen.getByLabelText(/^City/), { target: { value: 'Paris' } });
+    fireEvent.change(screen.getByLabelText(/^Tags 1/), { target: { value: 'a' } });
+    fireEvent.click(screen.getByLabelText('Remove Tags 2'));
+    fireEvent.click(screen.getByText('Submit'));
+
+    await waitFor(() => {
+      expect(mockOnSubmit).toHaveBeenCalledWith({
+        age: 42,
+        subscribe: true,
+        plan: 'pro',
+        address: { city: 'Paris' },
+        tags: ['a']
+      });
+    });
+  });
+
+  it('should explain when the schema cannot be shown', () => {
+    render(
+      <FormModal
+        isOpen={true}
+        onClose={mockOnClose}
+        schema={'z.object({ name: z.string() })' as unknown as z.ZodTypeAny}
+        onSubmit={mockOnSubmit}
+      />
+    );
+
+    expect(screen.getByRole('alert')).toHaveTextContent('does not contain a form that can be shown');
+    expect(screen.getByText('Submit')).toBeDisabled();
+  });
+
+  it('should show why the schema could not be read', () => {
+    render(
+      <FormModal
+        isOpen={true}
+        onClose={mockOnClose}
+        schema={null}
+        schemaError="Line 1, column 3: Unsupported type z.strng()"
+        onSubmit={mockOnSubmit}
+      />
+    );
+
+    expect(screen.getByRole('alert')).toHaveTextContent(
+      'This form could not be read. Line 1, column 3: Unsupported type z.strng()'
+    );
+    expect(screen.getByText('Submit')).toBeDisabled();
   });
 
   it('should handle form cancellation', () => {
@@ -91,7 +201,7 @@ describe('FormModal', () => {
 
   it('should show loading state during submission', async () => {
     const slowSubmit = jest.fn(() => new Promise(resolve => setTimeout(resolve, 100)));
-    
+
     render(
       <FormModal
         isOpen={true}
@@ -101,18 +211,19 @@ describe('FormModal', () => {
       />
     );
 
+    fillValidForm();
     const submitButton = screen.getByText('Submit');
     fireEvent.click(submitButton);
 
     // Should show loading text
-    expect(screen.getByText('Submitting...')).toBeInTheDocument();
-    
+    expect(await screen.findByText('Submitting...')).toBeInTheDocument();
+
     // Buttons should be disabled
     expect(submitButton).toBeDisabled();
     expect(screen.getByText('Cancel')).toBeDisabled();
 
     await waitFor(() => {
-      expect(slowSubmit).toHaveBeenCalled();
+      expect(mockOnClose).toHaveBeenCalled();
     });
   });
 
@@ -120,7 +231,7 @@ describe('FormModal', () => {
     const errorSubmit = jest.fn(() => {
       throw new Error('Submission failed');
     });
-    
+
     render(
       <FormModal
         isOpen={true}
@@ -130,6 +241,7 @@ describe('FormModal', () => {
       />
     );
 
+    fillValidForm();
     const submitButton = screen.getByText('Submit');
     fireEvent.click(submitButton);
 
@@ -152,12 +264,12 @@ describe('FormModal', () => {
     );
 
     expect(screen.getByText('Form')).toBeInTheDocument(); // Default title
-    expect(screen.getByText(/zod-form-react package needs build/)).toBeInTheDocument();
+    expect(screen.queryByRole('alert')).not.toBeInTheDocument();
   });
 
   it('should prevent closing during submission', async () => {
     const slowSubmit = jest.fn(() => new Promise(resolve => setTimeout(resolve, 100)));
-    
+
     render(
       <FormModal
         isOpen={true}
@@ -167,21 +279,16 @@ describe('FormModal', () => {
       />
     );
 
-    const input = screen.getByPlaceholderText('Enter some data...');
-    const submitButton = screen.getByText('Submit');
-    
-    // Add some data first
-    fireEvent.change(input, { target: { value: 'test' } });
-    fireEvent.click(submitButton);
+    fillValidForm();
+    fireEvent.click(screen.getByText('Submit'));
+    await screen.findByText('Submitting...');
 
     // Try to cancel during submission
-    const cancelButton = screen.getByText('Cancel');
-    fireEvent.click(cancelButton);
+    fireEvent.keyDown(document, { key: 'Escape' });
+    expect(mockOnClose).not.toHaveBeenCalled();
 
-    // In the simplified form, cancel still works since we don't have submission state handling
-    // This test documents current behavior
     await waitFor(() => {
-      expect(slowSubmit).toHaveBeenCalled();
+      expect(mockOnClose).toHaveBeenCalledTimes(1);
     });
   });
-});
\ No newline at end of file
+});
@@ -0,0 +1,110 @@
+import { render, screen, fireEvent } from '@testing-library/react';
+import '@testing-library/jest-dom';
+import Lightbox from '../Lightbox';
+import { GalleryImage } from '../../types';
+
+describe('Lightbox', () => {
+  const images: GalleryImage[] = [
+    {
+      key: 'msg-1-0',
+      messageId: 'msg-1',
+      url: 'https://example.com/one.png',
+      title: 'Architecture',
+      description: 'Service overview',
+      senderName: 'Alice'
+    },
+    { key: 'msg-2-0', messageId: 'msg-2', url: 'https://example.com/two.png' },
+    { key: 'msg-2-1', messageId: 'msg-2', url: 'https://example.com/three.png' }
+  ];
+
+  const currentSrc = () => screen.getByRole('img').getAttribute('src');
+
+  it('should open at the selected image with its caption', () => {
+    render(<Lightbox images={images} initialKey="msg-1-0" onClose={jest.fn()} />);
+
+    expect(screen.getByRole('heading', { name: 'Image 1 of 3' })).toBeInTheDocument();
+    expect(screen.getByRole('img', { name: 'Architecture' })).toHaveAttribute(
+      'src',
+      'https://example.com/one.png'
+    );
+    expect(screen.getByText('Service overview')).toBeInTheDocument();
+    expect(screen.getByText('Shared by Alice')).toBeInTheDocument();
+  });
+
+  it('should navigate with buttons and arrow keys', () => {
+    render(<Lightbox images={images} initialKey="msg-2-0" onClose={jest.fn()} />);
+
+    fireEvent.click(screen.getByRole('button', { name: 'Next image' }));
+    expect(currentSrc()).toBe('https://example.com/three.png');
+    expect(screen.queryByRole('button', { name: 'Next image' })).not.toBeInTheDocument();
+
+    fireEvent.keyDown(document, { key: 'ArrowLeft' });
+    fireEvent.keyDown(document, { key: 'ArrowLeft' });
+    expect(currentSrc()).toBe('https://example.com/one.png');
+    expect(screen.queryByRole('button', { name: 'Previous image' })).not.toBeInTheDocument();
+
+    fireEvent.keyDown(document, { key: 'ArrowRight' });
+    expect(currentSrc()).toBe('https://example.com/two.png');
+  });
+
+  it('should zoom in and out and reset when navigating', () => {
+    render(<Lightbox images={images} initialKey="msg-1-0" onClose={jest.fn()} />);
+
+    expect(screen.getByRole('button', { name: 'Zoom out' })).toBeDisabled();
+
+    fireEvent.click(screen.getByRole('button', { name: 'Zoom in' }));
+    fireEvent.keyDown(document, { key: '+' });
+    expect(screen.getByText('200%')).toBeInTheDocument();
+    expect(screen.getByRole('img')).toHaveStyle({
+      transform: 'translate(0px, 0px) scale(2)'
+    });
+
+    fireEvent.keyDown(document, { key: '-' });
+    expect(screen.getByText('150%')).toBeInTheDocument();
+
+    fireEvent.keyDown(document, { key: 'ArrowRight' });
+    expect(screen.getByText('100%')).toBeInTheDocument();
+  });
+
+  it('should pan while zoomed', () => {
+    // jsdom has no PointerEvent, so pointer coordinates would be dropped
+    if (!window.PointerEvent) {
+      window.PointerEvent = class extends MouseEvent {} as unknown as typeof PointerEvent;
+    }
+    render(<Lightbox images={images} initialKey="msg-1-0" onClose={jest.fn()} />);
+    const image = screen.getByRole('img');
+
+    fireEvent.doubleClick(image);
+    fireEvent.pointerDown(image, { clientX: 10, clientY: 10 });
+    fireEvent.pointerMove(image, { clientX: 40, clientY: 30 });
+    fireEvent.pointerUp(image);
+
+    expect(image).toHaveStyle({ transform: 'translate(30px, 20px) scale(2)' });
+  });
+
+  it('should offer a download link for the current image', () => {
+    render(<Lightbox images={images} initialKey="msg-2-1" onClose={jest.fn()} />);
+
+    const link = screen.getByRole('link', { name: 'Download image' });
+    expect(link).toHaveAttribute('href', 'https://example.com/three.png');
+    expect(link).toHaveAttribute('download');
+  });
+
+  it('should close on Escape', () => {
+    const onClose = jest.fn();
+    render(<Lightbox images={images} initialKey="msg-1-0" onClose={onClose} />);
+
+    fireEvent.keyDown(document, { key: 'Escape' });
+    expect(onClose).toHaveBeenCalled();
+  });
+
+  it('should close when the open image disappears', () => {
+    const onClose = jest.fn();
+    const { rerender } = render(
+      <Lightbox images={images} initialKey="msg-1-0" onClose={onClose} />
+    );
+
+    rerender(<Lightbox images={images.slice(1)} initialKey="msg-1-0" onClose={onClose} />);
+    expect(onClose).toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,94 @@
+import { render, screen } from '@testing-library/react';
+import '@testing-library/jest-dom';
+import MarkdownContent from '../MarkdownContent';
+
+describe('MarkdownContent', () => {
+  it('should render headings, lists and tables', () => {
+    render(
+      <MarkdownContent
+        content={'## Plan\n\n1. Design\n2. Build\n\n| Task | Owner |\n| --- | --- |\n| API | Bob |'}
+      />
+    );
+
+    expect(screen.getByRole('heading', { level: 2, name: 'Plan' })).toBeInTheDocument();
+    expect(screen.getAllByRole('listitem').map((item) => item.textContent)).toEqual([
+      'Design',
+      'Build'
+    ]);
+    expect(screen.getByRole('columnheader', { name: 'Owner' })).toBeInTheDocument();
+    expect(screen.getByRole('cell', { name: 'Bob' })).toBeInTheDocument();
+  });
+
+  it('should render links that open in a new tab', () => {
+    render(<MarkdownContent content="See [the docs](https://example.com/docs)" />);
+
+    const link = screen.getByRole('link', { name: 'the docs' });
+    expect(link).toHaveAttribute('href', 'https://example.com/docs');
+    expect(link).toHaveAttribute('target', '_blank');
+    expect(link).toHaveAttribute('rel', 'noopener noreferrer nofollow');
+  });
+
+  it('should render inline and fenced code', () => {
+    render(<MarkdownContent content={'Run `npm test`\n\n```sh\nnpm run build\n```'} />);
+
+    expect(screen.getByText('npm test').tagName).toBe('CODE');
+    expect(screen.getByText('npm run build')).toHaveClass('language-sh');
+  });
+
+  it('should render mention tokens as chips', () => {
+    render(<MarkdownContent content="Thanks @[Alice Developer](user1)!" />);
+
+    const mention = screen.getByText('@Alice Developer');
+    expect(mention).toHaveClass('mention');
+    expect(mention).toHaveAttribute('data-user-id', 'user1');
+  });
+
+  describe('XSS regressions', () => {
+    it.each([
+      '<script>alert(1)</script>',
+      '<img src=x onerror=alert(1)>',
+      '<a href="javascript:alert(1)">x</a>',
+      '<iframe src="evil.html"></iframe>',
+      '<svg onload=alert(1)>'
+    ])('should show %j as text', (content) => {
+      render(<MarkdownContent content={content} />);
+
+      // Markup turned into elements would not keep its tags in the text
+      expect(screen.getByText(content)).toBeInTheDocument();
+      expect(screen.queryByRole('img')).not.toBeInTheDocument();
+      expect(screen.queryByRole('link')).not.toBeInTheDocument();
+    });
+
+    it.each([
+      '[x](javascript:alert(1))',
+      '[x](JAVASCRIPT:alert(1))',
+      '[x](data:text/html,<script>alert(1)</script>)',
+      '[x](vbscript:msgbox(1))',
+      '<javascript:alert(1)>'
+    ])('should not link %j', (content) => {
+      render(<MarkdownContent content={content} />);
+
+      expect(screen.queryByRole('link')).not.toBeInTheDocument();
+    });
+
+    it('should escape markup inside mention labels', () => {
+      render(
+        <MarkdownContent content={'@[<img src=x onerror=alert(1)>](user1)'} />
+      );
+
+      expect(screen.getByText('@<img src=x onerror=alert(1)>')).toHaveClass('mention');
+      expect(screen.queryByRole('img')).not.toBeInTheDocument();
+    });
+
+    it('should keep code blocks as text', () => {
+      render(
+        <MarkdownContent content={'```html\n<script>alert(1)</script>\n```'} />
+      );
+
+      // A script element would leave only its body in the text
+      const code = screen.getByText((_, element) => element?.tagName === 'CODE');
+      expect(code).toHaveClass('language-html');
+      expect(code).toHaveTextContent('<script>alert(1)</script>');
+    });
+  });
+});
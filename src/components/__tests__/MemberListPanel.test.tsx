@@ -0,0 +1,59 @@
+import { render, screen, fireEvent, within } from '@testing-library/react';
+import '@testing-library/jest-dom';
+import MemberListPanel from '../MemberListPanel';
+import { PresenceRecord } from '../../types';
+
+jest.mock('date-fns', () => ({
+  formatDistanceToNow: jest.fn()
+}));
+
+jest.mock('../../lib/firebase', () => ({
+  getDb: jest.fn(() => ({}))
+}));
+
+describe('MemberListPanel', () => {
+  const now = new Date('2024-01-01T00:10:00.000Z').getTime();
+  const presence: PresenceRecord[] = [
+    { userId: 'user1', displayName: 'Alice', state: 'online', lastSeenAt: '2024-01-01T00:09:50.000Z' },
+    { userId: 'user2', displayName: 'Bob', state: 'away', lastSeenAt: '2024-01-01T00:09:30.000Z' },
+    { userId: 'user3', displayName: 'Carol', state: 'online', lastSeenAt: '2024-01-01T00:00:00.000Z' }
+  ];
+
+  beforeEach(() => {
+    const { formatDistanceToNow } = require('date-fns');
+    formatDistanceToNow.mockReturnValue('5 minutes ago');
+  });
+
+  it('should group members by presence', () => {
+    render(<MemberListPanel presence={presence} now={now} onClose={jest.fn()} />);
+
+    const online = screen.getByRole('region', { name: 'Online — 1' });
+    expect(within(online).getByText('Alice')).toBeInTheDocument();
+    expect(screen.getByRole('heading', { name: 'Away — 1' })).toBeInTheDocument();
+    // Carol's heartbeat expired
+    expect(screen.getByRole('heading', { name: 'Offline — 1' })).toBeInTheDocument();
+  });
+
+  it('should show last seen times for members who are not online', () => {
+    render(<MemberListPanel presence={presence} now={now} onClose={jest.fn()} />);
+
+    expect(screen.getAllByText('Last seen 5 minutes ago')).toHaveLength(2);
+  });
+
+  it('should list members without presence as offline', () => {
+    render(
+      <MemberListPanel presence={[]} memberIds={['user9']} now={now} onClose={jest.fn()} />
+    );
+
+    expect(screen.getByText('user9')).toBeInTheDocument();
+    expect(screen.getByText('Never seen')).toBeInTheDocument();
+  });
+
+  it('should close', () => {
+    const onClose = jest.fn();
+    render(<MemberListPanel presence={presence} now={now} onClose={onClose} />);
+
+    fireEvent.click(screen.getByLabelText('Close members'));
+    expect(onClose).toHaveBeenCalled();
+  });
+});
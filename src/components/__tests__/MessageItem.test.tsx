@@ -1,6 +1,7 @@
-import { render, screen } from '@testing-library/react';
+import { render, screen, fireEvent, waitFor } from '@testing-library/react';
 import '@testing-library/jest-dom';
 import MessageItem from '../MessageItem';
+import AttachmentRendererProvider from '../AttachmentRendererProvider';
 import { Message, User } from '../../types';
 
 // Mock date-fns
@@ -8,6 +9,10 @@ jest.mock('date-fns', () => ({
   formatDistanceToNow: jest.fn(() => '5 minutes ago')
 }));
 
+jest.mock('../../lib/firebase', () => ({
+  getDb: jest.fn(() => ({}))
+}));
+
 describe('MessageItem', () => {
   const mockCurrentUser: User = {
     id: 'current-user',
@@ -123,6 +128,29 @@ describe('MessageItem', () => {
     expect(image).toHaveAttribute('src', 'https://example.com/image.jpg');
   });
 
+  it('should open images in the lightbox', () => {
+    const onOpenImage = jest.fn();
+    const messageWithImage = {
+      ...mockMessage,
+      attachments: [{
+        type: 'image' as const,
+        url: 'https://example.com/image.jpg',
+        title: 'Test Image'
+      }]
+    };
+
+    render(
+      <MessageItem
+        message={messageWithImage}
+        currentUser={mockCurrentUser}
+        onOpenImage={onOpenImage}
+      />
+    );
+
+    fireEvent.click(screen.getByRole('button', { name: 'Open Test Image' }));
+    expect(onOpenImage).toHaveBeenCalledWith('msg-123-0');
+  });
+
   it('should render YouTube attachments', () => {
     const messageWithYouTube = {
       ...mockMessage,
@@ -168,6 +196,108 @@ describe('MessageItem', () => {
     expect(link).toHaveAttribute('href', 'https://example.com/document.pdf');
   });
 
+  it('should render unfurled link previews', () => {
+    const messageWithPreview = {
+      ...mockMessage,
+      attachments: [{
+        type: 'link' as const,
+        url: 'https://example.com/post',
+        title: 'A post',
+        description: 'All about things',
+        thumbnailUrl: 'https://example.com/cover.png',
+        unfurledAt: 1000
+      }]
+    };
+
+    render(
+      <MessageItem
+        message={messageWithPreview}
+        currentUser={mockCurrentUser}
+      />
+    );
+
+    expect(screen.getByRole('link', { name: /a post/i })).toHaveAttribute('href', 'https://example.com/post');
+    expect(screen.getByText('All about things')).toBeInTheDocument();
+    // The thumbnail is decorative, so it has an empty alt text
+    expect(screen.getByAltText('')).toHaveAttribute('src', 'https://example.com/cover.png');
+  });
+
+  it('should render custom attachment types with their renderer', () => {
+    const messageWithVimeo = {
+      ...mockMessage,
+      attachments: [{
+        type: 'vimeo',
+        url: 'https://vimeo.com/76979871',
+        title: 'Vimeo Video',
+        data: { videoId: '76979871' }
+      }]
+    };
+
+    render(
+      <AttachmentRendererProvider
+        renderers={{
+          vimeo: (attachment) => (
+            <iframe title={attachment.title} src={`https://player.vimeo.com/video/${attachment.data?.videoId}`} />
+          )
+        }}
+      >
+        <MessageItem
+          message={messageWithVimeo}
+          currentUser={mockCurrentUser}
+        />
+      </AttachmentRendererProvider>
+    );
+
+    expect(screen.getByTitle('Vimeo Video')).toHaveAttribute('src', 'https://player.vimeo.com/video/76979871');
+  });
+
+  it('should render attachments with renderers registered by MIME type', () => {
+    const messageWithCsv = {
+      ...mockMessage,
+      attachments: [{
+        type: 'file' as const,
+        url: 'https://example.com/report.csv',
+        title: 'Report',
+        mimeType: 'text/csv; charset=utf-8'
+      }]
+    };
+
+    render(
+      <AttachmentRendererProvider
+        renderers={{ file: () => <p>Generic file</p> }}
+        mimeTypeRenderers={{ 'text/csv': (attachment) => <p>CSV preview of {attachment.title}</p> }}
+      >
+        <MessageItem
+          message={messageWithCsv}
+          currentUser={mockCurrentUser}
+        />
+      </AttachmentRendererProvider>
+    );
+
+    expect(screen.getByText('CSV preview of Report')).toBeInTheDocument();
+    expect(screen.queryByText('Generic file')).not.toBeInTheDocument();
+  });
+
+  it('should render custom attachment types without a renderer as links', () => {
+    const messageWithFigma = {
+      ...mockMessage,
+      attachments: [{
+        type: 'figma',
+        url: 'https://www.figma.com/file/abc123/Design',
+        title: 'Figma File'
+      }]
+    };
+
+    render(
+      <MessageItem
+        message={messageWithFigma}
+        currentUser={mockCurrentUser}
+      />
+    );
+
+    expect(screen.getByRole('link', { name: /figma file/i })).toHaveAttribute('href', 'https://www.figma.com/file/abc123/Design');
+  });
+
   it('should format mentions in content', () => {
     const messageWithMentions = {
       ...mockMessage,
@@ -198,6 +328,168 @@ describe('MessageItem', () => {
     expect(screen.queryByTitle('React to message')).not.toBeInTheDocument();
   });
 
+  it('should render aggregated reaction chips', () => {
+    const onReaction = jest.fn();
+    const messageWithReactions = {
+      ...mockMessage,
+      reactions: {
+        '👍': { 'current-user': 'Current User', 'other-user': 'Other User' }
+      }
+    };
+
+    render(
+      <MessageItem
+        message={messageWithReactions}
+        currentUser={mockCurrentUser}
+        onReaction={onReaction}
+      />
+    );
+
+    const chip = screen.getByTitle('Current User, Other User reacted with 👍');
+    expect(chip).toHaveTextContent('2');
+    expect(chip).toHaveAttribute('aria-pressed', 'true');
+
+    fireEvent.click(chip);
+    expect(onReaction).toHaveBeenCalledWith('msg-123', '👍');
+  });
+
+  it('should not render reaction chips when reactions are disabled', () => {
+    const messageWithReactions = {
+      ...mockMessage,
+      reactions: { '👍': { 'other-user': 'Other User' } }
+    };
+
+    render(
+      <MessageItem
+        message={messageWithReactions}
+        currentUser={mockCurrentUser}
+        enableReactions={false}
+      />
+    );
+
+    expect(screen.queryByTitle('Other User reacted with 👍')).not.toBeInTheDocument();
+  });
+
+  it('should edit own messages inline from the options menu', async () => {
+    const onEdit = jest.fn().mockResolvedValue(true);
+    const ownMessage = {
+      ...mockMessage,
+      senderId: 'current-user',
+      senderName: 'Current User'
+    };
+
+    render(
+      <MessageItem
+        message={ownMessage}
+        currentUser={mockCurrentUser}
+        onEdit={onEdit}
+      />
+    );
+
+    fireEvent.mouseEnter(screen.getByRole('region'));
+    fireEvent.click(screen.getByTitle('More options'));
+    fireEvent.click(screen.getByRole('menuitem', { name: 'Edit' }));
+
+    const editor = screen.getByLabelText('Edit message');
+    fireEvent.change(editor, { target: { value: 'Hello edited world!' } });
+    fireEvent.click(screen.getByRole('button', { name: 'Save' }));
+
+    await waitFor(() => {
+      expect(onEdit).toHaveBeenCalledWith('msg-123', 'Hello edited world!');
+    });
+  });
+
+  it('should edit mentions as text and keep their user IDs', async () => {
+    const onEdit = jest.fn().mockResolvedValue(true);
+    const ownMessage = {
+      ...mockMessage,
+      content: 'Ping @[Bob Manager](user2)',
+      mentions: [{ id: 'user2', label: 'Bob Manager' }],
+      senderId: 'current-user'
+    };
+
+    render(
+      <MessageItem
+        message={ownMessage}
+        currentUser={mockCurrentUser}
+        onEdit={onEdit}
+      />
+    );
+
+    expect(screen.getByText('@Bob Manager')).toHaveClass('mention');
+
+    fireEvent.mouseEnter(screen.getByRole('region'));
+    fireEvent.click(screen.getByTitle('More options'));
+    fireEvent.click(screen.getByRole('menuitem', { name: 'Edit' }));
+
+    const editor = screen.getByLabelText('Edit message');
+    expect(editor).toHaveValue('Ping @Bob Manager');
+    fireEvent.change(editor, { target: { value: 'Ping @Bob Manager again' } });
+    fireEvent.click(screen.getByRole('button', { name: 'Save' }));
+
+    await waitFor(() => {
+      expect(onEdit).toHaveBeenCalledWith(
+        'msg-123',
+        'Ping @[Bob Manager](user2) again'
+      );
+    });
+  });
+
+  it('should not offer editing for messages from other users', () => {
+    render(
+      <MessageItem
+        message={mockMessage}
+        currentUser={mockCurrentUser}
+        onEdit={jest.fn()}
+      />
+    );
+
+    fireEvent.mouseEnter(screen.getByRole('region'));
+    expect(screen.queryByTitle('More options')).not.toBeInTheDocument();
+  });
+
+  it('should mark edited messages', () => {
+    render(
+      <MessageItem
+        message={{ ...mockMessage, editedAt: '2024-01-02T00:00:00Z' }}
+        currentUser={mockCurrentUser}
+      />
+    );
+
+    expect(screen.getByText('(edited)')).toBeInTheDocument();
+  });
+
+  it('should render deleted messages as a tombstone', () => {
+    render(
+      <MessageItem
+        message={{ ...mockMessage, deleted: true, deletedBy: 'other-user' }}
+        currentUser={mockCurrentUser}
+      />
+    );
+
+    expect(screen.getByText('This message was deleted')).toBeInTheDocument();
+    expect(screen.queryByText('Hello world!')).not.toBeInTheDocument();
+  });
+
+  it('should let admins delete messages from other users', () => {
+    const onDelete = jest.fn();
+
+    render(
+      <MessageItem
+        message={mockMessage}
+        currentUser={mockCurrentUser}
+        onDelete={onDelete}
+        canModerate={true}
+      />
+    );
+
+    fireEvent.mouseEnter(screen.getByRole('region'));
+    fireEvent.click(screen.getByTitle('More options'));
+    fireEvent.click(screen.getByRole('menuitem', { name: 'Delete (admin)' }));
+
+    expect(onDelete).toHaveBeenCalledWith('msg-123');
+  });
+
   it('should not render reply button when disabled', () => {
     render(
       <MessageItem
@@ -246,4 +538,272 @@ describe('MessageItem', () => {
 
     expect(screen.getByText('Unknown time')).toBeInTheDocument();
   });
-});
\ No newline at end of file
+
+  it('should hide the avatar and header of grouped messages', () => {
+    render(
+      <MessageItem
+        message={{ ...mockMessage, editedAt: '2024-01-01T00:05:00Z' }}
+        currentUser={mockCurrentUser}
+        isGrouped
+      />
+    );
+
+    expect(screen.queryByText('Other User')).not.toBeInTheDocument();
+    expect(screen.queryByText('OU')).not.toBeInTheDocument();
+    expect(screen.getByText('(edited)')).toBeInTheDocument();
+    expect(
+      screen.getByText(
+        new Intl.DateTimeFormat(undefined, { timeStyle: 'short' }).format(
+          new Date(mockMessage.createdAt)
+        )
+      )
+    ).toHaveAttribute(
+      'title',
+      new Intl.DateTimeFormat(undefined, { dateStyle: 'full', timeStyle: 'long' }).format(
+        new Date(mockMessage.createdAt)
+      )
+    );
+  });
+
+  it('should show the sender presence on the avatar', () => {
+    render(
+      <MessageItem
+        message={mockMessage}
+        currentUser={mockCurrentUser}
+        presence="away"
+      />
+    );
+
+    expect(screen.getByRole('img', { name: 'Away' })).toBeInTheDocument();
+  });
+
+  it('should not show presence when it is not provided', () => {
+    render(
+      <MessageItem
+        message={mockMessage}
+        currentUser={mockCurrentUser}
+      />
+    );
+
+    expect(screen.queryByRole('img', { name: /online|away|offline/i })).not.toBeInTheDocument();
+  });
+
+  it('should show who has seen the message', () => {
+    render(
+      <MessageItem
+        message={mockMessage}
+        currentUser={mockCurrentUser}
+        seenBy={[
+          { userId: 'user2', displayName: 'Bob Builder', lastReadAt: '2024-01-01T00:00:00Z', lastReadMessageId: 'msg-123' },
+          { userId: 'user3', lastReadAt: '2024-01-01T00:00:00Z', lastReadMessageId: 'msg-123' }
+        ]}
+      />
+    );
+
+    expect(screen.getByText('Seen by Bob Builder, user3')).toBeInTheDocument();
+    expect(screen.getByText('BB')).toBeInTheDocument();
+  });
+
+  it('should show pending messages as sending', () => {
+    render(
+      <MessageItem
+        message={{ ...mockMessage, senderId: 'current-user' }}
+        currentUser={mockCurrentUser}
+        deliveryStatus="pending"
+      />
+    );
+
+    expect(screen.getByText('Sending…')).toBeInTheDocument();
+    expect(screen.queryByRole('alert')).not.toBeInTheDocument();
+  });
+
+  it('should offer retry and discard for failed messages', () => {
+    const onRetry = jest.fn();
+    const onDiscard = jest.fn();
+
+    render(
+      <MessageItem
+        message={{ ...mockMessage, senderId: 'current-user' }}
+        currentUser={mockCurrentUser}
+        deliveryStatus="failed"
+        onRetry={onRetry}
+        onDiscard={onDiscard}
+      />
+    );
+
+    expect(screen.getByRole('alert')).toHaveTextContent('Failed to send');
+
+    fireEvent.click(screen.getByRole('button', { name: 'Retry' }));
+    fireEvent.click(screen.getByRole('button', { name: 'Discard' }));
+
+    expect(onRetry).toHaveBeenCalledWith('msg-123');
+    expect(onDiscard).toHaveBeenCalledWith('msg-123');
+  });
+
+  describe('form requests', () => {
+    const formMessage: Message = {
+      ...mockMessage,
+      senderId: 'agent_assistant',
+      recipientIds: ['current-user', 'user2', 'user3'],
+      dataRequest: 'z.object({ city: z.string() })',
+      formRequest: { recipientCount: 3, responderIds: ['user2', 'user3'] }
+    };
+
+    it('should open the form and show progress', () => {
+      const onDataRequest = jest.fn();
+
+      render(
+        <MessageItem
+          message={formMessage}
+          currentUser={mockCurrentUser}
+          onDataRequest={onDataRequest}
+        />
+      );
+
+      expect(screen.getByText('2 of 3 responded')).toBeInTheDocument();
+      fireEvent.click(screen.getByRole('button', { name: 'Provide Information' }));
+      expect(onDataRequest).toHaveBeenCalledWith(formMessage);
+    });
+
+    it('should disable the button once responded or expired', () => {
+      const { rerender } = render(
+        <MessageItem
+          message={{
+            ...formMessage,
+            formRequest: { recipientCount: 3, responderIds: ['current-user'] }
+          }}
+          currentUser={mockCurrentUser}
+          onDataRequest={jest.fn()}
+        />
+      );
+
+      expect(screen.getByRole('button', { name: 'Response submitted' })).toBeDisabled();
+
+      rerender(
+        <MessageItem
+          message={{
+            ...formMessage,
+            formRequest: {
+              recipientCount: 3,
+              responderIds: [],
+              expiresAt: '2020-01-01T00:00:00.000Z'
+            }
+          }}
+          currentUser={mockCurrentUser}
+          onDataRequest={jest.fn()}
+        />
+      );
+
+      expect(screen.getByRole('button', { name: 'Form closed' })).toBeDisabled();
+      expect(screen.getByText(/^Closed/)).toBeInTheDocument();
+    });
+
+    it('should only offer the form to its recipients', () => {
+      render(
+        <MessageItem
+          message={{ ...formMessage, recipientIds: ['user2'] }}
+          currentUser={mockCurrentUser}
+          onDataRequest={jest.fn()}
+        />
+      );
+
+      expect(screen.queryByRole('button', { name: 'Provide Information' })).not.toBeInTheDocument();
+      expect(screen.getByText('2 of 3 responded')).toBeInTheDocument();
+    });
+  });
+
+  describe('form responses', () => {
+    const request: Message = {
+      ...mockMessage,
+      id: 'request-1',
+      content: 'Where should we ship it?',
+      senderId: 'current-user',
+      dataRequest: 'z.object({ postalCode: z.string(), giftWrap: z.boolean() })'
+    };
+    const response: Message = {
+      ...mockMessage,
+      content: 'Responded to "Where should we ship it?"',
+      recipientIds: ['current-user'],
+      formResponse: { requestId: 'request-1', data: { giftWrap: false, postalCode: 'W1' } }
+    };
+
+    it('should show the submitted data labelled by the request', () => {
+      const onShowMessage = jest.fn();
+
+      render(
+        <MessageItem
+          message={response}
+          currentUser={mockCurrentUser}
+          formRequestMessage={request}
+          onShowMessage={onShowMessage}
+          onDataRequest={jest.fn()}
+        />
+      );
+
+      expect(screen.getByText('Postal code')).toBeInTheDocument();
+      expect(screen.getByText('W1')).toBeInTheDocument();
+      expect(screen.getByText('Gift wrap')).toBeInTheDocument();
+      expect(screen.getByText('No')).toBeInTheDocument();
+      expect(screen.queryByText('Provide Information')).not.toBeInTheDocument();
+
+      fireEvent.click(screen.getByRole('button', { name: 'Where should we ship it?' }));
+      expect(onShowMessage).toHaveBeenCalledWith('request-1');
+    });
+
+    it('should collapse long forms', () => {
+      const data = Object.fromEntries(
+        Array.from({ length: 7 }, (_, index) => [`field${index + 1}`, `value ${index + 1}`])
+      );
+
+      render(
+        <MessageItem
+          message={{ ...response, formResponse: { requestId: 'request-1', data } }}
+          currentUser={mockCurrentUser}
+        />
+      );
+
+      expect(screen.queryByText('value 6')).not.toBeInTheDocument();
+      fireEvent.click(screen.getByRole('button', { name: 'Show all 7 fields' }));
+      expect(screen.getByText('value 7')).toBeInTheDocument();
+    });
+
+    it('should hide private responses from other users', () => {
+      const privateResponse: Message = {
+        ...response,
+        recipientIds: ['agent_assistant'],
+        formResponse: { ...response.formResponse!, private: true }
+      };
+
+      const { rerender } = render(
+        <MessageItem message={privateResponse} currentUser={mockCurrentUser} />
+      );
+
+      expect(
+        screen.getByText('Only the requester and admins can see this response.')
+      ).toBeInTheDocument();
+      expect(screen.queryByText('W1')).not.toBeInTheDocument();
+
+      rerender(
+        <MessageItem message={privateResponse} currentUser={mockCurrentUser} canModerate />
+      );
+      expect(screen.getByText('W1')).toBeInTheDocument();
+    });
+
+    it('should show legacy responses without a form button', () => {
+      render(
+        <MessageItem
+          message={{
+            ...mockMessage,
+            content: 'Form response submitted',
+            dataRequest: { city: 'Paris' }
+          }}
+          currentUser={mockCurrentUser}
+          onDataRequest={jest.fn()}
+        />
+      );
+
+      expect(screen.getByText('City')).toBeInTheDocument();
+      expect(screen.queryByText('Provide Information')).not.toBeInTheDocument();
+    });
+  });
+});
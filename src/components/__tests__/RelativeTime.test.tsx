@@ -0,0 +1,67 @@
+import { act, render, screen } from '@testing-library/react';
+import '@testing-library/jest-dom';
+import RelativeTime from '../RelativeTime';
+import DateSeparator from '../DateSeparator';
+import { CLOCK_TICK_MS, formatAbsoluteTime } from '../../utils/clock';
+
+describe('RelativeTime', () => {
+  beforeEach(() => {
+    jest.useFakeTimers();
+    jest.setSystemTime(new Date('2024-03-04T12:00:00'));
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('should refresh as the clock ticks', () => {
+    render(<RelativeTime timestamp={new Date('2024-03-04T12:00:00').toISOString()} />);
+    expect(screen.getByText('less than a minute ago')).toBeInTheDocument();
+
+    act(() => {
+      jest.advanceTimersByTime(4 * CLOCK_TICK_MS);
+    });
+    expect(screen.getByText('2 minutes ago')).toBeInTheDocument();
+  });
+
+  it('should show the absolute time as a tooltip', () => {
+    const timestamp = '2024-03-04T11:00:00';
+    render(<RelativeTime timestamp={timestamp} />);
+
+    expect(screen.getByText('about 1 hour ago')).toHaveAttribute(
+      'title',
+      formatAbsoluteTime(timestamp)
+    );
+  });
+
+  it('should not show future times for messages newer than the clock', () => {
+    render(<RelativeTime timestamp="2024-03-04T12:00:05" />);
+
+    expect(screen.getByText('less than a minute ago')).toBeInTheDocument();
+  });
+
+  it('should handle invalid timestamps', () => {
+    render(<RelativeTime timestamp="not a date" />);
+
+    expect(screen.getByText('Unknown time')).toBeInTheDocument();
+  });
+});
+
+describe('DateSeparator', () => {
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('should roll "Today" over to "Yesterday" at midnight', () => {
+    jest.useFakeTimers();
+    jest.setSystemTime(new Date('2024-03-04T23:59:50'));
+
+    render(<DateSeparator timestamp="2024-03-04T09:00:00" />);
+    expect(screen.getByRole('separator', { name: 'Today' })).toBeInTheDocument();
+
+    act(() => {
+      jest.advanceTimersByTime(CLOCK_TICK_MS);
+    });
+    expect(screen.getByRole('separator', { name: 'Yesterday' })).toBeInTheDocument();
+  });
+});
@@ -0,0 +1,104 @@
+import React from 'react';
+import { act, render, screen, fireEvent } from '@testing-library/react';
+import '@testing-library/jest-dom';
+import ThreadPanel from '../ThreadPanel';
+import { Threads } from '../../utils/threads';
+import { Message, User } from '../../types';
+
+jest.mock('../../lib/firebase', () => ({
+  getDb: jest.fn(() => ({}))
+}));
+
+jest.mock('../../utils/threads', () => ({
+  Threads: { subscribeToReplies: jest.fn() }
+}));
+
+describe('ThreadPanel', () => {
+  const currentUser: User = {
+    id: 'user1',
+    displayName: 'Alice',
+    role: 'user',
+    email: 'alice@example.com'
+  };
+
+  const rootMessage: Message = {
+    id: 'root-1',
+    content: 'Where should we meet?',
+    senderId: 'user2',
+    senderName: 'Bob',
+    createdAt: '2024-01-01T00:00:00.000Z',
+    updatedAt: '2024-01-01T00:00:00.000Z'
+  };
+
+  const pendingReply: Message = {
+    id: 'reply-1',
+    content: 'At the station',
+    senderId: 'user1',
+    senderName: 'Alice',
+    threadId: 'root-1',
+    createdAt: '2024-01-01T00:05:00.000Z',
+    updatedAt: '2024-01-01T00:05:00.000Z'
+  };
+
+  let emitReplies: (replies: Message[]) => void;
+
+  beforeEach(() => {
+    (Threads.subscribeToReplies as jest.Mock).mockImplementation(
+      (_path: string, _rootId: string, onReplies: (replies: Message[]) => void) => {
+        emitReplies = onReplies;
+        return jest.fn();
+      }
+    );
+  });
+
+  const renderPanel = (props: Partial<React.ComponentProps<typeof ThreadPanel>> = {}) =>
+    render(
+      <ThreadPanel
+        firebasePath="chats/test"
+        rootMessage={rootMessage}
+        currentUser={currentUser}
+        canWrite={true}
+        onSendReply={jest.fn()}
+        onClose={jest.fn()}
+        {...props}
+      />
+    );
+
+  it('should show failed replies from the outbox with Retry and Discard', () => {
+    const onRetry = jest.fn();
+    const onDiscard = jest.fn();
+    renderPanel({
+      pendingReplies: [pendingReply],
+      deliveryStatuses: { 'reply-1': 'failed' },
+      onRetry,
+      onDiscard,
+      onEdit: jest.fn()
+    });
+
+    expect(screen.getByText('At the station')).toBeInTheDocument();
+    expect(screen.getByText('1 reply')).toBeInTheDocument();
+    expect(screen.getByRole('alert')).toHaveTextContent('Failed to send');
+    expect(screen.queryByRole('button', { name: 'Edit message' })).not.toBeInTheDocument();
+
+    fireEvent.click(screen.getByRole('button', { name: 'Retry' }));
+    expect(onRetry).toHaveBeenCalledWith('reply-1');
+
+    fireEvent.click(screen.getByRole('button', { name: 'Discard' }));
+    expect(onDiscard).toHaveBeenCalledWith('reply-1');
+  });
+
+  it('should replace an outbox reply with its server copy', () => {
+    renderPanel({
+      pendingReplies: [pendingReply],
+      deliveryStatuses: { 'reply-1': 'pending' }
+    });
+
+    act(() => {
+      emitReplies([{ ...pendingReply, content: 'At the station, platform 2' }]);
+    });
+
+    expect(screen.getByText('At the station, platform 2')).toBeInTheDocument();
+    expect(screen.queryByText('At the station')).not.toBeInTheDocument();
+    expect(screen.getByText('1 reply')).toBeInTheDocument();
+  });
+});
@@ -0,0 +1,50 @@
+import { render, screen } from '@testing-library/react';
+import '@testing-library/jest-dom';
+import TypingIndicator from '../TypingIndicator';
+import { ActivityStatus } from '../../types';
+
+jest.mock('../../lib/firebase', () => ({
+  getDb: jest.fn(() => ({}))
+}));
+
+describe('TypingIndicator', () => {
+  const now = new Date().toISOString();
+
+  it('should render nothing when nobody is active', () => {
+    render(<TypingIndicator statuses={[]} />);
+
+    expect(screen.queryByRole('status')).not.toBeInTheDocument();
+  });
+
+  it('should show humans typing and agent activity separately', () => {
+    const statuses: ActivityStatus[] = [
+      { userId: 'user2', displayName: 'Alice', state: 'typing', updatedAt: now },
+      {
+        userId: 'agent1',
+        displayName: 'Assistant',
+        isAgent: true,
+        state: 'tool',
+        toolName: 'web_search',
+        updatedAt: now
+      }
+    ];
+
+    render(<TypingIndicator statuses={statuses} />);
+
+    expect(screen.getByText('Alice is typing…')).toBeInTheDocument();
+    expect(screen.getByText('Assistant is running web_search…')).toBeInTheDocument();
+  });
+
+  it('should ignore stale statuses', () => {
+    const stale: ActivityStatus = {
+      userId: 'user2',
+      displayName: 'Alice',
+      state: 'typing',
+      updatedAt: '2020-01-01T00:00:00.000Z'
+    };
+
+    render(<TypingIndicator statuses={[stale]} />);
+
+    expect(screen.queryByText('Alice is typing…')).not.toBeInTheDocument();
+  });
+});
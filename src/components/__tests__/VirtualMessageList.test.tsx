@@ -0,0 +1,42 @@
+import { createRef } from 'react';
+import { render, screen } from '@testing-library/react';
+import '@testing-library/jest-dom';
+import VirtualMessageList from '../VirtualMessageList';
+import { Message } from '../../types';
+
+describe('VirtualMessageList', () => {
+  const messages: Message[] = Array.from({ length: 50 }, (_, i) => ({
+    id: `msg-${i}`,
+    content: `Message ${i}`,
+    senderId: 'user1',
+    createdAt: `2024-01-01T00:00:${String(i).padStart(2, '0')}Z`,
+    updatedAt: `2024-01-01T00:00:${String(i).padStart(2, '0')}Z`
+  }));
+
+  const renderList = (props = {}) =>
+    render(
+      <VirtualMessageList
+        messages={messages}
+        renderMessage={message => <p key={message.id}>{message.content}</p>}
+        scrollContainerRef={createRef<HTMLDivElement>()}
+        estimatedRowHeight={100}
+        overscan={300}
+        {...props}
+      />
+    );
+
+  it('should only mount rows near the end before layout', () => {
+    renderList();
+
+    expect(screen.getByText('Message 49')).toBeInTheDocument();
+    expect(screen.getByText('Message 47')).toBeInTheDocument();
+    expect(screen.queryByText('Message 0')).not.toBeInTheDocument();
+  });
+
+  it('should mount every row of a short list', () => {
+    renderList({ messages: messages.slice(0, 3) });
+
+    expect(screen.getByText('Message 0')).toBeInTheDocument();
+    expect(screen.getByText('Message 2')).toBeInTheDocument();
+  });
+});
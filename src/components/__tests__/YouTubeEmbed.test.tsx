@@ -0,0 +1,66 @@
+import { render, screen, fireEvent } from '@testing-library/react';
+import '@testing-library/jest-dom';
+import YouTubeEmbed from '../YouTubeEmbed';
+import { MessageAttachment } from '../../types';
+
+describe('YouTubeEmbed', () => {
+  const attachment: MessageAttachment = {
+    type: 'youtube',
+    url: 'https://www.youtube.com/watch?v=dQw4w9WgXcQ&t=90s',
+    title: 'Demo'
+  };
+  const video = { videoId: 'dQw4w9WgXcQ', start: 90 };
+
+  it('should show a thumbnail until clicked', () => {
+    render(<YouTubeEmbed attachment={attachment} video={video} />);
+
+    expect(screen.getByRole('img', { name: 'Demo' })).toHaveAttribute(
+      'src',
+      'https://img.youtube.com/vi/dQw4w9WgXcQ/hqdefault.jpg'
+    );
+    expect(screen.getByText('Starts at 1:30')).toBeInTheDocument();
+    expect(screen.queryByTitle('Demo')).not.toBeInTheDocument();
+  });
+
+  it('should play inline from the privacy-enhanced domain', () => {
+    render(<YouTubeEmbed attachment={attachment} video={video} />);
+
+    fireEvent.click(screen.getByRole('button', { name: 'Play Demo' }));
+
+    expect(screen.getByTitle('Demo')).toHaveAttribute(
+      'src',
+      'https://www.youtube-nocookie.com/embed/dQw4w9WgXcQ?autoplay=1&start=90'
+    );
+    expect(screen.getByRole('link', { name: 'Open on YouTube' })).toHaveAttribute(
+      'href',
+      attachment.url
+    );
+  });
+
+  it('should embed playlists', () => {
+    render(
+      <YouTubeEmbed
+        attachment={{ type: 'youtube', url: 'https://www.youtube.com/playlist?list=PLabc123' }}
+        video={{ playlistId: 'PLabc123' }}
+      />
+    );
+
+    expect(screen.getByText('Playlist')).toBeInTheDocument();
+    fireEvent.click(screen.getByRole('button', { name: 'Play YouTube Playlist' }));
+
+    expect(screen.getByTitle('YouTube Playlist')).toHaveAttribute(
+      'src',
+      'https://www.youtube-nocookie.com/embed/videoseries?autoplay=1&list=PLabc123'
+    );
+  });
+
+  it('should open YouTube in a new tab when embeds are disabled', () => {
+    const open = jest.spyOn(window, 'open').mockImplementation(() => null);
+    render(<YouTubeEmbed attachment={attachment} video={video} enableEmbed={false} />);
+
+    fireEvent.click(screen.getByRole('button', { name: 'Play Demo' }));
+
+    expect(open).toHaveBeenCalledWith(attachment.url, '_blank');
+    expect(screen.queryByTitle('Demo')).not.toBeInTheDocument();
+  });
+});
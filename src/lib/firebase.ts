@@ -166,6 +166,9 @@ export async function initDemoAuth(): Promise<User> {
   return authInstance.currentUser;
 }
 
+// Listeners notified when the Firestore network is toggled
+const networkListeners = new Set<(enabled: boolean) => void>();
+
 /**
  * Utility to enable/disable Firestore network
  */
@@ -178,6 +181,22 @@ export async function toggleFirestoreNetwork(enable: boolean): Promise<void> {
     await disableNetwork(firestore);
     console.log('🔌 Firestore network disabled');
   }
+
+  networkListeners.forEach((listener) => listener(enable));
+}
+
+/**
+ * Listen for `toggleFirestoreNetwork` calls
+ *
+ * @returns Function that removes the listener
+ */
+export function onFirestoreNetworkChange(
+  listener: (enabled: boolean) => void
+): () => void {
+  networkListeners.add(listener);
+  return () => {
+    networkListeners.delete(listener);
+  };
 }
 
 // Initialize Firebase on module load
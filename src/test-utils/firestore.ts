@@ -0,0 +1,97 @@
+import type { DocumentData } from 'firebase/firestore';
+
+/**
+ * Fakes for the mocked `firebase/firestore` module in service tests
+ *
+ * Test files still mock the module with `jest.fn()`s; these helpers give
+ * those mocks implementations. Call `mockFirestore` in `beforeEach`, since
+ * `resetMocks` clears implementations between tests.
+ */
+
+/**
+ * Reference returned by the fake `doc` and `collection`
+ */
+export interface FakeReference {
+  id: string;
+  path: string;
+}
+
+export interface FakeSnapshot {
+  id: string;
+  exists: () => boolean;
+  data: () => DocumentData | undefined;
+}
+
+export interface MockTransaction {
+  get: jest.Mock<Promise<FakeSnapshot>, [FakeReference]>;
+  set: jest.Mock<void, [FakeReference, DocumentData, ...unknown[]]>;
+  update: jest.Mock<void, [FakeReference, DocumentData, ...unknown[]]>;
+  delete: jest.Mock<void, [FakeReference]>;
+}
+
+type ReferenceMock = jest.Mock<
+  FakeReference,
+  [Partial<FakeReference> | undefined, ...string[]]
+>;
+
+/**
+ * Mocked functions of `firebase/firestore` that `mockFirestore` implements
+ */
+export interface FirestoreMocks {
+  doc: ReferenceMock;
+  collection?: ReferenceMock;
+  runTransaction?: jest.Mock<
+    Promise<unknown>,
+    [unknown, (transaction: MockTransaction) => Promise<unknown>]
+  >;
+}
+
+export function createMockTransaction(): MockTransaction {
+  return {
+    get: jest.fn(),
+    set: jest.fn(),
+    update: jest.fn(),
+    delete: jest.fn(),
+  };
+}
+
+/**
+ * Snapshot of a stored document, or of a missing one when `data` is null
+ */
+export function fakeSnapshot(
+  data: DocumentData | null,
+  id = 'doc-1'
+): FakeSnapshot {
+  return { id, exists: () => data !== null, data: () => data ?? undefined };
+}
+
+function reference(
+  parent: Partial<FakeReference> | undefined,
+  segments: string[]
+): FakeReference {
+  const path = [parent?.path, ...segments].filter(Boolean).join('/');
+  return { id: path.split('/').pop() || '', path };
+}
+
+/**
+ * Give references their path and run transactions against `transaction`
+ *
+ * @param autoId ID of documents created on a collection without an ID
+ */
+export function mockFirestore(
+  firestore: FirestoreMocks,
+  transaction?: MockTransaction,
+  autoId = 'new-doc'
+): void {
+  firestore.collection?.mockImplementation((parent, ...segments) =>
+    reference(parent, segments)
+  );
+  firestore.doc.mockImplementation((parent, ...segments) =>
+    reference(parent, segments.length > 0 ? segments : [autoId])
+  );
+  if (transaction) {
+    firestore.runTransaction?.mockImplementation((_db, update) =>
+      update(transaction)
+    );
+  }
+}
@@ -1,7 +1,7 @@
 import { z } from 'zod';
 
 /**
- * Attachment type enum
+ * Built-in attachment types
  */
 export const AttachmentTypeEnum = z.enum([
   'youtube',
@@ -13,24 +13,50 @@ export const AttachmentTypeEnum = z.enum([
   'document',
 ]);
 
-export type AttachmentType = z.infer<typeof AttachmentTypeEnum>;
+export type BuiltInAttachmentType = z.infer<typeof AttachmentTypeEnum>;
+
+/**
+ * Attachment type: a built-in type, or a custom type added by the host app
+ * through an attachment detector (lowercase, e.g. "vimeo" or "figma-file")
+ */
+export const attachmentTypeSchema = z.union([
+  AttachmentTypeEnum,
+  z.string().regex(/^[a-z][a-z0-9-]*$/),
+]);
+
+// `string & {}` keeps editor completion for the built-in types
+export type AttachmentType = BuiltInAttachmentType | (string & {});
 
 /**
  * Attachment schema for files, media, and links in messages
  */
 export const attachmentSchema = z.object({
   id: z.string().optional(),
-  type: AttachmentTypeEnum,
+  type: attachmentTypeSchema,
   url: z.string().url(),
   thumbnailUrl: z.string().url().optional(),
   title: z.string().optional(),
   description: z.string().optional(),
   mimeType: z.string().optional(),
   size: z.number().optional(),
+  // Extra fields for custom attachment types, e.g. a Figma file key
+  data: z.record(z.unknown()).optional(),
+  // When a link preview was fetched (ms since epoch), even if none was found
+  unfurledAt: z.number().optional(),
+  // Found in the message text, which no longer shows its URL
+  detected: z.boolean().optional(),
 });
 
 export type MessageAttachment = z.infer<typeof attachmentSchema>;
 
+/**
+ * Renders an attachment of a custom (or overridden built-in) type
+ */
+export type AttachmentRenderer = (
+  attachment: MessageAttachment,
+  message: Message
+) => React.ReactNode;
+
 /**
  * Message metadata schema
  */
@@ -47,6 +73,63 @@ export const messageMetadataSchema = z
 
 export type MessageMetadata = z.infer<typeof messageMetadataSchema>;
 
+/**
+ * Reactions stored on a message, keyed by emoji and then by the reacting
+ * user's ID (the value is the user's display name at the time of reacting)
+ */
+export const messageReactionsSchema = z.record(z.record(z.string()));
+
+export type MessageReactions = z.infer<typeof messageReactionsSchema>;
+
+/**
+ * Aggregated view of a single emoji reaction for rendering
+ */
+export interface ReactionSummary {
+  emoji: string;
+  count: number;
+  userIds: string[];
+  userNames: string[];
+  reactedByCurrentUser: boolean;
+}
+
+/**
+ * A user mentioned in a message
+ * Content refers to it with a `@[label](id)` token
+ */
+export const mentionSchema = z.object({
+  id: z.string(),
+  label: z.string(),
+});
+
+export type MessageMention = z.infer<typeof mentionSchema>;
+
+/**
+ * Progress of a form request, kept on its message so the timeline can show
+ * it without loading the request (`${path}/formRequests/{messageId}`)
+ */
+export const formRequestSummarySchema = z.object({
+  // Number of users asked to respond; 0 when anyone in the chat may respond
+  recipientCount: z.number(),
+  responderIds: z.array(z.string()),
+  expiresAt: z.string().optional(),
+  private: z.boolean().optional(),
+});
+
+export type FormRequestSummary = z.infer<typeof formRequestSummarySchema>;
+
+/**
+ * Submitted form data, sent to the requester as a message
+ */
+export const formResponseMessageSchema = z.object({
+  // ID of the form request, which is also the ID of its message
+  requestId: z.string(),
+  data: z.record(z.any()),
+  // The UI shows the data only to the requester, the respondent and admins
+  private: z.boolean().optional(),
+});
+
+export type FormResponseMessage = z.infer<typeof formResponseMessageSchema>;
+
 /**
  * Core message schema used throughout the application
  */
@@ -58,6 +141,7 @@ export const messageSchema = z.object({
   senderName: z.string().optional(),
   senderRole: z.string().optional(),
   recipientIds: z.array(z.string()).optional(),
+  mentions: z.array(mentionSchema).optional(),
 
   // AI Agent specific properties
   fromAiAgent: z.boolean().optional(),
@@ -66,18 +150,119 @@ export const messageSchema = z.object({
   // Rich content
   attachments: z.array(attachmentSchema).optional(),
   dataRequest: z.union([z.string(), z.object({}).catchall(z.any())]).optional(),
+  formRequest: formRequestSummarySchema.optional(),
+  formResponse: formResponseMessageSchema.optional(),
 
   // Metadata
   metadata: messageMetadataSchema.optional(),
 
+  // Reactions
+  reactions: messageReactionsSchema.optional(),
+
+  // Threading (replies reference their root message; roots keep a summary)
+  threadId: z.string().optional(),
+  replyCount: z.number().optional(),
+  lastReplyAt: z.string().optional(),
+  lastRepliers: z
+    .array(z.object({ id: z.string(), name: z.string().optional() }))
+    .optional(),
+
   // Status fields
   deleted: z.boolean().optional(),
+  deletedAt: z.string().optional(),
+  deletedBy: z.string().optional(),
+  editedAt: z.string().optional(),
+  editCount: z.number().optional(),
   createdAt: z.string(),
   updatedAt: z.string(),
 });
 
 export type Message = z.infer<typeof messageSchema>;
 
+/**
+ * Revision schema for message edit history
+ * Each revision stores the content as it was before an edit
+ */
+export const messageRevisionSchema = z.object({
+  id: z.string().optional(),
+  content: z.string(),
+  attachments: z.array(attachmentSchema).optional(),
+  dataRequest: z.union([z.string(), z.object({}).catchall(z.any())]).optional(),
+  editedBy: z.string(),
+  editedByName: z.string().optional(),
+  editedAt: z.string(),
+});
+
+export type MessageRevision = z.infer<typeof messageRevisionSchema>;
+
+/**
+ * Activity states published while composing a message
+ * Humans only ever publish `typing`; agents describe what they are doing
+ */
+export const ActivityStateEnum = z.enum([
+  'typing',
+  'thinking',
+  'tool',
+  'writing',
+]);
+
+export type ActivityState = z.infer<typeof ActivityStateEnum>;
+
+/**
+ * Ephemeral activity status, one document per user under the chat path
+ */
+export const activityStatusSchema = z.object({
+  userId: z.string(),
+  displayName: z.string().optional(),
+  isAgent: z.boolean().optional(),
+  state: ActivityStateEnum,
+  toolName: z.string().optional(),
+  updatedAt: z.string(),
+});
+
+export type ActivityStatus = z.infer<typeof activityStatusSchema>;
+
+/**
+ * Presence states shown next to chat members
+ */
+export const PresenceStateEnum = z.enum(['online', 'away', 'offline']);
+
+export type PresenceState = z.infer<typeof PresenceStateEnum>;
+
+/**
+ * Presence heartbeat document, one per user under the chat path
+ */
+export const presenceRecordSchema = z.object({
+  userId: z.string(),
+  displayName: z.string().optional(),
+  isAgent: z.boolean().optional(),
+  state: PresenceStateEnum,
+  lastSeenAt: z.string(),
+});
+
+export type PresenceRecord = z.infer<typeof presenceRecordSchema>;
+
+/**
+ * Read position of a member, one document per user under the chat path
+ * `lastReadAt` is the creation time of the newest message the user has seen
+ */
+export const readReceiptSchema = z.object({
+  userId: z.string(),
+  displayName: z.string().optional(),
+  lastReadAt: z.string(),
+  lastReadMessageId: z.string(),
+});
+
+export type ReadReceipt = z.infer<typeof readReceiptSchema>;
+
+/**
+ * Delivery state of a message composed on this device that the server has
+ * not confirmed yet
+ */
+export const DeliveryStatusEnum = z.enum(['pending', 'failed']);
+
+export type DeliveryStatus = z.infer<typeof DeliveryStatusEnum>;
+
 /**
  * User schema
  */
@@ -116,6 +301,41 @@ export const memberSchema = z.object({
 
 export type Member = z.infer<typeof memberSchema>;
 
+/**
+ * Source of the people and agents that can be mentioned in a chat
+ */
+export interface UserDirectory {
+  /**
+   * Find users whose name or ID matches a query, best matches first
+   */
+  search(query: string, limit?: number): Promise<User[]>;
+  /**
+   * Look up a single user, or null if they are not in the directory
+   */
+  getUser(userId: string): Promise<User | null>;
+}
+
+/**
+ * OpenGraph details of a linked page
+ */
+export const linkPreviewSchema = z.object({
+  title: z.string().optional(),
+  description: z.string().optional(),
+  imageUrl: z.string().url().optional(),
+});
+
+export type LinkPreview = z.infer<typeof linkPreviewSchema>;
+
+/**
+ * Fetches previews for links shared in messages
+ */
+export interface LinkUnfurler {
+  /**
+   * Fetch the preview of a page, or null if it has no usable metadata
+   */
+  unfurl(url: string): Promise<LinkPreview | null>;
+}
+
 /**
  * Chat options interface
  */
@@ -129,33 +349,50 @@ export interface ChatOptions {
   enableReplies?: boolean;
   enableMultiModal?: boolean;
   enableForms?: boolean;
+  enableVideoEmbeds?: boolean;
   agentIds?: string[];
+  purgeDeletedAfterMs?: number;
+  virtualizeAfter?: number;
+  enablePresence?: boolean;
+  enableReadReceipts?: boolean;
+  userDirectory?: UserDirectory;
+  linkUnfurler?: LinkUnfurler;
   onNewMessage?: (message: Message) => void;
   onError?: (error: Error) => void;
 }
 
+/**
+ * A response to a form request
+ */
+export const formResponseSchema = z.object({
+  userId: z.string(),
+  userName: z.string().optional(),
+  data: z.any(),
+  submittedAt: z.string(),
+});
+
+export type FormResponse = z.infer<typeof formResponseSchema>;
+
 /**
  * Form request schema for data collection
+ * Stored at `${path}/formRequests/{messageId}`, next to the message asking
+ * for the data
  */
 export const formRequestSchema = z.object({
   id: z.string().optional(),
+  messageId: z.string(),
   title: z.string(),
   description: z.string().optional(),
-  schema: z.any(), // Zod schema object
+  schema: z.any(), // Zod code or JSON Schema, as in the message's dataRequest
   required: z.boolean().optional(),
   requesterId: z.string(),
+  // Users asked to respond; empty when anyone in the chat may respond
   recipientIds: z.array(z.string()),
   expiresAt: z.string().optional(),
+  // Responses are shown only to the requester and admins
+  private: z.boolean().optional(),
   createdAt: z.string(),
-  responses: z
-    .array(
-      z.object({
-        userId: z.string(),
-        data: z.any(),
-        submittedAt: z.string(),
-      })
-    )
-    .optional(),
+  responses: z.array(formResponseSchema).optional(),
 });
 
 export type FormRequest = z.infer<typeof formRequestSchema>;
@@ -174,6 +411,7 @@ export function createMessage(params: {
   attachments?: MessageAttachment[];
   dataRequest?: string | object;
   metadata?: MessageMetadata;
+  threadId?: string;
   createdAt?: string;
   updatedAt?: string;
 }): Message {
@@ -203,6 +441,9 @@ export function createMessage(params: {
   if (params.metadata) {
     message.metadata = params.metadata;
   }
+  if (params.threadId) {
+    message.threadId = params.threadId;
+  }
 
   // Validate with Zod schema
   const validationResult = messageSchema.safeParse(message);
@@ -243,6 +484,9 @@ export function createUser(params: {
 
 /**
  * Helper function to extract mentions from message content
+ *
+ * @deprecated Only sees plain `@word` mentions; use `extractMentions` from
+ * `utils/message-helpers`, which resolves mention tokens to user IDs
  */
 export function extractMentions(content: string): string[] {
   const mentionRegex = /@(\w+)/g;
@@ -258,6 +502,9 @@ export function extractMentions(content: string): string[] {
 
 /**
  * Helper function to format mentions in message content
+ *
+ * @deprecated Use `formatMentions` from `utils/message-helpers`, which
+ * renders mention tokens by their label
  */
 export function formatMentions(content: string): string {
   return content.replace(/@(\w+)/g, '<span class="mention">@$1</span>');
@@ -293,6 +540,19 @@ export interface DataRequestButton {
   icon?: React.ReactNode;
 }
 
+/**
+ * An image attachment shown in the lightbox gallery
+ */
+export interface GalleryImage {
+  /** `${messageId}-${attachmentIndex}`, unique within a chat */
+  key: string;
+  messageId: string;
+  url: string;
+  title?: string;
+  description?: string;
+  senderName?: string;
+}
+
 /**
  * Modal configuration for forms and media
  */
@@ -0,0 +1,87 @@
+import {
+  CLOCK_TICK_MS,
+  Clock,
+  formatAbsoluteTime,
+  formatClockTime,
+  formatDateSeparator
+} from '../clock';
+
+describe('Clock', () => {
+  beforeEach(() => {
+    jest.useFakeTimers();
+    jest.setSystemTime(new Date('2024-01-01T00:00:00.000Z'));
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('should notify subscribers on every tick', () => {
+    const listener = jest.fn();
+    const unsubscribe = Clock.subscribe(listener);
+    const start = Clock.getTime();
+
+    jest.advanceTimersByTime(CLOCK_TICK_MS);
+    expect(listener).toHaveBeenCalledTimes(1);
+    expect(Clock.getTime()).toBe(start + CLOCK_TICK_MS);
+
+    unsubscribe();
+  });
+
+  it('should keep the time stable between ticks', () => {
+    const unsubscribe = Clock.subscribe(jest.fn());
+    const time = Clock.getTime();
+
+    jest.advanceTimersByTime(CLOCK_TICK_MS - 1);
+    expect(Clock.getTime()).toBe(time);
+
+    unsubscribe();
+  });
+
+  it('should share one timer and stop it without subscribers', () => {
+    const first = Clock.subscribe(jest.fn());
+    const second = Clock.subscribe(jest.fn());
+    expect(jest.getTimerCount()).toBe(1);
+
+    first();
+    expect(jest.getTimerCount()).toBe(1);
+    second();
+    expect(jest.getTimerCount()).toBe(0);
+  });
+
+  it('should catch up when subscribing after being idle', () => {
+    Clock.subscribe(jest.fn())();
+    jest.setSystemTime(new Date('2024-01-02T00:00:00.000Z'));
+
+    const unsubscribe = Clock.subscribe(jest.fn());
+    expect(Clock.getTime()).toBe(new Date('2024-01-02T00:00:00.000Z').getTime());
+
+    unsubscribe();
+  });
+});
+
+describe('date formatting', () => {
+  it('should label date separators relative to now', () => {
+    const now = new Date('2024-03-06T09:00:00');
+
+    expect(formatDateSeparator('2024-03-06T01:00:00', now)).toBe('Today');
+    expect(formatDateSeparator('2024-03-05T23:00:00', now)).toBe('Yesterday');
+    expect(formatDateSeparator('2024-03-04T10:00:00', now)).toBe('Monday, March 4');
+    expect(formatDateSeparator('2023-12-25T10:00:00', now)).toBe('December 25, 2023');
+    expect(formatDateSeparator('not a date', now)).toBe('Unknown date');
+  });
+
+  it('should format absolute and clock times in the viewer timezone', () => {
+    const timestamp = '2024-03-04T15:04:00';
+    const date = new Date(timestamp);
+
+    expect(formatAbsoluteTime(timestamp)).toBe(
+      new Intl.DateTimeFormat(undefined, { dateStyle: 'full', timeStyle: 'long' }).format(date)
+    );
+    expect(formatClockTime(timestamp)).toBe(
+      new Intl.DateTimeFormat(undefined, { timeStyle: 'short' }).format(date)
+    );
+    expect(formatAbsoluteTime('not a date')).toBe('Unknown time');
+    expect(formatClockTime('not a date')).toBe('');
+  });
+});
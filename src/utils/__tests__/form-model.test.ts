@@ -0,0 +1,179 @@
+import { z } from 'zod';
+import {
+  FormSchemaError,
+  buildFormModel,
+  describeFormData,
+  formatFormErrors,
+  getInitialFormValue,
+  humanizeFieldName,
+  setFormValue,
+  toFormData
+} from '../form-model';
+
+describe('form-model', () => {
+  describe('buildFormModel', () => {
+    it('should describe each field of an object schema', () => {
+      const model = buildFormModel(
+        z.object({
+          fullName: z.string().min(2).max(50).describe('As on your ID'),
+          email: z.string().email().optional(),
+          bio: z.string().max(1000),
+          age: z.number().int().min(18).nullable(),
+          role: z.enum(['admin', 'member']).default('member'),
+          status: z.union([z.literal('open'), z.literal('closed')]),
+          birthday: z.date(),
+          agree: z.boolean().refine(value => value, 'Please agree'),
+          tags: z.array(z.string()).min(1).max(3),
+          address: z.object({ city: z.string() })
+        })
+      );
+
+      expect(model.fields).toEqual([
+        { name: 'fullName', label: 'Full name', description: 'As on your ID', required: true, kind: 'string', minLength: 2, maxLength: 50, multiline: false },
+        { name: 'email', label: 'Email', required: false, kind: 'string', format: 'email', multiline: false },
+        { name: 'bio', label: 'Bio', required: true, kind: 'string', maxLength: 1000, multiline: true },
+        { name: 'age', label: 'Age', required: false, nullable: true, kind: 'number', integer: true, min: 18 },
+        { name: 'role', label: 'Role', required: false, defaultValue: 'member', kind: 'enum', options: ['admin', 'member'] },
+        { name: 'status', label: 'Status', required: true, kind: 'enum', options: ['open', 'closed'] },
+        { name: 'birthday', label: 'Birthday', required: true, kind: 'date' },
+        { name: 'agree', label: 'Agree', required: true, kind: 'boolean' },
+        {
+          name: 'tags',
+          label: 'Tags',
+          required: true,
+          kind: 'array',
+          item: { name: '', label: '', required: true, kind: 'string', multiline: false },
+          minItems: 1,
+          maxItems: 3
+        },
+        {
+          name: 'address',
+          label: 'Address',
+          required: true,
+          kind: 'object',
+          fields: [{ name: 'city', label: 'City', required: true, kind: 'string', multiline: false }]
+        }
+      ]);
+    });
+
+    it('should reject unsupported types with their path', () => {
+      expect(() => buildFormModel(z.object({ meta: z.object({ raw: z.any() }) }))).toThrow(
+        new FormSchemaError('Unsupported field type ZodAny', ['meta', 'raw'])
+      );
+      expect(() => buildFormModel(z.string())).toThrow('Form schemas must be objects');
+    });
+  });
+
+  describe('form values', () => {
+    const schema = z.object({
+      name: z.string(),
+      nickname: z.string().optional(),
+      age: z.number().nullable(),
+      plan: z.enum(['free', 'pro']).default('free'),
+      agree: z.boolean(),
+      tags: z.array(z.string()).min(2),
+      address: z.object({ city: z.string() }).default({ city: 'Paris' })
+    });
+    const model = buildFormModel(schema);
+
+    it('should start from defaults and empty values', () => {
+      expect(getInitialFormValue(model)).toEqual({
+        name: '',
+        nickname: '',
+        age: '',
+        plan: 'free',
+        agree: false,
+        tags: ['', ''],
+        address: { city: 'Paris' }
+      });
+    });
+
+    it('should convert input state into data', () => {
+      const values = { name: 'Ada', nickname: '', age: '', plan: '', agree: true, tags: ['a', ''], address: { city: '' } };
+
+      expect(toFormData(model, values)).toEqual({
+        name: 'Ada',
+        age: null,
+        agree: true,
+        tags: ['a', undefined],
+        address: {}
+      });
+      expect(toFormData(model, { ...values, age: '42' })).toMatchObject({ age: 42 });
+    });
+
+    it('should key validation errors by field path', () => {
+      const result = schema.safeParse(
+        toFormData(model, { name: '', age: 'x', agree: false, tags: ['a'], address: { city: '' } })
+      );
+
+      expect(result.success).toBe(false);
+      expect(formatFormErrors((result as z.SafeParseError<unknown>).error)).toEqual({
+        name: 'Required',
+        age: 'Expected number, received nan',
+        tags: 'Array must contain at least 2 element(s)',
+        'address.city': 'Required'
+      });
+    });
+
+    it('should update nested values without mutating', () => {
+      const values = { tags: ['a', 'b'], address: { city: 'Paris' } };
+      const updated = setFormValue(values, ['tags', 1], 'c');
+
+      expect(updated).toEqual({ tags: ['a', 'c'], address: { city: 'Paris' } });
+      expect(updated.address).toBe(values.address);
+      expect(values.tags).toEqual(['a', 'b']);
+      expect(setFormValue(values, ['address', 'city'], 'Rome').address).toEqual({ city: 'Rome' });
+    });
+  });
+
+  describe('describeFormData', () => {
+    it('should label submitted data with the form fields', () => {
+      const model = buildFormModel(
+        z.object({
+          fullName: z.string(),
+          subscribed: z.boolean(),
+          birthday: z.date(),
+          nickname: z.string().nullable(),
+          address: z.object({ postalCode: z.string() }),
+          tags: z.array(z.string())
+        })
+      );
+
+      expect(
+        describeFormData(model, {
+          tags: ['a'],
+          fullName: 'Ada Lovelace',
+          subscribed: true,
+          birthday: { toDate: () => new Date('1815-12-10T00:00:00.000Z') },
+          nickname: null,
+          address: { postalCode: 'W1' },
+          extra_note: 42
+        })
+      ).toEqual([
+        { key: 'fullName', label: 'Full name', value: 'Ada Lovelace' },
+        { key: 'subscribed', label: 'Subscribed', value: 'Yes' },
+        { key: 'birthday', label: 'Birthday', value: '1815-12-10' },
+        { key: 'nickname', label: 'Nickname', value: '—' },
+        {
+          key: 'address',
+          label: 'Address',
+          entries: [{ key: 'postalCode', label: 'Postal code', value: 'W1' }]
+        },
+        { key: 'tags', label: 'Tags', entries: [{ key: '0', label: 'Tags 1', value: 'a' }] },
+        { key: 'extra_note', label: 'Extra note', value: '42' }
+      ]);
+    });
+
+    it('should humanize keys without a form', () => {
+      expect(describeFormData(null, { city: 'Paris', skipped: undefined })).toEqual([
+        { key: 'city', label: 'City', value: 'Paris' }
+      ]);
+    });
+  });
+
+  it('should humanize field names', () => {
+    expect(humanizeFieldName('firstName')).toBe('First name');
+    expect(humanizeFieldName('postal_code')).toBe('Postal code');
+    expect(humanizeFieldName('ID')).toBe('Id');
+  });
+});
@@ -0,0 +1,271 @@
+import {
+  FormRequests,
+  canViewFormResponse,
+  formatFormRequestProgress,
+  getFormRequestTitle,
+  getFormResponse,
+  isFormRequestExpired
+} from '../form-requests';
+import { createMessageWithProcessing } from '../message-helpers';
+import { FormResponse } from '../../types';
+import {
+  createMockTransaction,
+  fakeSnapshot,
+  mockFirestore
+} from '../../test-utils/firestore';
+
+jest.mock('firebase/firestore', () => ({
+  doc: jest.fn(),
+  collection: jest.fn(),
+  getDoc: jest.fn(),
+  runTransaction: jest.fn(),
+  serverTimestamp: jest.fn()
+}));
+
+jest.mock('../../lib/firebase', () => ({
+  getDb: jest.fn(() => ({}))
+}));
+
+describe('FormRequests', () => {
+  const user = { id: 'user1', displayName: 'Alice', role: 'user' as const };
+  const transaction = createMockTransaction();
+
+  const requestMessage = {
+    content: 'Where should we ship it?',
+    senderId: 'agent_assistant',
+    fromAiAgent: true,
+    recipientIds: ['user1', 'user2'],
+    dataRequest: 'z.object({ city: z.string() })',
+    formRequest: { recipientCount: 2, responderIds: [] },
+    createdAt: '2024-01-01T00:00:00.000Z',
+    updatedAt: '2024-01-01T00:00:00.000Z'
+  };
+
+  const storedRequest = {
+    messageId: 'msg-1',
+    title: 'Where should we ship it?',
+    schema: 'z.object({ city: z.string() })',
+    requesterId: 'agent_assistant',
+    recipientIds: ['user1', 'user2'],
+    createdAt: '2024-01-01T00:00:00.000Z',
+    responses: [] as FormResponse[]
+  };
+
+  const mockDocuments = (
+    message: Record<string, unknown> | null,
+    request: Record<string, unknown> | null
+  ) => {
+    transaction.get.mockImplementation(async (ref) =>
+      fakeSnapshot(ref.path.includes('formRequests') ? request : message, ref.id)
+    );
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+
+    const firestore = require('firebase/firestore');
+    const { serverTimestamp } = firestore;
+    mockFirestore(firestore, transaction, 'response-1');
+    serverTimestamp.mockReturnValue('SERVER_TIMESTAMP');
+  });
+
+  describe('submitResponse', () => {
+    it('should record the response, update the message and notify the requester', async () => {
+      mockDocuments(requestMessage, storedRequest);
+
+      const responseId = await FormRequests.submitResponse(
+        'chats/test',
+        'msg-1',
+        user,
+        { city: 'Paris' }
+      );
+
+      expect(responseId).toBe('response-1');
+      expect(transaction.set).toHaveBeenCalledWith(
+        { path: 'chats/test/formRequests/msg-1', id: 'msg-1' },
+        {
+          ...storedRequest,
+          responses: [
+            {
+              userId: 'user1',
+              userName: 'Alice',
+              data: { city: 'Paris' },
+              submittedAt: expect.any(String)
+            }
+          ]
+        }
+      );
+      expect(transaction.update).toHaveBeenCalledWith(
+        { path: 'chats/test/messages/msg-1', id: 'msg-1' },
+        { formRequest: { recipientCount: 2, responderIds: ['user1'] } }
+      );
+      expect(transaction.set).toHaveBeenCalledWith(
+        { path: 'chats/test/messages/response-1', id: 'response-1' },
+        {
+          content: 'Responded to "Where should we ship it?"',
+          senderId: 'user1',
+          senderName: 'Alice',
+          senderRole: 'user',
+          recipientIds: ['agent_assistant'],
+          fromAiAgent: false,
+          toAiAgent: true,
+          formResponse: { requestId: 'msg-1', data: { city: 'Paris' } },
+          metadata: { event: 'form_response', formRequestId: 'msg-1' },
+          deleted: false,
+          createdAt: 'SERVER_TIMESTAMP',
+          updatedAt: 'SERVER_TIMESTAMP'
+        }
+      );
+    });
+
+    it('should keep responses to private requests private', async () => {
+      mockDocuments(
+        { ...requestMessage, formRequest: { recipientCount: 2, responderIds: [], private: true } },
+        { ...storedRequest, private: true }
+      );
+
+      await FormRequests.submitResponse('chats/test', 'msg-1', user, {
+        city: 'Paris'
+      });
+
+      expect(transaction.update).toHaveBeenCalledWith(expect.anything(), {
+        formRequest: { recipientCount: 2, responderIds: ['user1'], private: true }
+      });
+      expect(transaction.set).toHaveBeenCalledWith(
+        { path: 'chats/test/messages/response-1', id: 'response-1' },
+        expect.objectContaining({
+          formResponse: { requestId: 'msg-1', data: { city: 'Paris' }, private: true }
+        })
+      );
+    });
+
+    it('should create the request for messages written without one', async () => {
+      mockDocuments({ ...requestMessage, formRequest: undefined }, null);
+
+      await FormRequests.submitResponse('chats/test', 'msg-1', user, {
+        city: 'Paris'
+      });
+
+      expect(transaction.set).toHaveBeenCalledWith(
+        { path: 'chats/test/formRequests/msg-1', id: 'msg-1' },
+        expect.objectContaining({
+          messageId: 'msg-1',
+          requesterId: 'agent_assistant',
+          responses: [expect.objectContaining({ userId: 'user1' })]
+        })
+      );
+    });
+
+    it('should reject expired requests', async () => {
+      mockDocuments(requestMessage, {
+        ...storedRequest,
+        expiresAt: '2020-01-01T00:00:00.000Z'
+      });
+
+      await expect(
+        FormRequests.submitResponse('chats/test', 'msg-1', user, {})
+      ).rejects.toThrow('This form request has expired');
+      expect(transaction.set).not.toHaveBeenCalled();
+    });
+
+    it('should accept one response per recipient', async () => {
+      mockDocuments(requestMessage, {
+        ...storedRequest,
+        responses: [
+          { userId: 'user1', data: {}, submittedAt: '2024-01-02T00:00:00.000Z' }
+        ]
+      });
+
+      await expect(
+        FormRequests.submitResponse('chats/test', 'msg-1', user, {})
+      ).rejects.toThrow('You have already responded to this form request');
+
+      await expect(
+        FormRequests.submitResponse(
+          'chats/test',
+          'msg-1',
+          { id: 'user3', role: 'user' },
+          {}
+        )
+      ).rejects.toThrow('This form request was sent to other users');
+      expect(transaction.set).not.toHaveBeenCalled();
+    });
+
+    it('should reject messages without a data request', async () => {
+      mockDocuments({ ...requestMessage, dataRequest: undefined }, null);
+
+      await expect(
+        FormRequests.submitResponse('chats/test', 'msg-1', user, {})
+      ).rejects.toThrow('Message msg-1 does not request any data');
+    });
+  });
+});
+
+describe('form request helpers', () => {
+  it('should track responses on messages with a data request', () => {
+    const message = createMessageWithProcessing({
+      content: 'Please fill in z.object({ name: z.string() })',
+      senderId: 'agent_assistant',
+      recipientIds: ['user1', 'user2'],
+      formExpiresAt: '2030-01-01T00:00:00.000Z',
+      formPrivate: true
+    });
+
+    expect(message.formRequest).toEqual({
+      recipientCount: 2,
+      responderIds: [],
+      expiresAt: '2030-01-01T00:00:00.000Z',
+      private: true
+    });
+    expect(getFormRequestTitle(message.content)).toBe('Please fill in');
+
+    const schemaOnly = createMessageWithProcessing({
+      content: 'z.object({ name: z.string() })',
+      senderId: 'agent_assistant'
+    });
+    expect(getFormRequestTitle(schemaOnly.content)).toBe('Form request');
+  });
+
+  it('should describe progress and expiry', () => {
+    expect(
+      formatFormRequestProgress({ recipientCount: 3, responderIds: ['a', 'b'] })
+    ).toBe('2 of 3 responded');
+    expect(formatFormRequestProgress({ recipientCount: 0, responderIds: ['a'] })).toBe(
+      '1 responded'
+    );
+    expect(formatFormRequestProgress({ recipientCount: 0, responderIds: [] })).toBeNull();
+
+    const now = new Date('2024-06-01T00:00:00.000Z').getTime();
+    expect(isFormRequestExpired({ expiresAt: '2024-05-31T23:59:59.000Z' }, now)).toBe(true);
+    expect(isFormRequestExpired({ expiresAt: '2024-06-01T00:00:01.000Z' }, now)).toBe(false);
+    expect(isFormRequestExpired({}, now)).toBe(false);
+  });
+
+  it('should read form responses, including ones sent as data requests', () => {
+    const response = {
+      content: 'Responded to "Shipping"',
+      senderId: 'user1',
+      recipientIds: ['agent_assistant'],
+      formResponse: { requestId: 'msg-1', data: { city: 'Paris' }, private: true },
+      createdAt: '2024-01-01T00:00:00.000Z',
+      updatedAt: '2024-01-01T00:00:00.000Z'
+    };
+    expect(getFormResponse(response)).toBe(response.formResponse);
+    expect(
+      getFormResponse({ ...response, formResponse: undefined, content: 'Form response submitted', dataRequest: { city: 'Paris' } })
+    ).toEqual({ data: { city: 'Paris' } });
+    expect(
+      getFormResponse({ ...response, formResponse: undefined, dataRequest: 'z.object({})' })
+    ).toBeNull();
+
+    expect(canViewFormResponse(response, 'agent_assistant')).toBe(true);
+    expect(canViewFormResponse(response, 'user1')).toBe(true);
+    expect(canViewFormResponse(response, 'user2')).toBe(false);
+    expect(canViewFormResponse(response, 'user2', true)).toBe(true);
+    expect(
+      canViewFormResponse({ ...response, formResponse: { requestId: 'msg-1', data: {} } }, 'user2')
+    ).toBe(true);
+  });
+});
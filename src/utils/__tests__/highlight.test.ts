@@ -0,0 +1,111 @@
+import {
+  getCodeFileExtension,
+  highlightLines,
+  resolveLanguage,
+  tokenizeCode
+} from '../highlight';
+
+describe('highlight', () => {
+  describe('resolveLanguage', () => {
+    it('should resolve aliases case-insensitively', () => {
+      expect(resolveLanguage('TS')).toBe('typescript');
+      expect(resolveLanguage('shell')).toBe('bash');
+      expect(resolveLanguage('python')).toBe('python');
+    });
+
+    it('should return null for unknown or missing languages', () => {
+      expect(resolveLanguage('brainfuck')).toBeNull();
+      expect(resolveLanguage(undefined)).toBeNull();
+    });
+  });
+
+  describe('getCodeFileExtension', () => {
+    it('should map languages to file extensions', () => {
+      expect(getCodeFileExtension('typescript')).toBe('ts');
+      expect(getCodeFileExtension('py')).toBe('py');
+      expect(getCodeFileExtension('yml')).toBe('yaml');
+      expect(getCodeFileExtension('ruby')).toBe('rb');
+    });
+
+    it('should fall back to txt', () => {
+      expect(getCodeFileExtension(undefined)).toBe('txt');
+      expect(getCodeFileExtension('unknown')).toBe('txt');
+    });
+  });
+
+  describe('tokenizeCode', () => {
+    it('should classify keywords, strings, numbers, literals and comments', () => {
+      expect(tokenizeCode("const a = 'x' + 42; // done\nreturn null", 'js')).toEqual([
+        { type: 'keyword', text: 'const' },
+        { type: 'plain', text: ' a = ' },
+        { type: 'string', text: "'x'" },
+        { type: 'plain', text: ' + ' },
+        { type: 'number', text: '42' },
+        { type: 'plain', text: '; ' },
+        { type: 'comment', text: '// done' },
+        { type: 'plain', text: '\n' },
+        { type: 'keyword', text: 'return' },
+        { type: 'plain', text: ' ' },
+        { type: 'literal', text: 'null' }
+      ]);
+    });
+
+    it('should honour escapes and stop plain strings at line ends', () => {
+      expect(tokenizeCode('"a\\"b" "open\nx', 'js')).toEqual([
+        { type: 'string', text: '"a\\"b"' },
+        { type: 'plain', text: ' ' },
+        { type: 'string', text: '"open' },
+        { type: 'plain', text: '\nx' }
+      ]);
+    });
+
+    it('should not treat digits inside identifiers as numbers', () => {
+      expect(tokenizeCode('x1 = 2', 'py')).toEqual([
+        { type: 'plain', text: 'x1 = ' },
+        { type: 'number', text: '2' }
+      ]);
+    });
+
+    it('should match SQL keywords case-insensitively', () => {
+      expect(tokenizeCode('SELECT id', 'sql')[0]).toEqual({
+        type: 'keyword',
+        text: 'SELECT'
+      });
+    });
+
+    it('should only treat # as a comment at the start of a word', () => {
+      expect(tokenizeCode('echo $#  # count', 'bash')).toEqual([
+        { type: 'plain', text: 'echo $#  ' },
+        { type: 'comment', text: '# count' }
+      ]);
+    });
+
+    it('should highlight markup tags', () => {
+      expect(tokenizeCode('<b class="x">hi</b>', 'html')).toEqual([
+        { type: 'tag', text: '<b' },
+        { type: 'plain', text: ' class=' },
+        { type: 'string', text: '"x"' },
+        { type: 'plain', text: '>hi' },
+        { type: 'tag', text: '</b' },
+        { type: 'plain', text: '>' }
+      ]);
+    });
+
+    it('should return unknown languages as plain text', () => {
+      expect(tokenizeCode('const x', 'unknown')).toEqual([
+        { type: 'plain', text: 'const x' }
+      ]);
+    });
+  });
+
+  describe('highlightLines', () => {
+    it('should split multi-line tokens across lines', () => {
+      expect(highlightLines('/* a\nb */\n\nx', 'ts')).toEqual([
+        [{ type: 'comment', text: '/* a' }],
+        [{ type: 'comment', text: 'b */' }],
+        [],
+        [{ type: 'plain', text: 'x' }]
+      ]);
+    });
+  });
+});
@@ -0,0 +1,229 @@
+import { z } from 'zod';
+import { parseDataRequest } from '../data-request';
+import { buildFormModel, toFormData } from '../form-model';
+import {
+  JSON_SCHEMA_DIALECT,
+  JsonSchema,
+  isJsonSchema,
+  jsonSchemaToZod,
+  zodToJsonSchema
+} from '../json-schema';
+import { parseZodDsl } from '../zod-dsl';
+
+const profileSchema: JsonSchema = {
+  $schema: JSON_SCHEMA_DIALECT,
+  title: 'Profile',
+  type: 'object',
+  properties: {
+    name: { type: 'string', minLength: 1, maxLength: 50, description: 'Full name' },
+    email: { type: 'string', format: 'email' },
+    age: { type: ['integer', 'null'], minimum: 0, exclusiveMaximum: 150 },
+    plan: { type: 'string', enum: ['free', 'pro'], default: 'free' },
+    birthday: { type: 'string', format: 'date' },
+    tags: { type: 'array', items: { type: 'string' }, maxItems: 3 },
+    address: {
+      type: 'object',
+      properties: { city: { type: 'string' } },
+      required: ['city'],
+      additionalProperties: false
+    },
+    bio: { anyOf: [{ type: 'string', maxLength: 1000 }, { type: 'null' }] }
+  },
+  required: ['name', 'email', 'birthday']
+};
+
+describe('json-schema', () => {
+  describe('jsonSchemaToZod', () => {
+    it('should build the same form model as the equivalent Zod schema', () => {
+      const model = buildFormModel(jsonSchemaToZod(profileSchema));
+
+      expect(model.fields).toEqual([
+        expect.objectContaining({
+          name: 'name',
+          kind: 'string',
+          required: true,
+          minLength: 1,
+          maxLength: 50,
+          description: 'Full name'
+        }),
+        expect.objectContaining({ name: 'email', kind: 'string', format: 'email' }),
+        expect.objectContaining({
+          name: 'age',
+          kind: 'number',
+          integer: true,
+          min: 0,
+          max: 150,
+          required: false,
+          nullable: true
+        }),
+        expect.objectContaining({
+          name: 'plan',
+          kind: 'enum',
+          options: ['free', 'pro'],
+          defaultValue: 'free'
+        }),
+        expect.objectContaining({ name: 'birthday', kind: 'date', required: true }),
+        expect.objectContaining({ name: 'tags', kind: 'array', maxItems: 3 }),
+        expect.objectContaining({ name: 'address', kind: 'object', required: false }),
+        expect.objectContaining({
+          name: 'bio',
+          kind: 'string',
+          multiline: true,
+          nullable: true
+        })
+      ]);
+    });
+
+    it('should validate submissions against the schema', () => {
+      const schema = jsonSchemaToZod(profileSchema);
+      const model = buildFormModel(schema);
+
+      const valid = schema.safeParse(
+        toFormData(model, {
+          name: 'Ada',
+          email: 'ada@example.com',
+          age: '36',
+          plan: '',
+          birthday: '1815-12-10',
+          tags: [],
+          address: { city: 'London' },
+          bio: ''
+        })
+      );
+      expect(valid).toEqual({
+        success: true,
+        data: {
+          name: 'Ada',
+          email: 'ada@example.com',
+          age: 36,
+          plan: 'free',
+          birthday: '1815-12-10',
+          tags: [],
+          address: { city: 'London' },
+          bio: null
+        }
+      });
+
+      expect(schema.safeParse({ name: '', email: 'nope', birthday: new Date(), age: 150 }).success).toBe(false);
+      expect(
+        schema.safeParse({
+          name: 'Ada',
+          email: 'ada@example.com',
+          birthday: new Date(),
+          address: { city: 'London', country: 'UK' }
+        }).success
+      ).toBe(false);
+    });
+
+    it('should reject keywords outside the supported subset', () => {
+      expect(() =>
+        jsonSchemaToZod({
+          type: 'object',
+          properties: { code: { type: 'string', pattern: '^[A-Z]+$' } as JsonSchema }
+        })
+      ).toThrow('Unsupported keyword "pattern" at "code"');
+      expect(() =>
+        jsonSchemaToZod({ anyOf: [{ type: 'string' }, { type: 'number' }] })
+      ).toThrow('anyOf is only supported to make a type nullable');
+      expect(() => jsonSchemaToZod({ type: 'array' })).toThrow(
+        'Arrays need an items schema'
+      );
+      expect(() => jsonSchemaToZod({ type: 'string', default: 3 })).toThrow(
+        'Default value does not match the type'
+      );
+      expect(() => jsonSchemaToZod({ description: 'No type' })).toThrow(
+        'Missing type'
+      );
+    });
+  });
+
+  describe('zodToJsonSchema', () => {
+    it('should export supported Zod schemas', () => {
+      const schema = z.object({
+        name: z.string().min(1).describe('Full name'),
+        website: z.string().url().optional(),
+        rating: z.number().int().gt(0).max(5),
+        plan: z.enum(['free', 'pro']).nullable(),
+        status: z.union([z.literal('open'), z.literal('closed')]).default('open'),
+        birthday: z.date(),
+        tags: z.array(z.string()).min(1),
+        agree: z.boolean().refine(value => value)
+      });
+
+      expect(zodToJsonSchema(schema)).toEqual({
+        $schema: JSON_SCHEMA_DIALECT,
+        type: 'object',
+        properties: {
+          name: { type: 'string', minLength: 1, description: 'Full name' },
+          website: { type: 'string', format: 'uri' },
+          rating: { type: 'integer', exclusiveMinimum: 0, maximum: 5 },
+          plan: { type: ['string', 'null'], enum: ['free', 'pro', null] },
+          status: { type: 'string', enum: ['open', 'closed'], default: 'open' },
+          birthday: { type: 'string', format: 'date' },
+          tags: { type: 'array', items: { type: 'string' }, minItems: 1 },
+          agree: { type: 'boolean' }
+        },
+        required: ['name', 'rating', 'plan', 'birthday', 'tags', 'agree']
+      });
+    });
+
+    it('should round-trip through jsonSchemaToZod', () => {
+      const exported = zodToJsonSchema(jsonSchemaToZod(profileSchema));
+      const { title, ...withoutTitle } = profileSchema;
+
+      expect(title).toBe('Profile');
+      expect(exported).toEqual({
+        ...withoutTitle,
+        properties: {
+          ...withoutTitle.properties,
+          // anyOf with null is exported as a list of types
+          bio: { type: ['string', 'null'], maxLength: 1000 }
+        }
+      });
+    });
+
+    it('should export schemas parsed from Zod code', () => {
+      const result = parseZodDsl('z.object({ email: z.string().email().optional() })');
+
+      expect(result.success && zodToJsonSchema(result.schema)).toEqual({
+        $schema: JSON_SCHEMA_DIALECT,
+        type: 'object',
+        properties: { email: { type: 'string', format: 'email' } }
+      });
+    });
+
+    it('should reject types that cannot be exported', () => {
+      expect(() => zodToJsonSchema(z.object({ id: z.string().uuid() }))).toThrow(
+        'Cannot export the uuid check at "id"'
+      );
+      expect(() => zodToJsonSchema(z.object({ any: z.any() }))).toThrow(
+        'Unsupported field type ZodAny at "any"'
+      );
+    });
+  });
+
+  describe('parseDataRequest', () => {
+    it('should accept Zod code and JSON Schema objects', () => {
+      expect(isJsonSchema(profileSchema)).toBe(true);
+      expect(isJsonSchema({ rating: 5 })).toBe(false);
+
+      expect(parseDataRequest(profileSchema).success).toBe(true);
+      expect(parseDataRequest('z.object({ name: z.string() })').success).toBe(true);
+    });
+
+    it('should explain why a request cannot be read', () => {
+      expect(parseDataRequest('z.object({ name: z.strng() })')).toEqual({
+        success: false,
+        error: 'Line 1, column 20: Unsupported type z.strng()'
+      });
+      expect(parseDataRequest({ type: 'object', properties: { n: { type: 'tuple' } } })).toEqual({
+        success: false,
+        error: 'Unsupported type "tuple" at "n"'
+      });
+      expect(parseDataRequest({ rating: 5 })).toEqual({
+        success: false,
+        error: 'Expected Zod schema code or a JSON Schema object'
+      });
+    });
+  });
+});
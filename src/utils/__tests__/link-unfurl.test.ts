@@ -0,0 +1,129 @@
+import {
+  HttpLinkUnfurler,
+  StubLinkUnfurler,
+  applyLinkPreview,
+  needsUnfurl,
+  normalizeLinkPreview
+} from '../link-unfurl';
+
+describe('link-unfurl', () => {
+  const pageUrl = 'https://example.com/blog/post';
+
+  describe('normalizeLinkPreview', () => {
+    it('should keep cleaned text and resolve relative images', () => {
+      expect(
+        normalizeLinkPreview(
+          { title: '  A   post ', description: 'About things', image: '/cover.png' },
+          pageUrl
+        )
+      ).toEqual({
+        title: 'A post',
+        description: 'About things',
+        imageUrl: 'https://example.com/cover.png'
+      });
+    });
+
+    it('should drop non-http images and shorten long text', () => {
+      const preview = normalizeLinkPreview(
+        { title: 'x'.repeat(300), imageUrl: 'ftp://example.com/cover.png' },
+        pageUrl
+      );
+
+      expect(preview?.title).toHaveLength(200);
+      expect(preview?.title?.endsWith('…')).toBe(true);
+      expect(preview?.imageUrl).toBeUndefined();
+    });
+
+    it('should return null without usable metadata', () => {
+      expect(normalizeLinkPreview({ title: ' ', image: 42 }, pageUrl)).toBeNull();
+      expect(normalizeLinkPreview('nope', pageUrl)).toBeNull();
+      expect(normalizeLinkPreview(null, pageUrl)).toBeNull();
+    });
+  });
+
+  describe('applyLinkPreview', () => {
+    const link = { type: 'link', url: pageUrl, title: 'Link 1' };
+
+    it('should copy the preview onto the attachment', () => {
+      expect(
+        applyLinkPreview(link, { title: 'A post', description: 'About', imageUrl: 'https://example.com/c.png' }, 1000)
+      ).toEqual({
+        ...link,
+        title: 'A post',
+        description: 'About',
+        thumbnailUrl: 'https://example.com/c.png',
+        unfurledAt: 1000
+      });
+    });
+
+    it('should mark links without a preview as unfurled', () => {
+      const unfurled = applyLinkPreview(link, null, 1000);
+
+      expect(unfurled).toEqual({ ...link, unfurledAt: 1000 });
+      expect(needsUnfurl(link)).toBe(true);
+      expect(needsUnfurl(unfurled)).toBe(false);
+      expect(needsUnfurl({ type: 'image', url: pageUrl })).toBe(false);
+    });
+  });
+
+  describe('HttpLinkUnfurler', () => {
+    const mockFetch = jest.fn();
+    const originalFetch = global.fetch;
+
+    beforeEach(() => {
+      global.fetch = mockFetch;
+      jest.spyOn(console, 'warn').mockImplementation(() => {});
+    });
+
+    afterEach(() => {
+      global.fetch = originalFetch;
+    });
+
+    const respond = (status: number, body?: unknown) =>
+      mockFetch.mockResolvedValueOnce({
+        ok: status >= 200 && status < 300,
+        status,
+        json: async () => body
+      });
+
+    it('should request the endpoint with the page URL and cache the result', async () => {
+      respond(200, { title: 'A post', image: 'https://example.com/c.png' });
+      const unfurler = new HttpLinkUnfurler('https://unfurl.example.com/unfurl?key=1');
+
+      const first = await unfurler.unfurl(pageUrl);
+      const second = await unfurler.unfurl(pageUrl);
+
+      expect(first).toEqual({ title: 'A post', imageUrl: 'https://example.com/c.png' });
+      expect(second).toBe(first);
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+      expect(mockFetch.mock.calls[0][0]).toBe(
+        'https://unfurl.example.com/unfurl?key=1&url=https%3A%2F%2Fexample.com%2Fblog%2Fpost'
+      );
+    });
+
+    it('should treat 404 as no preview', async () => {
+      respond(404);
+
+      expect(await new HttpLinkUnfurler('/unfurl').unfurl(pageUrl)).toBeNull();
+    });
+
+    it('should retry after failed requests', async () => {
+      respond(502);
+      respond(200, { title: 'A post' });
+      const unfurler = new HttpLinkUnfurler('/unfurl');
+
+      await expect(unfurler.unfurl(pageUrl)).rejects.toThrow('Unfurl endpoint returned 502');
+      expect(await unfurler.unfurl(pageUrl)).toEqual({ title: 'A post' });
+    });
+  });
+
+  describe('StubLinkUnfurler', () => {
+    it('should return fixed previews and record requests', async () => {
+      const unfurler = new StubLinkUnfurler({ [pageUrl]: { title: 'A post' } });
+
+      expect(await unfurler.unfurl(pageUrl)).toEqual({ title: 'A post' });
+      expect(await unfurler.unfurl('https://example.com/other')).toBeNull();
+      expect(unfurler.requests).toEqual([pageUrl, 'https://example.com/other']);
+    });
+  });
+});
@@ -0,0 +1,173 @@
+import { parseMarkdown, parseInline } from '../markdown';
+
+describe('markdown', () => {
+  describe('parseMarkdown', () => {
+    it('should parse headings and paragraphs', () => {
+      expect(parseMarkdown('# Title\n\nFirst line\nsecond line')).toEqual([
+        { type: 'heading', depth: 1, children: [{ type: 'text', text: 'Title' }] },
+        {
+          type: 'paragraph',
+          children: [
+            { type: 'text', text: 'First line' },
+            { type: 'break' },
+            { type: 'text', text: 'second line' }
+          ]
+        }
+      ]);
+    });
+
+    it('should parse unordered and ordered lists', () => {
+      expect(parseMarkdown('- one\n- two\n\n3. three\n4. four')).toEqual([
+        {
+          type: 'list',
+          ordered: false,
+          items: [
+            [{ type: 'paragraph', children: [{ type: 'text', text: 'one' }] }],
+            [{ type: 'paragraph', children: [{ type: 'text', text: 'two' }] }]
+          ]
+        },
+        {
+          type: 'list',
+          ordered: true,
+          start: 3,
+          items: [
+            [{ type: 'paragraph', children: [{ type: 'text', text: 'three' }] }],
+            [{ type: 'paragraph', children: [{ type: 'text', text: 'four' }] }]
+          ]
+        }
+      ]);
+    });
+
+    it('should nest indented lists inside items', () => {
+      const [list] = parseMarkdown('- parent\n  - child');
+
+      expect(list).toEqual({
+        type: 'list',
+        ordered: false,
+        items: [
+          [
+            { type: 'paragraph', children: [{ type: 'text', text: 'parent' }] },
+            {
+              type: 'list',
+              ordered: false,
+              items: [
+                [{ type: 'paragraph', children: [{ type: 'text', text: 'child' }] }]
+              ]
+            }
+          ]
+        ]
+      });
+    });
+
+    it('should parse tables with alignment', () => {
+      const [table] = parseMarkdown(
+        '| Name | Score |\n| :--- | ---: |\n| Alice | 3 |\n| Bob |'
+      );
+
+      expect(table).toEqual({
+        type: 'table',
+        align: ['left', 'right'],
+        header: [
+          [{ type: 'text', text: 'Name' }],
+          [{ type: 'text', text: 'Score' }]
+        ],
+        rows: [
+          [[{ type: 'text', text: 'Alice' }], [{ type: 'text', text: '3' }]],
+          [[{ type: 'text', text: 'Bob' }], []]
+        ]
+      });
+    });
+
+    it('should keep fenced code verbatim', () => {
+      expect(
+        parseMarkdown('```ts\nconst a = **1**;\n\n<b>x</b>\n```\nafter')
+      ).toEqual([
+        { type: 'code', lang: 'ts', text: 'const a = **1**;\n\n<b>x</b>' },
+        { type: 'paragraph', children: [{ type: 'text', text: 'after' }] }
+      ]);
+    });
+
+    it('should parse block quotes and thematic breaks', () => {
+      expect(parseMarkdown('> quoted\n\n---')).toEqual([
+        {
+          type: 'blockquote',
+          children: [
+            { type: 'paragraph', children: [{ type: 'text', text: 'quoted' }] }
+          ]
+        },
+        { type: 'thematicBreak' }
+      ]);
+    });
+
+    it('should stop nesting deeply quoted content', () => {
+      const blocks = parseMarkdown('>'.repeat(50) + ' deep');
+
+      let depth = 0;
+      let node: any = blocks[0];
+      while (node.type === 'blockquote') {
+        depth++;
+        node = node.children[0];
+      }
+      expect(depth).toBeLessThanOrEqual(8);
+    });
+  });
+
+  describe('parseInline', () => {
+    it('should parse emphasis, strong, strikethrough and code', () => {
+      expect(parseInline('**bold** *em* ~~gone~~ `a*b`')).toEqual([
+        { type: 'strong', children: [{ type: 'text', text: 'bold' }] },
+        { type: 'text', text: ' ' },
+        { type: 'emphasis', children: [{ type: 'text', text: 'em' }] },
+        { type: 'text', text: ' ' },
+        { type: 'strikethrough', children: [{ type: 'text', text: 'gone' }] },
+        { type: 'text', text: ' ' },
+        { type: 'inlineCode', text: 'a*b' }
+      ]);
+    });
+
+    it('should not treat underscores inside words as emphasis', () => {
+      expect(parseInline('call snake_case_name')).toEqual([
+        { type: 'text', text: 'call snake_case_name' }
+      ]);
+    });
+
+    it('should parse links and bare URLs', () => {
+      expect(parseInline('[docs](https://example.com/a) or https://example.com.')).toEqual([
+        {
+          type: 'link',
+          href: 'https://example.com/a',
+          children: [{ type: 'text', text: 'docs' }]
+        },
+        { type: 'text', text: ' or ' },
+        {
+          type: 'link',
+          href: 'https://example.com',
+          children: [{ type: 'text', text: 'https://example.com' }]
+        },
+        { type: 'text', text: '.' }
+      ]);
+    });
+
+    it('should parse mention tokens and plain mentions', () => {
+      expect(parseInline('Hi @[Alice Developer](user1) and @bob, mail a@b.com')).toEqual([
+        { type: 'text', text: 'Hi ' },
+        { type: 'mention', userId: 'user1', label: 'Alice Developer' },
+        { type: 'text', text: ' and ' },
+        { type: 'mention', userId: 'bob', label: 'bob' },
+        { type: 'text', text: ', mail a@b.com' }
+      ]);
+    });
+
+    it('should keep raw HTML as text', () => {
+      expect(parseInline('<b onclick="x()">hi</b>')).toEqual([
+        { type: 'text', text: '<b onclick="x()">hi</b>' }
+      ]);
+    });
+
+    it('should honour backslash escapes', () => {
+      expect(parseInline('\\*not em\\*')).toEqual([
+        { type: 'text', text: '*not em*' }
+      ]);
+    });
+  });
+});
@@ -1,8 +1,20 @@
 import {
+  collectGalleryImages,
   detectMediaInContent,
   detectDataRequestInContent,
-  processMessageContent
+  processMessageContent,
+  restoreProcessedContent,
+  parseYouTubeUrl,
+  parseYouTubeTime,
+  getYouTubeEmbedUrl,
+  formatVideoTimestamp,
+  registerAttachmentDetector,
+  unregisterAttachmentDetector,
+  resetAttachmentDetectors,
+  getAttachmentDetectors,
+  AttachmentDetector
 } from '../media-helpers';
+import { Message } from '../../types';
 
 describe('media-helpers', () => {
   describe('detectMediaInContent', () => {
@@ -26,6 +38,26 @@ describe('media-helpers', () => {
       expect(attachments[0].url).toBe('https://youtu.be/dQw4w9WgXcQ');
     });
 
+    it('should keep YouTube start times and playlists in the URL', () => {
+      const attachments = detectMediaInContent(
+        'From 1:30: https://www.youtube.com/watch?v=dQw4w9WgXcQ&t=90s. Full list: youtube.com/playlist?list=PLabc123'
+      );
+
+      expect(attachments).toEqual([
+        {
+          type: 'youtube',
+          url: 'https://www.youtube.com/watch?v=dQw4w9WgXcQ&t=90s',
+          title: 'YouTube Video',
+          thumbnailUrl: 'https://img.youtube.com/vi/dQw4w9WgXcQ/hqdefault.jpg'
+        },
+        {
+          type: 'youtube',
+          url: 'https://youtube.com/playlist?list=PLabc123',
+          title: 'YouTube Playlist'
+        }
+      ]);
+    });
+
     it('should detect image URLs', () => {
       const content = 'Here is an image: https://example.com/photo.jpg';
       const attachments = detectMediaInContent(content);
@@ -123,6 +155,92 @@ describe('media-helpers', () => {
     });
   });
 
+  describe('attachment detectors', () => {
+    const vimeoDetector: AttachmentDetector = {
+      name: 'vimeo',
+      pattern: /https:\/\/vimeo\.com\/(\d+)/g,
+      create: (match, index) => ({
+        type: 'vimeo',
+        url: match[0],
+        title: `Vimeo Video ${index + 1}`,
+        data: { videoId: match[1] }
+      })
+    };
+
+    afterEach(() => {
+      resetAttachmentDetectors();
+    });
+
+    it('should run the built-in detectors by priority', () => {
+      expect(getAttachmentDetectors().map(d => d.name)).toEqual([
+        'youtube', 'image', 'audio', 'video', 'document', 'file', 'link'
+      ]);
+    });
+
+    it('should use registered detectors instead of the generic link', () => {
+      registerAttachmentDetector(vimeoDetector);
+
+      const attachments = detectMediaInContent('Watch https://vimeo.com/76979871 and https://example.com/page');
+
+      expect(attachments).toEqual([
+        {
+          type: 'vimeo',
+          url: 'https://vimeo.com/76979871',
+          title: 'Vimeo Video 1',
+          data: { videoId: '76979871' }
+        },
+        { type: 'link', url: 'https://example.com/page', title: 'Link 1' }
+      ]);
+    });
+
+    it('should let higher priority detectors claim URLs first', () => {
+      registerAttachmentDetector({
+        name: 'youtube-shorts',
+        pattern: /https:\/\/youtube\.com\/shorts\/[\w-]+/g,
+        priority: 200,
+        create: match => ({ type: 'youtube-short', url: match[0] })
+      });
+
+      const attachments = detectMediaInContent('https://youtube.com/shorts/dQw4w9WgXcQ');
+
+      expect(attachments).toEqual([
+        { type: 'youtube-short', url: 'https://youtube.com/shorts/dQw4w9WgXcQ' }
+      ]);
+    });
+
+    it('should leave matches to other detectors when create returns null', () => {
+      registerAttachmentDetector({ ...vimeoDetector, create: () => null });
+
+      const attachments = detectMediaInContent('https://vimeo.com/76979871');
+
+      expect(attachments).toHaveLength(1);
+      expect(attachments[0].type).toBe('link');
+    });
+
+    it('should unregister detectors', () => {
+      const unregister = registerAttachmentDetector(vimeoDetector);
+      unregister();
+      unregisterAttachmentDetector('link');
+
+      expect(detectMediaInContent('https://vimeo.com/76979871')).toHaveLength(0);
+    });
+
+    it('should reject patterns without the global flag', () => {
+      expect(() =>
+        registerAttachmentDetector({ ...vimeoDetector, pattern: /vimeo/ })
+      ).toThrow('needs a global (/g) pattern');
+    });
+
+    it('should strip custom attachment URLs from the message', () => {
+      registerAttachmentDetector(vimeoDetector);
+
+      const result = processMessageContent('New cut: https://vimeo.com/76979871');
+
+      expect(result.content).toBe('New cut:');
+      expect(result.attachments[0].type).toBe('vimeo');
+    });
+  });
+
   describe('detectDataRequestInContent', () => {
     it('should detect simple Zod schema', () => {
       const content = 'Please provide: z.object({ name: z.string(), age: z.number() })';
@@ -208,5 +326,121 @@ describe('media-helpers', () => {
       expect(result.content).toBe(content);
       expect(result.attachments).toHaveLength(0);
     });
+
+    it('should restore detected links and schemas for editing', () => {
+      const content = 'Where to? https://example.com/map\nz.object({ city: z.string() })';
+      const result = processMessageContent(content);
+      const upload = { type: 'document' as const, url: 'https://cdn.example.com/a.pdf' };
+
+      expect(result.attachments[0].detected).toBe(true);
+      expect(
+        restoreProcessedContent(result.content, [...result.attachments, upload], result.dataRequest)
+      ).toBe('Where to?\nhttps://example.com/map\n\nz.object({ city: z.string() })');
+      expect(restoreProcessedContent('Plain text', [upload])).toBe('Plain text');
+    });
+  });
+
+  describe('YouTube URLs', () => {
+    it.each([
+      ['https://www.youtube.com/watch?v=dQw4w9WgXcQ', { videoId: 'dQw4w9WgXcQ' }],
+      ['youtu.be/dQw4w9WgXcQ?t=1m30s', { videoId: 'dQw4w9WgXcQ', start: 90 }],
+      ['https://m.youtube.com/shorts/dQw4w9WgXcQ', { videoId: 'dQw4w9WgXcQ' }],
+      ['https://www.youtube.com/embed/dQw4w9WgXcQ?start=42', { videoId: 'dQw4w9WgXcQ', start: 42 }],
+      ['https://youtube.com/watch?v=dQw4w9WgXcQ#t=1h2m3s', { videoId: 'dQw4w9WgXcQ', start: 3723 }],
+      [
+        'https://www.youtube.com/watch?v=dQw4w9WgXcQ&list=PLabc123&index=2',
+        { videoId: 'dQw4w9WgXcQ', playlistId: 'PLabc123' }
+      ],
+      ['https://www.youtube.com/playlist?list=PLabc123', { playlistId: 'PLabc123' }]
+    ])('should parse %s', (url, expected) => {
+      expect(parseYouTubeUrl(url)).toEqual(expected);
+    });
+
+    it.each([
+      'https://example.com/watch?v=dQw4w9WgXcQ',
+      'https://www.youtube.com/watch?v=short',
+      'https://www.youtube.com/@channel',
+      'https://youtube.com.evil.com/watch?v=dQw4w9WgXcQ',
+      'not a url'
+    ])('should reject %s', (url) => {
+      expect(parseYouTubeUrl(url)).toBeNull();
+    });
+
+    it('should parse start times', () => {
+      expect(parseYouTubeTime('90')).toBe(90);
+      expect(parseYouTubeTime('2m')).toBe(120);
+      expect(parseYouTubeTime('1h0m5s')).toBe(3605);
+      expect(parseYouTubeTime('0')).toBeUndefined();
+      expect(parseYouTubeTime('soon')).toBeUndefined();
+      expect(parseYouTubeTime(null)).toBeUndefined();
+    });
+
+    it('should build privacy-enhanced embed URLs', () => {
+      expect(getYouTubeEmbedUrl({ videoId: 'dQw4w9WgXcQ' })).toBe(
+        'https://www.youtube-nocookie.com/embed/dQw4w9WgXcQ'
+      );
+      expect(
+        getYouTubeEmbedUrl({ videoId: 'dQw4w9WgXcQ', playlistId: 'PLabc123', start: 90 }, true)
+      ).toBe(
+        'https://www.youtube-nocookie.com/embed/dQw4w9WgXcQ?autoplay=1&list=PLabc123&start=90'
+      );
+      expect(getYouTubeEmbedUrl({ playlistId: 'PLabc123' })).toBe(
+        'https://www.youtube-nocookie.com/embed/videoseries?list=PLabc123'
+      );
+    });
+
+    it('should format video timestamps', () => {
+      expect(formatVideoTimestamp(65)).toBe('1:05');
+      expect(formatVideoTimestamp(3723)).toBe('1:02:03');
+    });
+  });
+
+  describe('collectGalleryImages', () => {
+    it('should collect image attachments in order, skipping deleted messages', () => {
+      const base = { senderId: 'user1', senderName: 'Alice', createdAt: '2024-01-01T00:00:00.000Z', updatedAt: '2024-01-01T00:00:00.000Z' };
+      const messages: Message[] = [
+        {
+          ...base,
+          id: 'msg-1',
+          content: 'Screens',
+          attachments: [
+            { type: 'link', url: 'https://example.com' },
+            { type: 'image', url: 'https://example.com/a.png', title: 'A', description: 'First' }
+          ]
+        },
+        {
+          ...base,
+          id: 'msg-2',
+          content: '',
+          deleted: true,
+          attachments: [{ type: 'image', url: 'https://example.com/b.png' }]
+        },
+        {
+          ...base,
+          id: 'msg-3',
+          content: '',
+          attachments: [{ type: 'image', url: 'https://example.com/c.png' }]
+        }
+      ];
+
+      expect(collectGalleryImages(messages)).toEqual([
+        {
+          key: 'msg-1-1',
+          messageId: 'msg-1',
+          url: 'https://example.com/a.png',
+          title: 'A',
+          description: 'First',
+          senderName: 'Alice'
+        },
+        {
+          key: 'msg-3-0',
+          messageId: 'msg-3',
+          url: 'https://example.com/c.png',
+          title: undefined,
+          description: undefined,
+          senderName: 'Alice'
+        }
+      ]);
+    });
   });
-});
\ No newline at end of file
+});
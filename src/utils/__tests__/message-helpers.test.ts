@@ -1,11 +1,23 @@
+import { z } from 'zod';
 import {
   createMessageWithProcessing,
   extractMentions,
   containsAgentMentions,
   formatMentions,
   cleanMessageContent,
-  isValidMessage
+  isValidMessage,
+  messageFromFirestore,
+  mergeMessages,
+  applyMessageChanges,
+  shouldTriggerAIProcessing,
+  createMentionToken,
+  parseMentions,
+  encodeMentions,
+  decodeMentions,
+  isGroupedWithPrevious,
+  isFirstOfDay
 } from '../message-helpers';
+import { Message } from '../../types';
 
 describe('message-helpers', () => {
   const mockCurrentTime = '2024-01-01T00:00:00.000Z';
@@ -49,6 +61,11 @@ describe('message-helpers', () => {
       const mentions = extractMentions('Hello @alice and @alice again');
       expect(mentions).toEqual(['alice']);
     });
+
+    it('should resolve mention tokens to user IDs', () => {
+      const mentions = extractMentions('Hi @[Alice Developer](user1) and @bob');
+      expect(mentions).toEqual(['user1', 'bob']);
+    });
   });
 
   describe('containsAgentMentions', () => {
@@ -86,6 +103,70 @@ describe('message-helpers', () => {
       expect(formatted).toContain('Hello');
       expect(formatted).toContain('how are you?');
     });
+
+    it('should render mention tokens by their label', () => {
+      const formatted = formatMentions('Hello @[Alice Developer](user1)!');
+      expect(formatted).toBe(
+        'Hello <span class="mention" data-user-id="user1">@Alice Developer</span>!'
+      );
+    });
+
+    it('should escape mention token labels', () => {
+      const formatted = formatMentions('@[<img src=x onerror=alert(1)>](user1)');
+      expect(formatted).not.toContain('<img');
+      expect(formatted).toContain('@&lt;img src=x onerror=alert(1)&gt;');
+    });
+  });
+
+  describe('mention tokens', () => {
+    const alice = { id: 'user1', label: 'Alice Developer' };
+    const al = { id: 'user9', label: 'Alice' };
+
+    it('should create tokens without brackets in the label', () => {
+      expect(createMentionToken(alice)).toBe('@[Alice Developer](user1)');
+      expect(createMentionToken({ id: 'u2', label: '[Bob]' })).toBe('@[Bob](u2)');
+    });
+
+    it('should parse tokens in order without duplicates', () => {
+      expect(
+        parseMentions('@[Alice Developer](user1), @[Bob](user2) and @[Alice](user1)')
+      ).toEqual([alice, { id: 'user2', label: 'Bob' }]);
+      expect(parseMentions('Hello @alice')).toEqual([]);
+    });
+
+    it('should encode picked mentions, preferring the longest label', () => {
+      expect(
+        encodeMentions('@Alice Developer and @Alice, look', [al, alice])
+      ).toBe('@[Alice Developer](user1) and @[Alice](user9), look');
+    });
+
+    it('should leave labels that only prefix a word alone', () => {
+      expect(encodeMentions('@Alicex', [al])).toBe('@Alicex');
+    });
+
+    it('should decode tokens back to the typed text', () => {
+      const content = 'Ping @[Alice Developer](user1)!';
+      expect(decodeMentions(content)).toBe('Ping @Alice Developer!');
+      expect(encodeMentions(decodeMentions(content), [alice])).toBe(content);
+    });
+
+    it('should store mentions on created messages', () => {
+      const message = createMessageWithProcessing({
+        content: 'Ask @[AI Assistant](agent_assistant)',
+        senderId: 'user1'
+      });
+      expect(message.mentions).toEqual([
+        { id: 'agent_assistant', label: 'AI Assistant' }
+      ]);
+    });
+
+    it('should route agent tokens to agents', () => {
+      expect(
+        containsAgentMentions('Ask @[AI Assistant](agent_assistant)', [
+          'agent_assistant'
+        ])
+      ).toBe(true);
+    });
   });
 
   describe('cleanMessageContent', () => {
@@ -188,6 +269,21 @@ describe('message-helpers', () => {
       expect(message.recipientIds).toContain('assistant');
     });
 
+    it('should store Zod schema data requests as JSON Schema', () => {
+      const message = createMessageWithProcessing({
+        content: 'Please provide feedback',
+        senderId: 'user1',
+        dataRequest: z.object({ rating: z.number().int().min(1).max(5) })
+      });
+
+      expect(message.dataRequest).toEqual({
+        $schema: 'https://json-schema.org/draft/2020-12/schema',
+        type: 'object',
+        properties: { rating: { type: 'integer', minimum: 1, maximum: 5 } },
+        required: ['rating']
+      });
+    });
+
     it('should create basic message without processing', () => {
       const message = createMessageWithProcessing({
         content: 'Hello world',
@@ -205,4 +301,187 @@ describe('message-helpers', () => {
       expect(message.updatedAt).toBeDefined();
     });
   });
-});
\ No newline at end of file
+
+  describe('messageFromFirestore', () => {
+    it('should convert Firestore timestamps to ISO strings', () => {
+      const timestamp = { toDate: () => ({ toISOString: () => mockCurrentTime }) };
+      const message = messageFromFirestore('msg-1', {
+        content: 'Hello',
+        senderId: 'user1',
+        createdAt: timestamp,
+        updatedAt: timestamp,
+        lastReplyAt: timestamp
+      });
+
+      expect(message.id).toBe('msg-1');
+      expect(message.createdAt).toBe(mockCurrentTime);
+      expect(message.lastReplyAt).toBe(mockCurrentTime);
+    });
+  });
+
+  describe('mergeMessages', () => {
+    const message = (id: string, createdAt: string, content = id): Message => ({
+      id,
+      content,
+      senderId: 'user1',
+      createdAt,
+      updatedAt: createdAt
+    });
+
+    it('should merge pages sorted by creation time', () => {
+      const merged = mergeMessages(
+        [message('b', '2024-01-02T00:00:00.000Z')],
+        [message('a', '2024-01-01T00:00:00.000Z'), message('c', '2024-01-03T00:00:00.000Z')]
+      );
+
+      expect(merged.map(m => m.id)).toEqual(['a', 'b', 'c']);
+    });
+
+    it('should prefer incoming versions of existing messages', () => {
+      const merged = mergeMessages(
+        [message('a', '2024-01-01T00:00:00.000Z', 'old')],
+        [message('a', '2024-01-01T00:00:00.000Z', 'new')]
+      );
+
+      expect(merged).toHaveLength(1);
+      expect(merged[0].content).toBe('new');
+    });
+  });
+
+  describe('applyMessageChanges', () => {
+    const message = (id: string, createdAt: string, content = id): Message => ({
+      id,
+      content,
+      senderId: 'user1',
+      createdAt,
+      updatedAt: createdAt
+    });
+    const first = message('a', '2024-01-01T00:00:00.000Z');
+    const second = message('b', '2024-01-02T00:00:00.000Z');
+
+    it('should insert added messages in order', () => {
+      const result = applyMessageChanges(
+        [first, message('c', '2024-01-03T00:00:00.000Z')],
+        [{ type: 'added', message: second }]
+      );
+
+      expect(result.map(m => m.id)).toEqual(['a', 'b', 'c']);
+    });
+
+    it('should keep unchanged messages by reference', () => {
+      const edited = message('b', '2024-01-02T00:00:00.000Z', 'edited');
+      const result = applyMessageChanges(
+        [first, second],
+        [{ type: 'modified', message: edited }]
+      );
+
+      expect(result[0]).toBe(first);
+      expect(result[1]).toBe(edited);
+    });
+
+    it('should move messages whose timestamp changed', () => {
+      const confirmed = message('a', '2024-01-03T00:00:00.000Z');
+      const result = applyMessageChanges(
+        [first, second],
+        [{ type: 'modified', message: confirmed }]
+      );
+
+      expect(result.map(m => m.id)).toEqual(['b', 'a']);
+    });
+
+    it('should drop removed messages', () => {
+      const result = applyMessageChanges(
+        [first, second],
+        [{ type: 'removed', message: first }]
+      );
+
+      expect(result).toEqual([second]);
+    });
+
+    it('should return the same array when nothing changed', () => {
+      const existing = [first];
+      expect(applyMessageChanges(existing, [])).toBe(existing);
+      expect(applyMessageChanges(existing, [{ type: 'evicted', message: first }])).toBe(
+        existing
+      );
+    });
+  });
+
+  describe('shouldTriggerAIProcessing', () => {
+    const agentRoot: Message = {
+      id: 'root-1',
+      content: 'Which option do you prefer?',
+      senderId: 'assistant',
+      createdAt: mockCurrentTime,
+      updatedAt: mockCurrentTime
+    };
+
+    const reply: Message = {
+      content: 'The second one',
+      senderId: 'user1',
+      threadId: 'root-1',
+      createdAt: mockCurrentTime,
+      updatedAt: mockCurrentTime
+    };
+
+    it('should route replies in an agent thread back to the agent', () => {
+      expect(shouldTriggerAIProcessing(reply, ['assistant'], agentRoot)).toBe(true);
+    });
+
+    it('should not trigger for replies in a human thread', () => {
+      const humanRoot = { ...agentRoot, senderId: 'user2' };
+      expect(shouldTriggerAIProcessing(reply, ['assistant'], humanRoot)).toBe(false);
+    });
+
+    it('should ignore a thread root the reply does not belong to', () => {
+      const otherRoot = { ...agentRoot, id: 'root-2' };
+      expect(shouldTriggerAIProcessing(reply, ['assistant'], otherRoot)).toBe(false);
+    });
+  });
+
+  describe('grouping', () => {
+    // Local times, so day boundaries do not depend on the test timezone
+    const message = (senderId: string, createdAt: string): Message => ({
+      id: createdAt,
+      content: 'Hi',
+      senderId,
+      createdAt,
+      updatedAt: createdAt
+    });
+
+    it('should group consecutive messages from one sender within the window', () => {
+      const first = message('user1', '2024-03-04T10:00:00');
+
+      expect(isGroupedWithPrevious(message('user1', '2024-03-04T10:04:00'), first)).toBe(true);
+      expect(isGroupedWithPrevious(message('user1', '2024-03-04T10:06:00'), first)).toBe(false);
+      expect(isGroupedWithPrevious(message('user2', '2024-03-04T10:01:00'), first)).toBe(false);
+      expect(isGroupedWithPrevious(first, undefined)).toBe(false);
+      expect(
+        isGroupedWithPrevious(message('user1', '2024-03-04T10:30:00'), first, 60 * 60 * 1000)
+      ).toBe(true);
+    });
+
+    it('should not group across days or deleted messages', () => {
+      expect(
+        isGroupedWithPrevious(
+          message('user1', '2024-03-05T00:01:00'),
+          message('user1', '2024-03-04T23:59:00')
+        )
+      ).toBe(false);
+      expect(
+        isGroupedWithPrevious(message('user1', '2024-03-04T10:01:00'), {
+          ...message('user1', '2024-03-04T10:00:00'),
+          deleted: true
+        })
+      ).toBe(false);
+    });
+
+    it('should detect the first message of each day', () => {
+      const first = message('user1', '2024-03-04T23:59:00');
+
+      expect(isFirstOfDay(first, undefined)).toBe(true);
+      expect(isFirstOfDay(message('user2', '2024-03-04T12:00:00'), first)).toBe(false);
+      expect(isFirstOfDay(message('user2', '2024-03-05T00:01:00'), first)).toBe(true);
+    });
+  });
+});
@@ -0,0 +1,683 @@
+import type { QueryDocumentSnapshot } from 'firebase/firestore';
+import { Messages } from '../messages';
+import { AccessControl } from '../access-control';
+import {
+  createMockTransaction,
+  fakeSnapshot,
+  mockFirestore
+} from '../../test-utils/firestore';
+
+jest.mock('firebase/firestore', () => ({
+  doc: jest.fn(),
+  collection: jest.fn(),
+  query: jest.fn(),
+  where: jest.fn(),
+  orderBy: jest.fn(),
+  limit: jest.fn(),
+  startAfter: jest.fn(),
+  onSnapshot: jest.fn(),
+  getDoc: jest.fn(),
+  getDocs: jest.fn(),
+  updateDoc: jest.fn(),
+  writeBatch: jest.fn(),
+  runTransaction: jest.fn(),
+  serverTimestamp: jest.fn(),
+  deleteField: jest.fn(),
+  increment: jest.fn()
+}));
+
+jest.mock('../../lib/firebase', () => ({
+  getDb: jest.fn(() => ({}))
+}));
+
+jest.mock('../access-control', () => ({
+  AccessControl: { hasAccess: jest.fn() }
+}));
+
+describe('Messages', () => {
+  const editor = { id: 'user1', displayName: 'Alice' };
+  const transaction = createMockTransaction();
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+
+    const firestore = require('firebase/firestore');
+    const { serverTimestamp, increment } = firestore;
+    mockFirestore(firestore, transaction);
+    serverTimestamp.mockReturnValue('SERVER_TIMESTAMP');
+    increment.mockImplementation((n: number) => ({ increment: n }));
+    (AccessControl.hasAccess as jest.Mock).mockResolvedValue(true);
+  });
+
+  const mockMessageDoc = (data: Record<string, unknown>) => {
+    const { getDoc } = require('firebase/firestore');
+    getDoc.mockResolvedValue(fakeSnapshot(data));
+  };
+
+  const mockStoredMessage = (
+    data: Record<string, unknown>,
+    formRequest: Record<string, unknown> | null = null
+  ) => {
+    transaction.get.mockImplementation(async (ref) =>
+      ref.path.includes('/formRequests/')
+        ? fakeSnapshot(formRequest, ref.id)
+        : fakeSnapshot(data)
+    );
+  };
+
+  const mockQueryDoc = (id: string, createdAt: string, threadId?: string) =>
+    ({
+      id,
+      data: () => ({ content: id, senderId: 'user1', createdAt, ...(threadId && { threadId }) })
+    } as unknown as QueryDocumentSnapshot);
+
+  describe('subscribeToLatest', () => {
+    it('should report only changed documents with the window cursor', () => {
+      const { onSnapshot, limit } = require('firebase/firestore');
+      const newest = mockQueryDoc('msg-2', '2024-01-02T00:00:00.000Z');
+      const older = mockQueryDoc('msg-1', '2024-01-01T00:00:00.000Z');
+      const onUpdate = jest.fn();
+
+      Messages.subscribeToLatest('chats/test', 2, onUpdate);
+      const onNext = onSnapshot.mock.calls[0][1];
+      onNext({
+        docs: [newest, older],
+        docChanges: () => [{ type: 'modified', doc: newest }]
+      });
+
+      expect(limit).toHaveBeenCalledWith(2);
+      expect(onUpdate).toHaveBeenCalledWith({
+        changes: [
+          { type: 'modified', message: expect.objectContaining({ id: 'msg-2' }) }
+        ],
+        cursor: older,
+        hasMore: true,
+        messageCount: 2
+      });
+    });
+
+    it('should tell messages pushed out of the window from deleted ones', () => {
+      const { onSnapshot } = require('firebase/firestore');
+      const newest = mockQueryDoc('msg-4', '2024-01-04T00:00:00.000Z');
+      const middle = mockQueryDoc('msg-2', '2024-01-02T00:00:00.000Z');
+      const evicted = mockQueryDoc('msg-1', '2024-01-01T00:00:00.000Z');
+      const deleted = mockQueryDoc('msg-3', '2024-01-03T00:00:00.000Z');
+      const onUpdate = jest.fn();
+
+      Messages.subscribeToLatest('chats/test', 2, onUpdate);
+      onSnapshot.mock.calls[0][1]({
+        docs: [newest, middle],
+        docChanges: () => [
+          { type: 'added', doc: newest },
+          { type: 'removed', doc: evicted },
+          { type: 'removed', doc: deleted }
+        ]
+      });
+
+      const { changes } = onUpdate.mock.calls[0][0];
+      expect(changes.map((change: any) => [change.type, change.message.id])).toEqual([
+        ['added', 'msg-4'],
+        ['evicted', 'msg-1'],
+        ['removed', 'msg-3']
+      ]);
+    });
+
+    it('should leave thread replies out of the window', () => {
+      const { onSnapshot } = require('firebase/firestore');
+      const reply = mockQueryDoc('reply-1', '2024-01-02T00:00:00.000Z', 'msg-1');
+      const root = mockQueryDoc('msg-1', '2024-01-01T00:00:00.000Z');
+      const onUpdate = jest.fn();
+
+      Messages.subscribeToLatest('chats/test', 2, onUpdate);
+      onSnapshot.mock.calls[0][1]({
+        docs: [reply, root],
+        docChanges: () => [
+          { type: 'added', doc: reply },
+          { type: 'added', doc: root }
+        ]
+      });
+
+      const update = onUpdate.mock.calls[0][0];
+      expect(update.changes.map((change: any) => change.message.id)).toEqual(['msg-1']);
+      expect(update.messageCount).toBe(1);
+    });
+
+    it('should report listener errors', () => {
+      const { onSnapshot } = require('firebase/firestore');
+      jest.spyOn(console, 'error').mockImplementation(() => {});
+      const onError = jest.fn();
+      const error = new Error('permission-denied');
+
+      Messages.subscribeToLatest('chats/test', 50, jest.fn(), onError);
+      onSnapshot.mock.calls[0][2](error);
+
+      expect(onError).toHaveBeenCalledWith(error);
+    });
+  });
+
+  describe('loadOlder', () => {
+    it('should query after the cursor and flag the last page', async () => {
+      const { getDocs, startAfter } = require('firebase/firestore');
+      const cursor = mockQueryDoc('msg-3', '2024-01-03T00:00:00.000Z');
+      const older = mockQueryDoc('msg-1', '2024-01-01T00:00:00.000Z');
+      getDocs.mockResolvedValue({ docs: [older] });
+
+      const page = await Messages.loadOlder('chats/test', cursor, 2);
+
+      expect(startAfter).toHaveBeenCalledWith(cursor);
+      expect(page.messages.map(m => m.id)).toEqual(['msg-1']);
+      expect(page.cursor).toBe(older);
+      expect(page.hasMore).toBe(false);
+    });
+
+    it('should keep paging past thread replies', async () => {
+      const { getDocs, startAfter } = require('firebase/firestore');
+      const cursor = mockQueryDoc('msg-9', '2024-01-09T00:00:00.000Z');
+      const replies = [
+        mockQueryDoc('reply-2', '2024-01-08T00:00:00.000Z', 'msg-1'),
+        mockQueryDoc('reply-1', '2024-01-07T00:00:00.000Z', 'msg-1')
+      ];
+      const newer = mockQueryDoc('msg-2', '2024-01-06T00:00:00.000Z');
+      const older = mockQueryDoc('msg-1', '2024-01-05T00:00:00.000Z');
+      const oldest = mockQueryDoc('msg-0', '2024-01-04T00:00:00.000Z');
+      getDocs
+        .mockResolvedValueOnce({ docs: replies })
+        .mockResolvedValueOnce({ docs: [newer, older] })
+        .mockResolvedValueOnce({ docs: [oldest] });
+
+      const page = await Messages.loadOlder('chats/test', cursor, 2);
+
+      expect(startAfter).toHaveBeenLastCalledWith(replies[1]);
+      expect(page.messages.map(m => m.id)).toEqual(['msg-1', 'msg-2']);
+      expect(page.cursor).toBe(older);
+      expect(page.hasMore).toBe(true);
+    });
+  });
+
+  describe('sendMessage', () => {
+    const mockExisting = (exists: boolean) => {
+      transaction.get.mockResolvedValue(fakeSnapshot(exists ? {} : null));
+    };
+
+    it('should write the message under the reserved ID', async () => {
+      mockExisting(false);
+
+      await Messages.sendMessage('chats/test', 'msg-9', {
+        content: 'Hello',
+        senderId: 'user1',
+        senderName: 'Alice'
+      });
+
+      expect(transaction.set).toHaveBeenCalledTimes(1);
+      expect(transaction.set).toHaveBeenCalledWith(
+        { id: 'msg-9', path: 'chats/test/messages/msg-9' },
+        {
+          content: 'Hello',
+          senderId: 'user1',
+          senderName: 'Alice',
+          createdAt: 'SERVER_TIMESTAMP',
+          updatedAt: 'SERVER_TIMESTAMP'
+        }
+      );
+    });
+
+    it('should leave redelivered messages untouched', async () => {
+      mockExisting(true);
+
+      await Messages.sendMessage('chats/test', 'msg-9', {
+        content: 'Hello',
+        senderId: 'user1',
+        dataRequest: 'z.object({ city: z.string() })',
+        formRequest: { recipientCount: 0, responderIds: [] }
+      });
+
+      expect(transaction.get).toHaveBeenCalledWith({ id: 'msg-9', path: 'chats/test/messages/msg-9' });
+      expect(transaction.set).not.toHaveBeenCalled();
+    });
+
+    it('should create the form request with its message', async () => {
+      mockExisting(false);
+
+      await Messages.sendMessage('chats/test', 'msg-9', {
+        content: 'Please share your address',
+        senderId: 'agent1',
+        recipientIds: ['user1', 'user2'],
+        dataRequest: 'z.object({ city: z.string() })',
+        formRequest: {
+          recipientCount: 2,
+          responderIds: [],
+          expiresAt: '2030-01-01T00:00:00.000Z'
+        }
+      });
+
+      expect(transaction.set).toHaveBeenCalledWith(
+        { id: 'msg-9', path: 'chats/test/messages/msg-9' },
+        expect.objectContaining({ dataRequest: 'z.object({ city: z.string() })' })
+      );
+      expect(transaction.set).toHaveBeenCalledWith(
+        { id: 'msg-9', path: 'chats/test/formRequests/msg-9' },
+        {
+          messageId: 'msg-9',
+          title: 'Please share your address',
+          schema: 'z.object({ city: z.string() })',
+          requesterId: 'agent1',
+          recipientIds: ['user1', 'user2'],
+          expiresAt: '2030-01-01T00:00:00.000Z',
+          createdAt: expect.any(String),
+          responses: []
+        }
+      );
+    });
+
+    it('should send expiring and private form requests for agents', async () => {
+      mockExisting(false);
+
+      const messageId = await Messages.sendFormRequest(
+        'chats/test',
+        { id: 'agent_assistant', displayName: 'Assistant', role: 'agent' },
+        {
+          content: 'Where should we ship it?',
+          dataRequest: 'z.object({ city: z.string() })',
+          recipientIds: ['user1'],
+          expiresAt: '2030-01-01T00:00:00.000Z',
+          private: true
+        }
+      );
+
+      expect(messageId).toBe('new-doc');
+      const [[, message], [, request]] = transaction.set.mock.calls;
+      expect(message).toEqual(
+        expect.objectContaining({
+          senderId: 'agent_assistant',
+          senderName: 'Assistant',
+          fromAiAgent: true,
+          recipientIds: ['user1'],
+          formRequest: {
+            recipientCount: 1,
+            responderIds: [],
+            expiresAt: '2030-01-01T00:00:00.000Z',
+            private: true
+          },
+          createdAt: 'SERVER_TIMESTAMP'
+        })
+      );
+      expect(Object.values(message)).not.toContain(undefined);
+      expect(request).toEqual(
+        expect.objectContaining({
+          requesterId: 'agent_assistant',
+          expiresAt: '2030-01-01T00:00:00.000Z',
+          private: true
+        })
+      );
+    });
+
+    it('should rethrow write errors', async () => {
+      jest.spyOn(console, 'error').mockImplementation(() => {});
+      const { runTransaction } = require('firebase/firestore');
+      runTransaction.mockRejectedValue(new Error('offline'));
+
+      await expect(
+        Messages.sendMessage('chats/test', 'msg-9', {
+          content: 'Hello',
+          senderId: 'user1',
+          senderName: 'Alice'
+        })
+      ).rejects.toThrow('offline');
+    });
+  });
+
+  describe('editMessage', () => {
+    it('should store the previous content as a revision', async () => {
+      mockStoredMessage({ content: 'Helo world', senderId: 'user1' });
+
+      await Messages.editMessage('chats/test', 'msg-1', 'Hello world', editor);
+
+      expect(transaction.set).toHaveBeenCalledWith(
+        { id: 'new-doc', path: 'chats/test/messages/msg-1/revisions/new-doc' },
+        {
+          content: 'Helo world',
+          editedBy: 'user1',
+          editedByName: 'Alice',
+          editedAt: 'SERVER_TIMESTAMP'
+        }
+      );
+      expect(transaction.update).toHaveBeenCalledWith(
+        { id: 'msg-1', path: 'chats/test/messages/msg-1' },
+        expect.objectContaining({
+          content: 'Hello world',
+          editedAt: 'SERVER_TIMESTAMP',
+          editCount: { increment: 1 }
+        })
+      );
+    });
+
+    it('should re-detect attachments in the edited content', async () => {
+      mockStoredMessage({ content: 'See the screenshot', senderId: 'user1' });
+
+      await Messages.editMessage(
+        'chats/test',
+        'msg-1',
+        'See https://example.com/shot.png',
+        editor
+      );
+
+      const updates = transaction.update.mock.calls[0][1];
+      expect(updates.attachments).toEqual([
+        expect.objectContaining({ type: 'image', url: 'https://example.com/shot.png' })
+      ]);
+    });
+
+    it('should drop attachments and data requests removed from the text', async () => {
+      const { deleteField } = require('firebase/firestore');
+      deleteField.mockReturnValue('DELETE_FIELD');
+      const upload = { type: 'document', url: 'https://cdn.example.com/report.pdf', size: 10 };
+      const preview = {
+        type: 'link',
+        url: 'https://example.com/kept',
+        title: 'Kept page',
+        unfurledAt: 1,
+        detected: true
+      };
+      mockStoredMessage({
+        content: 'Links\n\n[This message contains a form schema. Click the button below to provide the requested information.]',
+        senderId: 'user1',
+        dataRequest: 'z.object({ city: z.string() })',
+        attachments: [
+          upload,
+          preview,
+          { type: 'link', url: 'https://example.com/removed', detected: true }
+        ]
+      });
+
+      await Messages.editMessage('chats/test', 'msg-1', 'Links https://example.com/kept', editor);
+
+      const updates = transaction.update.mock.calls[0][1];
+      expect(updates.attachments).toEqual([upload, preview]);
+      expect(updates.dataRequest).toBe('DELETE_FIELD');
+    });
+
+    it('should keep data requests sent alongside the text', async () => {
+      mockStoredMessage({
+        content: 'Please fill in the form',
+        senderId: 'user1',
+        dataRequest: { type: 'object', properties: {} }
+      });
+
+      await Messages.editMessage('chats/test', 'msg-1', 'Please fill in this form', editor);
+
+      expect(transaction.update.mock.calls[0][1]).not.toHaveProperty('dataRequest');
+    });
+
+    describe('with a form request', () => {
+      const notice = '[This message contains a form schema. Click the button below to provide the requested information.]';
+      const requestRef = { id: 'msg-1', path: 'chats/test/formRequests/msg-1' };
+      const storedRequest = {
+        messageId: 'msg-1',
+        title: 'Where are you?',
+        schema: 'z.object({ city: z.string() })',
+        requesterId: 'user1',
+        recipientIds: ['user2'],
+        createdAt: '2024-01-01T00:00:00.000Z',
+        responses: []
+      };
+      const storedMessage = {
+        content: `Where are you?\n\n${notice}`,
+        senderId: 'user1',
+        recipientIds: ['user2'],
+        dataRequest: 'z.object({ city: z.string() })',
+        formRequest: { recipientCount: 1, responderIds: [], private: true }
+      };
+
+      it('should rebuild the request from the edited message', async () => {
+        mockStoredMessage(
+          { ...storedMessage, dataRequest: { type: 'object', properties: {} }, content: 'Where are you?' },
+          { ...storedRequest, schema: { type: 'object', properties: {} } }
+        );
+
+        await Messages.editMessage('chats/test', 'msg-1', 'Where are you now?', editor, {
+          recipientIds: ['user3']
+        });
+
+        expect(transaction.set).toHaveBeenCalledWith(requestRef, {
+          messageId: 'msg-1',
+          title: 'Where are you now?',
+          schema: { type: 'object', properties: {} },
+          requesterId: 'user1',
+          recipientIds: ['user2', 'user3'],
+          createdAt: '2024-01-01T00:00:00.000Z',
+          private: true,
+          responses: []
+        });
+        expect(transaction.update.mock.calls[0][1].formRequest).toEqual({
+          recipientCount: 2,
+          responderIds: [],
+          private: true
+        });
+      });
+
+      it('should delete the request when the data request is removed', async () => {
+        const { deleteField } = require('firebase/firestore');
+        deleteField.mockReturnValue('DELETE_FIELD');
+        mockStoredMessage(storedMessage, storedRequest);
+
+        await Messages.editMessage('chats/test', 'msg-1', 'Never mind', editor);
+
+        expect(transaction.delete).toHaveBeenCalledWith(requestRef);
+        const updates = transaction.update.mock.calls[0][1];
+        expect(updates.dataRequest).toBe('DELETE_FIELD');
+        expect(updates.formRequest).toBe('DELETE_FIELD');
+      });
+
+      it('should keep the requested data once responses were submitted', async () => {
+        jest.spyOn(console, 'error').mockImplementation(() => {});
+        mockStoredMessage(storedMessage, {
+          ...storedRequest,
+          responses: [{ userId: 'user2', data: { city: 'Paris' }, submittedAt: '2024-01-02T00:00:00.000Z' }]
+        });
+
+        await expect(
+          Messages.editMessage('chats/test', 'msg-1', 'Never mind', editor)
+        ).rejects.toThrow('The requested data cannot change once responses were submitted');
+        expect(transaction.update).not.toHaveBeenCalled();
+        expect(transaction.delete).not.toHaveBeenCalled();
+      });
+    });
+
+    it('should store the mentions of the edited content', async () => {
+      mockStoredMessage({ content: 'Ping Bob', senderId: 'user1' });
+
+      await Messages.editMessage(
+        'chats/test',
+        'msg-1',
+        'Ping @[Bob Manager](user2)',
+        editor,
+        { recipientIds: ['user2'] }
+      );
+
+      const updates = transaction.update.mock.calls[0][1];
+      expect(updates.mentions).toEqual([{ id: 'user2', label: 'Bob Manager' }]);
+      expect(updates.recipientIds).toEqual(['user2']);
+    });
+
+    it('should reject users below write access', async () => {
+      jest.spyOn(console, 'error').mockImplementation(() => {});
+      (AccessControl.hasAccess as jest.Mock).mockResolvedValue(false);
+
+      await expect(
+        Messages.editMessage('chats/test', 'msg-1', 'Hello', editor)
+      ).rejects.toThrow('User user1 does not have write access');
+      expect(transaction.update).not.toHaveBeenCalled();
+    });
+
+    it('should reject edits by anyone but the sender', async () => {
+      jest.spyOn(console, 'error').mockImplementation(() => {});
+      mockStoredMessage({ content: 'Original', senderId: 'user2' });
+
+      await expect(
+        Messages.editMessage('chats/test', 'msg-1', 'Changed', editor)
+      ).rejects.toThrow('Only the sender can edit a message');
+      expect(transaction.update).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('getRevisions', () => {
+    it('should return revisions with ISO timestamps', async () => {
+      const { getDocs } = require('firebase/firestore');
+      getDocs.mockResolvedValue([
+        {
+          id: 'rev-1',
+          data: () => ({
+            content: 'Old text',
+            editedBy: 'user1',
+            editedAt: { toDate: () => ({ toISOString: () => '2024-01-01T00:00:00.000Z' }) }
+          })
+        }
+      ]);
+
+      const revisions = await Messages.getRevisions('chats/test', 'msg-1');
+
+      expect(revisions).toEqual([
+        {
+          id: 'rev-1',
+          content: 'Old text',
+          editedBy: 'user1',
+          editedAt: '2024-01-01T00:00:00.000Z'
+        }
+      ]);
+    });
+  });
+
+  describe('deleteMessage', () => {
+    const { AccessLevel } = require('../../types');
+
+    it('should soft delete own messages with write access', async () => {
+      const { updateDoc } = require('firebase/firestore');
+      mockMessageDoc({ content: 'Oops', senderId: 'user1' });
+
+      await Messages.deleteMessage('chats/test', 'msg-1', editor);
+
+      expect(AccessControl.hasAccess).toHaveBeenCalledWith(
+        'chats/test',
+        'user1',
+        AccessLevel.WRITE
+      );
+      expect(updateDoc).toHaveBeenCalledWith(
+        { id: 'msg-1', path: 'chats/test/messages/msg-1' },
+        expect.objectContaining({ deleted: true, deletedBy: 'user1' })
+      );
+    });
+
+    it('should require admin access to delete other users\' messages', async () => {
+      jest.spyOn(console, 'error').mockImplementation(() => {});
+      const { updateDoc } = require('firebase/firestore');
+      mockMessageDoc({ content: 'Spam', senderId: 'user2' });
+      (AccessControl.hasAccess as jest.Mock).mockResolvedValue(false);
+
+      await expect(
+        Messages.deleteMessage('chats/test', 'msg-1', editor)
+      ).rejects.toThrow('User user1 is not allowed to delete message msg-1');
+      expect(AccessControl.hasAccess).toHaveBeenCalledWith(
+        'chats/test',
+        'user1',
+        AccessLevel.ADMIN
+      );
+      expect(updateDoc).not.toHaveBeenCalled();
+    });
+
+    it('should clear the deletion when restoring', async () => {
+      const { updateDoc, deleteField } = require('firebase/firestore');
+      deleteField.mockReturnValue('DELETE_FIELD');
+      mockMessageDoc({ content: 'Oops', senderId: 'user1', deleted: true });
+
+      await Messages.restoreMessage('chats/test', 'msg-1', editor);
+
+      expect(updateDoc).toHaveBeenCalledWith(
+        { id: 'msg-1', path: 'chats/test/messages/msg-1' },
+        expect.objectContaining({
+          deleted: false,
+          deletedAt: 'DELETE_FIELD',
+          deletedBy: 'DELETE_FIELD'
+        })
+      );
+    });
+  });
+
+  describe('saveLinkPreview', () => {
+    const link = { type: 'link', url: 'https://example.com/post', title: 'Link 1' };
+    const image = { type: 'image', url: 'https://example.com/a.png', title: 'Image 1' };
+
+    it('should cache the preview on the matching link attachment', async () => {
+      mockStoredMessage({ content: 'See', senderId: 'user2', attachments: [image, link] });
+
+      const saved = await Messages.saveLinkPreview('chats/test', 'msg-1', link.url, {
+        title: 'A post',
+        imageUrl: 'https://example.com/cover.png'
+      });
+
+      expect(saved).toBe(true);
+      expect(transaction.update).toHaveBeenCalledWith(
+        { id: 'msg-1', path: 'chats/test/messages/msg-1' },
+        {
+          attachments: [
+            image,
+            {
+              ...link,
+              title: 'A post',
+              thumbnailUrl: 'https://example.com/cover.png',
+              unfurledAt: expect.any(Number)
+            }
+          ]
+        }
+      );
+    });
+
+    it('should skip links another client already unfurled', async () => {
+      mockStoredMessage({
+        content: 'See',
+        senderId: 'user2',
+        attachments: [{ ...link, unfurledAt: 500 }]
+      });
+
+      const saved = await Messages.saveLinkPreview('chats/test', 'msg-1', link.url, null);
+
+      expect(saved).toBe(false);
+      expect(transaction.update).not.toHaveBeenCalled();
+    });
+
+    it('should skip deleted messages', async () => {
+      mockStoredMessage({ content: 'See', senderId: 'user2', deleted: true, attachments: [link] });
+
+      expect(await Messages.saveLinkPreview('chats/test', 'msg-1', link.url, null)).toBe(false);
+      expect(transaction.update).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('purgeDeletedMessages', () => {
+    it('should only purge messages past the retention window', async () => {
+      const { getDocs, writeBatch } = require('firebase/firestore');
+      const batch = { delete: jest.fn(), commit: jest.fn() };
+      writeBatch.mockReturnValue(batch);
+
+      const now = Date.now();
+      const oldRef = { id: 'old' };
+      const recentRef = { id: 'recent' };
+      getDocs
+        .mockResolvedValueOnce({
+          docs: [
+            { ref: oldRef, data: () => ({ deletedAt: new Date(now - 10000).toISOString() }) },
+            { ref: recentRef, data: () => ({ deletedAt: new Date(now - 10).toISOString() }) }
+          ]
+        })
+        .mockResolvedValueOnce([{ ref: { id: 'rev-1' } }]);
+
+      const purged = await Messages.purgeDeletedMessages('chats/test', 'admin1', 5000);
+
+      expect(purged).toBe(1);
+      expect(batch.delete).toHaveBeenCalledWith({ id: 'rev-1' });
+      expect(batch.delete).toHaveBeenCalledWith(oldRef);
+      expect(batch.delete).not.toHaveBeenCalledWith(recentRef);
+    });
+  });
+});
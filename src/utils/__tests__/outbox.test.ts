@@ -0,0 +1,205 @@
+import { Outbox } from '../outbox';
+import { Messages } from '../messages';
+import { Threads } from '../threads';
+
+jest.mock('firebase/firestore', () => ({
+  doc: jest.fn(),
+  collection: jest.fn()
+}));
+
+jest.mock('../../lib/firebase', () => ({
+  getDb: jest.fn(() => ({})),
+  onFirestoreNetworkChange: jest.fn()
+}));
+
+jest.mock('../messages', () => ({
+  Messages: { sendMessage: jest.fn() }
+}));
+
+jest.mock('../threads', () => ({
+  Threads: { addReply: jest.fn() }
+}));
+
+const flushPromises = () => new Promise((resolve) => setTimeout(resolve, 0));
+
+describe('Outbox', () => {
+  const message = {
+    content: 'Hello',
+    senderId: 'user1',
+    senderName: 'Alice'
+  };
+  let nextId = 0;
+  let path = '';
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+
+    // Static cache is shared between tests, so each test gets its own chat
+    nextId += 1;
+    path = `chats/outbox-${nextId}`;
+
+    const { doc, collection } = require('firebase/firestore');
+    collection.mockReturnValue({});
+    doc.mockImplementation(() => ({ id: `queued-${nextId}` }));
+    (Messages.sendMessage as jest.Mock).mockResolvedValue(undefined);
+    (Threads.addReply as jest.Mock).mockResolvedValue(`queued-${nextId}`);
+  });
+
+  afterEach(() => {
+    window.localStorage.clear();
+  });
+
+  describe('enqueue', () => {
+    it('should show the message as pending and remove it once sent', async () => {
+      const entry = Outbox.enqueue(path, message);
+
+      expect(entry).toEqual(
+        expect.objectContaining({ id: `queued-${nextId}`, status: 'pending' })
+      );
+      expect(Outbox.getEntries(path)).toHaveLength(1);
+      expect(Messages.sendMessage).toHaveBeenCalledWith(
+        path,
+        entry.id,
+        message
+      );
+
+      await flushPromises();
+
+      expect(Outbox.getEntries(path)).toEqual([]);
+      expect(window.localStorage.getItem(`human-agent-chat:outbox:${path}`))
+        .toBeNull();
+    });
+
+    it('should deliver thread replies through the thread transaction', () => {
+      const entry = Outbox.enqueue(path, message, 'root-1');
+
+      expect(Threads.addReply).toHaveBeenCalledWith(
+        path,
+        'root-1',
+        message,
+        entry.id
+      );
+      expect(Messages.sendMessage).not.toHaveBeenCalled();
+    });
+
+    it('should persist queued messages to localStorage', () => {
+      (Messages.sendMessage as jest.Mock).mockReturnValue(new Promise(() => {}));
+
+      const entry = Outbox.enqueue(path, message);
+
+      const stored = JSON.parse(
+        window.localStorage.getItem(`human-agent-chat:outbox:${path}`) || '[]'
+      );
+      expect(stored).toEqual([
+        expect.objectContaining({ id: entry.id, message })
+      ]);
+    });
+  });
+
+  describe('deliver', () => {
+    it('should mark the message as failed when the write fails', async () => {
+      (Messages.sendMessage as jest.Mock).mockRejectedValue(
+        new Error('permission-denied')
+      );
+
+      const entry = Outbox.enqueue(path, message);
+      await flushPromises();
+
+      expect(Outbox.getEntries(path)).toEqual([
+        expect.objectContaining({
+          id: entry.id,
+          status: 'failed',
+          error: 'permission-denied'
+        })
+      ]);
+    });
+
+    it('should deliver a failed message again on retry', async () => {
+      (Messages.sendMessage as jest.Mock).mockRejectedValueOnce(
+        new Error('unavailable')
+      );
+
+      const entry = Outbox.enqueue(path, message);
+      await flushPromises();
+      expect(Outbox.getEntries(path)[0].status).toBe('failed');
+
+      await expect(Outbox.retry(path, entry.id)).resolves.toBe(true);
+
+      expect(Messages.sendMessage).toHaveBeenCalledTimes(2);
+      expect(Outbox.getEntries(path)).toEqual([]);
+    });
+
+    it('should not send a message twice while it is in flight', () => {
+      (Messages.sendMessage as jest.Mock).mockReturnValue(new Promise(() => {}));
+
+      const entry = Outbox.enqueue(path, message);
+      Outbox.deliver(path, entry.id);
+
+      expect(Messages.sendMessage).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('discard', () => {
+    it('should drop the message and notify listeners', () => {
+      (Messages.sendMessage as jest.Mock).mockReturnValue(new Promise(() => {}));
+      const listener = jest.fn();
+      const unsubscribe = Outbox.subscribe(listener);
+
+      const entry = Outbox.enqueue(path, message);
+      Outbox.discard(path, entry.id);
+      unsubscribe();
+
+      expect(Outbox.getEntries(path)).toEqual([]);
+      expect(listener).toHaveBeenCalledWith(path);
+    });
+  });
+
+  describe('watchConnectivity', () => {
+    it('should flush queued messages when the network is re-enabled', async () => {
+      const { onFirestoreNetworkChange } = require('../../lib/firebase');
+      const removeListener = jest.fn();
+      onFirestoreNetworkChange.mockReturnValue(removeListener);
+      (Messages.sendMessage as jest.Mock).mockRejectedValueOnce(
+        new Error('offline')
+      );
+
+      Outbox.enqueue(path, message);
+      await flushPromises();
+
+      const stop = Outbox.watchConnectivity(path);
+      const notify = onFirestoreNetworkChange.mock.calls[0][0];
+
+      notify(false);
+      expect(Messages.sendMessage).toHaveBeenCalledTimes(1);
+
+      notify(true);
+      await flushPromises();
+
+      expect(Messages.sendMessage).toHaveBeenCalledTimes(2);
+      expect(Outbox.getEntries(path)).toEqual([]);
+
+      stop();
+      expect(removeListener).toHaveBeenCalled();
+    });
+
+    it('should flush queued messages when the browser comes back online', async () => {
+      const { onFirestoreNetworkChange } = require('../../lib/firebase');
+      onFirestoreNetworkChange.mockReturnValue(jest.fn());
+      (Messages.sendMessage as jest.Mock).mockRejectedValueOnce(
+        new Error('offline')
+      );
+
+      const stop = Outbox.watchConnectivity(path);
+      Outbox.enqueue(path, message);
+      await flushPromises();
+
+      window.dispatchEvent(new Event('online'));
+      await flushPromises();
+      stop();
+
+      expect(Messages.sendMessage).toHaveBeenCalledTimes(2);
+      expect(Outbox.getEntries(path)).toEqual([]);
+    });
+  });
+});
@@ -0,0 +1,119 @@
+import { Presence, getPresenceState } from '../presence';
+import { mockFirestore } from '../../test-utils/firestore';
+
+jest.mock('firebase/firestore', () => ({
+  doc: jest.fn(),
+  collection: jest.fn(),
+  onSnapshot: jest.fn(),
+  setDoc: jest.fn(),
+  serverTimestamp: jest.fn()
+}));
+
+jest.mock('../../lib/firebase', () => ({
+  getDb: jest.fn(() => ({}))
+}));
+
+describe('Presence', () => {
+  const user = { id: 'user1', displayName: 'Alice' };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+
+    const firestore = require('firebase/firestore');
+    const { setDoc, serverTimestamp } = firestore;
+    mockFirestore(firestore);
+    setDoc.mockResolvedValue(undefined);
+    serverTimestamp.mockReturnValue('SERVER_TIMESTAMP');
+  });
+
+  describe('setPresence', () => {
+    it('should write the heartbeat document of the user', async () => {
+      const { setDoc } = require('firebase/firestore');
+
+      await Presence.setPresence('chats/test', user, 'online');
+
+      expect(setDoc).toHaveBeenCalledWith(
+        { id: 'user1', path: 'chats/test/presence/user1' },
+        {
+          userId: 'user1',
+          displayName: 'Alice',
+          isAgent: false,
+          state: 'online',
+          lastSeenAt: 'SERVER_TIMESTAMP'
+        }
+      );
+    });
+  });
+
+  describe('track', () => {
+    afterEach(() => {
+      jest.useRealTimers();
+    });
+
+    it('should send heartbeats and go offline when stopped', () => {
+      jest.useFakeTimers();
+      const { setDoc } = require('firebase/firestore');
+      const states = () => setDoc.mock.calls.map((call: any[]) => call[1].state);
+
+      const stop = Presence.track('chats/test', user, 1000);
+      expect(states()).toEqual(['online']);
+
+      jest.advanceTimersByTime(2000);
+      expect(states()).toEqual(['online', 'online', 'online']);
+
+      stop();
+      jest.advanceTimersByTime(2000);
+      expect(states()).toEqual(['online', 'online', 'online', 'offline']);
+    });
+
+    it('should go offline when the page is closed', () => {
+      const { setDoc } = require('firebase/firestore');
+
+      const stop = Presence.track('chats/test', user);
+      window.dispatchEvent(new Event('pagehide'));
+
+      expect(setDoc).toHaveBeenLastCalledWith(
+        { id: 'user1', path: 'chats/test/presence/user1' },
+        expect.objectContaining({ state: 'offline' })
+      );
+      stop();
+    });
+  });
+
+  describe('subscribe', () => {
+    it('should report valid presence records', () => {
+      const { onSnapshot } = require('firebase/firestore');
+      const onPresence = jest.fn();
+      const lastSeenAt = { toDate: () => ({ toISOString: () => '2024-01-01T00:00:00.000Z' }) };
+
+      Presence.subscribe('chats/test', onPresence);
+      onSnapshot.mock.calls[0][1]({
+        forEach: (fn: any) =>
+          [
+            { id: 'user2', data: () => ({ state: 'away', lastSeenAt }) },
+            { id: 'user3', data: () => ({ state: 'busy', lastSeenAt }) }
+          ].forEach(fn)
+      });
+
+      expect(onPresence).toHaveBeenCalledWith([
+        { userId: 'user2', state: 'away', lastSeenAt: '2024-01-01T00:00:00.000Z' }
+      ]);
+    });
+  });
+});
+
+describe('getPresenceState', () => {
+  const lastSeenAt = '2024-01-01T00:00:00.000Z';
+  const seen = new Date(lastSeenAt).getTime();
+
+  it('should report recent heartbeats as their state', () => {
+    expect(getPresenceState({ userId: 'user1', state: 'online', lastSeenAt }, seen + 1000)).toBe('online');
+    expect(getPresenceState({ userId: 'user1', state: 'away', lastSeenAt }, seen + 1000)).toBe('away');
+  });
+
+  it('should treat missing or expired heartbeats as offline', () => {
+    expect(getPresenceState(undefined)).toBe('offline');
+    expect(getPresenceState({ userId: 'user1', state: 'online', lastSeenAt }, seen + 5 * 60 * 1000)).toBe('offline');
+  });
+});
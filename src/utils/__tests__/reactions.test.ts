@@ -0,0 +1,126 @@
+import { Reactions, aggregateReactions } from '../reactions';
+import {
+  createMockTransaction,
+  fakeSnapshot,
+  mockFirestore
+} from '../../test-utils/firestore';
+
+jest.mock('firebase/firestore', () => ({
+  doc: jest.fn(),
+  getDoc: jest.fn(),
+  updateDoc: jest.fn(),
+  deleteField: jest.fn(),
+  FieldPath: jest.fn(),
+  runTransaction: jest.fn()
+}));
+
+jest.mock('../../lib/firebase', () => ({
+  getDb: jest.fn(() => ({}))
+}));
+
+describe('Reactions', () => {
+  const user = { id: 'user1', displayName: 'Alice' };
+  const transaction = createMockTransaction();
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+
+    const firestore = require('firebase/firestore');
+    const { deleteField, FieldPath } = firestore;
+    mockFirestore(firestore, transaction);
+    deleteField.mockReturnValue({ type: 'delete' });
+    FieldPath.mockImplementation((...segments: string[]) => ({ segments }));
+  });
+
+  const mockMessageDoc = (data: Record<string, unknown> | null) => {
+    transaction.get.mockResolvedValue(fakeSnapshot(data));
+  };
+
+  it('should add a reaction when the user has not reacted yet', async () => {
+    mockMessageDoc({ reactions: { '👍': { user2: 'Bob' } } });
+
+    const reacted = await Reactions.toggleReaction('chats/test', 'msg-1', user, '👍');
+
+    expect(reacted).toBe(true);
+    expect(transaction.update).toHaveBeenCalledWith(
+      { id: 'msg-1', path: 'chats/test/messages/msg-1' },
+      { segments: ['reactions', '👍', 'user1'] },
+      'Alice'
+    );
+  });
+
+  it('should remove a reaction when the user already reacted', async () => {
+    mockMessageDoc({ reactions: { '👍': { user1: 'Alice' } } });
+
+    const reacted = await Reactions.toggleReaction('chats/test', 'msg-1', user, '👍');
+
+    expect(reacted).toBe(false);
+    expect(transaction.update).toHaveBeenCalledWith(
+      { id: 'msg-1', path: 'chats/test/messages/msg-1' },
+      { segments: ['reactions', '👍', 'user1'] },
+      { type: 'delete' }
+    );
+  });
+
+  it('should fall back to the user ID when there is no display name', async () => {
+    const { updateDoc } = require('firebase/firestore');
+
+    await Reactions.addReaction('chats/test', 'msg-1', { id: 'agent_assistant' }, '👀');
+
+    expect(updateDoc).toHaveBeenCalledWith(
+      { id: 'msg-1', path: 'chats/test/messages/msg-1' },
+      { segments: ['reactions', '👀', 'agent_assistant'] },
+      'agent_assistant'
+    );
+  });
+
+  it('should reject when the message does not exist', async () => {
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+    mockMessageDoc(null);
+
+    await expect(
+      Reactions.toggleReaction('chats/test', 'missing', user, '👍')
+    ).rejects.toThrow('Message missing not found at chats/test');
+    expect(transaction.update).not.toHaveBeenCalled();
+  });
+});
+
+describe('aggregateReactions', () => {
+  it('should return empty array when there are no reactions', () => {
+    expect(aggregateReactions(undefined, 'user1')).toEqual([]);
+    expect(aggregateReactions({}, 'user1')).toEqual([]);
+  });
+
+  it('should count reactions and resolve reactor names', () => {
+    const summaries = aggregateReactions(
+      {
+        '👍': { user1: 'Alice', agent_assistant: 'AI Assistant' },
+        '👀': { agent_assistant: 'AI Assistant' }
+      },
+      'user1'
+    );
+
+    expect(summaries).toEqual([
+      {
+        emoji: '👍',
+        count: 2,
+        userIds: ['user1', 'agent_assistant'],
+        userNames: ['Alice', 'AI Assistant'],
+        reactedByCurrentUser: true
+      },
+      {
+        emoji: '👀',
+        count: 1,
+        userIds: ['agent_assistant'],
+        userNames: ['AI Assistant'],
+        reactedByCurrentUser: false
+      }
+    ]);
+  });
+
+  it('should skip emojis whose reactions were all removed', () => {
+    const summaries = aggregateReactions({ '🎉': {} }, 'user1');
+    expect(summaries).toEqual([]);
+  });
+});
@@ -0,0 +1,201 @@
+import {
+  MAX_UNREAD_COUNT,
+  ReadReceipts,
+  findFirstUnreadMessageId,
+  groupReadReceiptsByMessage
+} from '../read-receipts';
+import { Message, ReadReceipt } from '../../types';
+import {
+  createMockTransaction,
+  fakeSnapshot,
+  mockFirestore
+} from '../../test-utils/firestore';
+
+jest.mock('firebase/firestore', () => ({
+  doc: jest.fn(),
+  collection: jest.fn(),
+  query: jest.fn(),
+  where: jest.fn(),
+  orderBy: jest.fn(),
+  limit: jest.fn(),
+  onSnapshot: jest.fn(),
+  getDoc: jest.fn(),
+  getDocs: jest.fn(),
+  runTransaction: jest.fn(),
+  Timestamp: { fromDate: jest.fn() }
+}));
+
+jest.mock('../../lib/firebase', () => ({
+  getDb: jest.fn(() => ({}))
+}));
+
+describe('ReadReceipts', () => {
+  const user = { id: 'user1', displayName: 'Alice' };
+  const message = { id: 'msg-2', createdAt: '2024-01-02T00:00:00.000Z' };
+  const transaction = createMockTransaction();
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+
+    const firestore = require('firebase/firestore');
+    const { Timestamp } = firestore;
+    mockFirestore(firestore, transaction);
+    Timestamp.fromDate.mockImplementation((date: Date) => ({
+      toDate: () => date
+    }));
+  });
+
+  const storedReceipt = (lastReadAt: string) =>
+    fakeSnapshot({
+      lastReadAt: { toDate: () => ({ toISOString: () => lastReadAt }) },
+      lastReadMessageId: 'msg-1'
+    });
+
+  describe('markRead', () => {
+    it('should store the read position of the user', async () => {
+      transaction.get.mockResolvedValue(fakeSnapshot(null));
+
+      const advanced = await ReadReceipts.markRead('chats/test', user, message);
+
+      expect(advanced).toBe(true);
+      expect(transaction.set).toHaveBeenCalledWith(
+        { id: 'user1', path: 'chats/test/reads/user1' },
+        {
+          userId: 'user1',
+          displayName: 'Alice',
+          lastReadAt: expect.anything(),
+          lastReadMessageId: 'msg-2'
+        }
+      );
+    });
+
+    it('should never move the read position backwards', async () => {
+      transaction.get.mockResolvedValue(storedReceipt('2024-01-03T00:00:00.000Z'));
+
+      const advanced = await ReadReceipts.markRead('chats/test', user, message);
+
+      expect(advanced).toBe(false);
+      expect(transaction.set).not.toHaveBeenCalled();
+    });
+
+    it('should reject messages without a creation time', async () => {
+      jest.spyOn(console, 'error').mockImplementation(() => {});
+
+      await expect(
+        ReadReceipts.markRead('chats/test', user, { id: 'msg-3', createdAt: '' })
+      ).rejects.toThrow('no valid creation time');
+    });
+  });
+
+  describe('getUnreadCount', () => {
+    const messageDoc = (id: string, data: Record<string, unknown>) => ({
+      id,
+      data: () => data
+    });
+
+    it('should count messages after the read position from other users', async () => {
+      const { getDoc, getDocs, where } = require('firebase/firestore');
+      getDoc.mockResolvedValue(storedReceipt('2024-01-01T00:00:00.000Z'));
+      getDocs.mockResolvedValue({
+        docs: [
+          messageDoc('msg-2', { senderId: 'agent1' }),
+          messageDoc('msg-3', { senderId: 'user1' }),
+          messageDoc('msg-4', { senderId: 'agent1', threadId: 'msg-1' }),
+          messageDoc('msg-5', { senderId: 'user2', deleted: true }),
+          messageDoc('msg-6', { senderId: 'user2' })
+        ]
+      });
+
+      const count = await ReadReceipts.getUnreadCount('chats/test', 'user1');
+
+      expect(count).toBe(2);
+      expect(where).toHaveBeenCalledWith('createdAt', '>', expect.anything());
+    });
+
+    it('should not count the last read message', async () => {
+      const { getDoc, getDocs } = require('firebase/firestore');
+      getDoc.mockResolvedValue(storedReceipt('2024-01-01T00:00:00.000Z'));
+      // Stored with microseconds, so it sorts after its own read position
+      getDocs.mockResolvedValue({
+        docs: [messageDoc('msg-1', { senderId: 'agent1' })]
+      });
+
+      const count = await ReadReceipts.getUnreadCount('chats/test', 'user1');
+
+      expect(count).toBe(0);
+    });
+
+    it('should count the newest messages when the chat was never read', async () => {
+      const { getDoc, getDocs, where, limit } = require('firebase/firestore');
+      getDoc.mockResolvedValue(fakeSnapshot(null));
+      getDocs.mockResolvedValue({
+        docs: [messageDoc('msg-1', { senderId: 'agent1' })]
+      });
+
+      const count = await ReadReceipts.getUnreadCount('chats/test', 'user1');
+
+      expect(count).toBe(1);
+      expect(where).not.toHaveBeenCalled();
+      expect(limit).toHaveBeenCalledWith(MAX_UNREAD_COUNT);
+    });
+  });
+
+  describe('getUnreadCounts', () => {
+    it('should key counts by chat path', async () => {
+      const spy = jest
+        .spyOn(ReadReceipts, 'getUnreadCount')
+        .mockImplementation(async (path: string) => (path === 'chats/a' ? 3 : 0));
+
+      const counts = await ReadReceipts.getUnreadCounts(['chats/a', 'chats/b'], 'user1');
+
+      expect(counts).toEqual({ 'chats/a': 3, 'chats/b': 0 });
+      spy.mockRestore();
+    });
+  });
+});
+
+describe('read receipts', () => {
+  const messages: Message[] = ['01', '02', '03'].map((day, index) => ({
+    id: `msg-${index + 1}`,
+    content: `Message ${index + 1}`,
+    senderId: index === 1 ? 'user1' : 'agent1',
+    createdAt: `2024-01-${day}T00:00:00.000Z`,
+    updatedAt: `2024-01-${day}T00:00:00.000Z`
+  }));
+  const receipt = (userId: string, lastReadAt: string): ReadReceipt => ({
+    userId,
+    lastReadAt,
+    lastReadMessageId: 'unused'
+  });
+
+  it('should place each reader under the newest message they read', () => {
+    const grouped = groupReadReceiptsByMessage(messages, [
+      receipt('user2', '2024-01-02T12:00:00.000Z'),
+      receipt('user3', '2024-01-03T00:00:00.000Z'),
+      receipt('user1', '2024-01-03T00:00:00.000Z')
+    ], ['user1']);
+
+    expect(Object.keys(grouped)).toEqual(['msg-2', 'msg-3']);
+    expect(grouped['msg-2'].map(r => r.userId)).toEqual(['user2']);
+    expect(grouped['msg-3'].map(r => r.userId)).toEqual(['user3']);
+  });
+
+  it('should skip readers who have not read any loaded message', () => {
+    const grouped = groupReadReceiptsByMessage(messages, [
+      receipt('user2', '2023-12-31T00:00:00.000Z')
+    ]);
+
+    expect(grouped).toEqual({});
+  });
+
+  it('should find the first unread message from someone else', () => {
+    expect(findFirstUnreadMessageId(messages, '2024-01-01T00:00:00.000Z', 'user1')).toBe('msg-3');
+    expect(findFirstUnreadMessageId(messages, '2024-01-01T00:00:00.000Z', 'user2')).toBe('msg-2');
+  });
+
+  it('should not place a divider when everything or nothing was read', () => {
+    expect(findFirstUnreadMessageId(messages, '2024-01-03T00:00:00.000Z', 'user1')).toBeNull();
+    expect(findFirstUnreadMessageId(messages, null, 'user1')).toBeNull();
+  });
+});
@@ -0,0 +1,109 @@
+/* eslint-disable no-script-url -- script URLs are the inputs under test */
+import { sanitizeMarkdown, sanitizeUrl } from '../sanitize';
+import { parseMarkdown } from '../markdown';
+
+describe('sanitize', () => {
+  describe('sanitizeUrl', () => {
+    it('should allow http, https, mailto and relative URLs', () => {
+      expect(sanitizeUrl('https://example.com/a?b=1#c')).toBe(
+        'https://example.com/a?b=1#c'
+      );
+      expect(sanitizeUrl('HTTP://example.com')).toBe('HTTP://example.com');
+      expect(sanitizeUrl('mailto:alice@example.com')).toBe(
+        'mailto:alice@example.com'
+      );
+      expect(sanitizeUrl('/docs/page')).toBe('/docs/page');
+      expect(sanitizeUrl('#section')).toBe('#section');
+    });
+
+    it.each([
+      'javascript:alert(1)',
+      'JavaScript:alert(1)',
+      ' javascript:alert(1)',
+      'java\tscript:alert(1)',
+      'java\nscript:alert(1)',
+      '\u0000javascript:alert(1)',
+      'vbscript:msgbox(1)',
+      'data:text/html;base64,PHNjcmlwdD5hbGVydCgxKTwvc2NyaXB0Pg==',
+      'file:///etc/passwd',
+      '&#106;avascript:alert(1)'
+    ])('should reject %j', (url) => {
+      expect(sanitizeUrl(url)).toBeNull();
+    });
+
+    it('should reject values that are not strings', () => {
+      expect(sanitizeUrl(undefined)).toBeNull();
+      expect(sanitizeUrl({ toString: () => 'https://example.com' })).toBeNull();
+    });
+  });
+
+  describe('sanitizeMarkdown', () => {
+    it('should turn unsafe links into their text', () => {
+      expect(
+        sanitizeMarkdown(parseMarkdown('[click me](javascript:alert(1))'))
+      ).toEqual([
+        { type: 'paragraph', children: [{ type: 'text', text: 'click me' }] }
+      ]);
+    });
+
+    it('should keep safe links', () => {
+      expect(sanitizeMarkdown(parseMarkdown('[site](https://example.com)'))).toEqual([
+        {
+          type: 'paragraph',
+          children: [
+            {
+              type: 'link',
+              href: 'https://example.com',
+              children: [{ type: 'text', text: 'site' }]
+            }
+          ]
+        }
+      ]);
+    });
+
+    it('should drop unknown node types and fields', () => {
+      expect(
+        sanitizeMarkdown([
+          { type: 'html', value: '<script>alert(1)</script>' },
+          {
+            type: 'paragraph',
+            onClick: 'alert(1)',
+            children: [
+              { type: 'text', text: 'hi', dangerouslySetInnerHTML: { __html: '<img>' } },
+              { type: 'image', src: 'x', onerror: 'alert(1)' }
+            ]
+          }
+        ])
+      ).toEqual([{ type: 'paragraph', children: [{ type: 'text', text: 'hi' }] }]);
+    });
+
+    it('should validate values used in attributes', () => {
+      expect(
+        sanitizeMarkdown([
+          { type: 'heading', depth: 99, children: [] },
+          { type: 'code', lang: '"><script>', text: 'x' },
+          {
+            type: 'table',
+            align: ['left;background:url(x)'],
+            header: [[{ type: 'text', text: 'A' }]],
+            rows: [[[{ type: 'text', text: '1' }]]]
+          }
+        ])
+      ).toEqual([
+        { type: 'heading', depth: 6, children: [] },
+        { type: 'code', text: 'x' },
+        {
+          type: 'table',
+          align: [null],
+          header: [[{ type: 'text', text: 'A' }]],
+          rows: [[[{ type: 'text', text: '1' }]]]
+        }
+      ]);
+    });
+
+    it('should return an empty tree for invalid input', () => {
+      expect(sanitizeMarkdown(null)).toEqual([]);
+      expect(sanitizeMarkdown('<script>')).toEqual([]);
+    });
+  });
+});
@@ -0,0 +1,148 @@
+import { Threads } from '../threads';
+import {
+  createMockTransaction,
+  fakeSnapshot,
+  mockFirestore
+} from '../../test-utils/firestore';
+
+jest.mock('firebase/firestore', () => ({
+  doc: jest.fn(),
+  collection: jest.fn(),
+  query: jest.fn(),
+  where: jest.fn(),
+  onSnapshot: jest.fn(),
+  runTransaction: jest.fn(),
+  serverTimestamp: jest.fn(),
+  increment: jest.fn()
+}));
+
+jest.mock('../../lib/firebase', () => ({
+  getDb: jest.fn(() => ({}))
+}));
+
+describe('Threads', () => {
+  const transaction = createMockTransaction();
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+
+    const firestore = require('firebase/firestore');
+    const { serverTimestamp, increment } = firestore;
+    mockFirestore(firestore, transaction, 'reply-1');
+    serverTimestamp.mockReturnValue('SERVER_TIMESTAMP');
+    increment.mockImplementation((n: number) => ({ increment: n }));
+  });
+
+  describe('addReply', () => {
+    const reply = {
+      content: 'Sounds good',
+      senderId: 'user3',
+      senderName: 'Carol'
+    };
+
+    it('should create the reply and update the root summary', async () => {
+      transaction.get.mockResolvedValue(
+        fakeSnapshot({
+          lastRepliers: [
+            { id: 'user1', name: 'Alice' },
+            { id: 'user2', name: 'Bob' },
+            { id: 'user3', name: 'Carol' }
+          ]
+        })
+      );
+
+      const replyId = await Threads.addReply('chats/test', 'root-1', reply);
+
+      expect(replyId).toBe('reply-1');
+      expect(transaction.set).toHaveBeenCalledWith(
+        { id: 'reply-1', path: 'chats/test/messages/reply-1' },
+        expect.objectContaining({
+          content: 'Sounds good',
+          threadId: 'root-1',
+          createdAt: 'SERVER_TIMESTAMP'
+        })
+      );
+      expect(transaction.update).toHaveBeenCalledWith(
+        { id: 'root-1', path: 'chats/test/messages/root-1' },
+        {
+          replyCount: { increment: 1 },
+          lastReplyAt: 'SERVER_TIMESTAMP',
+          lastRepliers: [
+            { id: 'user1', name: 'Alice' },
+            { id: 'user2', name: 'Bob' },
+            { id: 'user3', name: 'Carol' }
+          ]
+        }
+      );
+    });
+
+    it('should keep only the most recent repliers', async () => {
+      transaction.get.mockResolvedValue(
+        fakeSnapshot({
+          lastRepliers: [
+            { id: 'user1', name: 'Alice' },
+            { id: 'user2', name: 'Bob' },
+            { id: 'user4', name: 'Dan' }
+          ]
+        })
+      );
+
+      await Threads.addReply('chats/test', 'root-1', reply);
+
+      expect(transaction.update.mock.calls[0][1].lastRepliers).toEqual([
+        { id: 'user2', name: 'Bob' },
+        { id: 'user4', name: 'Dan' },
+        { id: 'user3', name: 'Carol' }
+      ]);
+    });
+
+    it('should reject when the root message does not exist', async () => {
+      jest.spyOn(console, 'error').mockImplementation(() => {});
+      transaction.get.mockResolvedValue(fakeSnapshot(null));
+
+      await expect(Threads.addReply('chats/test', 'missing', reply)).rejects.toThrow(
+        'Thread root missing not found at chats/test'
+      );
+      expect(transaction.set).not.toHaveBeenCalled();
+    });
+
+    it('should not count a redelivered reply twice', async () => {
+      transaction.get.mockImplementation(async (ref) =>
+        fakeSnapshot(ref.id === 'root-1' ? { lastRepliers: [] } : reply, ref.id)
+      );
+
+      const replyId = await Threads.addReply(
+        'chats/test',
+        'root-1',
+        reply,
+        'queued-1'
+      );
+
+      expect(replyId).toBe('queued-1');
+      expect(transaction.set).not.toHaveBeenCalled();
+      expect(transaction.update).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('subscribeToReplies', () => {
+    it('should deliver replies sorted oldest first', () => {
+      const { onSnapshot } = require('firebase/firestore');
+      const onReplies = jest.fn();
+
+      onSnapshot.mockImplementation((_query: any, onNext: any) => {
+        onNext({
+          docs: [
+            { id: 'b', data: () => ({ content: 'second', createdAt: '2024-01-01T00:02:00Z' }) },
+            { id: 'a', data: () => ({ content: 'first', createdAt: '2024-01-01T00:01:00Z' }) }
+          ]
+        });
+        return jest.fn();
+      });
+
+      Threads.subscribeToReplies('chats/test', 'root-1', onReplies);
+
+      expect(onReplies.mock.calls[0][0].map((m: any) => m.id)).toEqual(['a', 'b']);
+    });
+  });
+});
@@ -0,0 +1,164 @@
+import {
+  Typing,
+  formatAgentActivity,
+  formatTypingIndicator,
+  isActivityStatusActive
+} from '../typing';
+import { ActivityStatus } from '../../types';
+
+jest.mock('firebase/firestore', () => ({
+  doc: jest.fn(),
+  collection: jest.fn(),
+  onSnapshot: jest.fn(),
+  setDoc: jest.fn(),
+  deleteDoc: jest.fn(),
+  serverTimestamp: jest.fn()
+}));
+
+jest.mock('../../lib/firebase', () => ({
+  getDb: jest.fn(() => ({}))
+}));
+
+describe('Typing', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+
+    const { doc, serverTimestamp } = require('firebase/firestore');
+    doc.mockImplementation((_db: any, path: string, id: string) => ({
+      path: `${path}/${id}`
+    }));
+    serverTimestamp.mockReturnValue('SERVER_TIMESTAMP');
+  });
+
+  describe('setTyping', () => {
+    it('should write a typing status for the user', async () => {
+      const { setDoc } = require('firebase/firestore');
+
+      await Typing.setTyping(
+        'chats/test',
+        { id: 'user1', displayName: 'Alice' },
+        true
+      );
+
+      expect(setDoc).toHaveBeenCalledWith(
+        { path: 'chats/test/typing/user1' },
+        {
+          userId: 'user1',
+          displayName: 'Alice',
+          isAgent: false,
+          state: 'typing',
+          updatedAt: 'SERVER_TIMESTAMP'
+        }
+      );
+    });
+
+    it('should delete the status when typing stops', async () => {
+      const { deleteDoc, setDoc } = require('firebase/firestore');
+
+      await Typing.setTyping('chats/test', { id: 'user1' }, false);
+
+      expect(deleteDoc).toHaveBeenCalledWith({ path: 'chats/test/typing/user1' });
+      expect(setDoc).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('setAgentStatus', () => {
+    it('should publish the tool an agent is running', async () => {
+      const { setDoc } = require('firebase/firestore');
+
+      await Typing.setAgentStatus(
+        'chats/test',
+        { id: 'agent1', displayName: 'Assistant' },
+        { state: 'tool', toolName: 'web_search' }
+      );
+
+      expect(setDoc).toHaveBeenCalledWith(
+        { path: 'chats/test/typing/agent1' },
+        expect.objectContaining({
+          isAgent: true,
+          state: 'tool',
+          toolName: 'web_search'
+        })
+      );
+    });
+
+    it('should clear the agent status with null', async () => {
+      const { deleteDoc } = require('firebase/firestore');
+
+      await Typing.setAgentStatus('chats/test', { id: 'agent1' }, null);
+
+      expect(deleteDoc).toHaveBeenCalledWith({ path: 'chats/test/typing/agent1' });
+    });
+  });
+
+  describe('subscribe', () => {
+    it('should report other users and skip the current one', () => {
+      const { onSnapshot } = require('firebase/firestore');
+      const onStatuses = jest.fn();
+      const statusDoc = (id: string, data: any) => ({ id, data: () => data });
+      const updatedAt = { toDate: () => ({ toISOString: () => '2024-01-01T00:00:00.000Z' }) };
+
+      Typing.subscribe('chats/test', 'user1', onStatuses);
+      onSnapshot.mock.calls[0][1]({
+        forEach: (fn: any) =>
+          [
+            statusDoc('user1', { state: 'typing', updatedAt }),
+            statusDoc('user2', { displayName: 'Bob', state: 'typing', updatedAt }),
+            statusDoc('user3', { state: 'unknown', updatedAt })
+          ].forEach(fn)
+      });
+
+      expect(onStatuses).toHaveBeenCalledWith([
+        {
+          userId: 'user2',
+          displayName: 'Bob',
+          state: 'typing',
+          updatedAt: '2024-01-01T00:00:00.000Z'
+        }
+      ]);
+    });
+  });
+});
+
+describe('activity status', () => {
+  const status = (overrides = {}): ActivityStatus => ({
+    userId: 'user1',
+    displayName: 'Alice',
+    state: 'typing',
+    updatedAt: '2024-01-01T00:00:00.000Z',
+    ...overrides
+  });
+  const start = new Date('2024-01-01T00:00:00.000Z').getTime();
+
+  it('should expire typing statuses after a few seconds', () => {
+    expect(isActivityStatusActive(status(), start + 5000)).toBe(true);
+    expect(isActivityStatusActive(status(), start + 30000)).toBe(false);
+  });
+
+  it('should keep agent statuses longer', () => {
+    const agent = status({ isAgent: true, state: 'thinking' });
+    expect(isActivityStatusActive(agent, start + 30000)).toBe(true);
+  });
+
+  it('should describe who is typing', () => {
+    const bob = status({ userId: 'user2', displayName: 'Bob' });
+    const carol = status({ userId: 'user3', displayName: undefined });
+
+    expect(formatTypingIndicator([])).toBeNull();
+    expect(formatTypingIndicator([status()])).toBe('Alice is typing…');
+    expect(formatTypingIndicator([status(), bob])).toBe('Alice and Bob are typing…');
+    expect(formatTypingIndicator([status(), bob, carol])).toBe('Alice and 2 others are typing…');
+  });
+
+  it('should describe agent activity', () => {
+    const agent = (overrides = {}) =>
+      status({ userId: 'agent1', displayName: 'Assistant', isAgent: true, ...overrides });
+
+    expect(formatAgentActivity(agent({ state: 'thinking' }))).toBe('Assistant is thinking…');
+    expect(formatAgentActivity(agent({ state: 'tool', toolName: 'web_search' }))).toBe(
+      'Assistant is running web_search…'
+    );
+    expect(formatAgentActivity(agent({ state: 'writing' }))).toBe('Assistant is writing…');
+  });
+});
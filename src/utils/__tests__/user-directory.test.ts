@@ -0,0 +1,158 @@
+import { FirestoreUserDirectory, searchUsers } from '../user-directory';
+import { AccessControl } from '../access-control';
+import { AccessLevel, User } from '../../types';
+
+jest.mock('firebase/firestore', () => ({
+  doc: jest.fn(),
+  getDoc: jest.fn()
+}));
+
+jest.mock('../../lib/firebase', () => ({
+  getDb: jest.fn(() => ({}))
+}));
+
+jest.mock('../access-control', () => ({
+  AccessControl: { getMembers: jest.fn() }
+}));
+
+describe('FirestoreUserDirectory', () => {
+  const profiles: Record<string, any> = {
+    user1: { displayName: 'Alice Developer', role: 'user' },
+    agent_assistant: { displayName: 'AI Assistant' },
+    broken: { email: 'not-an-email' }
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+
+    const { getDb } = require('../../lib/firebase');
+    getDb.mockReturnValue({});
+
+    const { doc, getDoc } = require('firebase/firestore');
+    doc.mockImplementation((_db: any, path: string, id: string) => ({
+      path,
+      id
+    }));
+    getDoc.mockImplementation(async (ref: { id: string }) => ({
+      exists: () => ref.id in profiles,
+      data: () => profiles[ref.id]
+    }));
+    (AccessControl.getMembers as jest.Mock).mockResolvedValue(
+      ['user1', 'user2', 'broken'].map((userId) => ({
+        userId,
+        level: AccessLevel.WRITE,
+        addedAt: '2024-01-01T00:00:00Z'
+      }))
+    );
+  });
+
+  it('should list members and agents with their profiles', async () => {
+    const directory = new FirestoreUserDirectory('chats/test', [
+      'agent_assistant'
+    ]);
+
+    const users = await directory.search('');
+
+    expect(users).toEqual([
+      {
+        id: 'agent_assistant',
+        displayName: 'AI Assistant',
+        isAgent: true,
+        role: 'agent'
+      },
+      { id: 'user1', displayName: 'Alice Developer', role: 'user' },
+      { id: 'broken', displayName: 'broken', isAgent: false, role: 'user' },
+      { id: 'user2', displayName: 'user2', isAgent: false, role: 'user' }
+    ]);
+    expect(AccessControl.getMembers).toHaveBeenCalledWith('chats/test');
+  });
+
+  it('should read profiles from the configured collection', async () => {
+    const { doc } = require('firebase/firestore');
+    const directory = new FirestoreUserDirectory('chats/test', [], 'profiles');
+
+    await directory.getUser('user1');
+
+    expect(doc).toHaveBeenCalledWith({}, 'profiles', 'user1');
+  });
+
+  it('should filter by the query', async () => {
+    const directory = new FirestoreUserDirectory('chats/test');
+
+    const users = await directory.search('ali');
+
+    expect(users.map((user) => user.id)).toEqual(['user1']);
+  });
+
+  it('should load members once until refreshed', async () => {
+    const directory = new FirestoreUserDirectory('chats/test');
+
+    await directory.search('a');
+    await expect(directory.getUser('user2')).resolves.toEqual(
+      expect.objectContaining({ id: 'user2' })
+    );
+    expect(AccessControl.getMembers).toHaveBeenCalledTimes(1);
+
+    directory.refresh();
+    await directory.search('a');
+    expect(AccessControl.getMembers).toHaveBeenCalledTimes(2);
+  });
+
+  it('should return null for users outside the directory', async () => {
+    const directory = new FirestoreUserDirectory('chats/test');
+
+    await expect(directory.getUser('stranger')).resolves.toBeNull();
+  });
+
+  it('should list members whose profile cannot be read', async () => {
+    const { getDoc } = require('firebase/firestore');
+    getDoc.mockRejectedValue(new Error('permission-denied'));
+    const directory = new FirestoreUserDirectory('chats/test');
+
+    await expect(directory.getUser('user1')).resolves.toEqual({
+      id: 'user1',
+      displayName: 'user1',
+      isAgent: false,
+      role: 'user'
+    });
+  });
+});
+
+describe('searchUsers', () => {
+  const users: User[] = [
+    { id: 'user1', displayName: 'Alice Developer' },
+    { id: 'user2', displayName: 'Bob Manager' },
+    { id: 'carol_manager', displayName: 'Carol Manager' },
+    { id: 'ai_assistant', displayName: 'AI Assistant', isAgent: true },
+    { id: 'dave' }
+  ];
+
+  it('should rank prefix matches before other matches', () => {
+    expect(searchUsers(users, 'man').map(u => u.id)).toEqual([
+      'user2',
+      'carol_manager'
+    ]);
+    expect(searchUsers(users, 'a').map(u => u.id)).toEqual([
+      'ai_assistant',
+      'user1',
+      'user2',
+      'carol_manager',
+      'dave'
+    ]);
+  });
+
+  it('should match IDs and users without a display name', () => {
+    expect(searchUsers(users, 'DAV').map(u => u.id)).toEqual(['dave']);
+    expect(searchUsers(users, 'user').map(u => u.id)).toEqual(['user1', 'user2']);
+  });
+
+  it('should list everyone for an empty query up to the limit', () => {
+    expect(searchUsers(users, '', 2).map(u => u.id)).toEqual([
+      'ai_assistant',
+      'user1'
+    ]);
+    expect(searchUsers(users, 'zzz')).toEqual([]);
+  });
+});
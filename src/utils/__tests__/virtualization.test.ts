@@ -0,0 +1,40 @@
+import { computeOffsets, findVisibleRange } from '../virtualization';
+
+describe('virtualization', () => {
+  describe('computeOffsets', () => {
+    it('should accumulate row heights with the total last', () => {
+      expect(computeOffsets([10, 20, 30])).toEqual([0, 10, 30, 60]);
+    });
+
+    it('should handle an empty list', () => {
+      expect(computeOffsets([])).toEqual([0]);
+    });
+  });
+
+  describe('findVisibleRange', () => {
+    // Ten rows of 100px
+    const offsets = computeOffsets(new Array(10).fill(100));
+
+    it('should return the rows intersecting the viewport', () => {
+      expect(findVisibleRange(offsets, 250, 200)).toEqual({ start: 2, end: 5 });
+    });
+
+    it('should extend the range by the overscan', () => {
+      expect(findVisibleRange(offsets, 250, 200, 100)).toEqual({ start: 1, end: 6 });
+    });
+
+    it('should clamp to the list bounds', () => {
+      expect(findVisibleRange(offsets, -500, 200)).toEqual({ start: 0, end: 1 });
+      expect(findVisibleRange(offsets, 5000, 200)).toEqual({ start: 9, end: 10 });
+    });
+
+    it('should handle variable heights', () => {
+      const variable = computeOffsets([50, 400, 50, 50]);
+      expect(findVisibleRange(variable, 100, 100)).toEqual({ start: 1, end: 2 });
+    });
+
+    it('should return an empty range for an empty list', () => {
+      expect(findVisibleRange([0], 0, 100)).toEqual({ start: 0, end: 0 });
+    });
+  });
+});
@@ -0,0 +1,177 @@
+import { z } from 'zod';
+import { buildFormModel } from '../form-model';
+import {
+  ZOD_DSL_MAX_DEPTH,
+  formatZodDslError,
+  parseZodDsl
+} from '../zod-dsl';
+
+const parseSchema = (source: string) => {
+  const result = parseZodDsl(source);
+  if (!result.success) {
+    throw new Error(formatZodDslError(result.error));
+  }
+  return result.schema;
+};
+
+const parseError = (source: string) => {
+  const result = parseZodDsl(source);
+  if (result.success) {
+    throw new Error('Expected a parse error');
+  }
+  return result.error;
+};
+
+describe('zod-dsl', () => {
+  it('should build a schema from the supported subset', () => {
+    const schema = parseSchema(`
+      z.object({
+        name: z.string().min(1, 'Name is required').max(50).describe('Your full name'),
+        email: z.string().email("Invalid email"),
+        age: z.number().int().min(0).optional(),
+        plan: z.enum(['free', 'pro',]).default('free'),
+        subscribe: z.boolean(),
+        'home-city': z.string().nullable(),
+        tags: z.array(z.string()).max(3), // trailing comment
+        /* nested */ address: z.object({ city: z.string() })
+      });
+    `);
+
+    expect(schema).toBeInstanceOf(z.ZodObject);
+    expect(
+      schema.safeParse({
+        name: 'Ada',
+        email: 'ada@example.com',
+        subscribe: true,
+        'home-city': null,
+        tags: ['a'],
+        address: { city: 'London' }
+      })
+    ).toEqual({
+      success: true,
+      data: {
+        name: 'Ada',
+        email: 'ada@example.com',
+        plan: 'free',
+        subscribe: true,
+        'home-city': null,
+        tags: ['a'],
+        address: { city: 'London' }
+      }
+    });
+
+    expect(() => schema.parse({ name: '', email: 'nope' })).toThrow(
+      /Name is required[\s\S]*Invalid email/
+    );
+  });
+
+  it('should produce schemas the form generator understands', () => {
+    const model = buildFormModel(
+      parseSchema(
+        'z.object({ bio: z.string().max(500).describe("About you"), count: z.number().min(1) })'
+      )
+    );
+
+    expect(model.fields).toEqual([
+      expect.objectContaining({
+        name: 'bio',
+        kind: 'string',
+        description: 'About you',
+        maxLength: 500,
+        multiline: true
+      }),
+      expect.objectContaining({ name: 'count', kind: 'number', min: 1 })
+    ]);
+  });
+
+  it('should report where parsing failed', () => {
+    expect(parseError('z.object({\n  name: z.strng()\n})')).toEqual({
+      message: 'Unsupported type z.strng()',
+      offset: 21,
+      line: 2,
+      column: 11
+    });
+    expect(parseError('z.object({ a: z.string() b: z.string() })').message).toBe(
+      'Expected "," or "}"'
+    );
+    expect(parseError("z.object({ a: z.string(), a: z.number() })").message).toBe(
+      'Duplicate field "a"'
+    );
+    expect(parseError("z.string('unterminated)").message).toBe(
+      'Unterminated string'
+    );
+    expect(parseError('').message).toBe('The schema is empty');
+  });
+
+  it('should reject methods that do not apply to the type', () => {
+    expect(parseError('z.boolean().min(1)').message).toBe(
+      '.min() cannot be used on this type'
+    );
+    expect(parseError('z.number().email()').message).toBe(
+      '.email() cannot be used on this type'
+    );
+    expect(parseError('z.string().min("one")').message).toBe(
+      '.min() needs a number'
+    );
+    expect(parseError('z.number().default("five")').message).toBe(
+      'Default value does not match the type'
+    );
+    expect(parseError('z.enum([])').message).toBe(
+      'Enums need at least one value'
+    );
+    expect(parseError('z.number().length(2)').message).toBe(
+      '.length() cannot be used on this type'
+    );
+  });
+
+  it('should reject field names that would change the prototype', () => {
+    expect(parseError('z.object({ __proto__: z.string() })').message).toBe(
+      '"__proto__" cannot be used as a field name'
+    );
+    expect(parseError('z.object({ "__proto__": z.string() })').message).toBe(
+      '"__proto__" cannot be used as a field name'
+    );
+    expect(parseZodDsl('z.object({ constructor: z.string() })').success).toBe(true);
+  });
+
+  it('should never evaluate code', () => {
+    window.alert = jest.fn();
+
+    expect(parseError('z.object({ a: window.alert(1) })').message).toBe(
+      'Expected a schema starting with "z."'
+    );
+    expect(parseError('z.object({ a: (x = 1) })').message).toBe(
+      'Unexpected "="'
+    );
+    expect(parseError('z.string().refine(isValid)').message).toBe(
+      'Unsupported method .refine()'
+    );
+    // eslint-disable-next-line no-template-curly-in-string
+    expect(parseError('z.string().describe(`${alert(1)}`)').message).toBe(
+      'Template expressions are not allowed'
+    );
+    expect(parseError('z.string(); alert(1)').message).toBe(
+      'Unexpected text after schema'
+    );
+    expect(parseError('z.constructor("return 1")').message).toBe(
+      'Unsupported type z.constructor()'
+    );
+    expect(window.alert).not.toHaveBeenCalled();
+  });
+
+  it('should limit nesting depth', () => {
+    const nested =
+      'z.array('.repeat(ZOD_DSL_MAX_DEPTH) +
+      'z.string()' +
+      ')'.repeat(ZOD_DSL_MAX_DEPTH);
+
+    expect(parseError(nested).message).toBe('Schema is nested too deeply');
+    expect(
+      parseZodDsl(
+        'z.array('.repeat(ZOD_DSL_MAX_DEPTH - 1) +
+          'z.string()' +
+          ')'.repeat(ZOD_DSL_MAX_DEPTH - 1)
+      ).success
+    ).toBe(true);
+  });
+});
@@ -0,0 +1,98 @@
+import { format, isSameDay, isSameYear, subDays } from 'date-fns';
+
+/**
+ * How often relative timestamps are refreshed
+ */
+export const CLOCK_TICK_MS = 30 * 1000;
+
+/**
+ * Shared clock for relative timestamps and date labels
+ *
+ * A single interval drives every subscriber, so a long conversation does not
+ * start one timer per message, and it only runs while something is
+ * subscribed. Methods do not rely on `this` so they can be passed directly to
+ * `useSyncExternalStore`.
+ */
+export class Clock {
+  private static now = Date.now();
+  private static listeners = new Set<() => void>();
+  private static interval: ReturnType<typeof setInterval> | null = null;
+
+  /**
+   * Time of the latest tick, stable between ticks
+   */
+  static getTime(): number {
+    return Clock.now;
+  }
+
+  /**
+   * Follow clock ticks
+   *
+   * @returns Function to stop following
+   */
+  static subscribe(listener: () => void): () => void {
+    if (Clock.listeners.size === 0) {
+      // The clock was idle, so catch up before the first tick
+      Clock.now = Date.now();
+      Clock.interval = setInterval(Clock.tick, CLOCK_TICK_MS);
+    }
+    Clock.listeners.add(listener);
+
+    return () => {
+      Clock.listeners.delete(listener);
+      if (Clock.listeners.size === 0 && Clock.interval) {
+        clearInterval(Clock.interval);
+        Clock.interval = null;
+      }
+    };
+  }
+
+  private static tick(): void {
+    Clock.now = Date.now();
+    Clock.listeners.forEach((listener) => listener());
+  }
+}
+
+/**
+ * Label for the separator above the first message of a day
+ *
+ * @param timestamp Creation time of the message
+ * @param now Reference time for "Today" and "Yesterday"
+ * @returns "Today", "Yesterday", "Monday, March 4" or "March 4, 2023"
+ */
+export function formatDateSeparator(
+  timestamp: string,
+  now: Date = new Date()
+): string {
+  const date = new Date(timestamp);
+  if (isNaN(date.getTime())) return 'Unknown date';
+
+  if (isSameDay(date, now)) return 'Today';
+  if (isSameDay(date, subDays(now, 1))) return 'Yesterday';
+  return format(date, isSameYear(date, now) ? 'EEEE, MMMM d' : 'MMMM d, yyyy');
+}
+
+/**
+ * Time of day in the viewer's locale and timezone, e.g. "3:04 PM"
+ */
+export function formatClockTime(timestamp: string): string {
+  const date = new Date(timestamp);
+  if (isNaN(date.getTime())) return '';
+
+  return new Intl.DateTimeFormat(undefined, { timeStyle: 'short' }).format(
+    date
+  );
+}
+
+/**
+ * Full date and time in the viewer's locale and timezone, for tooltips
+ */
+export function formatAbsoluteTime(timestamp: string): string {
+  const date = new Date(timestamp);
+  if (isNaN(date.getTime())) return 'Unknown time';
+
+  return new Intl.DateTimeFormat(undefined, {
+    dateStyle: 'full',
+    timeStyle: 'long',
+  }).format(date);
+}
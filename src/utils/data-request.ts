@@ -0,0 +1,42 @@
+import { z } from 'zod';
+import { isJsonSchema, jsonSchemaToZod } from './json-schema';
+import { formatZodDslError, parseZodDsl } from './zod-dsl';
+
+/**
+ * A message's data request turned into a schema for FormModal, or the
+ * reason it could not be read
+ */
+export type DataRequestResult =
+  | { success: true; schema: z.ZodTypeAny }
+  | { success: false; error: string };
+
+/**
+ * Read the schema of a data request
+ *
+ * Requests are either Zod builder code (parsed with `parseZodDsl`) or a
+ * JSON Schema object (converted with `jsonSchemaToZod`).
+ */
+export function parseDataRequest(dataRequest: unknown): DataRequestResult {
+  if (typeof dataRequest === 'string') {
+    const result = parseZodDsl(dataRequest);
+    return result.success
+      ? result
+      : { success: false, error: formatZodDslError(result.error) };
+  }
+
+  if (isJsonSchema(dataRequest)) {
+    try {
+      return { success: true, schema: jsonSchemaToZod(dataRequest) };
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Invalid JSON Schema',
+      };
+    }
+  }
+
+  return {
+    success: false,
+    error: 'Expected Zod schema code or a JSON Schema object',
+  };
+}
@@ -0,0 +1,473 @@
+import { z } from 'zod';
+
+/**
+ * Path to a value inside form data, e.g. `['items', 0, 'name']`
+ */
+export type FormPath = Array<string | number>;
+
+interface BaseFormField {
+  /** Key in the parent object, or the index for array items */
+  name: string;
+  label: string;
+  /** Help text, from `.describe()` */
+  description?: string;
+  required: boolean;
+  /** Empty values are submitted as null instead of being left out */
+  nullable?: boolean;
+  defaultValue?: unknown;
+}
+
+export interface StringFormField extends BaseFormField {
+  kind: 'string';
+  format?: 'email' | 'url';
+  minLength?: number;
+  maxLength?: number;
+  /** Long answers get a textarea */
+  multiline?: boolean;
+}
+
+export interface NumberFormField extends BaseFormField {
+  kind: 'number';
+  integer?: boolean;
+  min?: number;
+  max?: number;
+}
+
+export interface BooleanFormField extends BaseFormField {
+  kind: 'boolean';
+}
+
+export interface DateFormField extends BaseFormField {
+  kind: 'date';
+}
+
+export interface EnumFormField extends BaseFormField {
+  kind: 'enum';
+  options: string[];
+}
+
+export interface ArrayFormField extends BaseFormField {
+  kind: 'array';
+  /** Template for each item; its name and label are set per item */
+  item: FormField;
+  minItems?: number;
+  maxItems?: number;
+}
+
+export interface ObjectFormField extends BaseFormField {
+  kind: 'object';
+  fields: FormField[];
+}
+
+/**
+ * Form model: the fields to render for a schema, independent of the schema
+ * language it came from
+ */
+export type FormField =
+  | StringFormField
+  | NumberFormField
+  | BooleanFormField
+  | DateFormField
+  | EnumFormField
+  | ArrayFormField
+  | ObjectFormField;
+
+/**
+ * Raw input state of a form, shaped like the model
+ */
+export type FormValues = Record<string, unknown>;
+
+/**
+ * Errors keyed by dotted path (`items.0.name`); the root uses ''
+ */
+export type FormErrors = Record<string, string>;
+
+/**
+ * Thrown when a schema uses types the form generator cannot render
+ */
+export class FormSchemaError extends Error {
+  constructor(
+    message: string,
+    public path: FormPath = []
+  ) {
+    super(path.length > 0 ? `${message} at "${path.join('.')}"` : message);
+    this.name = 'FormSchemaError';
+  }
+}
+
+/**
+ * Strings allowed to be longer than this are edited in a textarea
+ */
+const MULTILINE_MIN_LENGTH = 200;
+
+/**
+ * Turn a field key into a label: "firstName" / "first_name" → "First name"
+ */
+export function humanizeFieldName(name: string): string {
+  const words = name
+    .replace(/([a-z0-9])([A-Z])/g, '$1 $2')
+    .replace(/[_-]+/g, ' ')
+    .trim()
+    .toLowerCase();
+  return words.charAt(0).toUpperCase() + words.slice(1);
+}
+
+/**
+ * Join a path into the key used by FormErrors
+ */
+export function formPathKey(path: FormPath): string {
+  return path.join('.');
+}
+
+/**
+ * Build the form model for a Zod object schema
+ *
+ * Supports strings, numbers, booleans, dates, enums (including unions of
+ * string literals), arrays and nested objects, wrapped in any of optional,
+ * nullable, default or refinements.
+ *
+ * @throws FormSchemaError for other types or a non-object root
+ */
+export function buildFormModel(schema: z.ZodTypeAny): ObjectFormField {
+  const root = buildField(schema, '', []);
+  if (root.kind !== 'object') {
+    throw new FormSchemaError('Form schemas must be objects');
+  }
+  return root;
+}
+
+function buildField(
+  schema: z.ZodTypeAny,
+  name: string,
+  path: FormPath
+): FormField {
+  const base: BaseFormField = {
+    name,
+    label: humanizeFieldName(name),
+    required: true,
+  };
+
+  // Peel off wrappers, keeping the outermost description
+  let inner = schema;
+  for (;;) {
+    if (inner.description && !base.description) {
+      base.description = inner.description;
+    }
+
+    if (inner instanceof z.ZodOptional) {
+      base.required = false;
+      inner = inner.unwrap();
+    } else if (inner instanceof z.ZodNullable) {
+      base.required = false;
+      base.nullable = true;
+      inner = inner.unwrap();
+    } else if (inner instanceof z.ZodDefault) {
+      base.required = false;
+      base.defaultValue = inner._def.defaultValue();
+      inner = inner.removeDefault();
+    } else if (inner instanceof z.ZodEffects) {
+      inner = inner.innerType();
+    } else {
+      break;
+    }
+  }
+
+  if (inner instanceof z.ZodString) {
+    const field: StringFormField = { ...base, kind: 'string' };
+    inner._def.checks.forEach((check) => {
+      if (check.kind === 'email' || check.kind === 'url') {
+        field.format = check.kind;
+      } else if (check.kind === 'min') {
+        field.minLength = check.value;
+      } else if (check.kind === 'max') {
+        field.maxLength = check.value;
+      } else if (check.kind === 'length') {
+        field.minLength = check.value;
+        field.maxLength = check.value;
+      }
+    });
+    field.multiline =
+      !field.format &&
+      field.maxLength !== undefined &&
+      field.maxLength > MULTILINE_MIN_LENGTH;
+    return field;
+  }
+
+  if (inner instanceof z.ZodNumber) {
+    const field: NumberFormField = { ...base, kind: 'number' };
+    inner._def.checks.forEach((check) => {
+      if (check.kind === 'int') field.integer = true;
+      else if (check.kind === 'min') field.min = check.value;
+      else if (check.kind === 'max') field.max = check.value;
+    });
+    return field;
+  }
+
+  if (inner instanceof z.ZodBoolean) {
+    return { ...base, kind: 'boolean' };
+  }
+
+  if (inner instanceof z.ZodDate) {
+    return { ...base, kind: 'date' };
+  }
+
+  if (inner instanceof z.ZodEnum) {
+    return { ...base, kind: 'enum', options: [...inner.options] };
+  }
+
+  if (inner instanceof z.ZodNativeEnum) {
+    const options = Object.values(inner.enum).filter(
+      (value): value is string => typeof value === 'string'
+    );
+    return { ...base, kind: 'enum', options };
+  }
+
+  if (inner instanceof z.ZodUnion) {
+    const options = (inner.options as z.ZodTypeAny[]).map((option) =>
+      option instanceof z.ZodLiteral && typeof option.value === 'string'
+        ? option.value
+        : null
+    );
+    if (options.every((option): option is string => option !== null)) {
+      return { ...base, kind: 'enum', options };
+    }
+    throw new FormSchemaError('Only unions of text values are supported', path);
+  }
+
+  if (inner instanceof z.ZodArray) {
+    return {
+      ...base,
+      kind: 'array',
+      item: buildField(inner.element, '', [...path, 0]),
+      minItems: inner._def.minLength?.value,
+      maxItems: inner._def.maxLength?.value,
+    };
+  }
+
+  if (inner instanceof z.ZodObject) {
+    const shape = inner.shape as Record<string, z.ZodTypeAny>;
+    return {
+      ...base,
+      kind: 'object',
+      fields: Object.entries(shape).map(([key, child]) =>
+        buildField(child, key, [...path, key])
+      ),
+    };
+  }
+
+  throw new FormSchemaError(
+    `Unsupported field type ${inner._def.typeName || 'unknown'}`,
+    path
+  );
+}
+
+/**
+ * Initial input state for a field: its default, or an empty value
+ */
+export function getInitialFormValue(field: FormField): unknown {
+  const { defaultValue } = field;
+
+  switch (field.kind) {
+    case 'object': {
+      const defaults = (
+        defaultValue && typeof defaultValue === 'object' ? defaultValue : {}
+      ) as Record<string, unknown>;
+      return Object.fromEntries(
+        field.fields.map((child) => [
+          child.name,
+          defaults[child.name] !== undefined
+            ? toInputValue(child, defaults[child.name])
+            : getInitialFormValue(child),
+        ])
+      );
+    }
+    case 'array': {
+      if (Array.isArray(defaultValue)) {
+        return defaultValue.map((item) => toInputValue(field.item, item));
+      }
+      // Start with the minimum number of items
+      return Array.from({ length: field.minItems || 0 }, () =>
+        getInitialFormValue(field.item)
+      );
+    }
+    default:
+      return toInputValue(field, defaultValue);
+  }
+}
+
+/**
+ * Convert a data value into input state
+ */
+function toInputValue(field: FormField, value: unknown): unknown {
+  if (value === undefined || value === null) {
+    return field.kind === 'boolean'
+      ? false
+      : field.kind === 'object' || field.kind === 'array'
+        ? getInitialFormValue({ ...field, defaultValue: undefined })
+        : '';
+  }
+
+  switch (field.kind) {
+    case 'boolean':
+      return Boolean(value);
+    case 'date':
+      return value instanceof Date && !isNaN(value.getTime())
+        ? value.toISOString().slice(0, 10)
+        : String(value);
+    case 'object':
+    case 'array':
+      return getInitialFormValue({ ...field, defaultValue: value });
+    default:
+      return String(value);
+  }
+}
+
+/**
+ * Convert input state into data for validation
+ *
+ * Empty inputs are left out (or null for nullable fields), so required
+ * fields report "Required" and defaults apply to optional ones.
+ */
+export function toFormData(field: FormField, value: unknown): unknown {
+  const empty = field.nullable ? null : undefined;
+
+  switch (field.kind) {
+    case 'object': {
+      const values = (value || {}) as FormValues;
+      const data: Record<string, unknown> = {};
+      field.fields.forEach((child) => {
+        const childData = toFormData(child, values[child.name]);
+        if (childData !== undefined) data[child.name] = childData;
+      });
+      return data;
+    }
+    case 'array':
+      return Array.isArray(value)
+        ? value.map((item) => toFormData(field.item, item))
+        : [];
+    case 'boolean':
+      return Boolean(value);
+    case 'number':
+      return value === '' || value === undefined ? empty : Number(value);
+    case 'date':
+      return value === '' || value === undefined
+        ? empty
+        : new Date(String(value));
+    default:
+      return value === '' || value === undefined ? empty : value;
+  }
+}
+
+/**
+ * Collect the first error message for each field
+ */
+export function formatFormErrors(error: z.ZodError): FormErrors {
+  const errors: FormErrors = {};
+  error.issues.forEach((issue) => {
+    const key = formPathKey(issue.path);
+    if (!errors[key]) errors[key] = issue.message;
+  });
+  return errors;
+}
+
+/**
+ * Return a copy of the input state with the value at `path` replaced
+ */
+export function setFormValue<T>(values: T, path: FormPath, value: unknown): T {
+  if (path.length === 0) return value as T;
+
+  const [key, ...rest] = path;
+  const container = values as unknown as Record<string | number, unknown>;
+  const copy = (
+    Array.isArray(values) ? [...values] : { ...container }
+  ) as Record<string | number, unknown>;
+  copy[key] = setFormValue(container?.[key], rest, value);
+  return copy as unknown as T;
+}
+
+/**
+ * Submitted value with its label, for showing form data read-only
+ */
+export interface FormDataEntry {
+  key: string;
+  label: string;
+  /** Display text; unset for objects and arrays */
+  value?: string;
+  /** Entries of an object's fields or an array's items */
+  entries?: FormDataEntry[];
+}
+
+/**
+ * Label submitted form data with the fields of its form
+ *
+ * Fields come in form order and take their labels from the model; keys the
+ * model does not know (or all keys, without a model) are humanized.
+ * Missing values are left out.
+ */
+export function describeFormData(
+  field: ObjectFormField | null,
+  data: Record<string, unknown>
+): FormDataEntry[] {
+  const known = field ? field.fields : [];
+  const knownNames = new Set(known.map((child) => child.name));
+
+  const entries = known
+    .filter((child) => data[child.name] !== undefined)
+    .map((child) =>
+      describeValue(child.name, child.label, child, data[child.name])
+    );
+
+  Object.keys(data)
+    .filter((key) => !knownNames.has(key) && data[key] !== undefined)
+    .forEach((key) =>
+      entries.push(describeValue(key, humanizeFieldName(key), null, data[key]))
+    );
+
+  return entries;
+}
+
+function describeValue(
+  key: string,
+  label: string,
+  field: FormField | null,
+  value: unknown
+): FormDataEntry {
+  // Dates are read back from Firestore as Timestamps
+  const toDate = (value as { toDate?: () => Date } | null)?.toDate;
+  if (typeof toDate === 'function') value = toDate.call(value);
+
+  if (Array.isArray(value)) {
+    const item = field?.kind === 'array' ? field.item : null;
+    return {
+      key,
+      label,
+      entries: value.map((itemValue, index) =>
+        describeValue(String(index), `${label} ${index + 1}`, item, itemValue)
+      ),
+    };
+  }
+
+  if (value && typeof value === 'object' && !(value instanceof Date)) {
+    return {
+      key,
+      label,
+      entries: describeFormData(
+        field?.kind === 'object' ? field : null,
+        value as Record<string, unknown>
+      ),
+    };
+  }
+
+  return { key, label, value: formatDataValue(field, value) };
+}
+
+function formatDataValue(field: FormField | null, value: unknown): string {
+  if (value === null || value === '') return '—';
+  if (typeof value === 'boolean') return value ? 'Yes' : 'No';
+  if (value instanceof Date) return value.toISOString().slice(0, 10);
+  // Dates reach Firestore as ISO timestamps
+  if (field?.kind === 'date' && typeof value === 'string') {
+    return value.slice(0, 10);
+  }
+  return String(value);
+}
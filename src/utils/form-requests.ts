@@ -0,0 +1,299 @@
+import {
+  doc,
+  collection,
+  getDoc,
+  runTransaction,
+  serverTimestamp,
+} from 'firebase/firestore';
+import { getDb } from '../lib/firebase';
+import {
+  FormRequest,
+  FormRequestSummary,
+  FormResponse,
+  FormResponseMessage,
+  Message,
+  User,
+  formRequestSchema,
+  isAIAgent,
+} from '../types';
+import { isJsonSchema } from './json-schema';
+import { FORM_REQUEST_NOTICE } from './media-helpers';
+import { messageFromFirestore, messageToPlainText } from './message-helpers';
+
+/**
+ * Longest title taken from the request message
+ */
+const FORM_REQUEST_TITLE_MAX_LENGTH = 100;
+
+/**
+ * Title for a form request: the first line of its message
+ */
+export function getFormRequestTitle(content: string): string {
+  const text = messageToPlainText(content || '')
+    .replace(`[${FORM_REQUEST_NOTICE}]`, '')
+    .replace(FORM_REQUEST_NOTICE, '');
+  const firstLine = text
+    .split('\n')
+    .map((line) => line.trim())
+    .find(Boolean);
+
+  if (!firstLine) return 'Form request';
+  return firstLine.length > FORM_REQUEST_TITLE_MAX_LENGTH
+    ? `${firstLine.substring(0, FORM_REQUEST_TITLE_MAX_LENGTH - 3)}...`
+    : firstLine;
+}
+
+/**
+ * Build the form request document for a message with a data request
+ *
+ * The requester is the sender, and the message's recipients (if any) are
+ * the users asked to respond.
+ *
+ * @returns The request, or null if the message does not ask for data
+ */
+export function buildFormRequest(
+  messageId: string,
+  message: Omit<Message, 'id' | 'createdAt' | 'updatedAt'> & {
+    createdAt?: string;
+  }
+): FormRequest | null {
+  if (!message.dataRequest) return null;
+
+  // Firestore rejects undefined fields
+  const request: FormRequest = {
+    id: messageId,
+    messageId,
+    title: getFormRequestTitle(message.content),
+    schema: message.dataRequest,
+    requesterId: message.senderId,
+    recipientIds: message.recipientIds || [],
+    createdAt: message.createdAt || new Date().toISOString(),
+    responses: [],
+  };
+  if (message.formRequest?.expiresAt) {
+    request.expiresAt = message.formRequest.expiresAt;
+  }
+  if (message.formRequest?.private) {
+    request.private = true;
+  }
+  return request;
+}
+
+/**
+ * Progress of a request, as stored on its message
+ */
+export function summarizeFormRequest(request: FormRequest): FormRequestSummary {
+  const summary: FormRequestSummary = {
+    recipientCount: request.recipientIds.length,
+    responderIds: (request.responses || []).map((response) => response.userId),
+  };
+  if (request.expiresAt) summary.expiresAt = request.expiresAt;
+  if (request.private) summary.private = true;
+  return summary;
+}
+
+/**
+ * Whether a request no longer accepts responses
+ */
+export function isFormRequestExpired(
+  request: Pick<FormRequestSummary, 'expiresAt'>,
+  now: number = Date.now()
+): boolean {
+  if (!request.expiresAt) return false;
+  const expiresAt = new Date(request.expiresAt).getTime();
+  return !Number.isNaN(expiresAt) && expiresAt <= now;
+}
+
+/**
+ * "2 of 3 responded", or "2 responded" when anyone may respond
+ *
+ * @returns The label, or null before the first response to an open request
+ */
+export function formatFormRequestProgress(
+  summary: FormRequestSummary
+): string | null {
+  const count = summary.responderIds.length;
+  if (summary.recipientCount > 0) {
+    return `${count} of ${summary.recipientCount} responded`;
+  }
+  return count > 0 ? `${count} responded` : null;
+}
+
+/**
+ * Content of form responses sent before they were linked to their request
+ */
+const LEGACY_FORM_RESPONSE_CONTENT = 'Form response submitted';
+
+/**
+ * Submitted form data carried by a message
+ *
+ * Older clients sent the data as the message's `dataRequest`; those
+ * messages are read as responses without a request.
+ *
+ * @returns The response, or null if the message is not a form response
+ */
+export function getFormResponse(
+  message: Message
+): (Omit<FormResponseMessage, 'requestId'> & { requestId?: string }) | null {
+  if (message.formResponse) return message.formResponse;
+
+  if (
+    message.content === LEGACY_FORM_RESPONSE_CONTENT &&
+    typeof message.dataRequest === 'object' &&
+    !isJsonSchema(message.dataRequest)
+  ) {
+    return { data: message.dataRequest as Record<string, unknown> };
+  }
+  return null;
+}
+
+/**
+ * Whether a user may see the data of a form response
+ *
+ * Responses to private requests are shown to the requester (the message's
+ * recipient), the respondent (its sender) and admins.
+ */
+export function canViewFormResponse(
+  message: Message,
+  userId: string,
+  isAdmin: boolean = false
+): boolean {
+  if (!message.formResponse?.private || isAdmin) return true;
+  return (
+    message.senderId === userId ||
+    Boolean(message.recipientIds?.includes(userId))
+  );
+}
+
+/**
+ * Form requests and their responses
+ *
+ * A request is stored at `${path}/formRequests/{messageId}`, under the ID of
+ * the message that asks for the data, and is created when that message is
+ * sent (see `Messages.sendMessage`). Requests written directly to Firestore,
+ * e.g. by agents, get their document on the first response.
+ */
+export class FormRequests {
+  private static db = getDb();
+
+  /**
+   * Get a form request with its responses
+   */
+  static async getRequest(
+    path: string,
+    requestId: string
+  ): Promise<FormRequest | null> {
+    try {
+      const requestDoc = await getDoc(
+        doc(this.db, `${path}/formRequests`, requestId)
+      );
+      if (!requestDoc.exists()) return null;
+
+      return this.parseRequest(requestDoc.id, requestDoc.data());
+    } catch (error) {
+      console.error('Error getting form request:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Record a response and notify the requester
+   *
+   * In one transaction the response is appended to the request, the
+   * summary on the request message is updated and a message carrying the
+   * submitted data is sent to the requester. Each user can respond once,
+   * only before the request expires, and only if they were asked (when the
+   * request has recipients).
+   *
+   * @returns ID of the message sent to the requester
+   */
+  static async submitResponse(
+    path: string,
+    requestId: string,
+    user: User,
+    data: Record<string, unknown>
+  ): Promise<string> {
+    try {
+      const messagesRef = collection(this.db, `${path}/messages`);
+      const messageRef = doc(messagesRef, requestId);
+      const requestRef = doc(this.db, `${path}/formRequests`, requestId);
+      const responseRef = doc(messagesRef);
+
+      await runTransaction(this.db, async (transaction) => {
+        const messageDoc = await transaction.get(messageRef);
+        const requestDoc = await transaction.get(requestRef);
+        if (!messageDoc.exists()) {
+          throw new Error(`Message ${requestId} not found at ${path}`);
+        }
+
+        const message = messageFromFirestore(messageDoc.id, messageDoc.data());
+        const request = requestDoc.exists()
+          ? this.parseRequest(requestDoc.id, requestDoc.data())
+          : buildFormRequest(requestId, message);
+        if (!request || message.deleted) {
+          throw new Error(`Message ${requestId} does not request any data`);
+        }
+
+        const responses = request.responses || [];
+        if (isFormRequestExpired(request)) {
+          throw new Error('This form request has expired');
+        }
+        if (
+          request.recipientIds.length > 0 &&
+          !request.recipientIds.includes(user.id)
+        ) {
+          throw new Error('This form request was sent to other users');
+        }
+        if (responses.some((response) => response.userId === user.id)) {
+          throw new Error('You have already responded to this form request');
+        }
+
+        const response: FormResponse = {
+          userId: user.id,
+          data,
+          submittedAt: new Date().toISOString(),
+        };
+        if (user.displayName) response.userName = user.displayName;
+
+        // eslint-disable-next-line @typescript-eslint/no-unused-vars
+        const { id: _id, ...stored } = request;
+        const updated = { ...stored, responses: [...responses, response] };
+
+        transaction.set(requestRef, updated);
+        transaction.update(messageRef, {
+          formRequest: summarizeFormRequest(updated),
+        });
+
+        // Firestore rejects undefined fields
+        const notification: Record<string, any> = {
+          content: `Responded to "${request.title}"`,
+          senderId: user.id,
+          recipientIds: [request.requesterId],
+          fromAiAgent: isAIAgent(user),
+          toAiAgent: Boolean(message.fromAiAgent),
+          formResponse: { requestId, data },
+          metadata: { event: 'form_response', formRequestId: requestId },
+          deleted: false,
+          createdAt: serverTimestamp(),
+          updatedAt: serverTimestamp(),
+        };
+        if (user.displayName) notification.senderName = user.displayName;
+        if (user.role) notification.senderRole = user.role;
+        if (request.private) notification.formResponse.private = true;
+
+        transaction.set(responseRef, notification);
+      });
+
+      console.log(`📝 ${user.id} responded to form request ${requestId}`);
+      return responseRef.id;
+    } catch (error) {
+      console.error('Error submitting form response:', error);
+      throw error;
+    }
+  }
+
+  private static parseRequest(id: string, data: any): FormRequest | null {
+    const validationResult = formRequestSchema.safeParse({ ...data, id });
+    return validationResult.success ? validationResult.data : null;
+  }
+}
@@ -0,0 +1,365 @@
+/**
+ * Lightweight syntax highlighting for code blocks
+ *
+ * A single-pass tokenizer driven by small per-language definitions. It only
+ * distinguishes comments, strings, numbers, keywords and literals, which is
+ * enough for readable chat snippets without shipping a full grammar library.
+ */
+
+export type HighlightTokenType =
+  | 'plain'
+  | 'comment'
+  | 'string'
+  | 'number'
+  | 'keyword'
+  | 'literal'
+  | 'tag';
+
+export interface HighlightToken {
+  type: HighlightTokenType;
+  text: string;
+}
+
+interface LanguageDefinition {
+  keywords: string[];
+  literals?: string[];
+  lineComments?: string[];
+  blockComments?: [string, string][];
+  /** String delimiters; backticks may span lines */
+  strings?: string[];
+  caseInsensitive?: boolean;
+  /** Highlight `<tag` and `</tag` names */
+  markup?: boolean;
+  /** File extension used when downloading a snippet */
+  extension: string;
+}
+
+/**
+ * Split a space-separated word list
+ */
+const words = (list: string): string[] => list.split(' ');
+
+const C_LIKE_COMMENTS = {
+  lineComments: ['//'],
+  blockComments: [['/*', '*/']] as [string, string][],
+};
+
+const JS_KEYWORDS = words(
+  'async await break case catch class const continue default delete do ' +
+    'else export extends finally for from function if import in instanceof ' +
+    'let new of return static super switch this throw try typeof var void ' +
+    'while yield'
+);
+
+const TS_KEYWORDS = JS_KEYWORDS.concat(
+  words(
+    'abstract as declare enum implements interface keyof namespace private ' +
+      'protected public readonly type'
+  )
+);
+
+const JS_LITERALS = words('true false null undefined NaN Infinity');
+
+const LANGUAGES: Record<string, LanguageDefinition> = {
+  javascript: {
+    keywords: JS_KEYWORDS,
+    literals: JS_LITERALS,
+    strings: ['"', "'", '`'],
+    extension: 'js',
+    ...C_LIKE_COMMENTS,
+  },
+  typescript: {
+    keywords: TS_KEYWORDS,
+    literals: JS_LITERALS,
+    strings: ['"', "'", '`'],
+    extension: 'ts',
+    ...C_LIKE_COMMENTS,
+  },
+  json: {
+    keywords: [],
+    literals: ['true', 'false', 'null'],
+    strings: ['"'],
+    extension: 'json',
+  },
+  python: {
+    keywords: words(
+      'and as assert async await break class continue def del elif else ' +
+        'except finally for from global if import in is lambda nonlocal not or ' +
+        'pass raise return try while with yield'
+    ),
+    literals: ['True', 'False', 'None'],
+    lineComments: ['#'],
+    strings: ['"', "'"],
+    extension: 'py',
+  },
+  bash: {
+    keywords: words(
+      'case do done elif else esac export fi for function if in local return ' +
+        'then until while'
+    ),
+    lineComments: ['#'],
+    strings: ['"', "'"],
+    extension: 'sh',
+  },
+  sql: {
+    keywords: words(
+      'alter and as asc by create delete desc distinct drop from group having ' +
+        'in index insert into join left limit not on or order right select set ' +
+        'table update values where with'
+    ),
+    literals: ['null', 'true', 'false'],
+    lineComments: ['--'],
+    blockComments: [['/*', '*/']],
+    strings: ["'", '"'],
+    caseInsensitive: true,
+    extension: 'sql',
+  },
+  go: {
+    keywords: words(
+      'break case chan const continue default defer else fallthrough for func ' +
+        'go goto if import interface map package range return select struct ' +
+        'switch type var'
+    ),
+    literals: ['true', 'false', 'nil', 'iota'],
+    strings: ['"', "'", '`'],
+    extension: 'go',
+    ...C_LIKE_COMMENTS,
+  },
+  java: {
+    keywords: words(
+      'abstract break case catch class continue default do else enum extends ' +
+        'final finally for if implements import instanceof interface new ' +
+        'package private protected public return static super switch this throw ' +
+        'throws try void while'
+    ),
+    literals: ['true', 'false', 'null'],
+    strings: ['"', "'"],
+    extension: 'java',
+    ...C_LIKE_COMMENTS,
+  },
+  rust: {
+    keywords: words(
+      'as async await break const continue crate else enum fn for if impl in ' +
+        'let loop match mod move mut pub ref return self Self static struct ' +
+        'trait type unsafe use where while'
+    ),
+    literals: ['true', 'false', 'None', 'Some', 'Ok', 'Err'],
+    strings: ['"'],
+    extension: 'rs',
+    ...C_LIKE_COMMENTS,
+  },
+  css: {
+    keywords: ['important', 'media', 'import', 'keyframes', 'supports'],
+    blockComments: [['/*', '*/']],
+    strings: ['"', "'"],
+    extension: 'css',
+  },
+  html: {
+    keywords: [],
+    blockComments: [['<!--', '-->']],
+    strings: ['"', "'"],
+    markup: true,
+    extension: 'html',
+  },
+  yaml: {
+    keywords: [],
+    literals: ['true', 'false', 'null', 'yes', 'no'],
+    lineComments: ['#'],
+    strings: ['"', "'"],
+    extension: 'yaml',
+  },
+};
+
+const LANGUAGE_ALIASES: Record<string, string> = {
+  js: 'javascript',
+  jsx: 'javascript',
+  mjs: 'javascript',
+  ts: 'typescript',
+  tsx: 'typescript',
+  py: 'python',
+  sh: 'bash',
+  shell: 'bash',
+  zsh: 'bash',
+  golang: 'go',
+  rs: 'rust',
+  xml: 'html',
+  svg: 'html',
+  yml: 'yaml',
+};
+
+/**
+ * Extensions for languages that are shown but not highlighted
+ */
+const EXTRA_EXTENSIONS: Record<string, string> = {
+  c: 'c',
+  cpp: 'cpp',
+  csharp: 'cs',
+  cs: 'cs',
+  kotlin: 'kt',
+  markdown: 'md',
+  md: 'md',
+  php: 'php',
+  ruby: 'rb',
+  rb: 'rb',
+  swift: 'swift',
+  text: 'txt',
+  txt: 'txt',
+};
+
+/**
+ * Resolve a fence language (e.g. "ts", "Shell") to a supported language
+ *
+ * @returns The language name, or null if it is not highlighted
+ */
+export function resolveLanguage(lang?: string): string | null {
+  if (!lang) return null;
+
+  const name = lang.toLowerCase();
+  const resolved = LANGUAGE_ALIASES[name] || name;
+  return LANGUAGES[resolved] ? resolved : null;
+}
+
+/**
+ * File extension for downloading a snippet, "txt" when unknown
+ */
+export function getCodeFileExtension(lang?: string): string {
+  const language = resolveLanguage(lang);
+  if (language) return LANGUAGES[language].extension;
+
+  return (lang && EXTRA_EXTENSIONS[lang.toLowerCase()]) || 'txt';
+}
+
+/**
+ * Find the end of a string starting at `start`, honouring backslash escapes
+ * Only backtick strings may continue past the end of the line
+ */
+function findStringEnd(code: string, start: number, quote: string): number {
+  for (let i = start + 1; i < code.length; i++) {
+    if (code[i] === '\\') {
+      i++;
+    } else if (code[i] === quote) {
+      return i + 1;
+    } else if (code[i] === '\n' && quote !== '`') {
+      return i;
+    }
+  }
+  return code.length;
+}
+
+/**
+ * Split code into highlighted tokens
+ */
+export function tokenizeCode(code: string, lang?: string): HighlightToken[] {
+  const language = resolveLanguage(lang);
+  if (!language) return code ? [{ type: 'plain', text: code }] : [];
+
+  const definition = LANGUAGES[language];
+  const normalize = (word: string) =>
+    definition.caseInsensitive ? word.toLowerCase() : word;
+  const keywords = new Set(definition.keywords.map(normalize));
+  const literals = new Set((definition.literals || []).map(normalize));
+
+  const tokens: HighlightToken[] = [];
+  const push = (type: HighlightTokenType, text: string) => {
+    const last = tokens[tokens.length - 1];
+    if (last && last.type === type) {
+      last.text += text;
+    } else {
+      tokens.push({ type, text });
+    }
+  };
+
+  let i = 0;
+  while (i < code.length) {
+    const start = i;
+
+    const blockComment = definition.blockComments?.find(([open]) =>
+      code.startsWith(open, start)
+    );
+    if (blockComment) {
+      const close = code.indexOf(blockComment[1], i + blockComment[0].length);
+      const end = close === -1 ? code.length : close + blockComment[1].length;
+      push('comment', code.slice(i, end));
+      i = end;
+      continue;
+    }
+
+    const lineComment = definition.lineComments?.find(
+      (marker) =>
+        code.startsWith(marker, start) &&
+        // "#" only starts a comment at the start of a word
+        (marker !== '#' || start === 0 || /\s/.test(code[start - 1]))
+    );
+    if (lineComment) {
+      const newline = code.indexOf('\n', i);
+      const end = newline === -1 ? code.length : newline;
+      push('comment', code.slice(i, end));
+      i = end;
+      continue;
+    }
+
+    if (definition.strings?.includes(code[i])) {
+      const end = findStringEnd(code, i, code[i]);
+      push('string', code.slice(i, end));
+      i = end;
+      continue;
+    }
+
+    if (definition.markup && /^<\/?[A-Za-z]/.test(code.slice(i, i + 3))) {
+      const tag = code.slice(i).match(/^<\/?[\w:-]+/)![0];
+      push('tag', tag);
+      i += tag.length;
+      continue;
+    }
+
+    const number = code
+      .slice(i)
+      .match(/^(?:0x[\da-f]+|\d[\d_]*(?:\.\d+)?(?:e[+-]?\d+)?)/i);
+    if (number && (i === 0 || !/[\w$]/.test(code[i - 1]))) {
+      push('number', number[0]);
+      i += number[0].length;
+      continue;
+    }
+
+    const word = code.slice(i).match(/^[A-Za-z_$][\w$]*/);
+    if (word) {
+      const normalized = normalize(word[0]);
+      push(
+        keywords.has(normalized)
+          ? 'keyword'
+          : literals.has(normalized)
+            ? 'literal'
+            : 'plain',
+        word[0]
+      );
+      i += word[0].length;
+      continue;
+    }
+
+    push('plain', code[i]);
+    i++;
+  }
+
+  return tokens;
+}
+
+/**
+ * Highlight code and split it into lines for numbering
+ *
+ * @returns One token list per line
+ */
+export function highlightLines(
+  code: string,
+  lang?: string
+): HighlightToken[][] {
+  const lines: HighlightToken[][] = [[]];
+
+  tokenizeCode(code, lang).forEach((token) => {
+    token.text.split('\n').forEach((text, index) => {
+      if (index > 0) lines.push([]);
+      if (text) lines[lines.length - 1].push({ type: token.type, text });
+    });
+  });
+
+  return lines;
+}
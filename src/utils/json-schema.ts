@@ -0,0 +1,413 @@
+import { z } from 'zod';
+import { FormPath, FormSchemaError } from './form-model';
+
+/**
+ * Dialect written to exported schemas
+ */
+export const JSON_SCHEMA_DIALECT =
+  'https://json-schema.org/draft/2020-12/schema';
+
+type JsonSchemaType =
+  | 'object'
+  | 'array'
+  | 'string'
+  | 'number'
+  | 'integer'
+  | 'boolean'
+  | 'null';
+
+/**
+ * The subset of JSON Schema (draft 2020-12) used for data requests
+ */
+export interface JsonSchema {
+  $schema?: string;
+  type?: JsonSchemaType | JsonSchemaType[];
+  title?: string;
+  description?: string;
+  default?: unknown;
+  enum?: Array<string | null>;
+  anyOf?: JsonSchema[];
+  // Objects
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+  additionalProperties?: boolean;
+  // Arrays
+  items?: JsonSchema;
+  minItems?: number;
+  maxItems?: number;
+  // Strings
+  format?: string;
+  minLength?: number;
+  maxLength?: number;
+  // Numbers
+  minimum?: number;
+  maximum?: number;
+  exclusiveMinimum?: number;
+  exclusiveMaximum?: number;
+}
+
+/**
+ * Keywords that only document a schema and are ignored
+ */
+const ANNOTATION_KEYWORDS = new Set([
+  '$schema',
+  '$id',
+  '$comment',
+  'title',
+  'examples',
+  'readOnly',
+  'writeOnly',
+  'deprecated',
+]);
+
+/**
+ * Keywords converted by `jsonSchemaToZod`; any other keyword is rejected
+ * rather than silently weakening validation
+ */
+const SUPPORTED_KEYWORDS = new Set([
+  'type',
+  'description',
+  'default',
+  'enum',
+  'anyOf',
+  'properties',
+  'required',
+  'additionalProperties',
+  'items',
+  'minItems',
+  'maxItems',
+  'format',
+  'minLength',
+  'maxLength',
+  'minimum',
+  'maximum',
+  'exclusiveMinimum',
+  'exclusiveMaximum',
+]);
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+/**
+ * Whether a data request looks like a JSON Schema rather than Zod code
+ */
+export function isJsonSchema(value: unknown): value is JsonSchema {
+  return (
+    isPlainObject(value) &&
+    ('type' in value || 'properties' in value || '$schema' in value)
+  );
+}
+
+/**
+ * Convert a JSON Schema into an equivalent Zod schema
+ *
+ * Supports objects (`properties`, `required`, `additionalProperties:
+ * false`), arrays (`items`, `minItems`, `maxItems`), strings (`minLength`,
+ * `maxLength`, `format` email, uri or date), numbers and integers
+ * (`minimum`, `maximum` and their exclusive forms), booleans, string
+ * enums, nullable types (`["string", "null"]` or `anyOf` with
+ * `{ "type": "null" }`), `description` and `default`. Dates are
+ * submitted as "YYYY-MM-DD" strings.
+ *
+ * @throws FormSchemaError for keywords or types outside that subset
+ */
+export function jsonSchemaToZod(
+  schema: JsonSchema,
+  path: FormPath = []
+): z.ZodTypeAny {
+  if (!isPlainObject(schema as unknown)) {
+    throw new FormSchemaError('Expected a schema object', path);
+  }
+
+  Object.keys(schema).forEach((keyword) => {
+    if (!SUPPORTED_KEYWORDS.has(keyword) && !ANNOTATION_KEYWORDS.has(keyword)) {
+      throw new FormSchemaError(`Unsupported keyword "${keyword}"`, path);
+    }
+  });
+
+  let nullable = false;
+  let result: z.ZodTypeAny;
+
+  if (schema.anyOf) {
+    const options = schema.anyOf.filter((option) => option?.type !== 'null');
+    if (options.length !== 1 || schema.anyOf.length !== 2) {
+      throw new FormSchemaError(
+        'anyOf is only supported to make a type nullable',
+        path
+      );
+    }
+    nullable = true;
+    result = jsonSchemaToZod(options[0], path);
+  } else {
+    const types = Array.isArray(schema.type)
+      ? schema.type
+      : schema.type
+        ? [schema.type]
+        : [];
+    nullable = types.includes('null');
+    const [type, ...otherTypes] = types.filter((t) => t !== 'null');
+    if (otherTypes.length > 0) {
+      throw new FormSchemaError(
+        'Only one type besides "null" is allowed',
+        path
+      );
+    }
+
+    result = convertType(schema, type, path);
+    if (schema.enum?.includes(null)) nullable = true;
+  }
+
+  if (nullable) result = result.nullable();
+
+  if (schema.description) result = result.describe(schema.description);
+
+  if (schema.default !== undefined) {
+    if (!result.safeParse(schema.default).success) {
+      throw new FormSchemaError('Default value does not match the type', path);
+    }
+    result = result.default(schema.default);
+  }
+
+  return result;
+}
+
+/**
+ * "YYYY-MM-DD" for a date picked in the form
+ */
+const toIsoDate = (date: Date) => date.toISOString().slice(0, 10);
+
+function convertType(
+  schema: JsonSchema,
+  type: JsonSchemaType | undefined,
+  path: FormPath
+): z.ZodTypeAny {
+  if (schema.enum) {
+    const values = schema.enum.filter((value) => value !== null);
+    if (
+      values.length === 0 ||
+      !values.every((value) => typeof value === 'string') ||
+      (type && type !== 'string')
+    ) {
+      throw new FormSchemaError('Enums must list text values', path);
+    }
+    return z.enum(values as [string, ...string[]]);
+  }
+
+  const inferredType =
+    type || (schema.properties ? 'object' : schema.items ? 'array' : undefined);
+
+  switch (inferredType) {
+    case 'object': {
+      const required = new Set(schema.required || []);
+      const shape: Record<string, z.ZodTypeAny> = {};
+      Object.entries(schema.properties || {}).forEach(([key, property]) => {
+        const field = jsonSchemaToZod(property, [...path, key]);
+        // Fields with a default are already optional and must keep it
+        shape[key] =
+          required.has(key) || field.isOptional() ? field : field.optional();
+      });
+
+      const object = z.object(shape);
+      return schema.additionalProperties === false ? object.strict() : object;
+    }
+    case 'array': {
+      if (!schema.items) {
+        throw new FormSchemaError('Arrays need an items schema', path);
+      }
+      let array = z.array(jsonSchemaToZod(schema.items, [...path, 0]));
+      if (schema.minItems !== undefined) array = array.min(schema.minItems);
+      if (schema.maxItems !== undefined) array = array.max(schema.maxItems);
+      return array;
+    }
+    case 'string': {
+      if (schema.format === 'date') {
+        return z.date().transform(toIsoDate);
+      }
+
+      let string = z.string();
+      if (schema.format === 'email') string = string.email();
+      if (schema.format === 'uri') string = string.url();
+      if (schema.minLength !== undefined) {
+        string = string.min(schema.minLength);
+      }
+      if (schema.maxLength !== undefined) {
+        string = string.max(schema.maxLength);
+      }
+      return string;
+    }
+    case 'number':
+    case 'integer': {
+      let number = z.number();
+      if (inferredType === 'integer') number = number.int();
+      if (schema.minimum !== undefined) number = number.min(schema.minimum);
+      if (schema.maximum !== undefined) number = number.max(schema.maximum);
+      if (schema.exclusiveMinimum !== undefined) {
+        number = number.gt(schema.exclusiveMinimum);
+      }
+      if (schema.exclusiveMaximum !== undefined) {
+        number = number.lt(schema.exclusiveMaximum);
+      }
+      return number;
+    }
+    case 'boolean':
+      return z.boolean();
+    default:
+      throw new FormSchemaError(
+        inferredType ? `Unsupported type "${inferredType}"` : 'Missing type',
+        path
+      );
+  }
+}
+
+/**
+ * Export a Zod schema as JSON Schema, e.g. to describe a form to an agent
+ *
+ * Supports the types the form generator renders. Refinements and
+ * transforms cannot be expressed and are left out.
+ *
+ * @throws FormSchemaError for other types or checks
+ */
+export function zodToJsonSchema(schema: z.ZodTypeAny): JsonSchema {
+  return { $schema: JSON_SCHEMA_DIALECT, ...exportSchema(schema, []) };
+}
+
+function exportSchema(schema: z.ZodTypeAny, path: FormPath): JsonSchema {
+  const description = schema.description
+    ? { description: schema.description }
+    : {};
+
+  if (schema instanceof z.ZodOptional || schema instanceof z.ZodEffects) {
+    return { ...exportSchema(unwrap(schema), path), ...description };
+  }
+
+  if (schema instanceof z.ZodNullable) {
+    const inner = exportSchema(schema.unwrap(), path);
+    const nullable: JsonSchema =
+      typeof inner.type === 'string'
+        ? {
+            ...inner,
+            type: [inner.type, 'null'],
+            ...(inner.enum && { enum: [...inner.enum, null] }),
+          }
+        : { anyOf: [inner, { type: 'null' }] };
+    return { ...nullable, ...description };
+  }
+
+  if (schema instanceof z.ZodDefault) {
+    const value = schema._def.defaultValue();
+    return {
+      ...exportSchema(schema.removeDefault(), path),
+      ...description,
+      default: value instanceof Date ? toIsoDate(value) : value,
+    };
+  }
+
+  return { ...exportType(schema, path), ...description };
+}
+
+function unwrap(schema: z.ZodOptional<any> | z.ZodEffects<any>) {
+  return schema instanceof z.ZodOptional ? schema.unwrap() : schema.innerType();
+}
+
+function exportType(schema: z.ZodTypeAny, path: FormPath): JsonSchema {
+  const unsupportedCheck = (kind: string) =>
+    new FormSchemaError(`Cannot export the ${kind} check`, path);
+
+  if (schema instanceof z.ZodString) {
+    const json: JsonSchema = { type: 'string' };
+    schema._def.checks.forEach((check) => {
+      if (check.kind === 'email') json.format = 'email';
+      else if (check.kind === 'url') json.format = 'uri';
+      else if (check.kind === 'min') json.minLength = check.value;
+      else if (check.kind === 'max') json.maxLength = check.value;
+      else if (check.kind === 'length') {
+        json.minLength = check.value;
+        json.maxLength = check.value;
+      } else throw unsupportedCheck(check.kind);
+    });
+    return json;
+  }
+
+  if (schema instanceof z.ZodNumber) {
+    const json: JsonSchema = { type: 'number' };
+    schema._def.checks.forEach((check) => {
+      if (check.kind === 'int') json.type = 'integer';
+      else if (check.kind === 'min') {
+        if (check.inclusive) json.minimum = check.value;
+        else json.exclusiveMinimum = check.value;
+      } else if (check.kind === 'max') {
+        if (check.inclusive) json.maximum = check.value;
+        else json.exclusiveMaximum = check.value;
+      } else throw unsupportedCheck(check.kind);
+    });
+    return json;
+  }
+
+  if (schema instanceof z.ZodBoolean) return { type: 'boolean' };
+
+  if (schema instanceof z.ZodDate) return { type: 'string', format: 'date' };
+
+  if (schema instanceof z.ZodEnum) {
+    return { type: 'string', enum: [...schema.options] };
+  }
+
+  if (schema instanceof z.ZodNativeEnum) {
+    const values = Object.values(schema.enum).filter(
+      (value): value is string => typeof value === 'string'
+    );
+    return { type: 'string', enum: values };
+  }
+
+  if (schema instanceof z.ZodUnion) {
+    const options = schema.options as z.ZodTypeAny[];
+    if (
+      options.every(
+        (option) =>
+          option instanceof z.ZodLiteral && typeof option.value === 'string'
+      )
+    ) {
+      return {
+        type: 'string',
+        enum: options.map((option) => (option as z.ZodLiteral<string>).value),
+      };
+    }
+    throw new FormSchemaError('Only unions of text values are supported', path);
+  }
+
+  if (schema instanceof z.ZodArray) {
+    const json: JsonSchema = {
+      type: 'array',
+      items: exportSchema(schema.element, [...path, 0]),
+    };
+    if (schema._def.minLength) json.minItems = schema._def.minLength.value;
+    if (schema._def.maxLength) json.maxItems = schema._def.maxLength.value;
+    return json;
+  }
+
+  if (schema instanceof z.ZodObject) {
+    const shape = schema.shape as Record<string, z.ZodTypeAny>;
+    const json: JsonSchema = {
+      type: 'object',
+      properties: Object.fromEntries(
+        Object.entries(shape).map(([key, child]) => [
+          key,
+          exportSchema(child, [...path, key]),
+        ])
+      ),
+    };
+
+    const required = Object.keys(shape).filter(
+      (key) => !shape[key].isOptional()
+    );
+    if (required.length > 0) json.required = required;
+    if (schema._def.unknownKeys === 'strict') {
+      json.additionalProperties = false;
+    }
+    return json;
+  }
+
+  throw new FormSchemaError(
+    `Unsupported field type ${schema._def.typeName || 'unknown'}`,
+    path
+  );
+}
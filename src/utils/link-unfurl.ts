@@ -0,0 +1,156 @@
+import { LinkPreview, LinkUnfurler, MessageAttachment } from '../types';
+
+/**
+ * How long to wait for the unfurl endpoint before giving up
+ */
+export const UNFURL_TIMEOUT_MS = 5000;
+
+const MAX_TITLE_LENGTH = 200;
+const MAX_DESCRIPTION_LENGTH = 500;
+
+/**
+ * Trim and shorten a metadata string; empty values become undefined
+ */
+function cleanText(value: unknown, maxLength: number): string | undefined {
+  if (typeof value !== 'string') return undefined;
+
+  const text = value.replace(/\s+/g, ' ').trim();
+  if (!text) return undefined;
+  return text.length > maxLength ? `${text.slice(0, maxLength - 1)}…` : text;
+}
+
+/**
+ * Validate a preview returned by an unfurl endpoint
+ *
+ * Accepts `image` or `imageUrl`, resolves relative image URLs against the
+ * page and drops anything that is not http(s).
+ *
+ * @returns The preview, or null if it has no title, description or image
+ */
+export function normalizeLinkPreview(
+  data: unknown,
+  pageUrl: string
+): LinkPreview | null {
+  if (!data || typeof data !== 'object') return null;
+
+  const fields = data as Record<string, unknown>;
+  const preview: LinkPreview = {};
+
+  const title = cleanText(fields.title, MAX_TITLE_LENGTH);
+  if (title) preview.title = title;
+
+  const description = cleanText(fields.description, MAX_DESCRIPTION_LENGTH);
+  if (description) preview.description = description;
+
+  const image = fields.imageUrl ?? fields.image;
+  if (typeof image === 'string' && image.trim()) {
+    try {
+      const imageUrl = new URL(image.trim(), pageUrl);
+      if (imageUrl.protocol === 'https:' || imageUrl.protocol === 'http:') {
+        preview.imageUrl = imageUrl.href;
+      }
+    } catch {
+      // Unusable image URL: keep the text fields
+    }
+  }
+
+  return Object.keys(preview).length > 0 ? preview : null;
+}
+
+/**
+ * Copy a preview onto a link attachment
+ *
+ * The attachment is marked as unfurled even without a preview, so pages
+ * without metadata are not fetched again.
+ */
+export function applyLinkPreview(
+  attachment: MessageAttachment,
+  preview: LinkPreview | null,
+  unfurledAt = Date.now()
+): MessageAttachment {
+  // Firestore rejects undefined fields, so only set what was found
+  const updated: MessageAttachment = { ...attachment, unfurledAt };
+  if (preview?.title) updated.title = preview.title;
+  if (preview?.description) updated.description = preview.description;
+  if (preview?.imageUrl) updated.thumbnailUrl = preview.imageUrl;
+  return updated;
+}
+
+/**
+ * Link attachments that have not been unfurled yet
+ */
+export function needsUnfurl(attachment: MessageAttachment): boolean {
+  return attachment.type === 'link' && attachment.unfurledAt === undefined;
+}
+
+/**
+ * Unfurler backed by an HTTP endpoint
+ *
+ * Requests `GET {endpoint}?url=<page URL>` and expects a JSON body with
+ * optional `title`, `description` and `image` fields, as served by
+ * `scripts/unfurl-server.js`. A 404 means the page has no preview. Results
+ * are cached per URL; failed requests are tried again on the next call.
+ */
+export class HttpLinkUnfurler implements LinkUnfurler {
+  private cache = new Map<string, Promise<LinkPreview | null>>();
+
+  constructor(
+    private endpoint: string,
+    private timeoutMs = UNFURL_TIMEOUT_MS
+  ) {}
+
+  unfurl(url: string): Promise<LinkPreview | null> {
+    let preview = this.cache.get(url);
+    if (!preview) {
+      preview = this.fetchPreview(url).catch((error) => {
+        this.cache.delete(url);
+        throw error;
+      });
+      this.cache.set(url, preview);
+    }
+    return preview;
+  }
+
+  private async fetchPreview(url: string): Promise<LinkPreview | null> {
+    const requestUrl = new URL(this.endpoint, window.location.href);
+    requestUrl.searchParams.set('url', url);
+
+    const controller = new AbortController();
+    const timeout = setTimeout(() => controller.abort(), this.timeoutMs);
+
+    try {
+      const response = await fetch(requestUrl.href, {
+        signal: controller.signal,
+        headers: { Accept: 'application/json' },
+      });
+
+      if (response.status === 404) return null;
+      if (!response.ok) {
+        throw new Error(`Unfurl endpoint returned ${response.status}`);
+      }
+
+      return normalizeLinkPreview(await response.json(), url);
+    } catch (error) {
+      console.warn(`Could not unfurl ${url}:`, error);
+      throw error;
+    } finally {
+      clearTimeout(timeout);
+    }
+  }
+}
+
+/**
+ * Unfurler with fixed previews, for tests and demos without a network
+ *
+ * Unknown URLs have no preview. Requested URLs are recorded in `requests`.
+ */
+export class StubLinkUnfurler implements LinkUnfurler {
+  readonly requests: string[] = [];
+
+  constructor(private previews: Record<string, LinkPreview | null> = {}) {}
+
+  async unfurl(url: string): Promise<LinkPreview | null> {
+    this.requests.push(url);
+    return this.previews[url] ?? null;
+  }
+}
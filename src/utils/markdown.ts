@@ -0,0 +1,481 @@
+/**
+ * Minimal Markdown parser for message content
+ *
+ * Produces a small syntax tree (headings, lists, tables, block quotes,
+ * fenced code, links, emphasis, inline code and mentions) that is rendered
+ * as React elements. Raw HTML is never interpreted; it stays plain text.
+ * Run the tree through `sanitizeMarkdown` before rendering.
+ */
+
+export type TableAlign = 'left' | 'center' | 'right' | null;
+
+export type InlineNode =
+  | { type: 'text'; text: string }
+  | { type: 'strong'; children: InlineNode[] }
+  | { type: 'emphasis'; children: InlineNode[] }
+  | { type: 'strikethrough'; children: InlineNode[] }
+  | { type: 'inlineCode'; text: string }
+  | { type: 'link'; href: string; children: InlineNode[] }
+  | { type: 'mention'; userId: string; label: string }
+  | { type: 'break' };
+
+export type BlockNode =
+  | { type: 'heading'; depth: number; children: InlineNode[] }
+  | { type: 'paragraph'; children: InlineNode[] }
+  | { type: 'list'; ordered: boolean; start?: number; items: BlockNode[][] }
+  | {
+      type: 'table';
+      align: TableAlign[];
+      header: InlineNode[][];
+      rows: InlineNode[][][];
+    }
+  | { type: 'code'; lang?: string; text: string }
+  | { type: 'blockquote'; children: BlockNode[] }
+  | { type: 'thematicBreak' };
+
+/**
+ * Nesting depth (quotes, lists, emphasis) beyond which content is kept as
+ * plain text, so hostile input cannot exhaust the stack
+ */
+const MAX_NESTING = 8;
+
+const FENCE_REGEX = /^ {0,3}(`{3,}|~{3,})\s*([^`\s]*)[^`]*$/;
+const HEADING_REGEX = /^ {0,3}(#{1,6})(?:\s+(.*?))?(?:\s+#+)?\s*$/;
+const THEMATIC_BREAK_REGEX = /^ {0,3}([-*_])(?:\s*\1){2,}\s*$/;
+const BLOCKQUOTE_REGEX = /^ {0,3}>\s?/;
+const LIST_ITEM_REGEX = /^( {0,3})([-*+]|\d{1,9}[.)])\s+(.*)$/;
+const TABLE_DELIMITER_REGEX = /^\s*\|?\s*:?-+:?\s*(\|\s*:?-+:?\s*)*\|?\s*$/;
+const MENTION_TOKEN_REGEX = /^@\[([^\]]+)\]\(([^)\s]+)\)/;
+const PLAIN_MENTION_REGEX = /^@([\w.-]*\w)/;
+const AUTOLINK_REGEX = /^(?:https?:\/\/|mailto:)[^\s<>]*[^\s<>.,;:!?'")\]]/i;
+// Link target allowing one level of balanced parentheses, plus a title
+const LINK_TARGET_REGEX =
+  /^\(\s*<?((?:[^\s<>()]|\([^\s<>()]*\))*)>?(?:\s+"[^"]*")?\s*\)/;
+const ESCAPABLE = '\\`*_{}[]()#+-.!|~>@';
+
+/**
+ * Parse Markdown into block nodes
+ */
+export function parseMarkdown(content: string): BlockNode[] {
+  if (!content || typeof content !== 'string') return [];
+
+  return parseBlocks(content.replace(/\r\n?/g, '\n').split('\n'), 0);
+}
+
+function isTableStart(lines: string[], index: number): boolean {
+  return (
+    index + 1 < lines.length &&
+    lines[index].includes('|') &&
+    TABLE_DELIMITER_REGEX.test(lines[index + 1]) &&
+    lines[index + 1].includes('-')
+  );
+}
+
+function startsBlock(lines: string[], index: number): boolean {
+  const line = lines[index];
+  return (
+    FENCE_REGEX.test(line) ||
+    HEADING_REGEX.test(line) ||
+    THEMATIC_BREAK_REGEX.test(line) ||
+    BLOCKQUOTE_REGEX.test(line) ||
+    LIST_ITEM_REGEX.test(line) ||
+    isTableStart(lines, index)
+  );
+}
+
+function splitTableRow(line: string): string[] {
+  let row = line.trim();
+  if (row.startsWith('|')) row = row.slice(1);
+  if (row.endsWith('|') && !row.endsWith('\\|')) row = row.slice(0, -1);
+
+  // Split on pipes that are not escaped
+  const cells: string[] = [];
+  let cell = '';
+  for (let i = 0; i < row.length; i++) {
+    if (row[i] === '\\' && row[i + 1] === '|') {
+      cell += '|';
+      i++;
+    } else if (row[i] === '|') {
+      cells.push(cell.trim());
+      cell = '';
+    } else {
+      cell += row[i];
+    }
+  }
+  cells.push(cell.trim());
+
+  return cells;
+}
+
+function parseBlocks(lines: string[], depth: number): BlockNode[] {
+  const blocks: BlockNode[] = [];
+  let i = 0;
+
+  while (i < lines.length) {
+    const line = lines[i];
+
+    if (!line.trim()) {
+      i++;
+      continue;
+    }
+
+    // Fenced code
+    const fence = line.match(FENCE_REGEX);
+    if (fence) {
+      const marker = fence[1];
+      const text: string[] = [];
+      i++;
+      while (
+        i < lines.length &&
+        !new RegExp(`^ {0,3}${marker[0]}{${marker.length},}\\s*$`).test(
+          lines[i]
+        )
+      ) {
+        text.push(lines[i]);
+        i++;
+      }
+      i++; // Closing fence (or end of content)
+
+      const code: BlockNode = { type: 'code', text: text.join('\n') };
+      if (fence[2]) code.lang = fence[2];
+      blocks.push(code);
+      continue;
+    }
+
+    // Heading
+    const heading = line.match(HEADING_REGEX);
+    if (heading) {
+      blocks.push({
+        type: 'heading',
+        depth: heading[1].length,
+        children: parseInline(heading[2] || '', depth),
+      });
+      i++;
+      continue;
+    }
+
+    // Thematic break
+    if (THEMATIC_BREAK_REGEX.test(line)) {
+      blocks.push({ type: 'thematicBreak' });
+      i++;
+      continue;
+    }
+
+    // Block quote
+    if (BLOCKQUOTE_REGEX.test(line)) {
+      const quoted: string[] = [];
+      while (i < lines.length && lines[i].trim()) {
+        quoted.push(lines[i].replace(BLOCKQUOTE_REGEX, ''));
+        i++;
+      }
+
+      blocks.push(
+        depth < MAX_NESTING
+          ? { type: 'blockquote', children: parseBlocks(quoted, depth + 1) }
+          : {
+              type: 'paragraph',
+              children: [{ type: 'text', text: quoted.join('\n') }],
+            }
+      );
+      continue;
+    }
+
+    // List
+    const listItem = line.match(LIST_ITEM_REGEX);
+    if (listItem && depth < MAX_NESTING) {
+      const ordered = /\d/.test(listItem[2]);
+      const items: string[][] = [];
+
+      while (i < lines.length) {
+        const item = lines[i].match(LIST_ITEM_REGEX);
+        if (!item || /\d/.test(item[2]) !== ordered) break;
+
+        const contentIndent = item[1].length + item[2].length + 1;
+        const itemLines = [item[3]];
+        i++;
+
+        // Continuation lines: indented, or lazy paragraph text
+        while (i < lines.length) {
+          const next = lines[i];
+          if (!next.trim()) {
+            const following = lines[i + 1];
+            if (following !== undefined && /^\s{2,}\S/.test(following)) {
+              itemLines.push('');
+              i++;
+              continue;
+            }
+            break;
+          }
+          if (/^\s{2,}\S/.test(next)) {
+            itemLines.push(
+              next.slice(Math.min(contentIndent, next.search(/\S/)))
+            );
+            i++;
+            continue;
+          }
+          if (startsBlock(lines, i)) break;
+          itemLines.push(next);
+          i++;
+        }
+
+        items.push(itemLines);
+
+        // A blank line between items keeps the list going
+        if (
+          i + 1 < lines.length &&
+          !lines[i]?.trim() &&
+          LIST_ITEM_REGEX.test(lines[i + 1])
+        ) {
+          i++;
+        }
+      }
+
+      const list: BlockNode = {
+        type: 'list',
+        ordered,
+        items: items.map((itemLines) => parseBlocks(itemLines, depth + 1)),
+      };
+      if (ordered) {
+        const start = parseInt(listItem[2], 10);
+        if (start !== 1) list.start = start;
+      }
+      blocks.push(list);
+      continue;
+    }
+
+    // Table
+    if (isTableStart(lines, i)) {
+      const header = splitTableRow(line);
+      const align = splitTableRow(lines[i + 1]).map((cell): TableAlign => {
+        const left = cell.startsWith(':');
+        const right = cell.endsWith(':');
+        if (left && right) return 'center';
+        if (right) return 'right';
+        if (left) return 'left';
+        return null;
+      });
+      i += 2;
+
+      const rows: InlineNode[][][] = [];
+      while (i < lines.length && lines[i].trim() && lines[i].includes('|')) {
+        const cells = splitTableRow(lines[i]);
+        rows.push(
+          header.map((_, index) => parseInline(cells[index] || '', depth))
+        );
+        i++;
+      }
+
+      blocks.push({
+        type: 'table',
+        align: header.map((_, index) => align[index] ?? null),
+        header: header.map((cell) => parseInline(cell, depth)),
+        rows,
+      });
+      continue;
+    }
+
+    // Paragraph
+    const paragraph = [line];
+    i++;
+    while (i < lines.length && lines[i].trim() && !startsBlock(lines, i)) {
+      paragraph.push(lines[i]);
+      i++;
+    }
+
+    blocks.push({
+      type: 'paragraph',
+      children: parseInline(paragraph.join('\n').trim(), depth),
+    });
+  }
+
+  return blocks;
+}
+
+/**
+ * Find the closing delimiter of an emphasis span
+ */
+function findClosing(text: string, delimiter: string, from: number): number {
+  let index = text.indexOf(delimiter, from);
+  while (index !== -1) {
+    const escaped = text[index - 1] === '\\';
+    const intraword =
+      delimiter[0] === '_' && /\w/.test(text[index + delimiter.length] || '');
+    if (!escaped && !intraword && index > from) return index;
+    index = text.indexOf(delimiter, index + 1);
+  }
+  return -1;
+}
+
+/**
+ * Find the `]` matching the `[` at `start`
+ */
+function findLinkTextEnd(text: string, start: number): number {
+  let balance = 0;
+  for (let i = start; i < text.length; i++) {
+    if (text[i] === '\\') {
+      i++;
+    } else if (text[i] === '[') {
+      balance++;
+    } else if (text[i] === ']') {
+      balance--;
+      if (balance === 0) return i;
+    }
+  }
+  return -1;
+}
+
+/**
+ * Parse inline Markdown
+ */
+export function parseInline(text: string, depth = 0): InlineNode[] {
+  const nodes: InlineNode[] = [];
+  let buffer = '';
+
+  const flush = () => {
+    if (buffer) nodes.push({ type: 'text', text: buffer });
+    buffer = '';
+  };
+
+  if (depth >= MAX_NESTING) return text ? [{ type: 'text', text }] : [];
+
+  let i = 0;
+  while (i < text.length) {
+    const char = text[i];
+    const rest = text.slice(i);
+    const previous = text[i - 1];
+
+    // Escapes
+    if (char === '\\' && ESCAPABLE.includes(text[i + 1] || '')) {
+      buffer += text[i + 1];
+      i += 2;
+      continue;
+    }
+
+    // Line breaks are kept, as in chat messages
+    if (char === '\n') {
+      flush();
+      nodes.push({ type: 'break' });
+      i++;
+      continue;
+    }
+
+    // Inline code
+    if (char === '`') {
+      const ticks = rest.match(/^`+/)![0];
+      const end = text.indexOf(ticks, i + ticks.length);
+      if (end !== -1) {
+        flush();
+        const code = text.slice(i + ticks.length, end);
+        nodes.push({
+          type: 'inlineCode',
+          text: /^ .* $/.test(code) ? code.slice(1, -1) : code,
+        });
+        i = end + ticks.length;
+        continue;
+      }
+      buffer += ticks;
+      i += ticks.length;
+      continue;
+    }
+
+    // Mentions
+    if (char === '@' && (!previous || /\s|[([]/.test(previous))) {
+      const token = rest.match(MENTION_TOKEN_REGEX);
+      const plain = token ? null : rest.match(PLAIN_MENTION_REGEX);
+      if (token || plain) {
+        flush();
+        nodes.push(
+          token
+            ? { type: 'mention', userId: token[2], label: token[1] }
+            : { type: 'mention', userId: plain![1], label: plain![1] }
+        );
+        i += (token || plain)![0].length;
+        continue;
+      }
+    }
+
+    // Links
+    if (char === '[') {
+      const textEnd = findLinkTextEnd(text, i);
+      const target =
+        textEnd !== -1 && text.slice(textEnd + 1).match(LINK_TARGET_REGEX);
+      if (target) {
+        flush();
+        nodes.push({
+          type: 'link',
+          href: target[1],
+          children: parseInline(text.slice(i + 1, textEnd), depth + 1).filter(
+            (child) => child.type !== 'link'
+          ),
+        });
+        i = textEnd + 1 + target[0].length;
+        continue;
+      }
+    }
+
+    // Autolinks, bare or in angle brackets
+    const autolink =
+      (!previous || !/\w/.test(previous)) && rest.match(AUTOLINK_REGEX);
+    if (autolink) {
+      flush();
+      nodes.push({
+        type: 'link',
+        href: autolink[0],
+        children: [{ type: 'text', text: autolink[0] }],
+      });
+      i += autolink[0].length;
+      continue;
+    }
+    const bracketed = rest.match(/^<((?:https?:\/\/|mailto:)[^\s<>]+)>/i);
+    if (bracketed) {
+      flush();
+      nodes.push({
+        type: 'link',
+        href: bracketed[1],
+        children: [{ type: 'text', text: bracketed[1] }],
+      });
+      i += bracketed[0].length;
+      continue;
+    }
+
+    // Strong, emphasis and strikethrough
+    const delimiter = rest.startsWith('**')
+      ? '**'
+      : rest.startsWith('__')
+        ? '__'
+        : rest.startsWith('~~')
+          ? '~~'
+          : char === '*' || char === '_'
+            ? char
+            : null;
+    const opensWord =
+      delimiter &&
+      /\S/.test(text[i + delimiter.length] || '') &&
+      (delimiter[0] !== '_' || !previous || !/\w/.test(previous));
+    if (delimiter && opensWord) {
+      const end = findClosing(text, delimiter, i + delimiter.length);
+      if (end !== -1 && /\S/.test(text[end - 1])) {
+        flush();
+        const children = parseInline(
+          text.slice(i + delimiter.length, end),
+          depth + 1
+        );
+        nodes.push(
+          delimiter === '~~'
+            ? { type: 'strikethrough', children }
+            : delimiter.length === 2
+              ? { type: 'strong', children }
+              : { type: 'emphasis', children }
+        );
+        i = end + delimiter.length;
+        continue;
+      }
+    }
+
+    buffer += char;
+    i++;
+  }
+
+  flush();
+  return nodes;
+}
@@ -1,242 +1,393 @@
-import { MessageAttachment, attachmentSchema } from '../types';
+import {
+  GalleryImage,
+  Message,
+  MessageAttachment,
+  attachmentSchema,
+} from '../types';
 
 /**
- * Detects media URLs in message content
+ * Turns URLs found in message content into attachments
  *
- * @param content Message content to process
- * @returns Array of detected attachments
+ * Detectors run from the highest priority down. An exclusive detector claims
+ * the text it matched, so lower-priority detectors (such as the generic link
+ * detector) skip it.
  */
-export function detectMediaInContent(content: string): MessageAttachment[] {
-  if (typeof content !== 'string' || !content.trim()) {
-    return [];
-  }
+export interface AttachmentDetector {
+  /** Unique name; registering the same name again replaces the detector */
+  name: string;
+  /** Global regular expression matching candidate URLs */
+  pattern: RegExp;
+  /**
+   * Build the attachment for a match, or return null to ignore it
+   *
+   * @param match The regular expression match
+   * @param index Number of attachments this detector has already created
+   */
+  create: (match: RegExpMatchArray, index: number) => MessageAttachment | null;
+  /** Defaults to 0; the built-in YouTube detector uses 100, links -100 */
+  priority?: number;
+  /** Defaults to true */
+  exclusive?: boolean;
+}
 
-  const attachments: MessageAttachment[] = [];
+/**
+ * Build a detector for direct links to files with the given extensions
+ */
+function createFileDetector(
+  name: string,
+  type: MessageAttachment['type'],
+  label: string,
+  mimeTypes: Record<string, string>
+): AttachmentDetector {
+  const extensions = Object.keys(mimeTypes).join('|');
 
-  // Detect YouTube videos
-  const youtubeRegex =
-    /(?:https?:\/\/)?(?:www\.)?(?:youtube\.com\/(?:[^/\n\s]+\/\S+\/|(?:v|e(?:mbed)?)\/|\S*?[?&]v=)|youtu\.be\/)([a-zA-Z0-9_-]{11})/g;
-  const youtubeMatches = [...content.matchAll(youtubeRegex)];
+  return {
+    name,
+    pattern: new RegExp(
+      `https?:\\/\\/\\S+\\.(${extensions})(\\?[^"']*)?(?=['")\\s]|$)`,
+      'gi'
+    ),
+    create: (match, index) => ({
+      type,
+      url: match[0],
+      title: `${label} ${index + 1}`,
+      mimeType: mimeTypes[match[1].toLowerCase()],
+    }),
+  };
+}
 
-  if (youtubeMatches.length > 0) {
-    youtubeMatches.forEach((match) => {
-      const videoId = match[1];
-      const url = match[0];
+/**
+ * Detectors shipped with the chat, in their default order
+ */
+export const BUILT_IN_ATTACHMENT_DETECTORS: AttachmentDetector[] = [
+  {
+    name: 'youtube',
+    pattern:
+      /(?:https?:\/\/)?(?:(?:www|m|music)\.)?(?:youtube\.com|youtu\.be)\/[^\s"'<>)]+/g,
+    priority: 100,
+    create: (match) => {
+      // Keep the full URL so start times and playlists survive
+      const url = match[0]
+        .replace(/[.,!?;:]+$/, '')
+        .replace(/^(?!https?:\/\/)/, 'https://');
+      const video = parseYouTubeUrl(url);
+      if (!video) return null;
 
       const youtubeItem: MessageAttachment = {
         type: 'youtube',
         url,
-        thumbnailUrl: `https://img.youtube.com/vi/${videoId}/hqdefault.jpg`,
-        title: 'YouTube Video',
+        title: video.videoId ? 'YouTube Video' : 'YouTube Playlist',
       };
-
-      // Validate the object with Zod schema
-      const validation = attachmentSchema.safeParse(youtubeItem);
-      if (validation.success) {
-        attachments.push(youtubeItem);
-      } else {
-        console.warn('YouTube attachment validation failed:', validation.error);
-        attachments.push(youtubeItem);
+      if (video.videoId) {
+        youtubeItem.thumbnailUrl = getYouTubeThumbnailUrl(video.videoId);
       }
-    });
+      return youtubeItem;
+    },
+  },
+  {
+    name: 'image',
+    pattern:
+      /(https?:\/\/\S+\.(jpeg|jpg|gif|png|webp)(\?[^"'\s]*)?|https?:\/\/images\.unsplash\.com\/\S+)(?=['")\s]|$)/gi,
+    // Extension-less image URLs (Unsplash) also stay available as links
+    exclusive: false,
+    create: (match, index) => ({
+      type: 'image',
+      url: match[0],
+      title: `Image ${index + 1}`,
+    }),
+  },
+  createFileDetector('audio', 'audio', 'Audio', {
+    mp3: 'audio/mpeg',
+    wav: 'audio/wav',
+    ogg: 'audio/ogg',
+    m4a: 'audio/m4a',
+  }),
+  createFileDetector('video', 'video', 'Video', {
+    mp4: 'video/mp4',
+    webm: 'video/webm',
+    mov: 'video/mov',
+    avi: 'video/avi',
+  }),
+  createFileDetector('document', 'document', 'Document', {
+    pdf: 'application/pdf',
+    doc: 'application/msword',
+    docx: 'application/msword',
+    xls: 'application/vnd.ms-excel',
+    xlsx: 'application/vnd.ms-excel',
+    ppt: 'application/vnd.ms-powerpoint',
+    pptx: 'application/vnd.ms-powerpoint',
+    txt: 'text/plain',
+  }),
+  createFileDetector('file', 'file', 'File', {
+    zip: 'application/zip',
+    rar: 'application/x-rar-compressed',
+    tar: 'application/x-compressed',
+    gz: 'application/x-compressed',
+    exe: 'application/x-msdownload',
+    dmg: 'application/x-apple-diskimage',
+    bin: 'application/octet-stream',
+  }),
+  {
+    // Regular links that aren't one of the above
+    name: 'link',
+    pattern:
+      /https?:\/\/(?!.*\.(jpg|jpeg|png|gif|webp|mp3|wav|ogg|m4a|mp4|webm|mov|avi|pdf|doc|docx|xls|xlsx|ppt|pptx|txt|zip|rar|tar|gz|exe|dmg|bin))[^\s]+/gi,
+    priority: -100,
+    create: (match, index) => ({
+      type: 'link',
+      url: match[0],
+      title: `Link ${index + 1}`,
+    }),
+  },
+];
+
+const attachmentDetectors = new Map<string, AttachmentDetector>(
+  BUILT_IN_ATTACHMENT_DETECTORS.map((detector) => [detector.name, detector])
+);
+
+/**
+ * Add an attachment detector, or replace the one with the same name
+ *
+ * @returns A function that removes the detector again
+ */
+export function registerAttachmentDetector(
+  detector: AttachmentDetector
+): () => void {
+  if (!detector.pattern.global) {
+    throw new Error(
+      `Attachment detector "${detector.name}" needs a global (/g) pattern`
+    );
   }
 
-  // Detect images
-  const imageRegex =
-    /(https?:\/\/\S+\.(jpeg|jpg|gif|png|webp)(\?[^"'\s]*)?|https?:\/\/images\.unsplash\.com\/\S+)(?=['")\s]|$)/gi;
-  const imageMatches = [...content.matchAll(imageRegex)];
+  attachmentDetectors.set(detector.name, detector);
 
-  if (imageMatches.length > 0) {
-    const imageUrls = imageMatches.map((match) => match[0]);
+  return () => {
+    if (attachmentDetectors.get(detector.name) === detector) {
+      attachmentDetectors.delete(detector.name);
+    }
+  };
+}
 
-    // Each image becomes a separate attachment
-    imageUrls.forEach((imgUrl, index) => {
-      const imageItem: MessageAttachment = {
-        type: 'image',
-        url: imgUrl,
-        title: `Image ${index + 1}`,
-      };
+/**
+ * Remove an attachment detector by name, built-in ones included
+ */
+export function unregisterAttachmentDetector(name: string): void {
+  attachmentDetectors.delete(name);
+}
 
-      // Validate the object with Zod schema
-      const validation = attachmentSchema.safeParse(imageItem);
-      if (validation.success) {
-        attachments.push(imageItem);
-      } else {
-        console.warn('Image attachment validation failed:', validation.error);
-        attachments.push(imageItem);
-      }
-    });
-  }
+/**
+ * Put the built-in detectors back and drop all others
+ */
+export function resetAttachmentDetectors(): void {
+  attachmentDetectors.clear();
+  BUILT_IN_ATTACHMENT_DETECTORS.forEach((detector) =>
+    attachmentDetectors.set(detector.name, detector)
+  );
+}
 
-  // Detect audio files
-  const audioRegex =
-    /https?:\/\/\S+\.(mp3|wav|ogg|m4a)(\?[^"']*)?(?=['")\s]|$)/gi;
-  const audioMatches = [...content.matchAll(audioRegex)];
-
-  if (audioMatches.length > 0) {
-    const audioUrls = audioMatches.map((match) => match[0]);
-
-    audioUrls.forEach((audioUrl, index) => {
-      const fileType = audioUrl.split('.').pop()?.toLowerCase() || 'mp3';
-      const audioItem: MessageAttachment = {
-        type: 'audio',
-        url: audioUrl,
-        title: `Audio ${index + 1}`,
-        mimeType: `audio/${fileType === 'mp3' ? 'mpeg' : fileType}`,
-      };
+/**
+ * Registered detectors in the order they run
+ */
+export function getAttachmentDetectors(): AttachmentDetector[] {
+  // Array#sort is stable, so equal priorities keep registration order
+  return [...attachmentDetectors.values()].sort(
+    (a, b) => (b.priority ?? 0) - (a.priority ?? 0)
+  );
+}
 
-      // Validate the object with Zod schema
-      const validation = attachmentSchema.safeParse(audioItem);
-      if (validation.success) {
-        attachments.push(audioItem);
-      } else {
-        console.warn('Audio attachment validation failed:', validation.error);
-        attachments.push(audioItem);
-      }
-    });
+/**
+ * Detects media URLs in message content
+ *
+ * @param content Message content to process
+ * @param detectors Detectors to run; defaults to the registered ones
+ * @returns Array of detected attachments
+ */
+export function detectMediaInContent(
+  content: string,
+  detectors: AttachmentDetector[] = getAttachmentDetectors()
+): MessageAttachment[] {
+  if (typeof content !== 'string' || !content.trim()) {
+    return [];
   }
 
-  // Detect video files
-  const videoRegex =
-    /https?:\/\/\S+\.(mp4|webm|mov|avi)(\?[^"']*)?(?=['")\s]|$)/gi;
-  const videoMatches = [...content.matchAll(videoRegex)];
-
-  if (videoMatches.length > 0) {
-    const videoUrls = videoMatches.map((match) => match[0]);
-
-    videoUrls.forEach((videoUrl, index) => {
-      const fileType = videoUrl.split('.').pop()?.toLowerCase() || 'mp4';
-      const videoItem: MessageAttachment = {
-        type: 'video',
-        url: videoUrl,
-        title: `Video ${index + 1}`,
-        mimeType: `video/${fileType}`,
-      };
+  const attachments: MessageAttachment[] = [];
+  // [start, end) ranges of content matched by exclusive detectors
+  const claimed: Array<[number, number]> = [];
 
-      // Validate the object with Zod schema
-      const validation = attachmentSchema.safeParse(videoItem);
-      if (validation.success) {
-        attachments.push(videoItem);
-      } else {
-        console.warn('Video attachment validation failed:', validation.error);
-        attachments.push(videoItem);
-      }
-    });
-  }
+  detectors.forEach((detector) => {
+    const matches = [...content.matchAll(detector.pattern)];
+    const newClaims: Array<[number, number]> = [];
+    let created = 0;
 
-  // Detect documents
-  const docRegex =
-    /https?:\/\/\S+\.(pdf|doc|docx|xls|xlsx|ppt|pptx|txt)(\?[^"']*)?(?=['")\s]|$)/gi;
-  const docMatches = [...content.matchAll(docRegex)];
-
-  if (docMatches.length > 0) {
-    const docUrls = docMatches.map((match) => match[0]);
-
-    docUrls.forEach((docUrl, index) => {
-      const fileType = docUrl.split('.').pop()?.toLowerCase() || '';
-      let mimeType = 'application/octet-stream';
-
-      // Set MIME type based on extension
-      if (fileType === 'pdf') mimeType = 'application/pdf';
-      else if (fileType === 'doc' || fileType === 'docx')
-        mimeType = 'application/msword';
-      else if (fileType === 'xls' || fileType === 'xlsx')
-        mimeType = 'application/vnd.ms-excel';
-      else if (fileType === 'ppt' || fileType === 'pptx')
-        mimeType = 'application/vnd.ms-powerpoint';
-      else if (fileType === 'txt') mimeType = 'text/plain';
-
-      const docItem: MessageAttachment = {
-        type: 'document',
-        url: docUrl,
-        title: `Document ${index + 1}`,
-        mimeType,
-      };
+    matches.forEach((match) => {
+      const start = match.index ?? 0;
+      const end = start + match[0].length;
+      if (claimed.some(([from, to]) => start < to && end > from)) return;
+
+      const attachment = detector.create(match, created);
+      if (!attachment) return;
 
       // Validate the object with Zod schema
-      const validation = attachmentSchema.safeParse(docItem);
-      if (validation.success) {
-        attachments.push(docItem);
-      } else {
+      const validation = attachmentSchema.safeParse(attachment);
+      if (!validation.success) {
         console.warn(
-          'Document attachment validation failed:',
+          `${detector.name} attachment validation failed:`,
           validation.error
         );
-        attachments.push(docItem);
       }
+
+      attachments.push(attachment);
+      created++;
+      if (detector.exclusive !== false) newClaims.push([start, end]);
     });
-  }
 
-  // Detect other files
-  const fileRegex =
-    /https?:\/\/\S+\.(zip|rar|tar|gz|exe|dmg|bin)(\?[^"']*)?(?=['")\s]|$)/gi;
-  const fileMatches = [...content.matchAll(fileRegex)];
-
-  if (fileMatches.length > 0) {
-    const fileUrls = fileMatches.map((match) => match[0]);
-
-    fileUrls.forEach((fileUrl, index) => {
-      const fileType = fileUrl.split('.').pop()?.toLowerCase() || '';
-      let mimeType = 'application/octet-stream';
-
-      // Set MIME type based on extension
-      if (fileType === 'zip') mimeType = 'application/zip';
-      else if (fileType === 'rar') mimeType = 'application/x-rar-compressed';
-      else if (fileType === 'tar' || fileType === 'gz')
-        mimeType = 'application/x-compressed';
-      else if (fileType === 'exe') mimeType = 'application/x-msdownload';
-      else if (fileType === 'dmg') mimeType = 'application/x-apple-diskimage';
-
-      const fileItem: MessageAttachment = {
-        type: 'file',
-        url: fileUrl,
-        title: `File ${index + 1}`,
-        mimeType,
-      };
+    claimed.push(...newClaims);
+  });
 
-      // Validate the object with Zod schema
-      const validation = attachmentSchema.safeParse(fileItem);
-      if (validation.success) {
-        attachments.push(fileItem);
-      } else {
-        console.warn('File attachment validation failed:', validation.error);
-        attachments.push(fileItem);
-      }
-    });
+  return attachments;
+}
+
+/**
+ * Video, playlist and start time referenced by a YouTube URL
+ */
+export interface YouTubeReference {
+  videoId?: string;
+  playlistId?: string;
+  /** Start offset in seconds */
+  start?: number;
+}
+
+const YOUTUBE_HOSTS = [
+  'youtube.com',
+  'www.youtube.com',
+  'm.youtube.com',
+  'music.youtube.com',
+  'youtube-nocookie.com',
+  'www.youtube-nocookie.com',
+];
+const YOUTUBE_VIDEO_ID_REGEX = /^[\w-]{11}$/;
+const YOUTUBE_PLAYLIST_ID_REGEX = /^[\w-]{2,64}$/;
+
+/**
+ * Privacy-enhanced embed domain: no cookies until the viewer plays a video
+ */
+export const YOUTUBE_EMBED_ORIGIN = 'https://www.youtube-nocookie.com';
+
+/**
+ * Parse a YouTube start time: "90", "90s", "1m30s" or "1h2m3s"
+ *
+ * @returns Offset in seconds, or undefined if the value is not a time
+ */
+export function parseYouTubeTime(
+  value: string | null | undefined
+): number | undefined {
+  if (!value) return undefined;
+
+  const match = value.match(/^(?:(\d+)h)?(?:(\d+)m)?(?:(\d+)s?)?$/);
+  if (!match || !value.match(/\d/)) return undefined;
+
+  const [, hours = '0', minutes = '0', seconds = '0'] = match;
+  const total = Number(hours) * 3600 + Number(minutes) * 60 + Number(seconds);
+  return total > 0 ? total : undefined;
+}
+
+/**
+ * Extract the video, playlist and start time from a YouTube URL
+ *
+ * Supports watch, youtu.be, embed, shorts, live and playlist URLs, with the
+ * start time taken from `t=` / `start=` (query or fragment).
+ *
+ * @returns The reference, or null if the URL is not a YouTube video or playlist
+ */
+export function parseYouTubeUrl(url: string): YouTubeReference | null {
+  let parsed: URL;
+  try {
+    parsed = new URL(/^https?:\/\//i.test(url) ? url : `https://${url}`);
+  } catch {
+    return null;
   }
 
-  // Detect regular links (that aren't one of the above)
-  const linkRegex =
-    /https?:\/\/(?!.*\.(jpg|jpeg|png|gif|webp|mp3|wav|ogg|m4a|mp4|webm|mov|avi|pdf|doc|docx|xls|xlsx|ppt|pptx|txt|zip|rar|tar|gz|exe|dmg|bin))[^\s]+/gi;
-  const linkMatches = [...content.matchAll(linkRegex)];
-
-  if (linkMatches.length > 0) {
-    const linkUrls = linkMatches
-      .map((match) => match[0])
-      // Filter out YouTube links since we already captured them
-      .filter(
-        (url) => !url.includes('youtube.com') && !url.includes('youtu.be')
-      );
-
-    linkUrls.forEach((linkUrl, index) => {
-      const linkItem: MessageAttachment = {
-        type: 'link',
-        url: linkUrl,
-        title: `Link ${index + 1}`,
-      };
+  const host = parsed.hostname.toLowerCase();
+  const segments = parsed.pathname.split('/').filter(Boolean);
+  let videoId: string | undefined;
+
+  if (host === 'youtu.be') {
+    videoId = segments[0];
+  } else if (YOUTUBE_HOSTS.includes(host)) {
+    if (segments[0] === 'watch') {
+      videoId = parsed.searchParams.get('v') || undefined;
+    } else if (['embed', 'shorts', 'live', 'v'].includes(segments[0])) {
+      videoId = segments[1];
+    } else if (segments[0] !== 'playlist') {
+      return null;
+    }
+  } else {
+    return null;
+  }
 
-      // Validate the object with Zod schema
-      const validation = attachmentSchema.safeParse(linkItem);
-      if (validation.success) {
-        attachments.push(linkItem);
-      } else {
-        console.warn('Link attachment validation failed:', validation.error);
-        attachments.push(linkItem);
-      }
-    });
+  const reference: YouTubeReference = {};
+  if (videoId && YOUTUBE_VIDEO_ID_REGEX.test(videoId)) {
+    reference.videoId = videoId;
   }
 
-  return attachments;
+  const playlistId = parsed.searchParams.get('list');
+  if (playlistId && YOUTUBE_PLAYLIST_ID_REGEX.test(playlistId)) {
+    reference.playlistId = playlistId;
+  }
+
+  if (!reference.videoId && !reference.playlistId) return null;
+
+  const fragment = new URLSearchParams(parsed.hash.slice(1));
+  const start = parseYouTubeTime(
+    parsed.searchParams.get('t') ||
+      parsed.searchParams.get('start') ||
+      fragment.get('t')
+  );
+  if (reference.videoId && start) reference.start = start;
+
+  return reference;
+}
+
+/**
+ * Build a privacy-enhanced embed URL for a YouTube reference
+ *
+ * @param reference Parsed video or playlist
+ * @param autoplay Start playing as soon as the player loads
+ */
+export function getYouTubeEmbedUrl(
+  reference: YouTubeReference,
+  autoplay = false
+): string {
+  const params = new URLSearchParams();
+  if (autoplay) params.set('autoplay', '1');
+  if (reference.playlistId) params.set('list', reference.playlistId);
+  if (reference.start) params.set('start', String(reference.start));
+
+  const path = reference.videoId
+    ? `/embed/${reference.videoId}`
+    : '/embed/videoseries';
+  const query = params.toString();
+  return `${YOUTUBE_EMBED_ORIGIN}${path}${query ? `?${query}` : ''}`;
+}
+
+/**
+ * Thumbnail image for a YouTube video
+ */
+export function getYouTubeThumbnailUrl(videoId: string): string {
+  return `https://img.youtube.com/vi/${videoId}/hqdefault.jpg`;
+}
+
+/**
+ * Format a video offset as "1:05" or "1:02:05"
+ */
+export function formatVideoTimestamp(seconds: number): string {
+  const hours = Math.floor(seconds / 3600);
+  const minutes = Math.floor((seconds % 3600) / 60);
+  const secs = String(seconds % 60).padStart(2, '0');
+
+  return hours > 0
+    ? `${hours}:${String(minutes).padStart(2, '0')}:${secs}`
+    : `${minutes}:${secs}`;
 }
 
 /**
@@ -327,6 +478,12 @@ export function detectDataRequestInContent(
   return undefined;
 }
 
+/**
+ * Text that replaces a form schema detected in message content
+ */
+export const FORM_REQUEST_NOTICE =
+  'This message contains a form schema. Click the button below to provide the requested information.';
+
 /**
  * Process content to extract media and update content text
  *
@@ -349,7 +506,10 @@ export function processMessageContent(content: string): {
   let processedContent = content;
 
   // Detect attachments in content
-  const attachments = detectMediaInContent(content);
+  const attachments = detectMediaInContent(content).map((attachment) => ({
+    ...attachment,
+    detected: true,
+  }));
 
   // Remove attachment URLs from content
   attachments.forEach((attachment) => {
@@ -369,11 +529,10 @@ export function processMessageContent(content: string): {
       processedContent =
         processedContent.substring(0, schemaIndex).trim() +
         (processedContent.substring(0, schemaIndex).trim() ? '\n\n' : '') +
-        '[This message contains a form schema. Click the button below to provide the requested information.]';
+        `[${FORM_REQUEST_NOTICE}]`;
     } else {
       // Fallback if we can't find the exact schema location
-      processedContent =
-        'This message contains a form schema. Click the button below to provide the requested information.';
+      processedContent = FORM_REQUEST_NOTICE;
     }
   }
 
@@ -388,3 +547,63 @@ export function processMessageContent(content: string): {
     dataRequest,
   };
 }
+
+/**
+ * Message text as its sender wrote it, for editing
+ *
+ * Puts back what processMessageContent took out: the URLs of detected
+ * attachments and the code of a data request written in the text.
+ */
+export function restoreProcessedContent(
+  content: string,
+  attachments: MessageAttachment[] = [],
+  dataRequest?: unknown
+): string {
+  const hasSchema =
+    typeof dataRequest === 'string' && content.includes(FORM_REQUEST_NOTICE);
+  const text = hasSchema
+    ? content
+        .replace(`[${FORM_REQUEST_NOTICE}]`, '')
+        .replace(FORM_REQUEST_NOTICE, '')
+        .trim()
+    : content;
+
+  const urls = attachments
+    .filter((attachment) => attachment.detected)
+    .map((attachment) => attachment.url)
+    .filter((url) => !text.includes(url));
+
+  const restored = [text, ...urls].filter(Boolean).join('\n');
+  return hasSchema
+    ? [restored, dataRequest].filter(Boolean).join('\n\n')
+    : restored;
+}
+
+/**
+ * Collect the image attachments of a conversation for the lightbox
+ *
+ * @param messages Messages sorted by creation time
+ * @returns Images in display order; deleted messages are skipped
+ */
+export function collectGalleryImages(messages: Message[]): GalleryImage[] {
+  const images: GalleryImage[] = [];
+
+  messages.forEach((message) => {
+    if (!message.id || message.deleted) return;
+
+    (message.attachments || []).forEach((attachment, index) => {
+      if (attachment.type !== 'image') return;
+
+      images.push({
+        key: `${message.id}-${index}`,
+        messageId: message.id!,
+        url: attachment.url,
+        title: attachment.title,
+        description: attachment.description,
+        senderName: message.senderName,
+      });
+    });
+  });
+
+  return images;
+}
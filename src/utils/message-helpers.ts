@@ -1,11 +1,15 @@
 import {
   Message,
   MessageAttachment,
+  MessageMention,
   messageSchema,
   messageMetadataSchema,
   attachmentSchema,
 } from '../types';
+import { isSameDay } from 'date-fns';
+import { z } from 'zod';
 import { processMessageContent } from './media-helpers';
+import { zodToJsonSchema } from './json-schema';
 
 /**
  * Enhanced message creation with auto-content processing
@@ -23,7 +27,12 @@ export function createMessageWithProcessing(params: {
   toAiAgent?: boolean;
   attachments?: MessageAttachment[];
   dataRequest?: string | object;
+  /** When a data request stops accepting responses (ISO string) */
+  formExpiresAt?: string;
+  /** Show responses to a data request only to the sender and admins */
+  formPrivate?: boolean;
   metadata?: any;
+  threadId?: string;
   createdAt?: string;
   updatedAt?: string;
   autoProcessContent?: boolean;
@@ -48,6 +57,11 @@ export function createMessageWithProcessing(params: {
     }
   }
 
+  // Zod schema objects cannot be stored, so send them as JSON Schema
+  if (dataRequest instanceof z.ZodType) {
+    dataRequest = zodToJsonSchema(dataRequest);
+  }
+
   // Validate attachments with their schema
   if (attachments && attachments.length > 0) {
     attachments.forEach((item, index) => {
@@ -85,6 +99,29 @@ export function createMessageWithProcessing(params: {
     deleted: false,
   };
 
+  if (params.threadId) {
+    message.threadId = params.threadId;
+  }
+
+  // Data requests become form requests that track their responses
+  if (dataRequest) {
+    message.formRequest = {
+      recipientCount: params.recipientIds?.length || 0,
+      responderIds: [],
+    };
+    if (params.formExpiresAt) {
+      message.formRequest.expiresAt = params.formExpiresAt;
+    }
+    if (params.formPrivate) {
+      message.formRequest.private = true;
+    }
+  }
+
+  const mentions = parseMentions(content);
+  if (mentions.length > 0) {
+    message.mentions = mentions;
+  }
+
   // Validate with Zod schema
   const result = messageSchema.safeParse(message);
   if (!result.success) {
@@ -94,6 +131,117 @@ export function createMessageWithProcessing(params: {
   return message;
 }
 
+/**
+ * Optional message fields stored as Firestore timestamps
+ */
+const OPTIONAL_TIMESTAMP_FIELDS = [
+  'lastReplyAt',
+  'editedAt',
+  'deletedAt',
+] as const;
+
+/**
+ * Convert a Firestore timestamp (or ISO string) to an ISO string
+ *
+ * @param value Timestamp value from a document
+ * @returns ISO string, or the value unchanged if it is not a timestamp
+ */
+export function timestampToIsoString(value: any): any {
+  return value?.toDate?.()?.toISOString() || value;
+}
+
+/**
+ * Convert a Firestore message document into a Message
+ * Server timestamps are normalized to ISO strings
+ *
+ * @param id Document ID
+ * @param data Raw document data
+ * @returns Message object
+ */
+export function messageFromFirestore(id: string, data: any): Message {
+  const message = {
+    id,
+    ...data,
+    createdAt: timestampToIsoString(data.createdAt),
+    updatedAt: timestampToIsoString(data.updatedAt),
+  } as Message;
+
+  OPTIONAL_TIMESTAMP_FIELDS.forEach((field) => {
+    if (data[field]) {
+      message[field] = timestampToIsoString(data[field]);
+    }
+  });
+
+  return message;
+}
+
+/**
+ * Merge incoming messages into an existing list
+ * Incoming messages replace existing ones with the same ID and the result
+ * is sorted oldest first
+ *
+ * @param existing Messages already loaded
+ * @param incoming Messages from a snapshot or page
+ * @returns Merged, de-duplicated and sorted messages
+ */
+export function mergeMessages(
+  existing: Message[],
+  incoming: Message[]
+): Message[] {
+  const byId = new Map<string, Message>();
+
+  [...existing, ...incoming].forEach((message) => {
+    if (message.id) byId.set(message.id, message);
+  });
+
+  return Array.from(byId.values()).sort((a, b) =>
+    (a.createdAt || '').localeCompare(b.createdAt || '')
+  );
+}
+
+/**
+ * Apply incremental changes to a list sorted by creation time
+ *
+ * Unchanged messages keep their object identity so memoized rows do not
+ * re-render. Added and modified messages are (re)inserted at their sorted
+ * position, since a server timestamp can replace a local estimate. Removed
+ * messages are dropped; evicted ones (pushed out of a live window) stay.
+ */
+export function applyMessageChanges(
+  existing: Message[],
+  changes: {
+    type: 'added' | 'modified' | 'removed' | 'evicted';
+    message: Message;
+  }[]
+): Message[] {
+  const applied = changes.filter(({ type }) => type !== 'evicted');
+  if (applied.length === 0) return existing;
+
+  const next = [...existing];
+
+  applied.forEach(({ type, message }) => {
+    const index = next.findIndex((m) => m.id === message.id);
+    if (index !== -1) next.splice(index, 1);
+    if (type === 'removed') return;
+
+    // Binary search for the first message created after this one
+    const createdAt = message.createdAt || '';
+    let low = 0;
+    let high = next.length;
+    while (low < high) {
+      const mid = (low + high) >> 1;
+      if ((next[mid].createdAt || '') <= createdAt) {
+        low = mid + 1;
+      } else {
+        high = mid;
+      }
+    }
+    next.splice(low, 0, message);
+  });
+
+  return next;
+}
+
 /**
  * Validates if a message matches the expected structure
  *
@@ -149,9 +297,88 @@ export function isValidMessage(
   return true;
 }
 
+/**
+ * Mention token stored in message content: `@[label](userId)`
+ */
+const MENTION_TOKEN_REGEX = /@\[([^\]]+)\]\(([^)\s]+)\)/g;
+
+/**
+ * Plain `@username` mention, as typed by hand or sent by older clients
+ */
+const PLAIN_MENTION_REGEX = /(?:^|\s)@([\w\d._-]+)(?=$|[,;.\s])/g;
+
+/**
+ * Create the content token for a mention
+ *
+ * @param mention Mentioned user ID and the label shown for it
+ * @returns Token such as `@[Alice Developer](user1)`
+ */
+export function createMentionToken(mention: MessageMention): string {
+  const label = mention.label.replace(/[[\]]/g, '').trim() || mention.id;
+  return `@[${label}](${mention.id})`;
+}
+
+/**
+ * Find the mention tokens in message content
+ *
+ * @param content Message content
+ * @returns Mentioned users in order of appearance, without duplicates
+ */
+export function parseMentions(content: string): MessageMention[] {
+  if (!content || typeof content !== 'string') return [];
+
+  const mentions = new Map<string, MessageMention>();
+  for (const match of content.matchAll(MENTION_TOKEN_REGEX)) {
+    if (!mentions.has(match[2])) {
+      mentions.set(match[2], { id: match[2], label: match[1] });
+    }
+  }
+
+  return Array.from(mentions.values());
+}
+
+/**
+ * Turn `@label` text picked from the autocomplete into mention tokens
+ *
+ * @param content Text as typed in the composer
+ * @param mentions Users picked while typing
+ * @returns Content with each picked `@label` replaced by its token
+ */
+export function encodeMentions(
+  content: string,
+  mentions: MessageMention[]
+): string {
+  if (!content || typeof content !== 'string') return content;
+
+  // Longer labels first so "@Alice Developer" wins over "@Alice"
+  const sorted = [...mentions]
+    .filter((mention) => !/[)\s]/.test(mention.id))
+    .sort((a, b) => b.label.length - a.label.length);
+
+  return sorted.reduce((text, mention) => {
+    const label = mention.label.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+    return text.replace(new RegExp(`@${label}(?=$|[\\s,;:.!?])`, 'g'), () =>
+      createMentionToken(mention)
+    );
+  }, content);
+}
+
+/**
+ * Replace mention tokens with their `@label` text, e.g. for editing
+ *
+ * @param content Message content
+ * @returns Content as the user would have typed it
+ */
+export function decodeMentions(content: string): string {
+  if (!content || typeof content !== 'string') return content;
+
+  return content.replace(MENTION_TOKEN_REGEX, (_match, label) => `@${label}`);
+}
+
 /**
  * Extract mentions from message content
- * Uses a regex to find @username patterns in the message
+ * Mention tokens resolve to their user ID; plain @username patterns are
+ * still recognised for hand-typed IDs
  *
  * @param content Message content
  * @returns Array of mentioned user IDs
@@ -159,15 +386,13 @@ export function isValidMessage(
 export function extractMentions(content: string): string[] {
   if (!content || typeof content !== 'string') return [];
 
-  // Regex that handles mentions at start, middle, or end of content
-  // Also handles mentions that are part of sentences with punctuation
-  const mentionRegex = /(?:^|\s)@([\w\d._-]+)(?:$|[,;.\s])/g;
-  const matches = content.matchAll(mentionRegex);
-
   // Use a Set to eliminate duplicate mentions
-  const mentionSet = new Set<string>();
+  const mentionSet = new Set<string>(
+    parseMentions(content).map((mention) => mention.id)
+  );
 
-  for (const match of matches) {
+  const withoutTokens = content.replace(MENTION_TOKEN_REGEX, ' ');
+  for (const match of withoutTokens.matchAll(PLAIN_MENTION_REGEX)) {
     if (match[1] && match[1].trim()) {
       mentionSet.add(match[1].trim());
     }
@@ -176,8 +401,21 @@ export function extractMentions(content: string): string[] {
   return Array.from(mentionSet);
 }
 
+/**
+ * Escape text for insertion into HTML
+ */
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
 /**
  * Format mentions in content for display
+ * Mention tokens become chips showing their label
  *
  * @param content Message content
  * @returns Content with formatted mentions
@@ -186,12 +424,17 @@ export function formatMentions(content: string): string {
   if (!content || typeof content !== 'string') return content;
 
   // Replace @username with styled spans
-  return content.replace(
-    /(?:^|\s)@([\w\d._-]+)(?=$|[,;.\s])/g,
-    (match, username) => {
-      const prefix = match.startsWith(' ') ? ' ' : '';
-      return `${prefix}<span class="mention">@${username}</span>`;
-    }
+  const formatted = content.replace(PLAIN_MENTION_REGEX, (match, username) => {
+    const prefix = match.startsWith(' ') ? ' ' : '';
+    return `${prefix}<span class="mention">@${username}</span>`;
+  });
+
+  return formatted.replace(
+    MENTION_TOKEN_REGEX,
+    (_match, label, userId) =>
+      `<span class="mention" data-user-id="${escapeHtml(
+        userId
+      )}">@${escapeHtml(label)}</span>`
   );
 }
 
@@ -243,20 +486,48 @@ export function messageToPlainText(content: string): string {
     .trim();
 }
 
+/**
+ * Get the agent that started a thread, if any
+ *
+ * @param threadRoot Root message of the thread
+ * @param agentIds Array of known agent IDs
+ * @returns The agent ID replies in this thread should be routed to
+ */
+export function getThreadAgentId(
+  threadRoot: Message | undefined,
+  agentIds: string[]
+): string | undefined {
+  if (!threadRoot) return undefined;
+  return agentIds.includes(threadRoot.senderId)
+    ? threadRoot.senderId
+    : undefined;
+}
+
 /**
  * Determine if a message should trigger AI agent processing
  *
  * @param message The message to check
  * @param agentIds Array of known agent IDs
+ * @param threadRoot Root message when the message is a thread reply
  * @returns Whether this message should be processed by AI agents
  */
 export function shouldTriggerAIProcessing(
   message: Message,
-  agentIds: string[]
+  agentIds: string[],
+  threadRoot?: Message
 ): boolean {
   // Check if message is explicitly marked for AI
   if (message.toAiAgent) return true;
 
+  // Replies in a thread an agent started go back to that agent
+  if (
+    message.threadId &&
+    threadRoot?.id === message.threadId &&
+    getThreadAgentId(threadRoot, agentIds)
+  ) {
+    return true;
+  }
+
   // Check if message mentions any AI agents
   if (
     message.recipientIds &&
@@ -340,3 +611,49 @@ export function checkMessageSafety(message: Message): string[] {
 
   return issues;
 }
+
+/**
+ * Longest gap between messages from one sender that are shown as a group
+ */
+export const MESSAGE_GROUP_WINDOW_MS = 5 * 60 * 1000;
+
+/**
+ * Whether a message continues the previous sender's group
+ *
+ * Grouped messages are shown without repeating the avatar and header. Groups
+ * never span days or deleted messages.
+ *
+ * @param message Message being rendered
+ * @param previous Message rendered directly above it
+ * @param windowMs Longest gap allowed between the two messages
+ */
+export function isGroupedWithPrevious(
+  message: Message,
+  previous: Message | undefined,
+  windowMs = MESSAGE_GROUP_WINDOW_MS
+): boolean {
+  if (!previous || previous.senderId !== message.senderId) return false;
+  if (previous.deleted || message.deleted) return false;
+
+  const gap =
+    new Date(message.createdAt).getTime() -
+    new Date(previous.createdAt).getTime();
+
+  return gap >= 0 && gap <= windowMs && !isFirstOfDay(message, previous);
+}
+
+/**
+ * Whether a date separator goes above a message
+ *
+ * @param message Message being rendered
+ * @param previous Message rendered directly above it, if any
+ */
+export function isFirstOfDay(
+  message: Message,
+  previous: Message | undefined
+): boolean {
+  return (
+    !previous ||
+    !isSameDay(new Date(message.createdAt), new Date(previous.createdAt))
+  );
+}
@@ -0,0 +1,699 @@
+import {
+  doc,
+  collection,
+  query,
+  where,
+  orderBy,
+  limit,
+  startAfter,
+  onSnapshot,
+  getDoc,
+  getDocs,
+  updateDoc,
+  writeBatch,
+  runTransaction,
+  serverTimestamp,
+  deleteField,
+  increment,
+  DocumentReference,
+  QueryDocumentSnapshot,
+  Unsubscribe,
+} from 'firebase/firestore';
+import { getDb } from '../lib/firebase';
+import {
+  AccessLevel,
+  LinkPreview,
+  Message,
+  MessageAttachment,
+  MessageRevision,
+  User,
+  formRequestSchema,
+  isAIAgent,
+  messageRevisionSchema,
+} from '../types';
+import { AccessControl } from './access-control';
+import { buildFormRequest, summarizeFormRequest } from './form-requests';
+import {
+  createMessageWithProcessing,
+  messageFromFirestore,
+  timestampToIsoString,
+} from './message-helpers';
+import { applyLinkPreview, needsUnfurl } from './link-unfurl';
+import { FORM_REQUEST_NOTICE } from './media-helpers';
+
+/**
+ * A page of messages, oldest first, with the cursor for the next older page
+ */
+export interface MessagePage {
+  messages: Message[];
+  cursor: QueryDocumentSnapshot | null;
+  hasMore: boolean;
+}
+
+/**
+ * A single document change reported by the live message listener
+ */
+export interface MessageChange {
+  /** `evicted`: pushed out of the window by newer messages, not deleted */
+  type: 'added' | 'modified' | 'removed' | 'evicted';
+  message: Message;
+}
+
+/**
+ * Incremental update of the newest messages
+ *
+ * Only changed documents are converted, so listeners can patch their list
+ * instead of replacing it on every snapshot.
+ */
+export interface LiveMessageUpdate {
+  changes: MessageChange[];
+  cursor: QueryDocumentSnapshot | null;
+  hasMore: boolean;
+  /** Top-level messages in the window, which may also hold thread replies */
+  messageCount: number;
+}
+
+/**
+ * Message operations: sending, history pagination, editing, revision
+ * history, deletion and link previews
+ *
+ * Revisions are stored in a `revisions` subcollection under each message
+ * (`${path}/messages/{messageId}/revisions`) so they can be secured
+ * separately from the message itself.
+ */
+export class Messages {
+  private static db = getDb();
+
+  /**
+   * Subscribe to the newest messages of a chat
+   *
+   * The listener covers the latest `pageSize` documents; older history is
+   * fetched with `loadOlder` starting from the returned cursor. Messages
+   * pushed out of the window by newer ones are reported as `evicted`, and
+   * deleted documents as `removed`.
+   * Thread replies count towards the window but are not reported, so the
+   * window can hold fewer than `pageSize` messages (see `messageCount`).
+   */
+  static subscribeToLatest(
+    path: string,
+    pageSize: number,
+    onUpdate: (update: LiveMessageUpdate) => void,
+    onError?: (error: Error) => void
+  ): Unsubscribe {
+    const latestQuery = query(
+      collection(this.db, `${path}/messages`),
+      orderBy('createdAt', 'desc'),
+      limit(pageSize)
+    );
+
+    return onSnapshot(
+      latestQuery,
+      (snapshot) => {
+        const { docs } = snapshot;
+        // A full window starts at its oldest document; anything removed
+        // from before it was pushed out rather than deleted
+        const windowStart =
+          docs.length === pageSize
+            ? messageFromFirestore(
+                docs[docs.length - 1].id,
+                docs[docs.length - 1].data({ serverTimestamps: 'estimate' })
+              ).createdAt
+            : null;
+
+        // Thread replies are loaded per thread (see Threads)
+        const changes = snapshot
+          .docChanges()
+          .map((change): MessageChange => {
+            const message = messageFromFirestore(
+              change.doc.id,
+              change.doc.data({ serverTimestamps: 'estimate' })
+            );
+            const isEvicted =
+              change.type === 'removed' &&
+              windowStart !== null &&
+              message.createdAt <= windowStart;
+            return { type: isEvicted ? 'evicted' : change.type, message };
+          })
+          .filter((change) => !change.message.threadId);
+
+        onUpdate({
+          changes,
+          cursor: docs.length > 0 ? docs[docs.length - 1] : null,
+          hasMore: docs.length === pageSize,
+          messageCount: docs.filter((messageDoc) => !messageDoc.data().threadId)
+            .length,
+        });
+      },
+      (error) => {
+        console.error('❌ Message listener error:', error);
+        onError?.(error);
+      }
+    );
+  }
+
+  /**
+   * Load the page of messages older than the given cursor
+   *
+   * Thread replies are skipped. Pages are fetched until `pageSize`
+   * top-level messages are found or the history runs out, so a page is
+   * only empty when there is nothing older to show.
+   */
+  static async loadOlder(
+    path: string,
+    cursor: QueryDocumentSnapshot,
+    pageSize: number
+  ): Promise<MessagePage> {
+    try {
+      const docs: QueryDocumentSnapshot[] = [];
+      let after = cursor;
+      let hasMore = true;
+
+      while (hasMore && docs.length < pageSize) {
+        const snapshot = await getDocs(
+          query(
+            collection(this.db, `${path}/messages`),
+            orderBy('createdAt', 'desc'),
+            startAfter(after),
+            limit(pageSize)
+          )
+        );
+
+        hasMore = snapshot.docs.length === pageSize;
+        for (const messageDoc of snapshot.docs) {
+          // The rest of this batch starts the next page
+          if (docs.length === pageSize) {
+            hasMore = true;
+            break;
+          }
+          after = messageDoc;
+          if (!messageDoc.data().threadId) docs.push(messageDoc);
+        }
+      }
+
+      console.log(`📜 Loaded ${docs.length} older messages`);
+      return this.toPage(docs, after === cursor ? null : after, hasMore);
+    } catch (error) {
+      console.error('Error loading older messages:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Write a new message under a reserved document ID
+   *
+   * Client-generated IDs let optimistic messages be matched with their
+   * server copy. A message that already exists is left untouched, so
+   * redelivering it (e.g. from the outbox after a reload) neither
+   * duplicates nor overwrites it. Messages with a form request also create
+   * the request document (`${path}/formRequests/{messageId}`) in the same
+   * transaction.
+   */
+  static async sendMessage(
+    path: string,
+    messageId: string,
+    message: Omit<Message, 'id' | 'createdAt' | 'updatedAt'>
+  ): Promise<void> {
+    try {
+      const messageRef = doc(this.db, `${path}/messages`, messageId);
+      const formRequest = message.formRequest
+        ? buildFormRequest(messageId, message)
+        : null;
+
+      const created = await runTransaction(this.db, async (transaction) => {
+        if ((await transaction.get(messageRef)).exists()) return false;
+
+        transaction.set(messageRef, {
+          ...message,
+          createdAt: serverTimestamp(),
+          updatedAt: serverTimestamp(),
+        });
+        if (formRequest) {
+          // eslint-disable-next-line @typescript-eslint/no-unused-vars
+          const { id: _id, ...request } = formRequest;
+          transaction.set(
+            doc(this.db, `${path}/formRequests`, messageId),
+            request
+          );
+        }
+        return true;
+      });
+
+      console.log(
+        created
+          ? `📤 Sent message ${messageId} to ${path}`
+          : `📤 Message ${messageId} was already delivered to ${path}`
+      );
+    } catch (error) {
+      console.error('Error sending message:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Send a message asking for data, e.g. from an agent
+   *
+   * The request is stored with its message (see `sendMessage`). Only the
+   * listed recipients may respond, or anyone in the chat when there are
+   * none; `expiresAt` closes the request and `private` hides responses from
+   * other members in the UI (the data stays readable in Firestore).
+   *
+   * @returns ID of the message, which is also the ID of the form request
+   */
+  static async sendFormRequest(
+    path: string,
+    sender: User,
+    request: {
+      content: string;
+      /** Zod code, a Zod schema or a JSON Schema object */
+      dataRequest: string | object;
+      recipientIds?: string[];
+      expiresAt?: string;
+      private?: boolean;
+    }
+  ): Promise<string> {
+    const messageId = doc(collection(this.db, `${path}/messages`)).id;
+    const message = createMessageWithProcessing({
+      content: request.content,
+      senderId: sender.id,
+      senderName: sender.displayName,
+      senderRole: sender.role,
+      recipientIds: request.recipientIds || [],
+      fromAiAgent: isAIAgent(sender),
+      dataRequest: request.dataRequest,
+      formExpiresAt: request.expiresAt,
+      formPrivate: request.private,
+    });
+
+    // Timestamps are set by the server; Firestore rejects undefined fields
+    const stored = Object.fromEntries(
+      Object.entries(message).filter(
+        ([key, value]) =>
+          value !== undefined && !['id', 'createdAt', 'updatedAt'].includes(key)
+      )
+    ) as Omit<Message, 'id' | 'createdAt' | 'updatedAt'>;
+
+    await this.sendMessage(path, messageId, stored);
+    return messageId;
+  }
+
+  /**
+   * Edit a message's content and record the previous version
+   *
+   * The new content is re-processed so attachments and data requests are
+   * detected again: those found in the old text are replaced by those found
+   * in the new one, while uploaded attachments are kept. Only the original
+   * sender with at least WRITE access may edit a message. Routing from the
+   * edited content (new mentions) is added to the existing routing, never
+   * removed. The form request is rebuilt from the edited message, or deleted
+   * with its data request; once responses exist, the requested data can no
+   * longer change.
+   */
+  static async editMessage(
+    path: string,
+    messageId: string,
+    content: string,
+    editor: User,
+    routing?: Pick<Message, 'recipientIds' | 'toAiAgent'>
+  ): Promise<void> {
+    try {
+      const canWrite = await AccessControl.hasAccess(
+        path,
+        editor.id,
+        AccessLevel.WRITE
+      );
+      if (!canWrite) {
+        throw new Error(`User ${editor.id} does not have write access`);
+      }
+
+      const messageRef = doc(this.db, `${path}/messages`, messageId);
+      const revisionRef = doc(collection(messageRef, 'revisions'));
+      const requestRef = doc(this.db, `${path}/formRequests`, messageId);
+
+      await runTransaction(this.db, async (transaction) => {
+        const messageDoc = await transaction.get(messageRef);
+        if (!messageDoc.exists()) {
+          throw new Error(`Message ${messageId} not found at ${path}`);
+        }
+        const requestDoc = await transaction.get(requestRef);
+
+        const message = messageDoc.data() as Message;
+        if (message.senderId !== editor.id) {
+          throw new Error('Only the sender can edit a message');
+        }
+
+        const processed = createMessageWithProcessing({
+          content: content.trim(),
+          senderId: message.senderId,
+          autoProcessContent: true,
+        });
+
+        // Attachments found in the text follow the edited text; uploads stay.
+        // Links still present keep their stored preview.
+        const stored = message.attachments || [];
+        const detected = new Map(
+          stored
+            .filter((attachment) => attachment.detected)
+            .map((attachment) => [attachment.url, attachment])
+        );
+        const attachments = [
+          ...stored.filter((attachment) => !attachment.detected),
+          ...(processed.attachments || []).map(
+            (attachment) => detected.get(attachment.url) || attachment
+          ),
+        ];
+
+        // Store the previous version (Firestore rejects undefined fields)
+        const revision: Record<string, any> = {
+          content: message.content,
+          editedBy: editor.id,
+          editedAt: serverTimestamp(),
+        };
+        if (editor.displayName) revision.editedByName = editor.displayName;
+        if (message.attachments) revision.attachments = message.attachments;
+        if (message.dataRequest) revision.dataRequest = message.dataRequest;
+
+        const updates: Record<string, any> = {
+          content: processed.content,
+          attachments: dedupeAttachments(attachments),
+          editedAt: serverTimestamp(),
+          updatedAt: serverTimestamp(),
+          editCount: increment(1),
+        };
+
+        // A data request written in the text follows the edited text; one
+        // sent alongside it is only replaced by a new one
+        if (processed.dataRequest) {
+          updates.dataRequest = processed.dataRequest;
+        } else if (message.content.includes(FORM_REQUEST_NOTICE)) {
+          updates.dataRequest = deleteField();
+        }
+
+        // Mentions follow the edited content
+        updates.mentions = processed.mentions || deleteField();
+
+        // Recipients added by the edit are merged into the existing routing
+        if (routing?.recipientIds?.length) {
+          updates.recipientIds = Array.from(
+            new Set([...(message.recipientIds || []), ...routing.recipientIds])
+          );
+        }
+        if (routing?.toAiAgent) updates.toAiAgent = true;
+
+        // The form request follows the edited data request and recipients;
+        // responses already given keep the requested data fixed
+        const existing = requestDoc.exists()
+          ? formRequestSchema.safeParse(requestDoc.data())
+          : null;
+        const request = existing?.success ? existing.data : null;
+        const responses = request?.responses || [];
+        const dataRequest =
+          'dataRequest' in updates
+            ? processed.dataRequest
+            : message.dataRequest;
+        if (
+          responses.length > 0 &&
+          JSON.stringify(dataRequest) !== JSON.stringify(request?.schema)
+        ) {
+          throw new Error(
+            'The requested data cannot change once responses were submitted'
+          );
+        }
+
+        const rebuilt = buildFormRequest(messageId, {
+          ...message,
+          content: processed.content,
+          dataRequest,
+          recipientIds: updates.recipientIds || message.recipientIds,
+          createdAt: request?.createdAt,
+        });
+        if (rebuilt) {
+          // eslint-disable-next-line @typescript-eslint/no-unused-vars
+          const { id: _id, ...stored } = { ...rebuilt, responses };
+          transaction.set(requestRef, stored);
+          updates.formRequest = summarizeFormRequest(stored);
+        } else if (requestDoc.exists() || message.formRequest) {
+          transaction.delete(requestRef);
+          updates.formRequest = deleteField();
+        }
+
+        transaction.set(revisionRef, revision);
+        transaction.update(messageRef, updates);
+      });
+
+      console.log(`✏️ Edited message ${messageId} at ${path}`);
+    } catch (error) {
+      console.error('Error editing message:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Get the edit history of a message, newest first
+   */
+  static async getRevisions(
+    path: string,
+    messageId: string
+  ): Promise<MessageRevision[]> {
+    try {
+      const revisionsRef = collection(
+        this.db,
+        `${path}/messages/${messageId}/revisions`
+      );
+      const snapshot = await getDocs(
+        query(revisionsRef, orderBy('editedAt', 'desc'))
+      );
+
+      const revisions: MessageRevision[] = [];
+      snapshot.forEach((revisionDoc) => {
+        const data = revisionDoc.data();
+        const revision = {
+          id: revisionDoc.id,
+          ...data,
+          editedAt: timestampToIsoString(data.editedAt),
+        };
+
+        const validationResult = messageRevisionSchema.safeParse(revision);
+        if (validationResult.success) {
+          revisions.push(validationResult.data);
+        } else {
+          console.warn('Invalid revision data:', data, validationResult.error);
+        }
+      });
+
+      return revisions;
+    } catch (error) {
+      console.error('Error getting revisions:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Soft delete a message
+   *
+   * Senders with WRITE access can delete their own messages; ADMIN access is
+   * required to delete anyone else's. The content is kept so the deletion
+   * can be undone with `restoreMessage` until the message is purged.
+   */
+  static async deleteMessage(
+    path: string,
+    messageId: string,
+    actor: User
+  ): Promise<void> {
+    try {
+      const messageRef = doc(this.db, `${path}/messages`, messageId);
+      await this.assertCanDelete(path, messageRef, actor.id);
+
+      await updateDoc(messageRef, {
+        deleted: true,
+        deletedAt: serverTimestamp(),
+        deletedBy: actor.id,
+        updatedAt: serverTimestamp(),
+      });
+
+      console.log(`🗑️ Deleted message ${messageId} at ${path}`);
+    } catch (error) {
+      console.error('Error deleting message:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Undo a soft delete
+   */
+  static async restoreMessage(
+    path: string,
+    messageId: string,
+    actor: User
+  ): Promise<void> {
+    try {
+      const messageRef = doc(this.db, `${path}/messages`, messageId);
+      await this.assertCanDelete(path, messageRef, actor.id);
+
+      await updateDoc(messageRef, {
+        deleted: false,
+        deletedAt: deleteField(),
+        deletedBy: deleteField(),
+        updatedAt: serverTimestamp(),
+      });
+
+      console.log(`♻️ Restored message ${messageId} at ${path}`);
+    } catch (error) {
+      console.error('Error restoring message:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Cache a link preview on the message's link attachment for this URL
+   *
+   * Any viewer may unfurl a link, so the write is skipped when another
+   * client already did or the message was deleted or edited meanwhile.
+   *
+   * @returns Whether the preview was stored
+   */
+  static async saveLinkPreview(
+    path: string,
+    messageId: string,
+    url: string,
+    preview: LinkPreview | null
+  ): Promise<boolean> {
+    try {
+      const messageRef = doc(this.db, `${path}/messages`, messageId);
+
+      const saved = await runTransaction(this.db, async (transaction) => {
+        const messageDoc = await transaction.get(messageRef);
+        if (!messageDoc.exists()) return false;
+
+        const message = messageDoc.data() as Message;
+        const attachments = message.attachments || [];
+        const index = attachments.findIndex(
+          (attachment) => attachment.url === url && needsUnfurl(attachment)
+        );
+        if (message.deleted || index === -1) return false;
+
+        const updated = [...attachments];
+        updated[index] = applyLinkPreview(attachments[index], preview);
+        transaction.update(messageRef, { attachments: updated });
+        return true;
+      });
+
+      if (saved) console.log(`🔗 Saved link preview for ${url}`);
+      return saved;
+    } catch (error) {
+      console.error('Error saving link preview:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Permanently remove messages that were soft deleted longer ago than the
+   * retention window, including their revision history. Requires ADMIN.
+   *
+   * @returns Number of purged messages
+   */
+  static async purgeDeletedMessages(
+    path: string,
+    adminUserId: string,
+    retentionMs: number
+  ): Promise<number> {
+    try {
+      const isAdmin = await AccessControl.hasAccess(
+        path,
+        adminUserId,
+        AccessLevel.ADMIN
+      );
+      if (!isAdmin) {
+        throw new Error(`User ${adminUserId} is not an admin of ${path}`);
+      }
+
+      // Filter by age client side so no composite index is required
+      const cutoff = Date.now() - retentionMs;
+      const snapshot = await getDocs(
+        query(
+          collection(this.db, `${path}/messages`),
+          where('deleted', '==', true)
+        )
+      );
+      const expired = snapshot.docs.filter((messageDoc) => {
+        const deletedAt = timestampToIsoString(messageDoc.data().deletedAt);
+        return deletedAt && new Date(deletedAt).getTime() <= cutoff;
+      });
+
+      for (const messageDoc of expired) {
+        const revisions = await getDocs(
+          collection(messageDoc.ref, 'revisions')
+        );
+        const batch = writeBatch(this.db);
+        revisions.forEach((revisionDoc) => batch.delete(revisionDoc.ref));
+        batch.delete(messageDoc.ref);
+        await batch.commit();
+      }
+
+      console.log(`🧹 Purged ${expired.length} deleted messages at ${path}`);
+      return expired.length;
+    } catch (error) {
+      console.error('Error purging deleted messages:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Convert newest-first query results into an oldest-first page
+   */
+  private static toPage(
+    docs: QueryDocumentSnapshot[],
+    cursor: QueryDocumentSnapshot | null,
+    hasMore: boolean
+  ): MessagePage {
+    const messages = docs
+      .map((messageDoc) =>
+        messageFromFirestore(
+          messageDoc.id,
+          messageDoc.data({ serverTimestamps: 'estimate' })
+        )
+      )
+      .reverse();
+
+    return { messages, cursor, hasMore };
+  }
+
+  /**
+   * Ensure a user may delete or restore a message
+   * Own messages need WRITE access, other people's messages need ADMIN
+   */
+  private static async assertCanDelete(
+    path: string,
+    messageRef: DocumentReference,
+    userId: string
+  ): Promise<void> {
+    const messageDoc = await getDoc(messageRef);
+    if (!messageDoc.exists()) {
+      throw new Error(`Message ${messageRef.id} not found at ${path}`);
+    }
+
+    const { senderId } = messageDoc.data() as Message;
+    const requiredLevel =
+      senderId === userId ? AccessLevel.WRITE : AccessLevel.ADMIN;
+
+    const allowed = await AccessControl.hasAccess(path, userId, requiredLevel);
+    if (!allowed) {
+      throw new Error(
+        `User ${userId} is not allowed to delete message ${messageRef.id}`
+      );
+    }
+  }
+}
+
+/**
+ * Remove attachments that share a URL, keeping the first occurrence
+ */
+function dedupeAttachments(
+  attachments: MessageAttachment[]
+): MessageAttachment[] {
+  const seen = new Set<string>();
+  return attachments.filter((attachment) => {
+    if (seen.has(attachment.url)) return false;
+    seen.add(attachment.url);
+    return true;
+  });
+}
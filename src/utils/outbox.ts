@@ -0,0 +1,220 @@
+import { doc, collection } from 'firebase/firestore';
+import { getDb, onFirestoreNetworkChange } from '../lib/firebase';
+import { DeliveryStatus, Message } from '../types';
+import { Messages } from './messages';
+import { Threads } from './threads';
+
+/**
+ * A message waiting for server confirmation
+ */
+export interface OutboxEntry {
+  /** Document ID reserved for the message */
+  id: string;
+  path: string;
+  message: Omit<Message, 'id' | 'createdAt' | 'updatedAt'>;
+  threadRootId?: string;
+  /** Local time the message was composed, used for ordering */
+  queuedAt: string;
+  status: DeliveryStatus;
+  error?: string;
+}
+
+const STORAGE_PREFIX = 'human-agent-chat:outbox:';
+
+/**
+ * Local outbox for optimistic sending
+ *
+ * Messages are stored in localStorage (per chat path) before they are
+ * written, so they survive reloads and can be shown immediately. An entry
+ * is removed once the server confirms the write; failed entries stay until
+ * they are retried or discarded. Pending entries are delivered again when
+ * connectivity resumes.
+ */
+export class Outbox {
+  private static db = getDb();
+  private static listeners = new Set<(path: string) => void>();
+  private static inFlight = new Set<string>();
+  // Source of truth while the page is open; localStorage may be unavailable
+  private static cache = new Map<string, OutboxEntry[]>();
+
+  /**
+   * Queue a message and start delivering it
+   *
+   * @returns The queued entry, available immediately for rendering
+   */
+  static enqueue(
+    path: string,
+    message: OutboxEntry['message'],
+    threadRootId?: string
+  ): OutboxEntry {
+    const entry: OutboxEntry = {
+      id: doc(collection(this.db, `${path}/messages`)).id,
+      path,
+      message,
+      queuedAt: new Date().toISOString(),
+      status: 'pending',
+    };
+    if (threadRootId) entry.threadRootId = threadRootId;
+
+    this.write(path, [...this.getEntries(path), entry]);
+    this.deliver(path, entry.id);
+
+    return entry;
+  }
+
+  /**
+   * Get the unconfirmed messages of a chat, oldest first
+   */
+  static getEntries(path: string): OutboxEntry[] {
+    if (!this.cache.has(path)) {
+      this.cache.set(path, this.load(path));
+    }
+    return this.cache.get(path)!;
+  }
+
+  /**
+   * Write an entry to Firestore
+   *
+   * @returns Whether the server confirmed the message
+   */
+  static async deliver(path: string, entryId: string): Promise<boolean> {
+    const entry = this.getEntries(path).find((e) => e.id === entryId);
+    if (!entry || this.inFlight.has(entryId)) return false;
+
+    this.inFlight.add(entryId);
+    this.updateEntry(path, entryId, { status: 'pending', error: undefined });
+
+    try {
+      if (entry.threadRootId) {
+        await Threads.addReply(
+          path,
+          entry.threadRootId,
+          entry.message,
+          entry.id
+        );
+      } else {
+        await Messages.sendMessage(path, entry.id, entry.message);
+      }
+
+      this.removeEntry(path, entryId);
+      return true;
+    } catch (error) {
+      console.error('❌ Error delivering queued message:', error);
+      this.updateEntry(path, entryId, {
+        status: 'failed',
+        error: error instanceof Error ? error.message : String(error),
+      });
+      return false;
+    } finally {
+      this.inFlight.delete(entryId);
+    }
+  }
+
+  /**
+   * Deliver every queued message of a chat in order
+   */
+  static async flush(path: string): Promise<void> {
+    for (const entry of this.getEntries(path)) {
+      await this.deliver(path, entry.id);
+    }
+  }
+
+  /**
+   * Retry a failed message
+   */
+  static retry(path: string, entryId: string): Promise<boolean> {
+    return this.deliver(path, entryId);
+  }
+
+  /**
+   * Drop a message that has not been confirmed
+   */
+  static discard(path: string, entryId: string): void {
+    this.removeEntry(path, entryId);
+  }
+
+  /**
+   * Listen for outbox changes
+   *
+   * @returns Function that removes the listener
+   */
+  static subscribe(listener: (path: string) => void): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  /**
+   * Flush a chat's outbox when the browser comes back online or the
+   * Firestore network is re-enabled
+   *
+   * @returns Function that stops watching
+   */
+  static watchConnectivity(path: string): () => void {
+    const flush = () => {
+      this.flush(path).catch((error) =>
+        console.error('❌ Error flushing outbox:', error)
+      );
+    };
+
+    window.addEventListener('online', flush);
+    const removeNetworkListener = onFirestoreNetworkChange((enabled) => {
+      if (enabled) flush();
+    });
+
+    return () => {
+      window.removeEventListener('online', flush);
+      removeNetworkListener();
+    };
+  }
+
+  private static updateEntry(
+    path: string,
+    entryId: string,
+    changes: Partial<OutboxEntry>
+  ) {
+    this.write(
+      path,
+      this.getEntries(path).map((entry) =>
+        entry.id === entryId ? { ...entry, ...changes } : entry
+      )
+    );
+  }
+
+  private static removeEntry(path: string, entryId: string) {
+    this.write(
+      path,
+      this.getEntries(path).filter((entry) => entry.id !== entryId)
+    );
+  }
+
+  private static load(path: string): OutboxEntry[] {
+    try {
+      const stored = window.localStorage.getItem(STORAGE_PREFIX + path);
+      return stored ? (JSON.parse(stored) as OutboxEntry[]) : [];
+    } catch (error) {
+      console.warn('Unreadable outbox, starting empty:', error);
+      return [];
+    }
+  }
+
+  private static write(path: string, entries: OutboxEntry[]) {
+    this.cache.set(path, entries);
+
+    try {
+      if (entries.length > 0) {
+        window.localStorage.setItem(
+          STORAGE_PREFIX + path,
+          JSON.stringify(entries)
+        );
+      } else {
+        window.localStorage.removeItem(STORAGE_PREFIX + path);
+      }
+    } catch (error) {
+      console.warn('Could not persist outbox:', error);
+    }
+
+    this.listeners.forEach((listener) => listener(path));
+  }
+}
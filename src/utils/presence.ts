@@ -0,0 +1,159 @@
+import {
+  doc,
+  collection,
+  onSnapshot,
+  setDoc,
+  serverTimestamp,
+  Unsubscribe,
+} from 'firebase/firestore';
+import { getDb } from '../lib/firebase';
+import {
+  PresenceRecord,
+  PresenceState,
+  User,
+  presenceRecordSchema,
+} from '../types';
+import { timestampToIsoString } from './message-helpers';
+
+/**
+ * How often an open chat refreshes its presence document
+ * Readers treat a user as offline after several missed heartbeats
+ * (see `getPresenceState`)
+ */
+export const PRESENCE_HEARTBEAT_MS = 30 * 1000;
+
+/**
+ * Time without a heartbeat after which a user is considered offline
+ * Allows a few missed heartbeats before flipping the state
+ */
+const PRESENCE_TIMEOUT_MS = 90 * 1000;
+
+/**
+ * Resolve the displayed presence state of a user
+ *
+ * @param record Presence document of the user, if any
+ * @param now Current time in milliseconds
+ */
+export function getPresenceState(
+  record: PresenceRecord | undefined,
+  now: number = Date.now()
+): PresenceState {
+  if (!record || record.state === 'offline') return 'offline';
+
+  const lastSeenAt = new Date(record.lastSeenAt).getTime();
+  if (Number.isNaN(lastSeenAt) || now - lastSeenAt > PRESENCE_TIMEOUT_MS) {
+    return 'offline';
+  }
+
+  return record.state;
+}
+
+/**
+ * Online presence of chat members
+ *
+ * Each user has a heartbeat document at `${path}/presence/{userId}` holding
+ * their state and `lastSeenAt`. Firestore has no onDisconnect, so clients
+ * mark themselves offline when the page is hidden or closed, and readers
+ * fall back to the heartbeat age when a client disappears without doing so.
+ */
+export class Presence {
+  private static db = getDb();
+
+  /**
+   * Write the presence document of a user
+   */
+  static async setPresence(
+    path: string,
+    user: Pick<User, 'id' | 'displayName' | 'isAgent'>,
+    state: PresenceState
+  ): Promise<void> {
+    try {
+      // Firestore rejects undefined fields
+      const record: Record<string, any> = {
+        userId: user.id,
+        isAgent: user.isAgent === true,
+        state,
+        lastSeenAt: serverTimestamp(),
+      };
+      if (user.displayName) record.displayName = user.displayName;
+
+      await setDoc(doc(this.db, `${path}/presence`, user.id), record);
+    } catch (error) {
+      console.error('Error updating presence:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Subscribe to the presence documents of a chat
+   */
+  static subscribe(
+    path: string,
+    onPresence: (records: PresenceRecord[]) => void,
+    onError?: (error: Error) => void
+  ): Unsubscribe {
+    return onSnapshot(
+      collection(this.db, `${path}/presence`),
+      (snapshot) => {
+        const records: PresenceRecord[] = [];
+
+        snapshot.forEach((presenceDoc) => {
+          const data = presenceDoc.data({ serverTimestamps: 'estimate' });
+          const validationResult = presenceRecordSchema.safeParse({
+            ...data,
+            userId: presenceDoc.id,
+            lastSeenAt: timestampToIsoString(data.lastSeenAt),
+          });
+          if (validationResult.success) {
+            records.push(validationResult.data);
+          }
+        });
+
+        onPresence(records);
+      },
+      (error) => {
+        console.error('❌ Presence listener error:', error);
+        onError?.(error);
+      }
+    );
+  }
+
+  /**
+   * Keep a user's presence up to date while they have the chat open
+   *
+   * Sends a heartbeat periodically, switches to `away` while the page is
+   * hidden and to `offline` when it is closed.
+   *
+   * @returns Function that stops tracking and marks the user offline
+   */
+  static track(
+    path: string,
+    user: Pick<User, 'id' | 'displayName' | 'isAgent'>,
+    heartbeatMs: number = PRESENCE_HEARTBEAT_MS
+  ): () => void {
+    const publish = (state: PresenceState) => {
+      this.setPresence(path, user, state).catch(() => {
+        // Missed heartbeats are covered by the expiry on the reader side
+      });
+    };
+    const currentState = (): PresenceState =>
+      document.visibilityState === 'hidden' ? 'away' : 'online';
+
+    const handleVisibilityChange = () => publish(currentState());
+    const handlePageHide = () => publish('offline');
+
+    publish(currentState());
+    const interval = setInterval(() => publish(currentState()), heartbeatMs);
+    document.addEventListener('visibilitychange', handleVisibilityChange);
+    window.addEventListener('pagehide', handlePageHide);
+
+    console.log(`🟢 Tracking presence of ${user.id} at ${path}`);
+
+    return () => {
+      clearInterval(interval);
+      document.removeEventListener('visibilitychange', handleVisibilityChange);
+      window.removeEventListener('pagehide', handlePageHide);
+      publish('offline');
+    };
+  }
+}
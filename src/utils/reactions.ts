@@ -0,0 +1,161 @@
+import {
+  doc,
+  getDoc,
+  updateDoc,
+  deleteField,
+  FieldPath,
+  runTransaction,
+} from 'firebase/firestore';
+import { getDb } from '../lib/firebase';
+import { MessageReactions, ReactionSummary, User } from '../types';
+
+/**
+ * Aggregate the reactions stored on a message into per-emoji summaries
+ *
+ * @param reactions Reactions map from the message document
+ * @param currentUserId ID of the viewing user
+ * @returns Summaries for every emoji with at least one reaction
+ */
+export function aggregateReactions(
+  reactions: MessageReactions | undefined,
+  currentUserId: string
+): ReactionSummary[] {
+  if (!reactions) return [];
+
+  return Object.entries(reactions)
+    .map(([emoji, users]) => {
+      const userIds = Object.keys(users || {});
+      return {
+        emoji,
+        count: userIds.length,
+        userIds,
+        userNames: userIds.map((id) => users[id] || id),
+        reactedByCurrentUser: userIds.includes(currentUserId),
+      };
+    })
+    .filter((summary) => summary.count > 0);
+}
+
+/**
+ * Emoji reactions persisted on message documents
+ *
+ * Reactions live on the message itself under `reactions.<emoji>.<userId>`,
+ * so they arrive with the regular message listener. The static API can be
+ * called from outside the React tree, e.g. by an agent marking a message
+ * as seen with 👀.
+ */
+export class Reactions {
+  private static db = getDb();
+
+  /**
+   * Add a reaction for a user (no-op if it already exists)
+   */
+  static async addReaction(
+    path: string,
+    messageId: string,
+    user: Pick<User, 'id' | 'displayName'>,
+    emoji: string
+  ): Promise<void> {
+    try {
+      const messageRef = doc(this.db, `${path}/messages`, messageId);
+      await updateDoc(
+        messageRef,
+        new FieldPath('reactions', emoji, user.id),
+        user.displayName || user.id
+      );
+      console.log(`✅ ${user.id} reacted with ${emoji} on ${messageId}`);
+    } catch (error) {
+      console.error('Error adding reaction:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Remove a user's reaction (no-op if it does not exist)
+   */
+  static async removeReaction(
+    path: string,
+    messageId: string,
+    userId: string,
+    emoji: string
+  ): Promise<void> {
+    try {
+      const messageRef = doc(this.db, `${path}/messages`, messageId);
+      await updateDoc(
+        messageRef,
+        new FieldPath('reactions', emoji, userId),
+        deleteField()
+      );
+      console.log(`✅ ${userId} removed ${emoji} from ${messageId}`);
+    } catch (error) {
+      console.error('Error removing reaction:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Toggle a user's reaction on a message
+   *
+   * Runs in a transaction so two quick toggles cannot both add or both
+   * remove the reaction.
+   *
+   * @returns Whether the reaction is present after the toggle
+   */
+  static async toggleReaction(
+    path: string,
+    messageId: string,
+    user: Pick<User, 'id' | 'displayName'>,
+    emoji: string
+  ): Promise<boolean> {
+    try {
+      const messageRef = doc(this.db, `${path}/messages`, messageId);
+      const field = new FieldPath('reactions', emoji, user.id);
+
+      const reacted = await runTransaction(this.db, async (transaction) => {
+        const messageDoc = await transaction.get(messageRef);
+        if (!messageDoc.exists()) {
+          throw new Error(`Message ${messageId} not found at ${path}`);
+        }
+
+        const reactions: MessageReactions = messageDoc.data().reactions || {};
+        if (reactions[emoji]?.[user.id] !== undefined) {
+          transaction.update(messageRef, field, deleteField());
+          return false;
+        }
+
+        transaction.update(messageRef, field, user.displayName || user.id);
+        return true;
+      });
+
+      console.log(
+        `✅ ${user.id} ${reacted ? 'reacted with' : 'removed'} ${emoji} on ${messageId}`
+      );
+      return reacted;
+    } catch (error) {
+      console.error('Error toggling reaction:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Get the raw reactions map stored on a message
+   */
+  static async getReactions(
+    path: string,
+    messageId: string
+  ): Promise<MessageReactions> {
+    try {
+      const messageRef = doc(this.db, `${path}/messages`, messageId);
+      const messageDoc = await getDoc(messageRef);
+
+      if (!messageDoc.exists()) {
+        throw new Error(`Message ${messageId} not found at ${path}`);
+      }
+
+      return (messageDoc.data().reactions || {}) as MessageReactions;
+    } catch (error) {
+      console.error('Error getting reactions:', error);
+      throw error;
+    }
+  }
+}
@@ -0,0 +1,264 @@
+import {
+  doc,
+  collection,
+  query,
+  where,
+  orderBy,
+  limit,
+  onSnapshot,
+  getDoc,
+  getDocs,
+  runTransaction,
+  Timestamp,
+  Unsubscribe,
+} from 'firebase/firestore';
+import { getDb } from '../lib/firebase';
+import { Message, ReadReceipt, User, readReceiptSchema } from '../types';
+import { timestampToIsoString } from './message-helpers';
+
+/**
+ * Most messages `getUnreadCount` looks at
+ */
+export const MAX_UNREAD_COUNT = 100;
+
+/**
+ * Place each reader under the newest message they have seen
+ *
+ * @param messages Messages sorted by creation time
+ * @param receipts Read receipts of the chat members
+ * @param excludeUserIds Readers to leave out, e.g. the current user
+ * @returns Receipts keyed by the message ID they belong to
+ */
+export function groupReadReceiptsByMessage(
+  messages: Message[],
+  receipts: ReadReceipt[],
+  excludeUserIds: string[] = []
+): Record<string, ReadReceipt[]> {
+  const grouped: Record<string, ReadReceipt[]> = {};
+  const createdAt = messages.map((message) =>
+    new Date(message.createdAt).getTime()
+  );
+
+  receipts.forEach((receipt) => {
+    if (excludeUserIds.includes(receipt.userId)) return;
+
+    const readAt = new Date(receipt.lastReadAt).getTime();
+    for (let i = messages.length - 1; i >= 0; i--) {
+      const messageId = messages[i].id;
+      if (messageId && createdAt[i] <= readAt) {
+        (grouped[messageId] = grouped[messageId] || []).push(receipt);
+        return;
+      }
+    }
+  });
+
+  return grouped;
+}
+
+/**
+ * Find where the "unread messages" divider goes
+ *
+ * @param messages Messages sorted by creation time
+ * @param lastReadAt Read position of the current user when the chat opened
+ * @param currentUserId ID of the current user, whose messages never count
+ * @returns ID of the first unread message, or null if there is none
+ */
+export function findFirstUnreadMessageId(
+  messages: Message[],
+  lastReadAt: string | null,
+  currentUserId: string
+): string | null {
+  // Nothing to separate the first time a chat is opened
+  if (!lastReadAt) return null;
+
+  const readAt = new Date(lastReadAt).getTime();
+  const firstUnread = messages.find(
+    (message) =>
+      message.senderId !== currentUserId &&
+      new Date(message.createdAt).getTime() > readAt
+  );
+
+  return firstUnread?.id || null;
+}
+
+/**
+ * Read receipts and unread counters
+ *
+ * Each member has a document at `${path}/reads/{userId}` with the creation
+ * time and ID of the newest message they have seen. Read positions only
+ * move forward, so older messages arriving late (e.g. history pages) never
+ * mark newer ones as unread again.
+ */
+export class ReadReceipts {
+  private static db = getDb();
+
+  /**
+   * Record that a user has read a chat up to the given message
+   *
+   * @returns Whether the read position moved forward
+   */
+  static async markRead(
+    path: string,
+    user: Pick<User, 'id' | 'displayName'>,
+    message: Pick<Message, 'id' | 'createdAt'>
+  ): Promise<boolean> {
+    try {
+      if (!message.id) {
+        throw new Error('Cannot mark a message without an ID as read');
+      }
+
+      const readAt = new Date(message.createdAt);
+      if (Number.isNaN(readAt.getTime())) {
+        throw new Error(`Message ${message.id} has no valid creation time`);
+      }
+
+      const receiptRef = doc(this.db, `${path}/reads`, user.id);
+
+      const advanced = await runTransaction(this.db, async (transaction) => {
+        const receiptDoc = await transaction.get(receiptRef);
+        if (receiptDoc.exists()) {
+          const current = timestampToIsoString(receiptDoc.data().lastReadAt);
+          if (current && new Date(current).getTime() >= readAt.getTime()) {
+            return false;
+          }
+        }
+
+        // Firestore rejects undefined fields
+        const receipt: Record<string, any> = {
+          userId: user.id,
+          lastReadAt: Timestamp.fromDate(readAt),
+          lastReadMessageId: message.id,
+        };
+        if (user.displayName) receipt.displayName = user.displayName;
+
+        transaction.set(receiptRef, receipt);
+        return true;
+      });
+
+      if (advanced) {
+        console.log(`👁️ ${user.id} read ${path} up to ${message.id}`);
+      }
+      return advanced;
+    } catch (error) {
+      console.error('Error marking messages as read:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Get the read position of a user, or null if they never opened the chat
+   */
+  static async getReadReceipt(
+    path: string,
+    userId: string
+  ): Promise<ReadReceipt | null> {
+    try {
+      const receiptDoc = await getDoc(doc(this.db, `${path}/reads`, userId));
+      if (!receiptDoc.exists()) return null;
+
+      return this.parseReceipt(userId, receiptDoc.data());
+    } catch (error) {
+      console.error('Error getting read receipt:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Subscribe to the read positions of all members of a chat
+   */
+  static subscribe(
+    path: string,
+    onReceipts: (receipts: ReadReceipt[]) => void,
+    onError?: (error: Error) => void
+  ): Unsubscribe {
+    return onSnapshot(
+      collection(this.db, `${path}/reads`),
+      (snapshot) => {
+        const receipts: ReadReceipt[] = [];
+        snapshot.forEach((receiptDoc) => {
+          const receipt = this.parseReceipt(receiptDoc.id, receiptDoc.data());
+          if (receipt) receipts.push(receipt);
+        });
+
+        onReceipts(receipts);
+      },
+      (error) => {
+        console.error('❌ Read receipt listener error:', error);
+        onError?.(error);
+      }
+    );
+  }
+
+  /**
+   * Count the messages a user has not read yet
+   *
+   * The user's own messages, thread replies and deleted messages are not
+   * counted. Filtering happens client side so no composite index is
+   * required. Only the newest `MAX_UNREAD_COUNT` messages are checked, so
+   * larger counts are capped (e.g. shown as "99+").
+   */
+  static async getUnreadCount(path: string, userId: string): Promise<number> {
+    try {
+      const receipt = await this.getReadReceipt(path, userId);
+      const unreadQuery = query(
+        collection(this.db, `${path}/messages`),
+        ...(receipt
+          ? [
+              where(
+                'createdAt',
+                '>',
+                Timestamp.fromDate(new Date(receipt.lastReadAt))
+              ),
+            ]
+          : []),
+        orderBy('createdAt', 'desc'),
+        limit(MAX_UNREAD_COUNT)
+      );
+
+      const snapshot = await getDocs(unreadQuery);
+      return snapshot.docs.filter((messageDoc) => {
+        const message = messageDoc.data();
+        return (
+          // Read positions keep milliseconds while the server keeps
+          // microseconds, so the last read message can be newer than it
+          messageDoc.id !== receipt?.lastReadMessageId &&
+          message.senderId !== userId &&
+          !message.threadId &&
+          !message.deleted
+        );
+      }).length;
+    } catch (error) {
+      console.error('Error getting unread count:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Count unread messages for several chats, e.g. for a chat list
+   *
+   * @returns Unread count keyed by chat path
+   */
+  static async getUnreadCounts(
+    paths: string[],
+    userId: string
+  ): Promise<Record<string, number>> {
+    const counts = await Promise.all(
+      paths.map((path) => this.getUnreadCount(path, userId))
+    );
+
+    return paths.reduce<Record<string, number>>((result, path, index) => {
+      result[path] = counts[index];
+      return result;
+    }, {});
+  }
+
+  private static parseReceipt(userId: string, data: any): ReadReceipt | null {
+    const validationResult = readReceiptSchema.safeParse({
+      ...data,
+      userId,
+      lastReadAt: timestampToIsoString(data.lastReadAt),
+    });
+
+    return validationResult.success ? validationResult.data : null;
+  }
+}
@@ -0,0 +1,168 @@
+import { BlockNode, InlineNode, TableAlign } from './markdown';
+
+/**
+ * URL schemes links may use; anything else (javascript:, data:, vbscript:,
+ * ...) is dropped
+ */
+const ALLOWED_URL_PROTOCOLS = ['http:', 'https:', 'mailto:'];
+
+/**
+ * Languages are only used in class names
+ */
+const LANGUAGE_REGEX = /^[\w+#.-]{1,32}$/;
+
+const TABLE_ALIGNMENTS: TableAlign[] = ['left', 'center', 'right', null];
+
+/**
+ * Check a link target against the protocol allowlist
+ *
+ * Relative URLs and fragments are allowed. Browsers ignore whitespace and
+ * control characters inside a scheme ("java\tscript:"), so those are
+ * removed before the scheme is checked.
+ *
+ * @returns The URL to use, or null if it must not be linked
+ */
+export function sanitizeUrl(url: unknown): string | null {
+  if (typeof url !== 'string') return null;
+
+  // eslint-disable-next-line no-control-regex
+  const normalized = url.replace(/[\u0000- \u007f-\u009f]/g, '');
+  if (!normalized) return null;
+
+  const scheme = normalized.match(/^([a-z][a-z0-9+.-]*):/i);
+  if (scheme && !ALLOWED_URL_PROTOCOLS.includes(scheme[0].toLowerCase())) {
+    return null;
+  }
+
+  // Anything else with a colon before the first slash is not a plain
+  // relative URL (e.g. entity-encoded schemes) and is not linked
+  if (!scheme && /^[^/]*:/.test(normalized)) return null;
+
+  return normalized;
+}
+
+function text(value: unknown): string {
+  return typeof value === 'string' ? value : '';
+}
+
+function sanitizeInlineNodes(nodes: unknown): InlineNode[] {
+  if (!Array.isArray(nodes)) return [];
+
+  return nodes.flatMap((node): InlineNode[] => {
+    if (!node || typeof node !== 'object') return [];
+
+    switch (node.type) {
+      case 'text':
+        return [{ type: 'text', text: text(node.text) }];
+      case 'break':
+        return [{ type: 'break' }];
+      case 'inlineCode':
+        return [{ type: 'inlineCode', text: text(node.text) }];
+      case 'strong':
+      case 'emphasis':
+      case 'strikethrough':
+        return [
+          { type: node.type, children: sanitizeInlineNodes(node.children) },
+        ];
+      case 'mention':
+        return [
+          {
+            type: 'mention',
+            userId: text(node.userId),
+            label: text(node.label),
+          },
+        ];
+      case 'link': {
+        const children = sanitizeInlineNodes(node.children);
+        const href = sanitizeUrl(node.href);
+        // Unsafe links keep their text
+        return href ? [{ type: 'link', href, children }] : children;
+      }
+      default:
+        return [];
+    }
+  });
+}
+
+/**
+ * Rebuild a Markdown tree from allowlisted node types and fields only
+ *
+ * Unknown nodes are dropped, unsafe links become plain text and values
+ * that end up in attributes are validated, so the renderer can trust the
+ * result even if the parser (or a custom tree) produces something
+ * unexpected.
+ */
+export function sanitizeMarkdown(nodes: unknown): BlockNode[] {
+  if (!Array.isArray(nodes)) return [];
+
+  return nodes.flatMap((node): BlockNode[] => {
+    if (!node || typeof node !== 'object') return [];
+
+    switch (node.type) {
+      case 'paragraph':
+        return [
+          { type: 'paragraph', children: sanitizeInlineNodes(node.children) },
+        ];
+      case 'heading': {
+        const depth = Number(node.depth);
+        return [
+          {
+            type: 'heading',
+            depth: Number.isInteger(depth)
+              ? Math.min(Math.max(depth, 1), 6)
+              : 1,
+            children: sanitizeInlineNodes(node.children),
+          },
+        ];
+      }
+      case 'thematicBreak':
+        return [{ type: 'thematicBreak' }];
+      case 'blockquote':
+        return [
+          { type: 'blockquote', children: sanitizeMarkdown(node.children) },
+        ];
+      case 'code': {
+        const code: BlockNode = { type: 'code', text: text(node.text) };
+        if (typeof node.lang === 'string' && LANGUAGE_REGEX.test(node.lang)) {
+          code.lang = node.lang;
+        }
+        return [code];
+      }
+      case 'list': {
+        const list: BlockNode = {
+          type: 'list',
+          ordered: node.ordered === true,
+          items: Array.isArray(node.items)
+            ? node.items.map((item: unknown) => sanitizeMarkdown(item))
+            : [],
+        };
+        if (list.ordered && Number.isInteger(node.start)) {
+          list.start = node.start;
+        }
+        return [list];
+      }
+      case 'table': {
+        const header: unknown[] = Array.isArray(node.header) ? node.header : [];
+        const rows: unknown[] = Array.isArray(node.rows) ? node.rows : [];
+        return [
+          {
+            type: 'table',
+            align: header.map((_, index) =>
+              TABLE_ALIGNMENTS.includes(node.align?.[index])
+                ? node.align[index]
+                : null
+            ),
+            header: header.map((cell) => sanitizeInlineNodes(cell)),
+            rows: rows.map((row) =>
+              header.map((_, index) =>
+                sanitizeInlineNodes(Array.isArray(row) ? row[index] : [])
+              )
+            ),
+          },
+        ];
+      }
+      default:
+        return [];
+    }
+  });
+}
@@ -0,0 +1,126 @@
+import {
+  doc,
+  collection,
+  query,
+  where,
+  onSnapshot,
+  runTransaction,
+  serverTimestamp,
+  increment,
+  Unsubscribe,
+} from 'firebase/firestore';
+import { getDb } from '../lib/firebase';
+import { Message } from '../types';
+import { messageFromFirestore } from './message-helpers';
+
+/**
+ * Number of recent repliers kept on the root message for avatars
+ */
+const MAX_LAST_REPLIERS = 3;
+
+/**
+ * Threaded replies
+ *
+ * Replies are stored alongside regular messages in `${path}/messages` with
+ * `threadId` set to the root message ID. The root message keeps a summary
+ * (`replyCount`, `lastReplyAt`, `lastRepliers`) so the timeline can render
+ * thread previews without subscribing to every thread.
+ */
+export class Threads {
+  private static db = getDb();
+
+  /**
+   * Add a reply to a thread and update the root message summary atomically
+   *
+   * A reserved `replyId` makes retries safe: if the reply already exists the
+   * summary is not counted twice.
+   *
+   * @returns ID of the created reply
+   */
+  static async addReply(
+    path: string,
+    rootMessageId: string,
+    reply: Omit<Message, 'id' | 'createdAt' | 'updatedAt'>,
+    replyId?: string
+  ): Promise<string> {
+    try {
+      const messagesRef = collection(this.db, `${path}/messages`);
+      const rootRef = doc(messagesRef, rootMessageId);
+      const replyRef = replyId ? doc(messagesRef, replyId) : doc(messagesRef);
+
+      await runTransaction(this.db, async (transaction) => {
+        const rootDoc = await transaction.get(rootRef);
+        if (!rootDoc.exists()) {
+          throw new Error(`Thread root ${rootMessageId} not found at ${path}`);
+        }
+
+        if (replyId && (await transaction.get(replyRef)).exists()) {
+          return;
+        }
+
+        const root = rootDoc.data() as Message;
+        const lastRepliers = [
+          ...(root.lastRepliers || []).filter(
+            (replier) => replier.id !== reply.senderId
+          ),
+          { id: reply.senderId, name: reply.senderName || reply.senderId },
+        ].slice(-MAX_LAST_REPLIERS);
+
+        transaction.set(replyRef, {
+          ...reply,
+          threadId: rootMessageId,
+          createdAt: serverTimestamp(),
+          updatedAt: serverTimestamp(),
+        });
+        transaction.update(rootRef, {
+          replyCount: increment(1),
+          lastReplyAt: serverTimestamp(),
+          lastRepliers,
+        });
+      });
+
+      console.log(`🧵 Added reply ${replyRef.id} to thread ${rootMessageId}`);
+      return replyRef.id;
+    } catch (error) {
+      console.error('Error adding reply:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Subscribe to the replies of a thread, oldest first
+   *
+   * Sorting happens client side so no composite index is required.
+   */
+  static subscribeToReplies(
+    path: string,
+    rootMessageId: string,
+    onReplies: (replies: Message[]) => void,
+    onError?: (error: Error) => void
+  ): Unsubscribe {
+    const repliesQuery = query(
+      collection(this.db, `${path}/messages`),
+      where('threadId', '==', rootMessageId)
+    );
+
+    return onSnapshot(
+      repliesQuery,
+      (snapshot) => {
+        const replies = snapshot.docs
+          .map((replyDoc) =>
+            messageFromFirestore(
+              replyDoc.id,
+              replyDoc.data({ serverTimestamps: 'estimate' })
+            )
+          )
+          .sort((a, b) => (a.createdAt || '').localeCompare(b.createdAt || ''));
+
+        onReplies(replies);
+      },
+      (error) => {
+        console.error('❌ Thread listener error:', error);
+        onError?.(error);
+      }
+    );
+  }
+}
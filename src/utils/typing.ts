@@ -0,0 +1,201 @@
+import {
+  doc,
+  collection,
+  onSnapshot,
+  setDoc,
+  deleteDoc,
+  serverTimestamp,
+  Unsubscribe,
+} from 'firebase/firestore';
+import { getDb } from '../lib/firebase';
+import { ActivityStatus, User, activityStatusSchema } from '../types';
+import { timestampToIsoString } from './message-helpers';
+
+/**
+ * Agent activity that can be published with `setAgentStatus`
+ */
+export type AgentActivity =
+  | { state: 'thinking' }
+  | { state: 'tool'; toolName: string }
+  | { state: 'writing' };
+
+/**
+ * How long an activity status is shown without being refreshed
+ * Agents get longer since a single tool call can take a while
+ */
+const TYPING_STATUS_TTL_MS = 10 * 1000;
+const AGENT_STATUS_TTL_MS = 2 * 60 * 1000;
+
+/**
+ * Check whether an activity status is recent enough to display
+ *
+ * @param status Activity status document
+ * @param now Current time in milliseconds
+ */
+export function isActivityStatusActive(
+  status: ActivityStatus,
+  now: number = Date.now()
+): boolean {
+  const updatedAt = new Date(status.updatedAt).getTime();
+  if (Number.isNaN(updatedAt)) return false;
+
+  const ttl = status.isAgent ? AGENT_STATUS_TTL_MS : TYPING_STATUS_TTL_MS;
+  return now - updatedAt <= ttl;
+}
+
+/**
+ * Describe who is typing, e.g. "Alice and Bob are typing…"
+ *
+ * @param statuses Typing statuses of human users
+ * @returns Indicator text, or null if nobody is typing
+ */
+export function formatTypingIndicator(
+  statuses: ActivityStatus[]
+): string | null {
+  const names = statuses.map((status) => status.displayName || status.userId);
+
+  if (names.length === 0) return null;
+  if (names.length === 1) return `${names[0]} is typing…`;
+  if (names.length === 2) return `${names[0]} and ${names[1]} are typing…`;
+  return `${names[0]} and ${names.length - 1} others are typing…`;
+}
+
+/**
+ * Describe what an agent is doing, e.g. "Assistant is running search…"
+ *
+ * @param status Agent activity status
+ * @returns Status text
+ */
+export function formatAgentActivity(status: ActivityStatus): string {
+  const name = status.displayName || status.userId;
+
+  switch (status.state) {
+    case 'tool':
+      return status.toolName
+        ? `${name} is running ${status.toolName}…`
+        : `${name} is running a tool…`;
+    case 'writing':
+      return `${name} is writing…`;
+    case 'thinking':
+      return `${name} is thinking…`;
+    default:
+      return `${name} is typing…`;
+  }
+}
+
+/**
+ * Typing indicators and agent status
+ *
+ * Each user has at most one status document at `${path}/typing/{userId}`.
+ * Documents are deleted when the activity ends; readers also ignore stale
+ * ones (see `isActivityStatusActive`) in case a client goes away mid-typing.
+ */
+export class Typing {
+  private static db = getDb();
+
+  /**
+   * Publish or clear the typing indicator of a human user
+   */
+  static async setTyping(
+    path: string,
+    user: Pick<User, 'id' | 'displayName'>,
+    isTyping: boolean
+  ): Promise<void> {
+    try {
+      if (!isTyping) {
+        await this.clearStatus(path, user.id);
+        return;
+      }
+
+      await this.writeStatus(path, user, { state: 'typing' }, false);
+    } catch (error) {
+      console.error('Error updating typing status:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Publish what an agent is doing, or clear it with `null`
+   *
+   * Long running activities should be re-published periodically so the
+   * status does not expire while the agent is still working.
+   */
+  static async setAgentStatus(
+    path: string,
+    agent: Pick<User, 'id' | 'displayName'>,
+    activity: AgentActivity | null
+  ): Promise<void> {
+    try {
+      if (!activity) {
+        await this.clearStatus(path, agent.id);
+        return;
+      }
+
+      await this.writeStatus(path, agent, activity, true);
+      console.log(`🤖 ${agent.id} is ${activity.state} at ${path}`);
+    } catch (error) {
+      console.error('Error updating agent status:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Subscribe to the activity of everyone in a chat except the current user
+   */
+  static subscribe(
+    path: string,
+    currentUserId: string,
+    onStatuses: (statuses: ActivityStatus[]) => void,
+    onError?: (error: Error) => void
+  ): Unsubscribe {
+    return onSnapshot(
+      collection(this.db, `${path}/typing`),
+      (snapshot) => {
+        const statuses: ActivityStatus[] = [];
+
+        snapshot.forEach((statusDoc) => {
+          if (statusDoc.id === currentUserId) return;
+
+          const data = statusDoc.data({ serverTimestamps: 'estimate' });
+          const validationResult = activityStatusSchema.safeParse({
+            ...data,
+            userId: statusDoc.id,
+            updatedAt: timestampToIsoString(data.updatedAt),
+          });
+          if (validationResult.success) {
+            statuses.push(validationResult.data);
+          }
+        });
+
+        onStatuses(statuses);
+      },
+      (error) => {
+        console.error('❌ Typing listener error:', error);
+        onError?.(error);
+      }
+    );
+  }
+
+  private static async writeStatus(
+    path: string,
+    user: Pick<User, 'id' | 'displayName'>,
+    activity: { state: ActivityStatus['state']; toolName?: string },
+    isAgent: boolean
+  ): Promise<void> {
+    // Firestore rejects undefined fields
+    const status: Record<string, any> = {
+      userId: user.id,
+      isAgent,
+      state: activity.state,
+      updatedAt: serverTimestamp(),
+    };
+    if (user.displayName) status.displayName = user.displayName;
+    if (activity.toolName) status.toolName = activity.toolName;
+
+    await setDoc(doc(this.db, `${path}/typing`, user.id), status);
+  }
+
+  private static async clearStatus(path: string, userId: string) {
+    await deleteDoc(doc(this.db, `${path}/typing`, userId));
+  }
+}
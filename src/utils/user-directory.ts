@@ -0,0 +1,133 @@
+import { doc, getDoc } from 'firebase/firestore';
+import { getDb } from '../lib/firebase';
+import { User, UserDirectory, userSchema } from '../types';
+import { AccessControl } from './access-control';
+
+/**
+ * Filter users by a mention query
+ *
+ * Names or IDs starting with the query rank before other matches; ties are
+ * broken alphabetically.
+ *
+ * @param users Users to search
+ * @param query Text typed after "@", matched case-insensitively
+ * @param limit Maximum number of results
+ */
+export function searchUsers(users: User[], query: string, limit = 10): User[] {
+  const needle = query.trim().toLowerCase();
+  const nameOf = (user: User) => (user.displayName || user.id).toLowerCase();
+
+  const rank = (user: User) => {
+    const name = nameOf(user);
+    const id = user.id.toLowerCase();
+    if (name.startsWith(needle) || id.startsWith(needle)) return 0;
+    if (name.includes(needle) || id.includes(needle)) return 1;
+    return -1;
+  };
+
+  return users
+    .map((user) => ({ user, rank: rank(user) }))
+    .filter((entry) => entry.rank >= 0)
+    .sort(
+      (a, b) => a.rank - b.rank || nameOf(a.user).localeCompare(nameOf(b.user))
+    )
+    .slice(0, limit)
+    .map((entry) => entry.user);
+}
+
+/**
+ * Default user directory backed by Firestore
+ *
+ * Members come from the chat's `members` collection (via
+ * `AccessControl.getMembers`) and the configured agent IDs. Names and roles
+ * are read from profile documents at `${usersPath}/{userId}`; users without
+ * a profile are listed under their ID. The directory is loaded once and
+ * cached until `refresh` is called.
+ */
+export class FirestoreUserDirectory implements UserDirectory {
+  private db = getDb();
+  private users: Promise<User[]> | null = null;
+
+  constructor(
+    private path: string,
+    private agentIds: string[] = [],
+    private usersPath = 'users'
+  ) {}
+
+  async search(query: string, limit?: number): Promise<User[]> {
+    return searchUsers(await this.load(), query, limit);
+  }
+
+  async getUser(userId: string): Promise<User | null> {
+    const users = await this.load();
+    return users.find((user) => user.id === userId) || null;
+  }
+
+  /**
+   * Drop the cached members so the next lookup reloads them
+   */
+  refresh(): void {
+    this.users = null;
+  }
+
+  private load(): Promise<User[]> {
+    if (!this.users) {
+      this.users = this.fetchUsers().catch((error) => {
+        // Allow the next lookup to try again
+        this.users = null;
+        throw error;
+      });
+    }
+    return this.users;
+  }
+
+  private async fetchUsers(): Promise<User[]> {
+    try {
+      const members = await AccessControl.getMembers(this.path);
+      const userIds = Array.from(
+        new Set([...members.map((member) => member.userId), ...this.agentIds])
+      );
+
+      const users = await Promise.all(
+        userIds.map((userId) => this.fetchProfile(userId))
+      );
+
+      console.log(`📇 Loaded ${users.length} users for ${this.path}`);
+      return users;
+    } catch (error) {
+      console.error('Error loading user directory:', error);
+      throw error;
+    }
+  }
+
+  private async fetchProfile(userId: string): Promise<User> {
+    const isAgent = this.agentIds.includes(userId);
+    const fallback: User = {
+      id: userId,
+      displayName: userId,
+      isAgent,
+      role: isAgent ? 'agent' : 'user',
+    };
+
+    try {
+      const profileDoc = await getDoc(doc(this.db, this.usersPath, userId));
+      if (!profileDoc.exists()) return fallback;
+
+      const validationResult = userSchema.safeParse({
+        ...profileDoc.data(),
+        id: userId,
+      });
+      if (!validationResult.success) {
+        console.warn('Invalid user profile:', userId, validationResult.error);
+        return fallback;
+      }
+
+      const profile = validationResult.data;
+      return isAgent ? { ...profile, isAgent, role: 'agent' } : profile;
+    } catch (error) {
+      // A missing or unreadable profile should not hide the member
+      console.warn(`Could not load profile of ${userId}:`, error);
+      return fallback;
+    }
+  }
+}
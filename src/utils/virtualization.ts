@@ -0,0 +1,75 @@
+/**
+ * Helpers for windowed rendering of lists with variable row heights
+ */
+
+/**
+ * Range of rendered rows, `end` exclusive
+ */
+export interface VisibleRange {
+  start: number;
+  end: number;
+}
+
+/**
+ * Compute the top offset of every row
+ *
+ * @param heights Measured or estimated height of each row
+ * @returns Offsets with one extra trailing entry holding the total height
+ */
+export function computeOffsets(heights: number[]): number[] {
+  const offsets = new Array<number>(heights.length + 1);
+  offsets[0] = 0;
+
+  for (let i = 0; i < heights.length; i++) {
+    offsets[i + 1] = offsets[i] + heights[i];
+  }
+
+  return offsets;
+}
+
+/**
+ * Find the rows intersecting the viewport
+ *
+ * @param offsets Row offsets from `computeOffsets`
+ * @param viewportTop Scroll position relative to the top of the list
+ * @param viewportHeight Visible height of the scroll container
+ * @param overscan Extra pixels rendered above and below the viewport
+ */
+export function findVisibleRange(
+  offsets: number[],
+  viewportTop: number,
+  viewportHeight: number,
+  overscan = 0
+): VisibleRange {
+  const count = offsets.length - 1;
+  if (count <= 0) return { start: 0, end: 0 };
+
+  const top = viewportTop - overscan;
+  const bottom = viewportTop + viewportHeight + overscan;
+
+  // First row whose bottom edge is below the top of the window
+  let low = 0;
+  let high = count;
+  while (low < high) {
+    const mid = (low + high) >> 1;
+    if (offsets[mid + 1] <= top) {
+      low = mid + 1;
+    } else {
+      high = mid;
+    }
+  }
+  const start = Math.min(low, count - 1);
+
+  // First row starting at or below the bottom of the window
+  high = count;
+  while (low < high) {
+    const mid = (low + high) >> 1;
+    if (offsets[mid] < bottom) {
+      low = mid + 1;
+    } else {
+      high = mid;
+    }
+  }
+
+  return { start, end: Math.max(low, start + 1) };
+}
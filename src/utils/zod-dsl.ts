@@ -0,0 +1,406 @@
+import { z } from 'zod';
+
+/**
+ * Where and why a textual schema could not be parsed
+ */
+export interface ZodDslError {
+  message: string;
+  /** Character offset into the source */
+  offset: number;
+  /** 1-based line and column */
+  line: number;
+  column: number;
+}
+
+export type ZodDslResult =
+  | { success: true; schema: z.ZodTypeAny }
+  | { success: false; error: ZodDslError };
+
+/**
+ * Longest source accepted, and deepest nesting of schemas
+ */
+export const ZOD_DSL_MAX_LENGTH = 20000;
+export const ZOD_DSL_MAX_DEPTH = 32;
+
+type TokenType = 'identifier' | 'string' | 'number' | 'punctuation' | 'end';
+
+interface Token {
+  type: TokenType;
+  value: string;
+  offset: number;
+}
+
+class DslSyntaxError extends Error {
+  constructor(
+    message: string,
+    public offset: number
+  ) {
+    super(message);
+  }
+}
+
+const PUNCTUATION = '.(){}[],:;';
+
+/**
+ * Split the source into tokens, skipping whitespace and comments
+ */
+function tokenize(source: string): Token[] {
+  const tokens: Token[] = [];
+  let i = 0;
+
+  while (i < source.length) {
+    const char = source[i];
+
+    if (/\s/.test(char)) {
+      i++;
+    } else if (source.startsWith('//', i)) {
+      const end = source.indexOf('\n', i);
+      i = end === -1 ? source.length : end;
+    } else if (source.startsWith('/*', i)) {
+      const end = source.indexOf('*/', i + 2);
+      if (end === -1) throw new DslSyntaxError('Unclosed comment', i);
+      i = end + 2;
+    } else if (PUNCTUATION.includes(char)) {
+      tokens.push({ type: 'punctuation', value: char, offset: i });
+      i++;
+    } else if (char === '"' || char === "'" || char === '`') {
+      const start = i;
+      let value = '';
+      i++;
+      while (source[i] !== char) {
+        if (i >= source.length || source[i] === '\n') {
+          throw new DslSyntaxError('Unterminated string', start);
+        }
+        if (char === '`' && source.startsWith('${', i)) {
+          throw new DslSyntaxError('Template expressions are not allowed', i);
+        }
+        if (source[i] === '\\') {
+          const escaped = source[i + 1];
+          value +=
+            escaped === 'n' ? '\n' : escaped === 't' ? '\t' : (escaped ?? '');
+          i += 2;
+        } else {
+          value += source[i++];
+        }
+      }
+      i++;
+      tokens.push({ type: 'string', value, offset: start });
+    } else if (/[-\d]/.test(char)) {
+      const match = source.slice(i).match(/^-?\d+(\.\d+)?/);
+      if (!match) throw new DslSyntaxError(`Unexpected "${char}"`, i);
+      tokens.push({ type: 'number', value: match[0], offset: i });
+      i += match[0].length;
+    } else if (/[A-Za-z_$]/.test(char)) {
+      const match = source.slice(i).match(/^[\w$]+/)!;
+      tokens.push({ type: 'identifier', value: match[0], offset: i });
+      i += match[0].length;
+    } else {
+      throw new DslSyntaxError(`Unexpected "${char}"`, i);
+    }
+  }
+
+  tokens.push({ type: 'end', value: '', offset: source.length });
+  return tokens;
+}
+
+type Literal = string | number | boolean | null;
+
+/**
+ * Recursive descent parser over the token list
+ *
+ * Only the builder calls listed in `createSchema` and `applyMethod` are
+ * understood; nothing from the source is ever evaluated.
+ */
+class Parser {
+  private position = 0;
+  private depth = 0;
+
+  constructor(private tokens: Token[]) {}
+
+  parse(): z.ZodTypeAny {
+    const schema = this.parseSchema();
+    if (this.peek().value === ';') this.position++;
+    this.expectEnd();
+    return schema;
+  }
+
+  private peek(): Token {
+    return this.tokens[this.position];
+  }
+
+  private next(): Token {
+    return this.tokens[this.position++];
+  }
+
+  private fail(message: string, token = this.peek()): never {
+    throw new DslSyntaxError(message, token.offset);
+  }
+
+  private expect(value: string): Token {
+    const token = this.next();
+    if (token.value !== value || token.type !== 'punctuation') {
+      this.fail(`Expected "${value}"`, token);
+    }
+    return token;
+  }
+
+  private expectEnd() {
+    if (this.peek().type !== 'end') this.fail('Unexpected text after schema');
+  }
+
+  /** Consume a comma before a closing bracket or another element */
+  private skipComma(closing: string) {
+    if (this.peek().value === ',') {
+      this.position++;
+    } else if (this.peek().value !== closing) {
+      this.fail(`Expected "," or "${closing}"`);
+    }
+  }
+
+  private parseSchema(): z.ZodTypeAny {
+    if (++this.depth > ZOD_DSL_MAX_DEPTH) {
+      this.fail('Schema is nested too deeply');
+    }
+
+    const start = this.next();
+    if (start.type !== 'identifier' || start.value !== 'z') {
+      this.fail('Expected a schema starting with "z."', start);
+    }
+    this.expect('.');
+
+    const factory = this.next();
+    if (factory.type !== 'identifier') this.fail('Expected a type', factory);
+    this.expect('(');
+    let schema = this.createSchema(factory);
+    this.expect(')');
+
+    while (this.peek().value === '.') {
+      this.position++;
+      const method = this.next();
+      if (method.type !== 'identifier') {
+        this.fail('Expected a method name', method);
+      }
+      this.expect('(');
+      schema = this.applyMethod(schema, method);
+      this.expect(')');
+    }
+
+    this.depth--;
+    return schema;
+  }
+
+  private createSchema(factory: Token): z.ZodTypeAny {
+    switch (factory.value) {
+      case 'string':
+        return z.string();
+      case 'number':
+        return z.number();
+      case 'boolean':
+        return z.boolean();
+      case 'date':
+        return z.date();
+      case 'array':
+        return z.array(this.parseSchema());
+      case 'enum':
+        return this.parseEnum();
+      case 'object':
+        return this.parseObject();
+      default:
+        return this.fail(`Unsupported type z.${factory.value}()`, factory);
+    }
+  }
+
+  private parseEnum(): z.ZodTypeAny {
+    this.expect('[');
+    const values: string[] = [];
+    while (this.peek().value !== ']') {
+      const token = this.next();
+      if (token.type !== 'string') this.fail('Enum values must be text', token);
+      values.push(token.value);
+      this.skipComma(']');
+    }
+    const close = this.expect(']');
+
+    if (values.length === 0) this.fail('Enums need at least one value', close);
+    return z.enum(values as [string, ...string[]]);
+  }
+
+  private parseObject(): z.ZodTypeAny {
+    this.expect('{');
+    const shape: Record<string, z.ZodTypeAny> = {};
+
+    while (this.peek().value !== '}') {
+      const key = this.next();
+      if (key.type !== 'identifier' && key.type !== 'string') {
+        this.fail('Expected a field name', key);
+      }
+      // Assigning it would replace the shape's prototype instead
+      if (key.value === '__proto__') {
+        this.fail('"__proto__" cannot be used as a field name', key);
+      }
+      if (Object.prototype.hasOwnProperty.call(shape, key.value)) {
+        this.fail(`Duplicate field "${key.value}"`, key);
+      }
+      this.expect(':');
+      shape[key.value] = this.parseSchema();
+      this.skipComma('}');
+    }
+    this.expect('}');
+
+    return z.object(shape);
+  }
+
+  private parseLiteral(): Literal {
+    const token = this.next();
+    if (token.type === 'string') return token.value;
+    if (token.type === 'number') return Number(token.value);
+    if (token.type === 'identifier') {
+      if (token.value === 'true') return true;
+      if (token.value === 'false') return false;
+      if (token.value === 'null') return null;
+    }
+    return this.fail('Expected text, a number, true, false or null', token);
+  }
+
+  /** Optional custom error message argument */
+  private parseMessage(): string | undefined {
+    if (this.peek().value !== ',') return undefined;
+    this.position++;
+    if (this.peek().value === ')') return undefined;
+
+    const token = this.next();
+    if (token.type !== 'string') this.fail('Expected a message', token);
+    return token.value;
+  }
+
+  private parseCount(method: Token): number {
+    const token = this.next();
+    if (token.type !== 'number') {
+      this.fail(`.${method.value}() needs a number`, token);
+    }
+    return Number(token.value);
+  }
+
+  private applyMethod(schema: z.ZodTypeAny, method: Token): z.ZodTypeAny {
+    const name = method.value;
+    const unsupported = () =>
+      this.fail(`.${name}() cannot be used on this type`, method);
+
+    switch (name) {
+      case 'optional':
+        return schema.optional();
+      case 'nullable':
+        return schema.nullable();
+      case 'describe': {
+        const token = this.next();
+        if (token.type !== 'string') this.fail('Expected a description', token);
+        return schema.describe(token.value);
+      }
+      case 'default': {
+        const start = this.peek();
+        const value = this.parseLiteral();
+        if (!schema.safeParse(value).success) {
+          this.fail('Default value does not match the type', start);
+        }
+        return schema.default(value);
+      }
+      case 'min':
+      case 'max':
+      case 'length': {
+        const count = this.parseCount(method);
+        const message = this.parseMessage();
+        if (schema instanceof z.ZodString) {
+          if (name === 'min') return schema.min(count, message);
+          if (name === 'max') return schema.max(count, message);
+          return schema.length(count, message);
+        }
+        if (schema instanceof z.ZodArray) {
+          if (name === 'min') return schema.min(count, message);
+          if (name === 'max') return schema.max(count, message);
+          return schema.length(count, message);
+        }
+        if (schema instanceof z.ZodNumber && name !== 'length') {
+          return name === 'min'
+            ? schema.min(count, message)
+            : schema.max(count, message);
+        }
+        return unsupported();
+      }
+      case 'email':
+      case 'url': {
+        const message = this.parseOptionalMessage();
+        if (!(schema instanceof z.ZodString)) return unsupported();
+        return schema[name](message);
+      }
+      case 'int': {
+        const message = this.parseOptionalMessage();
+        if (!(schema instanceof z.ZodNumber)) return unsupported();
+        return schema.int(message);
+      }
+      default:
+        return this.fail(`Unsupported method .${name}()`, method);
+    }
+  }
+
+  /** A message as the only argument, e.g. `.email('Invalid email')` */
+  private parseOptionalMessage(): string | undefined {
+    if (this.peek().value === ')') return undefined;
+    const token = this.next();
+    if (token.type !== 'string') this.fail('Expected a message', token);
+    return token.value;
+  }
+}
+
+/**
+ * Line and column of a character offset
+ */
+function locate(source: string, offset: number) {
+  const before = source.slice(0, offset).split('\n');
+  return {
+    line: before.length,
+    column: before[before.length - 1].length + 1,
+  };
+}
+
+/**
+ * Turn Zod builder code into a schema without evaluating it
+ *
+ * Supported subset:
+ * - types: `z.object({...})`, `z.string()`, `z.number()`, `z.boolean()`,
+ *   `z.date()`, `z.enum(['a', 'b'])`, `z.array(schema)`
+ * - methods: `.optional()`, `.nullable()`, `.describe('text')`,
+ *   `.default(value)`, `.min(n)`, `.max(n)`, `.length(n)` (strings, arrays
+ *   and, except length, numbers), `.email()`, `.url()`, `.int()`; size and
+ *   format methods take an optional error message
+ *
+ * Comments and a trailing semicolon are allowed.
+ */
+export function parseZodDsl(source: string): ZodDslResult {
+  const fail = (message: string, offset: number): ZodDslResult => ({
+    success: false,
+    error: { message, offset, ...locate(source, offset) },
+  });
+
+  if (typeof source !== 'string' || !source.trim()) {
+    return fail('The schema is empty', 0);
+  }
+  if (source.length > ZOD_DSL_MAX_LENGTH) {
+    return fail('The schema is too long', ZOD_DSL_MAX_LENGTH);
+  }
+
+  try {
+    return { success: true, schema: new Parser(tokenize(source)).parse() };
+  } catch (error) {
+    if (error instanceof DslSyntaxError) {
+      return fail(error.message, error.offset);
+    }
+    throw error;
+  }
+}
+
+/**
+ * Describe a parse error for display, e.g. "Line 2, column 5: ..."
+ */
+export function formatZodDslError(error: ZodDslError): string {
+  return `Line ${error.line}, column ${error.column}: ${error.message}`;
+}